@@ -1,6 +1,7 @@
 import * as dotenv from 'dotenv';
 import { DatabaseFactory } from './src/database-factory';
 import { DoorDashClient } from './src/doordash-client';
+import { loadDoorDashEnvironmentConfig, doorDashEnvironmentError } from './src/doordash-environments';
 import chalk from 'chalk';
 
 // Load environment variables
@@ -19,35 +20,33 @@ async function createDoorDashOrder() {
 
   console.log(chalk.blue.bold('\n🚚 Gumagawa ng DoorDash Order (Sandbox Mode)\n'));
 
-  // Check DoorDash credentials
-  const developerId = process.env.DOORDASH_DEVELOPER_ID || '';
-  const keyId = process.env.DOORDASH_KEY_ID || '';
-  const signingSecret = process.env.DOORDASH_SIGNING_SECRET || '';
-  const apiUrl = process.env.DOORDASH_API_URL;
-  const isSandbox = process.env.DOORDASH_SANDBOX === 'true';
+  // Check DoorDash credentials: sandbox ones first, production only where production dispatch is allowed
+  const environments = loadDoorDashEnvironmentConfig();
+  const environment = environments.sandbox ? 'sandbox' : 'production';
+  const credentials = environments.sandbox || environments.production;
 
-  if (!developerId || !keyId || !signingSecret) {
+  if (!credentials) {
     console.error(chalk.red('\n❌ Missing DoorDash credentials sa .env'));
     console.log(chalk.yellow('Kailangan:'));
-    console.log(chalk.gray('  DOORDASH_DEVELOPER_ID=your_developer_id'));
-    console.log(chalk.gray('  DOORDASH_KEY_ID=your_key_id'));
-    console.log(chalk.gray('  DOORDASH_SIGNING_SECRET=your_signing_secret'));
-    console.log(chalk.gray('  DOORDASH_SANDBOX=true (para sa sandbox testing)\n'));
+    console.log(chalk.gray('  DOORDASH_SANDBOX_DEVELOPER_ID=your_developer_id'));
+    console.log(chalk.gray('  DOORDASH_SANDBOX_KEY_ID=your_key_id'));
+    console.log(chalk.gray('  DOORDASH_SANDBOX_SIGNING_SECRET=your_signing_secret'));
+    console.log(chalk.gray('  (o DOORDASH_DEVELOPER_ID, DOORDASH_KEY_ID, DOORDASH_SIGNING_SECRET at DOORDASH_SANDBOX=true)\n'));
+    process.exit(1);
+  }
+
+  const environmentError = doorDashEnvironmentError(environment, environments, true);
+  if (environmentError) {
+    console.error(chalk.red(`\n❌ ${environmentError}\n`));
     process.exit(1);
   }
 
   console.log(chalk.gray('Configuration:'));
-  console.log(chalk.gray(`  Mode: ${isSandbox ? chalk.yellow('SANDBOX (Testing)') : chalk.green('PRODUCTION')}`));
-  console.log(chalk.gray(`  Developer ID: ${developerId.substring(0, 8)}...\n`));
+  console.log(chalk.gray(`  Mode: ${environment === 'sandbox' ? chalk.yellow('SANDBOX (Testing)') : chalk.green('PRODUCTION')}`));
+  console.log(chalk.gray(`  Developer ID: ${credentials.developerId.substring(0, 8)}...\n`));
 
   // Initialize DoorDash client
-  const ddClient = new DoorDashClient({
-    developerId,
-    keyId,
-    signingSecret,
-    apiUrl,
-    isSandbox,
-  });
+  const ddClient = new DoorDashClient({ ...credentials, environment });
 
   // Test connection first
   try {
@@ -128,7 +127,7 @@ async function createDoorDashOrder() {
     const dbAny = database as any;
     if (typeof dbAny.markOrderSentToDoorDash === 'function') {
       try {
-        const markResult = dbAny.markOrderSentToDoorDash(orderId, response.id);
+        const markResult = dbAny.markOrderSentToDoorDash(orderId, response.id, response.tracking_url, 'doordash', environment);
         if (markResult instanceof Promise) {
           await markResult;
         }
@@ -147,7 +146,7 @@ async function createDoorDashOrder() {
     console.log(chalk.green('\n✅ Done! Driver has been notified via DoorDash.\n'));
 
     // If sandbox, show note
-    if (isSandbox) {
+    if (environment === 'sandbox') {
       console.log(chalk.yellow('ℹ️  Note: This is a SANDBOX order (test mode)'));
       console.log(chalk.yellow('   No actual driver will be dispatched.\n'));
     }
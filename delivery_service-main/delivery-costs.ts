@@ -0,0 +1,111 @@
+import * as dotenv from 'dotenv';
+import { DatabaseFactory } from './src/database-factory';
+import { StoreRegistry } from './src/store-registry';
+import { parseReconciliationRange } from './src/delivery-reconciliation';
+import { buildDeliveryCostReport, DeliveryCostTotals, DELIVERY_COST_REPORT_LIMIT } from './src/delivery-costs';
+import chalk from 'chalk';
+
+// Load environment variables
+dotenv.config();
+
+function printUsage(): void {
+  console.log(chalk.yellow('\nUsage:'));
+  console.log(chalk.gray('  npm run delivery-costs -- [--from <date>] [--to <date>] [--store <store_id>] [--orders] [--include-sandbox]'));
+  console.log(chalk.gray('  Dates are ISO timestamps or YYYY-MM-DD (default: the last 30 days). --orders lists every order.\n'));
+}
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Cents as an amount, e.g. 975 -> "9.75", -150 -> "-1.50"
+function money(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Margin right-aligned to width, red when negative
+function marginText(cents: number, width: number): string {
+  const text = money(cents).padStart(width);
+  return cents < 0 ? chalk.red(text) : chalk.green(text);
+}
+
+function printTotals(label: string, totals: DeliveryCostTotals): void {
+  console.log(`  ${label.padEnd(14)} ${String(totals.orders).padStart(6)}  ${money(totals.fee).padStart(10)}  ${money(totals.charge).padStart(10)}  ${marginText(totals.margin, 10)}  ${money(totals.average_margin).padStart(8)}  ${money(totals.tip).padStart(8)}`);
+}
+
+function printHeader(label: string): void {
+  console.log(chalk.bold(`  ${label.padEnd(14)} ${'orders'.padStart(6)}  ${'fee'.padStart(10)}  ${'charge'.padStart(10)}  ${'margin'.padStart(10)}  ${'avg/ord'.padStart(8)}  ${'tips'.padStart(8)}`));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    printUsage();
+    return;
+  }
+  const range = parseReconciliationRange(option(args, '--from'), option(args, '--to'), 24 * 30);
+  if (range.errors.length > 0) {
+    range.errors.forEach(error => console.error(chalk.red(`❌ ${error}`)));
+    printUsage();
+    process.exit(1);
+  }
+  const storeId = option(args, '--store');
+
+  const database = DatabaseFactory.createDatabase();
+  try {
+    const stores = new StoreRegistry(database, 0);
+    await stores.refresh();
+    const ordersResult = database.getDeliveryCostOrders(range.from, range.to, DELIVERY_COST_REPORT_LIMIT + 1, storeId);
+    const orders = ordersResult instanceof Promise ? await ordersResult : ordersResult;
+    const report = buildDeliveryCostReport(orders, {
+      from: range.from,
+      to: range.to,
+      storeId,
+      includeSandbox: args.includes('--include-sandbox'),
+    }, id => stores.get(id)?.timezone || undefined);
+
+    console.log(chalk.blue.bold(`\n💰 Delivery costs ${report.from} - ${report.to}${storeId ? ` (store ${storeId})` : ''}`));
+    console.log(chalk.gray(`   fee: what DoorDash charged | charge: delivery fee the customer paid | margin: charge - fee | tips pass through to the Dasher`));
+    if (report.truncated) {
+      console.log(chalk.yellow(`   ⚠️  More than ${DELIVERY_COST_REPORT_LIMIT} orders in this range - the newest are left out; use a shorter range`));
+    }
+    if (report.currencies.length > 1) {
+      console.log(chalk.yellow(`   ⚠️  Several currencies (${report.currencies.join(', ')}) - totals add them up; report per store instead`));
+    }
+    console.log('');
+
+    if (report.orders.length === 0) {
+      console.log(chalk.gray('   No DoorDash deliveries in this range\n'));
+      return;
+    }
+
+    if (args.includes('--orders')) {
+      console.log(chalk.bold(`  ${'order'.padEnd(14)} ${'day'.padEnd(10)}  ${'status'.padEnd(18)}  ${'fee'.padStart(8)}  ${'charge'.padStart(8)}  ${'margin'.padStart(8)}`));
+      for (const line of report.orders) {
+        const source = line.fee_source === 'delivery' ? '' : chalk.gray(` (${line.fee_source})`);
+        console.log(`  ${line.order_id.padEnd(14)} ${line.day.padEnd(10)}  ${(line.delivery_status || '-').padEnd(18)}  ${money(line.fee).padStart(8)}  ${money(line.charge).padStart(8)}  ${marginText(line.margin, 8)}${source}`);
+      }
+      console.log('');
+    }
+
+    printHeader('store');
+    report.stores.forEach(store => printTotals(store.store_id || '(default)', store));
+    console.log('');
+    printHeader('day');
+    report.days.forEach(day => printTotals(day.day, day));
+    console.log('');
+    printTotals('total', report.totals);
+    console.log('');
+  } finally {
+    const closeResult = database.close();
+    if (closeResult instanceof Promise) {
+      await closeResult;
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(chalk.red.bold('\n❌ Fatal Error:'), error.message || error);
+  process.exit(1);
+});
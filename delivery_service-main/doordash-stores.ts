@@ -0,0 +1,126 @@
+import * as dotenv from 'dotenv';
+import { DatabaseFactory, IDatabase } from './src/database-factory';
+import { DoorDashClient } from './src/doordash-client';
+import { StoreRegistry } from './src/store-registry';
+import { provisionStore, provisioningPlan, ProvisionOptions } from './src/doordash-provisioning';
+import chalk from 'chalk';
+
+// Load environment variables
+dotenv.config();
+
+// Helper function to handle both sync and async database results
+async function handleAsync<T>(result: T | Promise<T>): Promise<T> {
+  return result instanceof Promise ? await result : result;
+}
+
+function printUsage(): void {
+  console.log(chalk.yellow('\nUsage:'));
+  console.log(chalk.gray('  npm run doordash-stores -- businesses [--store <store_id>]'));
+  console.log(chalk.gray('  npm run doordash-stores -- stores <external_business_id> [--store <store_id>]'));
+  console.log(chalk.gray('  npm run doordash-stores -- show <store_id>'));
+  console.log(chalk.gray('  npm run doordash-stores -- provision <store_id> [--business <external_business_id>] [--business-name <name>] [--dd-store <external_store_id>]\n'));
+}
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// The store's own DoorDash credentials, or the DOORDASH_* ones
+async function clientFor(database: IDatabase, storeId?: string): Promise<DoorDashClient> {
+  const registry = new StoreRegistry(database, 0, process.env.DOORDASH_API_URL);
+  const store = storeId ? await handleAsync(database.getStore(storeId)) : null;
+  const client = registry.doorDashClientFor(store || undefined);
+  if (client) {
+    return client;
+  }
+  const { DOORDASH_DEVELOPER_ID: developerId, DOORDASH_KEY_ID: keyId, DOORDASH_SIGNING_SECRET: signingSecret } = process.env;
+  if (!developerId || !keyId || !signingSecret) {
+    throw new Error('DoorDash credentials missing: set DOORDASH_DEVELOPER_ID, DOORDASH_KEY_ID and DOORDASH_SIGNING_SECRET, or the store\'s own');
+  }
+  return new DoorDashClient({ developerId, keyId, signingSecret, apiUrl: process.env.DOORDASH_API_URL });
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (!['businesses', 'stores', 'show', 'provision'].includes(command)) {
+    printUsage();
+    process.exit(command ? 1 : 0);
+  }
+
+  const database = DatabaseFactory.createDatabase();
+
+  try {
+    if (command === 'businesses') {
+      const businesses = await (await clientFor(database, option(args, '--store'))).listBusinesses();
+      console.log(chalk.blue.bold(`\n🏢 DoorDash businesses - ${businesses.length}\n`));
+      for (const business of businesses) {
+        console.log(`  ${chalk.bold(business.external_business_id)}  ${business.name}${chalk.gray(`  (${business.activation_status || 'unknown'})`)}`);
+      }
+      console.log('');
+      return;
+    }
+
+    if (command === 'stores') {
+      if (!args[0] || args[0].startsWith('--')) {
+        printUsage();
+        process.exit(1);
+      }
+      const stores = await (await clientFor(database, option(args, '--store'))).listStores(args[0]);
+      console.log(chalk.blue.bold(`\n🏪 DoorDash stores of ${args[0]} - ${stores.length}\n`));
+      for (const store of stores) {
+        console.log(`  ${chalk.bold(store.external_store_id)}  ${store.name}  ${chalk.gray(`${store.address || ''} ${store.phone_number || ''}`)}`);
+      }
+      console.log('');
+      return;
+    }
+
+    const storeId = args[0];
+    const store = storeId ? await handleAsync(database.getStore(storeId)) : null;
+    if (!store) {
+      console.error(chalk.red(`\n❌ Store ${storeId || '(none)'} not found. Register it first (PUT /admin/stores/:storeId).\n`));
+      process.exit(1);
+    }
+
+    if (command === 'show') {
+      if (!store.doordash_business_id || !store.doordash_store_id) {
+        const plan = provisioningPlan(store);
+        console.log(chalk.yellow(`\n⚠️  Store ${store.store_id} is not provisioned on DoorDash; deliveries use its pickup address.`));
+        console.log(chalk.gray(`   Would provision business ${plan.business.external_business_id} (${plan.business.name}), store ${plan.store.external_store_id}`));
+        plan.errors.forEach(error => console.log(chalk.red(`   - ${error}`)));
+        console.log('');
+        return;
+      }
+      const doorDashStore = await (await clientFor(database, store.store_id)).getStore(store.doordash_business_id, store.doordash_store_id);
+      console.log(chalk.blue.bold(`\n🏪 Store ${store.store_id} on DoorDash: ${store.doordash_business_id}/${store.doordash_store_id}`));
+      console.log(chalk.gray(`   ${doorDashStore.name} | ${doorDashStore.address || 'no address'} | ${doorDashStore.phone_number || 'no phone'}${doorDashStore.status ? ` | ${doorDashStore.status}` : ''}\n`));
+      return;
+    }
+
+    const options: ProvisionOptions = {
+      external_business_id: option(args, '--business'),
+      business_name: option(args, '--business-name'),
+      external_store_id: option(args, '--dd-store'),
+      country: store.country || process.env.DEFAULT_COUNTRY,
+    };
+    const result = await provisionStore(await clientFor(database, store.store_id), store, options);
+    await handleAsync(database.saveStore({
+      ...store,
+      doordash_business_id: result.business.external_business_id,
+      doordash_store_id: result.store.external_store_id,
+    }));
+    console.log(chalk.green(`\n✅ Business ${result.business.external_business_id} ${result.business_created ? 'created' : 'updated'}`));
+    console.log(chalk.green(`✅ Store ${result.store.external_store_id} ${result.store_created ? 'created' : 'updated'}`));
+    console.log(chalk.gray(`   Deliveries for store ${store.store_id} now use pickup_external_business_id/pickup_external_store_id\n`));
+  } finally {
+    const closeResult = database.close();
+    if (closeResult instanceof Promise) {
+      await closeResult;
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(chalk.red.bold('\n❌ Fatal Error:'), error.message || error);
+  process.exit(1);
+});
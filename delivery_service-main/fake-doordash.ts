@@ -0,0 +1,38 @@
+import * as dotenv from 'dotenv';
+import chalk from 'chalk';
+import { DoorDashSimulator, loadDoorDashSimulatorConfig } from './src/doordash-simulator';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Local stand-in for the DoorDash Drive API, for running the whole stack without DoorDash. It checks the
+ * JWT against DOORDASH_SIGNING_SECRET, moves each delivery through the Dasher lifecycle and posts
+ * DoorDash-style webhooks to the server.
+ *
+ *   npm run fake-doordash
+ *   DOORDASH_API_URL=http://localhost:3200/drive/v2 npm run webhook
+ *
+ * Skip ahead:  curl -X POST http://localhost:3200/fake/deliveries/<order id>/advance
+ */
+const config = loadDoorDashSimulatorConfig();
+if (!config.signingSecret) {
+  console.error(chalk.red('❌ DOORDASH_SIGNING_SECRET is required (the simulator verifies the JWT with it)'));
+  process.exit(1);
+}
+
+const simulator = new DoorDashSimulator(config);
+
+simulator.start().then(baseUrl => {
+  console.log(chalk.blue.bold(`\n🧪 Fake DoorDash Drive API on ${baseUrl}`));
+  console.log(chalk.gray(`   Lifecycle step: ${config.stepMs}ms, fee: ${config.feeCents} cents`));
+  console.log(chalk.gray(`   Webhooks: ${config.webhookUrl || 'off'}${config.webhookUrl && !config.webhookAuth ? ' (DOORDASH_WEBHOOK_AUTH not set, the server will refuse them)' : ''}`));
+  console.log(chalk.gray(`   Deliveries: GET http://localhost:${new URL(baseUrl).port}/fake/deliveries\n`));
+}).catch(error => {
+  console.error(chalk.red(`❌ Could not start the DoorDash simulator: ${error.message}`));
+  process.exit(1);
+});
+
+process.on('SIGINT', () => {
+  simulator.stop().then(() => process.exit(0));
+});
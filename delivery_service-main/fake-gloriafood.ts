@@ -0,0 +1,140 @@
+import * as dotenv from 'dotenv';
+import express, { Request, Response } from 'express';
+import chalk from 'chalk';
+import { GLORIAFOOD_POLL_PATH, GLORIAFOOD_MENU_PATH, GloriaFoodOrder, GloriaFoodMenu } from './src/gloriafood-client';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Local stand-in for GloriaFood's poll and menu APIs, for testing polling mode and menu sync without a real restaurant.
+ *
+ *   npm run fake-gloriafood
+ *   GLORIAFOOD_API_URL=http://localhost:3100 npm run dev
+ *
+ * Queue an order:  curl -X POST http://localhost:3100/fake/orders -H "Content-Type: application/json" -d '{}'
+ */
+const port = parseInt(process.env.FAKE_GLORIAFOOD_PORT || '3100', 10);
+const restaurantKey = process.env.GLORIAFOOD_API_KEY || 'test-key';
+const storeId = process.env.GLORIAFOOD_STORE_ID || 'test-store';
+const autoOrderMs = parseInt(process.env.FAKE_GLORIAFOOD_ORDER_INTERVAL_MS || '0', 10);
+
+const pendingOrders: GloriaFoodOrder[] = [];
+let nextOrderId = Date.now() % 1000000;
+
+const sampleMenu: GloriaFoodMenu = {
+  id: 1,
+  restaurant_id: storeId,
+  currency: 'USD',
+  categories: [
+    {
+      id: 10,
+      name: 'Pizza',
+      items: [
+        {
+          id: 101,
+          name: 'Margherita Pizza',
+          price: 0,
+          sizes: [
+            { id: 1011, name: 'Medium', price: 14.5, default: true },
+            { id: 1012, name: 'Large', price: 16.5 },
+          ],
+          groups: [
+            { id: 201, name: 'Extra toppings', force_min: 0, force_max: 3, options: [
+              { id: 2011, name: 'Extra cheese', price: 1.5 },
+              { id: 2012, name: 'Olives', price: 1 },
+            ] },
+          ],
+        },
+      ],
+    },
+    {
+      id: 11,
+      name: 'Sides',
+      items: [
+        { id: 102, name: 'Garlic Bread', price: 4 },
+      ],
+    },
+  ],
+};
+
+function sampleOrder(overrides: any = {}): GloriaFoodOrder {
+  const id = (nextOrderId++).toString();
+  return {
+    id,
+    restaurant_id: storeId,
+    type: 'delivery',
+    status: 'accepted',
+    client_first_name: 'Test',
+    client_last_name: `Customer ${id}`,
+    client_email: 'test.customer@example.com',
+    client_phone: '+15555550123',
+    client_address: '123 Main St, San Francisco, CA 94105',
+    client_address_parts: { street: '123 Main St', city: 'San Francisco', state: 'CA', zipcode: '94105', country: 'US' },
+    total_price: 24.5,
+    currency: 'USD',
+    instructions: 'Leave at the door',
+    items: [
+      { type: 'item', type_id: 101, name: 'Margherita Pizza', quantity: 1, price: 16.5, options: [
+        { type: 'size', type_id: 1012, name: 'Large', price: 0 },
+      ] },
+      { type: 'item', type_id: 102, name: 'Garlic Bread', quantity: 2, price: 4 },
+    ],
+    accepted_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+const app = express();
+app.use(express.json());
+
+// GloriaFood poll API: returns every pending order once, then forgets it
+app.post(GLORIAFOOD_POLL_PATH, (req: Request, res: Response) => {
+  if (req.headers['authorization'] !== restaurantKey) {
+    console.log(chalk.red(`❌ Poll rejected: wrong restaurant key`));
+    return res.status(401).json({ error: 'Invalid restaurant key' });
+  }
+  if (!req.headers['glf-api-version']) {
+    console.log(chalk.red(`❌ Poll rejected: missing Glf-Api-Version header`));
+    return res.status(400).json({ error: 'Missing Glf-Api-Version header' });
+  }
+
+  const orders = pendingOrders.splice(0, pendingOrders.length);
+  console.log(chalk.cyan(`📤 Poll (v${req.headers['glf-api-version']}): returning ${orders.length} order(s)`));
+  res.json({ count: orders.length, orders });
+});
+
+// GloriaFood menu API
+app.get(GLORIAFOOD_MENU_PATH, (req: Request, res: Response) => {
+  if (req.headers['authorization'] !== restaurantKey) {
+    return res.status(401).json({ error: 'Invalid restaurant key' });
+  }
+  console.log(chalk.cyan(`📤 Menu requested`));
+  res.json(sampleMenu);
+});
+
+// Test helper: queue an order (body fields override the sample order)
+app.post('/fake/orders', (req: Request, res: Response) => {
+  const order = sampleOrder(req.body || {});
+  pendingOrders.push(order);
+  console.log(chalk.green(`🆕 Queued order #${order.id} (${pendingOrders.length} pending)`));
+  res.json({ success: true, order_id: order.id, pending: pendingOrders.length });
+});
+
+app.get('/fake/orders', (req: Request, res: Response) => {
+  res.json({ count: pendingOrders.length, orders: pendingOrders });
+});
+
+app.listen(port, () => {
+  console.log(chalk.blue.bold(`\n🧪 Fake GloriaFood poll API on http://localhost:${port}${GLORIAFOOD_POLL_PATH}`));
+  console.log(chalk.gray(`   Restaurant key: ${restaurantKey === 'test-key' ? 'test-key (GLORIAFOOD_API_KEY not set)' : 'GLORIAFOOD_API_KEY'}`));
+  console.log(chalk.gray(`   Queue orders with: POST http://localhost:${port}/fake/orders\n`));
+
+  if (autoOrderMs > 0) {
+    setInterval(() => {
+      const order = sampleOrder();
+      pendingOrders.push(order);
+      console.log(chalk.green(`🆕 Generated order #${order.id}`));
+    }, autoOrderMs);
+  }
+});
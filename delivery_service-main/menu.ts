@@ -0,0 +1,102 @@
+import * as dotenv from 'dotenv';
+import { DatabaseFactory, MenuCatalog, OrderItemLink } from './src/database-factory';
+import { MenuCatalogService, buildMenuSources } from './src/menu-catalog';
+import chalk from 'chalk';
+
+// Load environment variables
+dotenv.config();
+
+// Helper function to handle both sync and async database results
+async function handleAsync<T>(result: T | Promise<T>): Promise<T> {
+  return result instanceof Promise ? await result : result;
+}
+
+function displayCatalog(catalog: MenuCatalog): void {
+  console.log(chalk.blue.bold(`\n📖 Menu for store ${catalog.store_id}`));
+  console.log(chalk.gray(`   Last synced: ${catalog.synced_at || 'never'}${catalog.currency ? ` | Currency: ${catalog.currency}` : ''}\n`));
+  if (catalog.items.length === 0) {
+    console.log(chalk.gray('  No menu items. Run: npm run menu -- sync\n'));
+    return;
+  }
+
+  for (const category of catalog.categories) {
+    console.log(chalk.yellow.bold(`  ${category.name}${category.active ? '' : chalk.gray(' (inactive)')}`));
+    for (const item of catalog.items.filter(i => i.category_id === category.category_id)) {
+      const sizes = catalog.sizes.filter(z => z.item_id === item.item_id);
+      const price = sizes.length > 0
+        ? sizes.map(z => `${z.name} ${z.price.toFixed(2)}`).join(' / ')
+        : item.price.toFixed(2);
+      console.log(`    ${chalk.gray(`[${item.item_id}]`)} ${item.name}  ${chalk.cyan(price)}${item.active ? '' : chalk.gray(' (inactive)')}`);
+    }
+  }
+  console.log(chalk.gray(`\n  ${catalog.items.length} items, ${catalog.sizes.length} sizes, ${catalog.groups.length} option groups, ${catalog.options.length} options\n`));
+}
+
+function displayMismatch(link: OrderItemLink): void {
+  const charged = Number(link.order_price);
+  const menu = Number(link.menu_price);
+  console.log(
+    `  ${chalk.bold(`#${link.gloriafood_order_id}`)}  ${link.menu_name || link.order_item_name}` +
+    `  charged ${chalk.red(charged.toFixed(2))}, menu ${chalk.green(menu.toFixed(2))}` +
+    chalk.gray(`  (${link.linked_at || ''})`)
+  );
+}
+
+function printUsage(): void {
+  console.log(chalk.yellow('\nUsage:'));
+  console.log(chalk.gray('  npm run menu -- sync [<store_id>]'));
+  console.log(chalk.gray('  npm run menu -- show [<store_id>]'));
+  console.log(chalk.gray('  npm run menu -- mismatches [--limit <n>]\n'));
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (!['sync', 'show', 'mismatches'].includes(command)) {
+    printUsage();
+    process.exit(command ? 1 : 0);
+  }
+
+  const apiKey = process.env.GLORIAFOOD_API_KEY || '';
+  const storeId = process.env.GLORIAFOOD_STORE_ID || '';
+  const database = DatabaseFactory.createDatabase();
+
+  try {
+    if (command === 'sync') {
+      // Every registered store with a restaurant key, plus the GLORIAFOOD_API_KEY store
+      const sources = async () => buildMenuSources(await handleAsync(database.getStores()), {
+        apiKey,
+        storeId,
+        apiUrl: process.env.GLORIAFOOD_API_URL,
+        protocolVersion: process.env.GLORIAFOOD_PROTOCOL_VERSION,
+      });
+      await new MenuCatalogService(database, sources, storeId).sync(args[0]);
+      return;
+    }
+
+    if (command === 'show') {
+      displayCatalog(await handleAsync(database.getMenuCatalog(args[0] || storeId)));
+      return;
+    }
+
+    const limitIndex = args.indexOf('--limit');
+    const limit = limitIndex >= 0 ? parseInt(args[limitIndex + 1], 10) || 50 : 50;
+    const mismatches = await handleAsync(database.getPriceMismatches(limit));
+    console.log(chalk.blue.bold(`\n💲 Price mismatches - ${mismatches.length} order line(s)\n`));
+    if (mismatches.length === 0) {
+      console.log(chalk.gray('  All linked order items match the current menu.\n'));
+      return;
+    }
+    mismatches.forEach(displayMismatch);
+    console.log('');
+  } finally {
+    const closeResult = database.close();
+    if (closeResult instanceof Promise) {
+      await closeResult;
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(chalk.red.bold('\n❌ Fatal Error:'), error);
+  process.exit(1);
+});
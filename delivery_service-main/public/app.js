@@ -51,6 +51,10 @@ async function loadStats() {
             document.getElementById('totalOrders').textContent = data.total_orders || 0;
             document.getElementById('recent1h').textContent = data.recent_orders_1h || 0;
             document.getElementById('recent24h').textContent = data.recent_orders_24h || 0;
+            document.getElementById('scheduledOrders').textContent = data.scheduled_orders || 0;
+            const failedDispatches = data.failed_dispatches || 0;
+            document.getElementById('failedDispatches').textContent = failedDispatches;
+            document.getElementById('failedDispatchesItem').classList.toggle('stat-alert', failedDispatches > 0);
             document.getElementById('connectionStatus').textContent = '🟢 Connected';
         }
     } catch (error) {
@@ -224,10 +228,75 @@ function createOrderCard(order, isNew = false) {
             ` : ''}
             ${order.doordash_order_id ? `
                 <div class="info-item" style="margin-top: 8px;">
-                    <span class="info-label">DoorDash ID</span>
+                    <span class="info-label">${order.delivery_provider === 'inhouse' ? 'In-House Delivery ID' : 'DoorDash ID'}</span>
                     <span class="info-value">${escapeHtml(order.doordash_order_id)}</span>
                 </div>
             ` : ''}
+            ${order.doordash_environment && order.delivery_provider !== 'inhouse' ? `
+                <div class="info-item" style="margin-top: 8px;">
+                    <span class="info-label">DoorDash Environment</span>
+                    <span class="info-value">${order.doordash_environment === 'sandbox' ? '🧪 Sandbox (test delivery)' : 'Production'}</span>
+                </div>
+            ` : ''}
+            ${order.doordash_status ? `
+                <div class="info-item" style="margin-top: 8px;">
+                    <span class="info-label">Delivery Status</span>
+                    <span class="info-value">
+                        ${escapeHtml(order.doordash_status.replace(/_/g, ' '))}
+                        ${order.doordash_dasher_name ? ` · ${order.delivery_provider === 'inhouse' ? 'Driver' : 'Dasher'} ${escapeHtml(order.doordash_dasher_name)}${order.doordash_dasher_phone ? ` (${escapeHtml(order.doordash_dasher_phone)})` : ''}` : ''}
+                        ${order.doordash_dropoff_eta ? ` · ETA ${formatDate(order.doordash_dropoff_eta)}` : ''}
+                    </span>
+                </div>
+            ` : ''}
+            ${order.doordash_cancel_status ? `
+                <div class="info-item ${order.doordash_cancel_status === 'failed' ? 'cancel-failed' : ''}" style="margin-top: 8px;">
+                    <span class="info-label">DoorDash Cancellation</span>
+                    <span class="info-value">
+                        ${order.doordash_cancel_status === 'failed' ? '⚠️ Failed' : 'Cancelled'} · ${formatDate(order.doordash_cancelled_at)}
+                        ${order.doordash_cancel_error ? `<br>${escapeHtml(order.doordash_cancel_error)}` : ''}
+                    </span>
+                </div>
+            ` : ''}
+            ${order.scheduled_for ? `
+                <div class="info-item ${order.scheduled_dispatch_at && !order.sent_to_doordash ? 'order-scheduled' : ''}" style="margin-top: 8px;">
+                    <span class="info-label">⏰ Scheduled For</span>
+                    <span class="info-value">
+                        ${formatDate(order.scheduled_for)}
+                        ${order.scheduled_dispatch_at && !order.sent_to_doordash ? ` · DoorDash dispatch ${formatDate(new Date(Number(order.scheduled_dispatch_at)).toISOString())}` : ''}
+                    </span>
+                </div>
+            ` : ''}
+            ${order.doordash_quote_status ? `
+                <div class="info-item quote-${escapeHtml(order.doordash_quote_status)}" style="margin-top: 8px;">
+                    <span class="info-label">DoorDash Quote (${escapeHtml(order.doordash_quote_status)})</span>
+                    <span class="info-value">
+                        Fee ${formatCurrency((order.doordash_quote_fee || 0) / 100, order.doordash_quote_currency || order.currency || 'USD')}
+                        · Pickup ${formatDate(order.doordash_quote_pickup_eta)}
+                        · Dropoff ${formatDate(order.doordash_quote_dropoff_eta)}
+                        ${order.doordash_quote_reason ? `<br>${escapeHtml(order.doordash_quote_reason)}` : ''}
+                    </span>
+                </div>
+            ` : ''}
+            ${order.needs_review ? `
+                <div class="info-item review-needed" style="margin-top: 8px;">
+                    <span class="info-label">⚠️ Needs Manual Review</span>
+                    <span class="info-value">${escapeHtml(order.review_reason)}</span>
+                </div>
+            ` : order.doordash_update_status === 'failed' ? `
+                <div class="info-item update-failed" style="margin-top: 8px;">
+                    <span class="info-label">DoorDash Update Failed · ${formatDate(order.doordash_updated_at)}</span>
+                    <span class="info-value">${escapeHtml(order.doordash_update_error)}</span>
+                </div>
+            ` : ''}
+            ${order.dispatch_last_error && !order.sent_to_doordash ? `
+                <div class="info-item dispatch-failed" style="margin-top: 8px;">
+                    <span class="info-label">DoorDash Dispatch (${order.dispatch_attempts || 0} attempt${order.dispatch_attempts === 1 ? '' : 's'})</span>
+                    <span class="info-value">
+                        ${order.dispatch_next_retry_at ? `Next retry ${formatDate(new Date(Number(order.dispatch_next_retry_at)).toISOString())}` : '⚠️ Gave up'}
+                        <br>${escapeHtml(order.dispatch_last_error)}
+                    </span>
+                </div>
+            ` : ''}
             ${items.length > 0 ? `
                 <div class="order-items">
                     <div class="order-items-title">Items:</div>
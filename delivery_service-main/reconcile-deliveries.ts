@@ -0,0 +1,107 @@
+import * as dotenv from 'dotenv';
+import { DatabaseFactory, Order } from './src/database-factory';
+import { DoorDashClient } from './src/doordash-client';
+import { StoreRegistry } from './src/store-registry';
+import { loadDoorDashEnvironmentConfig, environmentForOrder, recordedEnvironment } from './src/doordash-environments';
+import { DeliveryReconciler, ReconciliationIssue, parseReconciliationRange } from './src/delivery-reconciliation';
+import chalk from 'chalk';
+
+// Load environment variables
+dotenv.config();
+
+function printUsage(): void {
+  console.log(chalk.yellow('\nUsage:'));
+  console.log(chalk.gray('  npm run reconcile -- [--from <date>] [--to <date>] [--store <store_id>] [--repair]'));
+  console.log(chalk.gray('  Dates are ISO timestamps or YYYY-MM-DD (default: the last DOORDASH_RECONCILE_LOOKBACK_HOURS, 24h).'));
+  console.log(chalk.gray('  Without --repair nothing is changed. Exits 1 when issues are left unrepaired.\n'));
+}
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function parseRawData(order: Order): any {
+  try {
+    return JSON.parse(order.raw_data || '{}');
+  } catch {
+    return {};
+  }
+}
+
+const KIND_LABELS: { [kind: string]: string } = {
+  orphaned: 'Orphaned delivery',
+  missing: 'Missing delivery',
+  status_mismatch: 'Status mismatch',
+  missed_cancellation: 'Missed cancellation',
+};
+
+function printIssue(issue: ReconciliationIssue): void {
+  const mark = issue.repaired ? chalk.green('✅') : chalk.yellow('⚠️ ');
+  console.log(`  ${mark} ${chalk.bold(`#${issue.order_id}`)} ${KIND_LABELS[issue.kind]}${issue.store_id ? chalk.gray(` (store ${issue.store_id})`) : ''}`);
+  console.log(chalk.gray(`     ${issue.detail}`));
+  if (issue.repair) {
+    console.log(chalk.gray(`     ${issue.repair}`));
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    printUsage();
+    return;
+  }
+  const lookbackHours = parseInt(process.env.DOORDASH_RECONCILE_LOOKBACK_HOURS || '24', 10);
+  const range = parseReconciliationRange(option(args, '--from'), option(args, '--to'), lookbackHours);
+  if (range.errors.length > 0) {
+    range.errors.forEach(error => console.error(chalk.red(`❌ ${error}`)));
+    printUsage();
+    process.exit(1);
+  }
+  const repair = args.includes('--repair');
+
+  // The same clients the server uses: the recorded environment of sent orders, else where they would go
+  const environments = loadDoorDashEnvironmentConfig();
+  const sandboxClient = environments.sandbox ? new DoorDashClient({ ...environments.sandbox, environment: 'sandbox' }) : undefined;
+  const productionClient = environments.production ? new DoorDashClient({ ...environments.production, environment: 'production' }) : undefined;
+
+  const database = DatabaseFactory.createDatabase();
+  const stores = new StoreRegistry(database, 0, environments.production?.apiUrl);
+  await stores.refresh();
+
+  const clientFor = (order: Order): DoorDashClient | undefined => {
+    const store = stores.get(order.store_id);
+    const storeClient = stores.doorDashClientFor(store);
+    const environment = order.sent_to_doordash
+      ? recordedEnvironment(order.doordash_environment, environments, !!storeClient)
+      : environmentForOrder(parseRawData(order), environments);
+    return environment === 'sandbox' ? sandboxClient : storeClient || productionClient;
+  };
+
+  try {
+    if (!sandboxClient && !productionClient) {
+      throw new Error('DoorDash credentials missing: set DOORDASH_SANDBOX_* and/or DOORDASH_* credentials');
+    }
+    const reconciler = new DeliveryReconciler(database, { intervalMs: 0, lookbackHours, repair, pageSize: 500 }, clientFor);
+    const report = await reconciler.reconcile({ from: range.from, to: range.to, storeId: option(args, '--store'), repair });
+
+    console.log(chalk.blue.bold(`\n🔎 DoorDash reconciliation ${report.from} - ${report.to}${report.store_id ? ` (store ${report.store_id})` : ''}\n`));
+    console.log(chalk.gray(`   ${report.checked} order(s) checked, ${report.skipped} skipped${repair ? '' : ' - dry run, nothing changed (--repair to fix)'}\n`));
+    report.issues.forEach(printIssue);
+    report.errors.forEach(error => console.log(`  ${chalk.red('❌')} ${chalk.bold(`#${error.order_id}`)} ${chalk.gray(error.error)}`));
+    console.log(report.issues.length === 0 && report.errors.length === 0
+      ? chalk.green('\n✅ Everything matches DoorDash\n')
+      : chalk.yellow(`\n${report.issues.length} issue(s), ${report.issues.filter(issue => issue.repaired).length} repaired, ${report.errors.length} lookup error(s)\n`));
+    process.exitCode = report.issues.some(issue => !issue.repaired) || report.errors.length > 0 ? 1 : 0;
+  } finally {
+    const closeResult = database.close();
+    if (closeResult instanceof Promise) {
+      await closeResult;
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(chalk.red.bold('\n❌ Fatal Error:'), error.message || error);
+  process.exit(1);
+});
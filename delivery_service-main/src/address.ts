@@ -0,0 +1,207 @@
+import { US_STATES, statesForZip } from './us-zip-states';
+import { toE164 } from './phone';
+
+export interface ParsedAddress {
+  street?: string;
+  unit?: string; // apartment, suite, floor...
+  city?: string;
+  state?: string; // 2-letter code
+  zip?: string;
+}
+
+export interface DropoffAddress extends ParsedAddress {
+  country: string;
+}
+
+// Customer dropoff details, checked before an order is sent to DoorDash
+export interface ResolvedDropoff {
+  address: DropoffAddress;
+  addressText: string; // single line for Drive's dropoff_address
+  phone?: string; // E.164
+  accessNotes?: string; // intercom and other directions from the address, for the dropoff instructions
+  errors: string[]; // empty when the order can be dispatched
+}
+
+const UNIT_DESIGNATOR = '(?:(?:apt|apartment|suite|ste|unit|fl|floor|rm|room|bldg|building|lot|spc|space|dept)\\.?\\s*|#\\s*)[\\w-]+';
+const UNIT_SUFFIX = new RegExp(`\\s+(${UNIT_DESIGNATOR})$`, 'i');
+const UNIT_PREFIX = new RegExp(`^${UNIT_DESIGNATOR}`, 'i');
+const US_COUNTRY_NAMES = ['US', 'USA', 'U.S.', 'U.S.A.', 'UNITED STATES', 'UNITED STATES OF AMERICA'];
+const STATE_NAMES = Object.entries(US_STATES).sort(([, a], [, b]) => b.length - a.length);
+
+/**
+ * 2-letter code of a US state given by code or name, or undefined
+ */
+export function normalizeState(value: any): string | undefined {
+  const text = (value ?? '').toString().trim().replace(/\./g, '');
+  if (!text) return undefined;
+  const upper = text.toUpperCase();
+  if (US_STATES[upper]) return upper;
+  const byName = STATE_NAMES.find(([, name]) => name.toUpperCase() === upper);
+  return byName ? byName[0] : undefined;
+}
+
+/**
+ * Country as an ISO 3166 code where it can be recognised ("United States" -> "US")
+ */
+export function normalizeCountry(value: any, defaultCountry: string = 'US'): string {
+  const text = (value ?? '').toString().trim().toUpperCase();
+  if (!text) return defaultCountry.toUpperCase();
+  return US_COUNTRY_NAMES.includes(text) ? 'US' : text;
+}
+
+// A state (code or name) at the end of an address segment, and what comes before it
+function stateSuffix(segment: string): { state: string; rest: string } | undefined {
+  const lower = segment.toLowerCase();
+  for (const [code, name] of STATE_NAMES) {
+    const suffix = name.toLowerCase();
+    if (lower === suffix || lower.endsWith(` ${suffix}`)) {
+      return { state: code, rest: segment.slice(0, segment.length - suffix.length).trim() };
+    }
+  }
+  const match = segment.match(/(?:^|\s)([A-Za-z]{2})\.?$/);
+  if (match && US_STATES[match[1].toUpperCase()]) {
+    return { state: match[1].toUpperCase(), rest: segment.slice(0, match.index).trim() };
+  }
+  return undefined;
+}
+
+/**
+ * Parse a freeform US address such as "12 Main St Apt 4, Springfield, IL 62704".
+ * The city is only recognised when a comma separates it from the street.
+ */
+export function parseUsAddress(text: string): ParsedAddress {
+  const normalized = (text || '').replace(/\s+/g, ' ').trim()
+    .replace(/,?\s*(?:USA|U\.S\.A\.|United States(?: of America)?|US)$/i, '');
+  const segments = normalized.split(',').map(segment => segment.trim()).filter(Boolean);
+  const result: ParsedAddress = {};
+  if (segments.length === 0) {
+    return result;
+  }
+
+  // ZIP and state from the end
+  let last = segments[segments.length - 1];
+  const zip = last.match(/(?:^|\s)(\d{5})(?:-\d{4})?$/);
+  if (zip) {
+    result.zip = zip[1];
+    last = last.slice(0, zip.index).trim();
+  }
+  if (zip || segments.length > 1) {
+    const state = stateSuffix(last);
+    if (state) {
+      result.state = state.state;
+      last = state.rest;
+    }
+  }
+  if (last) {
+    segments[segments.length - 1] = last;
+  } else {
+    segments.pop();
+  }
+  if (!result.state && segments.length > 1) {
+    // "Springfield, IL, 62704"
+    const state = normalizeState(segments[segments.length - 1]);
+    if (state) {
+      result.state = state;
+      segments.pop();
+    }
+  }
+
+  if (segments.length > 1) {
+    result.city = segments.pop();
+  }
+  const [street, ...rest] = segments;
+  if (street) {
+    const unit = street.match(UNIT_SUFFIX);
+    result.street = unit ? street.slice(0, unit.index).trim() : street;
+    const units = [unit?.[1], ...rest].filter(Boolean);
+    if (units.length > 0) {
+      result.unit = units.join(' ');
+    }
+  }
+  return result;
+}
+
+// "4B" -> "Apt 4B"; values that already name their unit ("Suite 200", "#4") are kept
+function withDesignator(value: any, designator: string): string | undefined {
+  const text = (value ?? '').toString().trim();
+  if (!text) return undefined;
+  return UNIT_PREFIX.test(text) ? text : `${designator} ${text}`;
+}
+
+/**
+ * Single-line address for DoorDash
+ */
+export function formatAddress(address: DropoffAddress): string {
+  const street = [address.street, address.unit].filter(Boolean).join(' ');
+  return [street, address.city, [address.state, address.zip].filter(Boolean).join(' '), address.country]
+    .filter(Boolean).join(', ');
+}
+
+/**
+ * Dropoff address and phone of a GloriaFood order. client_address_parts wins over the parsed freeform
+ * client_address; the restaurant's city, state or ZIP are never used. defaultCountry: the store's country,
+ * for orders without one and for phone numbers without a country code.
+ */
+export function resolveDropoff(orderData: any, defaultCountry: string = 'US'): ResolvedDropoff {
+  const parts = orderData.client_address_parts || {};
+  const country = normalizeCountry(parts.country, defaultCountry);
+  const isUs = country === 'US';
+  const freeform = (orderData.client_address || '').toString();
+  const parsed: ParsedAddress = isUs && freeform ? parseUsAddress(freeform) : { street: freeform || undefined };
+
+  const street = (parts.street || '').toString().trim();
+  // GloriaFood splits the unit into apartment, floor and bloc (building)
+  const unitParts = [
+    withDesignator(parts.unit, 'Unit') || withDesignator(parts.apartment, 'Apt'),
+    withDesignator(parts.floor, 'Fl'),
+    withDesignator(parts.bloc, 'Bldg'),
+  ].filter(Boolean);
+  const address: DropoffAddress = {
+    street: street || parsed.street,
+    // A unit from the freeform address only belongs to the street it was parsed from
+    unit: unitParts.join(' ') || (street ? undefined : parsed.unit),
+    city: (parts.city || '').toString().trim() || parsed.city,
+    state: isUs ? normalizeState(parts.state) || parsed.state : (parts.state || '').toString().trim() || undefined,
+    zip: (parts.zip || parts.zipcode || parts.postal_code || '').toString().trim() || parsed.zip,
+    country,
+  };
+  const intercom = (parts.intercom || '').toString().trim();
+  const accessNotes = [intercom && `Intercom: ${intercom}`, (parts.more_address || '').toString().trim()]
+    .filter(Boolean).join('; ') || undefined;
+
+  const errors: string[] = [];
+  const invalidState = isUs && !!parts.state && !normalizeState(parts.state);
+  const missing = [
+    ['street', address.street],
+    ['city', address.city],
+    ...(isUs ? [['state', address.state || invalidState], ['ZIP code', address.zip]] : []),
+  ].filter(([, value]) => !value).map(([label]) => label);
+  if (missing.length > 0) {
+    errors.push(`Dropoff address is missing the ${missing.join(', ')}`);
+  }
+  if (invalidState) {
+    errors.push(`Dropoff state "${parts.state}" is not a US state`);
+  }
+  if (isUs && address.zip) {
+    if (!/^\d{5}(-\d{4})?$/.test(address.zip)) {
+      errors.push(`Dropoff ZIP code "${address.zip}" is not a valid US ZIP code`);
+    } else {
+      const states = statesForZip(address.zip);
+      if (states.length === 0) {
+        errors.push(`Dropoff ZIP code ${address.zip} is not a known US ZIP code`);
+      } else if (address.state && !states.includes(address.state)) {
+        errors.push(`Dropoff ZIP code ${address.zip} is in ${states.join('/')}, not ${address.state}`);
+      }
+    }
+  }
+
+  const rawPhone = orderData.client_phone || orderData.client?.phone || '';
+  const phone = toE164(rawPhone, defaultCountry);
+  if (!rawPhone) {
+    errors.push('Customer phone number is missing');
+  } else if (!phone) {
+    errors.push(`Customer phone number "${rawPhone}" is not a valid number for ${defaultCountry.toUpperCase()}`);
+  }
+
+  return { address, addressText: formatAddress(address), phone, accessNotes, errors };
+}
@@ -0,0 +1,33 @@
+import axios from 'axios';
+import chalk from 'chalk';
+
+export interface Alert {
+  title: string;
+  message: string;
+  order_id?: string;
+  store_id?: string;
+}
+
+/**
+ * Raise an operational alert: always logged, and posted to ALERT_WEBHOOK_URL when set.
+ * The webhook body is Slack-compatible ({ text }) and also carries the alert fields.
+ * Never throws - a failing alert channel must not break order processing.
+ */
+export async function sendAlert(alert: Alert): Promise<void> {
+  console.error(chalk.red.bold(`\n🚨 ALERT: ${alert.title}`));
+  console.error(chalk.red(`   ${alert.message}`));
+
+  const url = process.env.ALERT_WEBHOOK_URL;
+  if (!url) {
+    return;
+  }
+  try {
+    const context = [alert.order_id && `order #${alert.order_id}`, alert.store_id && `store ${alert.store_id}`].filter(Boolean).join(', ');
+    await axios.post(url, {
+      text: `🚨 ${alert.title}${context ? ` (${context})` : ''}: ${alert.message}`,
+      ...alert,
+    }, { timeout: 10000 });
+  } catch (error: any) {
+    console.error(chalk.red(`   Failed to send alert to ALERT_WEBHOOK_URL: ${error.message}`));
+  }
+}
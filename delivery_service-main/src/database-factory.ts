@@ -1,7 +1,7 @@
 import * as dotenv from 'dotenv';
 import { OrderDatabase } from './database';
 import { OrderDatabaseMySQL } from './database-mysql';
-import { Order } from './database';
+import { Order, WebhookAuditEntry, WebhookJournalEntry, NewWebhookJournalEntry, WebhookJournalUpdate, DispatchJob, MenuCatalog, OrderItemLink, Store, DoorDashQuoteRecord, DeliveryCostRecord, DeliveryCostOrder, DeliveryOrderCursor, DeliveryEvent, DispatchDeadLetter, StoreDispatchRules, DispatchDecisionRecord } from './database';
 
 // Load environment variables
 dotenv.config();
@@ -10,10 +10,66 @@ dotenv.config();
 export interface IDatabase {
   insertOrUpdateOrder(orderData: any): Promise<Order | null> | Order | null;
   getOrderByGloriaFoodId(orderId: string): Promise<Order | null> | Order | null;
-  getAllOrders(limit: number): Promise<Order[]> | Order[];
-  getRecentOrders(minutes: number): Promise<Order[]> | Order[];
-  getOrdersByStatus(status: string): Promise<Order[]> | Order[];
-  getOrderCount(): Promise<number> | number;
+  getAllOrders(limit: number, storeId?: string): Promise<Order[]> | Order[];
+  getRecentOrders(minutes: number, storeId?: string): Promise<Order[]> | Order[];
+  getOrdersByStatus(status: string, storeId?: string): Promise<Order[]> | Order[];
+  getOrderCount(storeId?: string): Promise<number> | number;
+  markOrderSentToDoorDash(gloriafoodOrderId: string, doordashOrderId?: string, trackingUrl?: string, provider?: string, environment?: string): Promise<void> | void;
+  recordDoorDashQuote(gloriafoodOrderId: string, quote: DoorDashQuoteRecord): Promise<void> | void;
+  recordDeliveryCosts(gloriafoodOrderId: string, costs: DeliveryCostRecord): Promise<void> | void;
+  recordDoorDashCancellation(gloriafoodOrderId: string, status: 'cancelled' | 'failed', error?: string): Promise<void> | void;
+  saveDoorDashPayload(gloriafoodOrderId: string, payload: string): Promise<void> | void;
+  recordDoorDashUpdate(gloriafoodOrderId: string, status: 'updated' | 'failed' | 'review', error?: string): Promise<void> | void;
+  getOrdersForReview(limit: number, storeId?: string): Promise<Order[]> | Order[];
+  flagOrderForReview(gloriafoodOrderId: string, reason: string): Promise<void> | void;
+  clearOrderReview(gloriafoodOrderId: string): Promise<boolean> | boolean;
+  setOrderSchedule(gloriafoodOrderId: string, scheduledFor: string | null, dispatchAt: number | null): Promise<void> | void;
+  getScheduledOrders(now: number, limit: number, storeId?: string): Promise<Order[]> | Order[];
+  recordWebhookAudit(entry: WebhookAuditEntry): Promise<void> | void;
+  getWebhookAuditLog(limit: number): Promise<WebhookAuditEntry[]> | WebhookAuditEntry[];
+  acquireOrderLock(gloriafoodOrderId: string, owner: string, ttlMs: number): Promise<boolean> | boolean;
+  releaseOrderLock(gloriafoodOrderId: string, owner: string): Promise<void> | void;
+  getLatestWebhookEventHash(gloriafoodOrderId: string): Promise<string | null> | string | null;
+  recordWebhookEvent(fingerprint: string, gloriafoodOrderId: string, contentHash: string): Promise<void> | void;
+  claimOrderForDispatch(gloriafoodOrderId: string, owner: string, ttlMs: number): Promise<boolean> | boolean;
+  releaseDispatchClaim(gloriafoodOrderId: string, owner: string): Promise<void> | void;
+  insertWebhookJournalEntry(entry: NewWebhookJournalEntry): Promise<number> | number;
+  updateWebhookJournalEntry(id: number, update: WebhookJournalUpdate): Promise<void> | void;
+  getWebhookJournalEntry(id: number): Promise<WebhookJournalEntry | null> | WebhookJournalEntry | null;
+  getWebhookJournalEntries(limit: number, status?: string): Promise<WebhookJournalEntry[]> | WebhookJournalEntry[];
+  enqueueDispatchJob(gloriafoodOrderId: string, priority: number, availableAt: number): Promise<number> | number;
+  claimDispatchJob(owner: string, lockMs: number): Promise<DispatchJob | null> | DispatchJob | null;
+  completeDispatchJob(queueId: number): Promise<void> | void;
+  failDispatchJob(queueId: number, error: string, retryAt: number | null): Promise<void> | void;
+  deferDispatchJob(queueId: number, availableAt: number): Promise<void> | void;
+  getDispatchJobs(limit: number, status?: string): Promise<DispatchJob[]> | DispatchJob[];
+  getDispatchQueueStats(): Promise<{ [status: string]: number }> | { [status: string]: number };
+  addDeadLetter(entry: DispatchDeadLetter): Promise<void> | void;
+  getDeadLetters(limit: number, status?: string, storeId?: string): Promise<DispatchDeadLetter[]> | DispatchDeadLetter[];
+  getDeadLetter(gloriafoodOrderId: string): Promise<DispatchDeadLetter | null> | DispatchDeadLetter | null;
+  getOpenDeadLetterCount(storeId?: string): Promise<number> | number;
+  resolveDeadLetter(gloriafoodOrderId: string, status: 'retried' | 'discarded'): Promise<void> | void;
+  saveDeadLetterEdits(gloriafoodOrderId: string, orderEdits: string): Promise<void> | void;
+  getStoreDispatchRules(storeId: string): Promise<StoreDispatchRules | null> | StoreDispatchRules | null;
+  saveStoreDispatchRules(storeId: string, rules: string): Promise<void> | void;
+  deleteStoreDispatchRules(storeId: string): Promise<boolean> | boolean;
+  recordDispatchDecision(record: DispatchDecisionRecord): Promise<void> | void;
+  getDispatchDecisions(limit: number, gloriafoodOrderId?: string, storeId?: string): Promise<DispatchDecisionRecord[]> | DispatchDecisionRecord[];
+  replaceMenuCatalog(catalog: MenuCatalog): Promise<void> | void;
+  getMenuCatalog(storeId: string): Promise<MenuCatalog> | MenuCatalog;
+  saveOrderItemLinks(gloriafoodOrderId: string, links: OrderItemLink[]): Promise<void> | void;
+  getOrderItemLinks(gloriafoodOrderId: string): Promise<OrderItemLink[]> | OrderItemLink[];
+  getPriceMismatches(limit: number): Promise<OrderItemLink[]> | OrderItemLink[];
+  getStores(): Promise<Store[]> | Store[];
+  getStore(storeId: string): Promise<Store | null> | Store | null;
+  saveStore(store: Store): Promise<Store> | Store;
+  deleteStore(storeId: string): Promise<boolean> | boolean;
+  recordDeliveryEvent(event: DeliveryEvent): Promise<boolean> | boolean;
+  getDeliveryEvents(gloriafoodOrderId: string): Promise<DeliveryEvent[]> | DeliveryEvent[];
+  getDeliveriesToPoll(now: number, sentSince: Date, terminalStatuses: string[], limit: number): Promise<Order[]> | Order[];
+  scheduleDeliveryPoll(gloriafoodOrderId: string, nextPollAt: number, attempts: number): Promise<void> | void;
+  getDeliveryOrdersBetween(from: Date, to: Date, limit: number, storeId?: string, after?: DeliveryOrderCursor): Promise<Order[]> | Order[];
+  getDeliveryCostOrders(from: Date, to: Date, limit: number, storeId?: string): Promise<DeliveryCostOrder[]> | DeliveryCostOrder[];
   close(): Promise<void> | void;
 }
 
@@ -53,5 +109,5 @@ export class DatabaseFactory {
   }
 }
 
-export { Order, OrderDatabase, OrderDatabaseMySQL };
+export { Order, WebhookAuditEntry, WebhookJournalEntry, DispatchJob, MenuCatalog, OrderItemLink, Store, DoorDashQuoteRecord, DeliveryCostRecord, DeliveryCostOrder, DeliveryOrderCursor, DeliveryEvent, DispatchDeadLetter, StoreDispatchRules, DispatchDecisionRecord, OrderDatabase, OrderDatabaseMySQL };
 
@@ -1,5 +1,6 @@
 import mysql from 'mysql2/promise';
 import chalk from 'chalk';
+import type { WebhookAuditEntry, WebhookJournalEntry, NewWebhookJournalEntry, WebhookJournalUpdate, DispatchJob, MenuCatalog, OrderItemLink, Store, DoorDashQuoteRecord, DeliveryCostRecord, DeliveryCostOrder, DeliveryOrderCursor, DeliveryEvent, DispatchDeadLetter, StoreDispatchRules, DispatchDecisionRecord } from './database';
 
 export interface Order {
   id: string;
@@ -22,6 +23,8 @@ export interface Order {
   doordash_order_id?: string;
   doordash_sent_at?: string;
   doordash_tracking_url?: string;
+  dispatch_claimed_by?: string;
+  dispatch_claimed_until?: number;
 }
 
 interface MySQLConfig {
@@ -96,6 +99,44 @@ export class OrderDatabaseMySQL {
           doordash_order_id VARCHAR(255),
           doordash_sent_at DATETIME,
           doordash_tracking_url TEXT,
+          dispatch_claimed_by VARCHAR(255),
+          dispatch_claimed_until BIGINT,
+          doordash_quote_fee INT,
+          doordash_quote_currency VARCHAR(10),
+          doordash_quote_pickup_eta VARCHAR(64),
+          doordash_quote_dropoff_eta VARCHAR(64),
+          doordash_quote_status VARCHAR(20),
+          doordash_quote_reason TEXT,
+          doordash_quoted_at DATETIME,
+          doordash_status VARCHAR(50),
+          doordash_dasher_name VARCHAR(255),
+          doordash_dasher_phone VARCHAR(50),
+          doordash_pickup_eta VARCHAR(64),
+          doordash_dropoff_eta VARCHAR(64),
+          doordash_status_at DATETIME(3),
+          doordash_poll_attempts INT DEFAULT 0,
+          doordash_next_poll_at BIGINT,
+          doordash_cancel_status VARCHAR(20),
+          doordash_cancel_error TEXT,
+          doordash_cancelled_at DATETIME,
+          dispatch_attempts INT DEFAULT 0,
+          dispatch_last_error TEXT,
+          dispatch_next_retry_at BIGINT,
+          doordash_payload TEXT,
+          doordash_update_status VARCHAR(20),
+          doordash_update_error TEXT,
+          doordash_updated_at DATETIME,
+          needs_review TINYINT(1) DEFAULT 0,
+          review_reason TEXT,
+          scheduled_for DATETIME,
+          scheduled_dispatch_at BIGINT,
+          delivery_provider VARCHAR(20),
+          doordash_environment VARCHAR(20),
+          doordash_fee INT,
+          doordash_tip INT,
+          doordash_cancellation_fee INT,
+          doordash_fee_currency VARCHAR(10),
+          customer_delivery_fee INT,
           INDEX idx_gloriafood_order_id (gloriafood_order_id),
           INDEX idx_store_id (store_id),
           INDEX idx_status (status),
@@ -114,117 +155,1578 @@ export class OrderDatabaseMySQL {
         }
       }
 
+      for (const column of [
+        'dispatch_claimed_by VARCHAR(255)',
+        'dispatch_claimed_until BIGINT',
+        'doordash_quote_fee INT',
+        'doordash_quote_currency VARCHAR(10)',
+        'doordash_quote_pickup_eta VARCHAR(64)',
+        'doordash_quote_dropoff_eta VARCHAR(64)',
+        'doordash_quote_status VARCHAR(20)',
+        'doordash_quote_reason TEXT',
+        'doordash_quoted_at DATETIME',
+        'doordash_status VARCHAR(50)',
+        'doordash_dasher_name VARCHAR(255)',
+        'doordash_dasher_phone VARCHAR(50)',
+        'doordash_pickup_eta VARCHAR(64)',
+        'doordash_dropoff_eta VARCHAR(64)',
+        'doordash_status_at DATETIME(3)',
+        'doordash_poll_attempts INT DEFAULT 0',
+        'doordash_next_poll_at BIGINT',
+        'doordash_cancel_status VARCHAR(20)',
+        'doordash_cancel_error TEXT',
+        'doordash_cancelled_at DATETIME',
+        'dispatch_attempts INT DEFAULT 0',
+        'dispatch_last_error TEXT',
+        'dispatch_next_retry_at BIGINT',
+        'doordash_payload TEXT',
+        'doordash_update_status VARCHAR(20)',
+        'doordash_update_error TEXT',
+        'doordash_updated_at DATETIME',
+        'needs_review TINYINT(1) DEFAULT 0',
+        'review_reason TEXT',
+        'scheduled_for DATETIME',
+        'scheduled_dispatch_at BIGINT',
+        'delivery_provider VARCHAR(20)',
+        'doordash_environment VARCHAR(20)',
+        'doordash_fee INT',
+        'doordash_tip INT',
+        'doordash_cancellation_fee INT',
+        'doordash_fee_currency VARCHAR(10)',
+        'customer_delivery_fee INT',
+      ]) {
+        try {
+          await connection.query(`ALTER TABLE orders ADD COLUMN ${column}`);
+        } catch (e: any) {
+          // Column already exists - ignore
+        }
+      }
+
+      // Audit trail for webhook requests that failed authentication
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS webhook_audit_log (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          path VARCHAR(255),
+          source_ip VARCHAR(100),
+          store_id VARCHAR(255),
+          auth_mode VARCHAR(20),
+          reason VARCHAR(255),
+          rejected TINYINT(1) DEFAULT 0,
+          user_agent VARCHAR(500),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          INDEX idx_webhook_audit_created_at (created_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+
+      // Journal of every inbound webhook request, stored before processing so it can be replayed
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS webhook_journal (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          method VARCHAR(10),
+          path VARCHAR(255),
+          headers TEXT,
+          query_params TEXT,
+          raw_body MEDIUMTEXT,
+          content_type VARCHAR(255),
+          source_ip VARCHAR(100),
+          status VARCHAR(20) DEFAULT 'received',
+          error TEXT,
+          order_ids TEXT,
+          processed_at DATETIME,
+          replay_count INT DEFAULT 0,
+          last_replayed_at DATETIME,
+          INDEX idx_webhook_journal_status (status),
+          INDEX idx_webhook_journal_received_at (received_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+
+      // Idempotency: fingerprints of processed webhook events and short-lived per-order processing locks
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS webhook_events (
+          fingerprint VARCHAR(320) PRIMARY KEY,
+          gloriafood_order_id VARCHAR(255),
+          content_hash CHAR(64),
+          processed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          INDEX idx_webhook_events_order_id (gloriafood_order_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS order_locks (
+          gloriafood_order_id VARCHAR(255) PRIMARY KEY,
+          owner VARCHAR(255) NOT NULL,
+          locked_until BIGINT NOT NULL
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+
+      // Dispatch queue (Order_Queue): DoorDash dispatch jobs processed by background workers
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS order_queue (
+          queue_id INT AUTO_INCREMENT PRIMARY KEY,
+          gloriafood_order_id VARCHAR(255) NOT NULL,
+          priority INT DEFAULT 0,
+          retry_count INT DEFAULT 0,
+          status VARCHAR(20) NOT NULL DEFAULT 'pending',
+          available_at BIGINT NOT NULL,
+          locked_by VARCHAR(255),
+          locked_until BIGINT,
+          last_error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          INDEX idx_order_queue_status (status, available_at),
+          INDEX idx_order_queue_order_id (gloriafood_order_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+
+      // Stores registry (multi-store configuration)
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS stores (
+          store_id VARCHAR(255) PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          gloriafood_api_key VARCHAR(255),
+          gloriafood_master_key VARCHAR(255),
+          webhook_path VARCHAR(255) UNIQUE,
+          pickup_address TEXT,
+          pickup_phone VARCHAR(50),
+          doordash_developer_id VARCHAR(255),
+          doordash_key_id VARCHAR(255),
+          doordash_signing_secret VARCHAR(255),
+          doordash_merchant_id VARCHAR(255),
+          dispatch_enabled TINYINT DEFAULT 1,
+          timezone VARCHAR(64),
+          country VARCHAR(2),
+          delivery_providers VARCHAR(255),
+          doordash_business_id VARCHAR(255),
+          doordash_store_id VARCHAR(255),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      for (const column of ['country VARCHAR(2)', 'delivery_providers VARCHAR(255)', 'doordash_business_id VARCHAR(255)', 'doordash_store_id VARCHAR(255)']) {
+        try {
+          await connection.query(`ALTER TABLE stores ADD COLUMN ${column}`);
+        } catch (e: any) {
+          // Column already exists - ignore
+        }
+      }
+
+      // Menu catalog synced from GloriaFood, and order items linked to it
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS menu_sync (
+          store_id VARCHAR(255) PRIMARY KEY,
+          currency VARCHAR(10),
+          synced_at DATETIME
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS menu_categories (
+          store_id VARCHAR(255) NOT NULL,
+          category_id VARCHAR(255) NOT NULL,
+          name VARCHAR(255) NOT NULL,
+          description TEXT,
+          active TINYINT DEFAULT 1,
+          sort_order INT DEFAULT 0,
+          PRIMARY KEY (store_id, category_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS menu_items (
+          store_id VARCHAR(255) NOT NULL,
+          item_id VARCHAR(255) NOT NULL,
+          category_id VARCHAR(255),
+          name VARCHAR(255) NOT NULL,
+          description TEXT,
+          price DECIMAL(10, 2) DEFAULT 0.00,
+          active TINYINT DEFAULT 1,
+          PRIMARY KEY (store_id, item_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS menu_item_sizes (
+          store_id VARCHAR(255) NOT NULL,
+          size_id VARCHAR(255) NOT NULL,
+          item_id VARCHAR(255) NOT NULL,
+          name VARCHAR(255) NOT NULL,
+          price DECIMAL(10, 2) DEFAULT 0.00,
+          is_default TINYINT DEFAULT 0,
+          PRIMARY KEY (store_id, size_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS menu_option_groups (
+          store_id VARCHAR(255) NOT NULL,
+          group_id VARCHAR(255) NOT NULL,
+          parent_type VARCHAR(20) NOT NULL,
+          parent_id VARCHAR(255) NOT NULL,
+          name VARCHAR(255) NOT NULL,
+          required TINYINT DEFAULT 0,
+          force_min INT DEFAULT 0,
+          force_max INT DEFAULT 0,
+          PRIMARY KEY (store_id, group_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS menu_options (
+          store_id VARCHAR(255) NOT NULL,
+          option_id VARCHAR(255) NOT NULL,
+          group_id VARCHAR(255) NOT NULL,
+          name VARCHAR(255) NOT NULL,
+          price DECIMAL(10, 2) DEFAULT 0.00,
+          is_default TINYINT DEFAULT 0,
+          PRIMARY KEY (store_id, option_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS order_item_links (
+          gloriafood_order_id VARCHAR(255) NOT NULL,
+          line_index INT NOT NULL,
+          order_item_name VARCHAR(255),
+          quantity DECIMAL(10, 2) DEFAULT 1,
+          order_price DECIMAL(10, 2) DEFAULT 0.00,
+          menu_item_id VARCHAR(255),
+          menu_size_id VARCHAR(255),
+          menu_name VARCHAR(255),
+          menu_price DECIMAL(10, 2),
+          price_mismatch TINYINT DEFAULT 0,
+          linked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (gloriafood_order_id, line_index),
+          INDEX idx_order_item_links_menu_item (menu_item_id),
+          INDEX idx_order_item_links_mismatch (price_mismatch)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+
+      // DoorDash delivery events (status webhooks); the unique key drops DoorDash's redeliveries
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS delivery_events (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          gloriafood_order_id VARCHAR(255),
+          external_delivery_id VARCHAR(255) NOT NULL,
+          delivery_id VARCHAR(255),
+          event_name VARCHAR(100) NOT NULL,
+          delivery_status VARCHAR(50),
+          dasher_name VARCHAR(255),
+          dasher_phone VARCHAR(50),
+          pickup_eta VARCHAR(64),
+          dropoff_eta VARCHAR(64),
+          tracking_url TEXT,
+          occurred_at DATETIME(3) NOT NULL,
+          received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          raw_data LONGTEXT,
+          UNIQUE KEY uniq_delivery_event (external_delivery_id, event_name, occurred_at),
+          INDEX idx_delivery_events_order (gloriafood_order_id, occurred_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+
+      // Dead-letter store: dispatches that gave up, one row per order
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS dispatch_dead_letters (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          gloriafood_order_id VARCHAR(255) UNIQUE NOT NULL,
+          store_id VARCHAR(255),
+          queue_id INT,
+          reason TEXT NOT NULL,
+          error_status INT,
+          error_body TEXT,
+          attempts INT DEFAULT 0,
+          status VARCHAR(20) NOT NULL DEFAULT 'open',
+          failed_at DATETIME NOT NULL,
+          edited_at DATETIME,
+          order_edits TEXT,
+          resolved_at DATETIME,
+          INDEX idx_dispatch_dead_letters_status (status, failed_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+
+      // Per-store dispatch rules, and the log of dispatch decisions
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS dispatch_rules (
+          store_id VARCHAR(255) PRIMARY KEY,
+          rules TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS dispatch_decisions (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          gloriafood_order_id VARCHAR(255) NOT NULL,
+          store_id VARCHAR(255),
+          action VARCHAR(20) NOT NULL,
+          rule_name VARCHAR(255),
+          reason TEXT,
+          source VARCHAR(20),
+          decided_at DATETIME NOT NULL,
+          INDEX idx_dispatch_decisions_order (gloriafood_order_id),
+          INDEX idx_dispatch_decisions_decided_at (decided_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `);
+
       // Release connection
       connection.release();
-      console.log('✅ Database table initialized successfully!');
-    } catch (error: any) {
-      console.error('❌ Error initializing database tables:', error);
-      console.error(`   Error message: ${error.message}`);
-      if (error.code === 'ECONNREFUSED') {
-        console.error('   ⚠️  Cannot connect to MySQL. Make sure XAMPP MySQL is running!');
-      } else if (error.code === 'ER_BAD_DB_ERROR') {
-        console.error(`   ⚠️  Database "${this.config.database}" does not exist. Please create it in phpMyAdmin first!`);
-      } else if (error.code === 'ER_ACCESS_DENIED_ERROR') {
-        console.error('   ⚠️  Access denied. Check your MySQL username and password in .env file!');
+      console.log('✅ Database table initialized successfully!');
+    } catch (error: any) {
+      console.error('❌ Error initializing database tables:', error);
+      console.error(`   Error message: ${error.message}`);
+      if (error.code === 'ECONNREFUSED') {
+        console.error('   ⚠️  Cannot connect to MySQL. Make sure XAMPP MySQL is running!');
+      } else if (error.code === 'ER_BAD_DB_ERROR') {
+        console.error(`   ⚠️  Database "${this.config.database}" does not exist. Please create it in phpMyAdmin first!`);
+      } else if (error.code === 'ER_ACCESS_DENIED_ERROR') {
+        console.error('   ⚠️  Access denied. Check your MySQL username and password in .env file!');
+      }
+      throw error;
+    }
+  }
+
+  async insertOrUpdateOrder(orderData: any): Promise<Order | null> {
+    try {
+      const customerName = this.extractCustomerName(orderData);
+      const customerPhone = this.extractCustomerPhone(orderData);
+      const customerEmail = this.extractCustomerEmail(orderData);
+      const deliveryAddress = this.extractDeliveryAddress(orderData);
+      
+      const order: Order = {
+        id: '',
+        gloriafood_order_id: orderData.id?.toString() || orderData.order_id?.toString() || '',
+        store_id: orderData.store_id?.toString() || orderData.restaurant_id?.toString() || '',
+        customer_name: customerName,
+        customer_phone: customerPhone,
+        customer_email: customerEmail,
+        delivery_address: deliveryAddress,
+        total_price: parseFloat(orderData.total_price || orderData.total || '0'),
+        currency: orderData.currency || 'USD',
+        status: orderData.status || orderData.order_status || 'unknown',
+        order_type: orderData.order_type || orderData.type || 'unknown',
+        items: JSON.stringify(orderData.items || orderData.order_items || []),
+        raw_data: JSON.stringify(orderData),
+        created_at: orderData.created_at || orderData.order_date || new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        fetched_at: new Date().toISOString()
+      };
+
+      const connection = await this.pool.getConnection();
+      
+      const [result] = await connection.query(`
+        INSERT INTO orders (
+          gloriafood_order_id, store_id, customer_name, customer_phone,
+          customer_email, delivery_address, total_price, currency,
+          status, order_type, items, raw_data, created_at, updated_at, fetched_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE
+          customer_name = VALUES(customer_name),
+          customer_phone = VALUES(customer_phone),
+          customer_email = VALUES(customer_email),
+          delivery_address = VALUES(delivery_address),
+          status = VALUES(status),
+          total_price = VALUES(total_price),
+          order_type = VALUES(order_type),
+          items = VALUES(items),
+          updated_at = VALUES(updated_at),
+          fetched_at = VALUES(fetched_at),
+          raw_data = VALUES(raw_data)
+      `, [
+        order.gloriafood_order_id,
+        order.store_id,
+        order.customer_name,
+        order.customer_phone || null,
+        order.customer_email || null,
+        order.delivery_address || null,
+        order.total_price,
+        order.currency,
+        order.status,
+        order.order_type,
+        order.items,
+        order.raw_data,
+        order.created_at,
+        order.updated_at,
+        order.fetched_at
+      ]);
+
+      connection.release();
+      
+      const savedOrder = await this.getOrderByGloriaFoodId(order.gloriafood_order_id);
+      return savedOrder;
+    } catch (error: any) {
+      console.error('❌ Error inserting order to MySQL:', error.message);
+      console.error('   Full error:', error);
+      if (error.code === 'ER_NO_SUCH_TABLE') {
+        console.error('   ⚠️  Orders table does not exist. Check database setup.');
+      }
+      return null;
+    }
+  }
+
+  async markOrderSentToDoorDash(gloriafoodOrderId: string, doordashOrderId?: string, trackingUrl?: string, provider: string = 'doordash', environment?: string): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        `UPDATE orders
+         SET sent_to_doordash = 1,
+             doordash_order_id = COALESCE(?, doordash_order_id),
+             doordash_tracking_url = COALESCE(?, doordash_tracking_url),
+             doordash_sent_at = NOW(),
+             delivery_provider = ?,
+             doordash_environment = ?,
+             dispatch_claimed_by = NULL,
+             dispatch_claimed_until = NULL,
+             updated_at = NOW()
+         WHERE gloriafood_order_id = ?`,
+        [doordashOrderId || null, trackingUrl || null, provider, environment || null, gloriafoodOrderId]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async recordDeliveryCosts(gloriafoodOrderId: string, costs: DeliveryCostRecord): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        `UPDATE orders
+         SET doordash_fee = COALESCE(?, doordash_fee),
+             doordash_tip = COALESCE(?, doordash_tip),
+             doordash_cancellation_fee = COALESCE(?, doordash_cancellation_fee),
+             doordash_fee_currency = COALESCE(?, doordash_fee_currency),
+             customer_delivery_fee = COALESCE(?, customer_delivery_fee)
+         WHERE gloriafood_order_id = ?`,
+        [
+          costs.fee ?? null,
+          costs.tip ?? null,
+          costs.cancellation_fee ?? null,
+          costs.currency || null,
+          costs.customer_delivery_fee ?? null,
+          gloriafoodOrderId,
+        ]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async recordDoorDashQuote(gloriafoodOrderId: string, quote: DoorDashQuoteRecord): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        `UPDATE orders
+         SET doordash_quote_fee = ?,
+             doordash_quote_currency = ?,
+             doordash_quote_pickup_eta = ?,
+             doordash_quote_dropoff_eta = ?,
+             doordash_quote_status = ?,
+             doordash_quote_reason = ?,
+             doordash_quoted_at = NOW()
+         WHERE gloriafood_order_id = ?`,
+        [
+          quote.fee,
+          quote.currency || null,
+          quote.pickup_eta || null,
+          quote.dropoff_eta || null,
+          quote.status,
+          quote.reason || null,
+          gloriafoodOrderId,
+        ]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async recordDoorDashCancellation(gloriafoodOrderId: string, status: 'cancelled' | 'failed', error?: string): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        `UPDATE orders
+         SET doordash_cancel_status = ?, doordash_cancel_error = ?, doordash_cancelled_at = NOW()
+         WHERE gloriafood_order_id = ?`,
+        [status, error || null, gloriafoodOrderId]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Remember the updatable Drive fields DoorDash has for this order (set at dispatch and after each update)
+   */
+  async saveDoorDashPayload(gloriafoodOrderId: string, payload: string): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query('UPDATE orders SET doordash_payload = ? WHERE gloriafood_order_id = ?', [payload, gloriafoodOrderId]);
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Record the outcome of pushing order changes to DoorDash; 'review' also flags the order for manual review
+   */
+  async recordDoorDashUpdate(gloriafoodOrderId: string, status: 'updated' | 'failed' | 'review', error?: string): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        `UPDATE orders
+         SET doordash_update_status = ?, doordash_update_error = ?, doordash_updated_at = NOW(),
+             needs_review = CASE WHEN ? = 'review' THEN 1 ELSE needs_review END,
+             review_reason = CASE WHEN ? = 'review' THEN ? ELSE review_reason END
+         WHERE gloriafood_order_id = ?`,
+        [status, error || null, status, status, error || null, gloriafoodOrderId]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async getOrdersForReview(limit: number = 50, storeId?: string): Promise<Order[]> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query(
+        `SELECT * FROM orders WHERE needs_review = 1 AND (? IS NULL OR store_id = ?)
+         ORDER BY updated_at DESC LIMIT ?`,
+        [storeId || null, storeId || null, limit]
+      ) as [Order[], any];
+      return rows;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async flagOrderForReview(gloriafoodOrderId: string, reason: string): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        'UPDATE orders SET needs_review = 1, review_reason = ?, updated_at = NOW() WHERE gloriafood_order_id = ?',
+        [reason, gloriafoodOrderId]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async clearOrderReview(gloriafoodOrderId: string): Promise<boolean> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [result] = await connection.query(
+        'UPDATE orders SET needs_review = 0, review_reason = NULL WHERE gloriafood_order_id = ? AND needs_review = 1',
+        [gloriafoodOrderId]
+      ) as [mysql.ResultSetHeader, any];
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Record when a scheduled order is due and when it goes to DoorDash (nulls for an ASAP order).
+   * A pending dispatch job for the order is moved to the new dispatch time.
+   */
+  async setOrderSchedule(gloriafoodOrderId: string, scheduledFor: string | null, dispatchAt: number | null): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      await connection.query(
+        'UPDATE orders SET scheduled_for = ?, scheduled_dispatch_at = ? WHERE gloriafood_order_id = ?',
+        [scheduledFor ? new Date(scheduledFor) : null, dispatchAt, gloriafoodOrderId]
+      );
+      await connection.query(
+        `UPDATE order_queue SET available_at = ? WHERE gloriafood_order_id = ? AND status = 'pending'`,
+        [dispatchAt ?? Date.now(), gloriafoodOrderId]
+      );
+      await connection.commit();
+    } catch (e) {
+      await connection.rollback();
+      throw e;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Scheduled orders held back until their dispatch time, soonest first
+   */
+  async getScheduledOrders(now: number, limit: number = 100, storeId?: string): Promise<Order[]> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query(
+        `SELECT * FROM orders
+         WHERE scheduled_dispatch_at > ? AND COALESCE(sent_to_doordash, 0) = 0 AND (? IS NULL OR store_id = ?)
+         ORDER BY scheduled_dispatch_at ASC LIMIT ?`,
+        [now, storeId || null, storeId || null, limit]
+      ) as [Order[], any];
+      return rows;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async recordWebhookAudit(entry: WebhookAuditEntry): Promise<void> {
+    try {
+      const connection = await this.pool.getConnection();
+      await connection.query(
+        `INSERT INTO webhook_audit_log (path, source_ip, store_id, auth_mode, reason, rejected, user_agent, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, NOW())`,
+        [
+          entry.path,
+          entry.source_ip || null,
+          entry.store_id || null,
+          entry.auth_mode,
+          entry.reason,
+          entry.rejected,
+          entry.user_agent ? entry.user_agent.substring(0, 500) : null,
+        ]
+      );
+      connection.release();
+    } catch (error) {
+      console.error('Error recording webhook audit entry in MySQL:', error);
+    }
+  }
+
+  async getWebhookAuditLog(limit: number = 100): Promise<WebhookAuditEntry[]> {
+    try {
+      const connection = await this.pool.getConnection();
+      const [rows] = await connection.query(
+        'SELECT * FROM webhook_audit_log ORDER BY id DESC LIMIT ?',
+        [limit]
+      ) as [WebhookAuditEntry[], any];
+      connection.release();
+      return rows;
+    } catch (error) {
+      console.error('Error getting webhook audit log:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Take the processing lock for an order. Returns false if another request holds an unexpired lock.
+   */
+  async acquireOrderLock(gloriafoodOrderId: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const connection = await this.pool.getConnection();
+    try {
+      // Only take over the row when the current lock has expired (owner is assigned before locked_until changes)
+      await connection.query(
+        `INSERT INTO order_locks (gloriafood_order_id, owner, locked_until) VALUES (?, ?, ?)
+         ON DUPLICATE KEY UPDATE
+           owner = IF(locked_until < ?, VALUES(owner), owner),
+           locked_until = IF(locked_until < ?, VALUES(locked_until), locked_until)`,
+        [gloriafoodOrderId, owner, now + ttlMs, now, now]
+      );
+      const [rows] = await connection.query(
+        'SELECT owner FROM order_locks WHERE gloriafood_order_id = ?',
+        [gloriafoodOrderId]
+      ) as [{ owner: string }[], any];
+      return rows[0]?.owner === owner;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async releaseOrderLock(gloriafoodOrderId: string, owner: string): Promise<void> {
+    try {
+      const connection = await this.pool.getConnection();
+      await connection.query('DELETE FROM order_locks WHERE gloriafood_order_id = ? AND owner = ?', [gloriafoodOrderId, owner]);
+      connection.release();
+    } catch (error) {
+      console.error('Error releasing order lock in MySQL:', error);
+    }
+  }
+
+  /**
+   * Content hash of the last event processed for an order, or null if none was recorded
+   */
+  async getLatestWebhookEventHash(gloriafoodOrderId: string): Promise<string | null> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query(
+        'SELECT content_hash FROM webhook_events WHERE gloriafood_order_id = ? ORDER BY processed_at DESC LIMIT 1',
+        [gloriafoodOrderId]
+      ) as [any[], any];
+      return rows[0]?.content_hash ?? null;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Record the event just processed for an order, replacing the order's previous one.
+   * Only the latest event is kept, so content that changes back (A -> B -> A) is processed again.
+   */
+  async recordWebhookEvent(fingerprint: string, gloriafoodOrderId: string, contentHash: string): Promise<void> {
+    try {
+      const connection = await this.pool.getConnection();
+      try {
+        await connection.beginTransaction();
+        await connection.query('DELETE FROM webhook_events WHERE gloriafood_order_id = ?', [gloriafoodOrderId]);
+        await connection.query(
+          `REPLACE INTO webhook_events (fingerprint, gloriafood_order_id, content_hash, processed_at)
+           VALUES (?, ?, ?, NOW())`,
+          [fingerprint, gloriafoodOrderId, contentHash]
+        );
+        await connection.commit();
+      } catch (e) {
+        await connection.rollback();
+        throw e;
+      } finally {
+        connection.release();
+      }
+    } catch (error) {
+      console.error('Error recording webhook event in MySQL:', error);
+    }
+  }
+
+  /**
+   * Atomically claim an order for DoorDash dispatch. Only one caller can hold the claim,
+   * and an order that was already sent can never be claimed again.
+   */
+  async claimOrderForDispatch(gloriafoodOrderId: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const connection = await this.pool.getConnection();
+    try {
+      const [result] = await connection.query(
+        `UPDATE orders
+         SET dispatch_claimed_by = ?, dispatch_claimed_until = ?
+         WHERE gloriafood_order_id = ?
+           AND COALESCE(sent_to_doordash, 0) = 0
+           AND (dispatch_claimed_until IS NULL OR dispatch_claimed_until < ?)`,
+        [owner, now + ttlMs, gloriafoodOrderId, now]
+      ) as [mysql.ResultSetHeader, any];
+      return result.affectedRows === 1;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async releaseDispatchClaim(gloriafoodOrderId: string, owner: string): Promise<void> {
+    try {
+      const connection = await this.pool.getConnection();
+      await connection.query(
+        `UPDATE orders
+         SET dispatch_claimed_by = NULL, dispatch_claimed_until = NULL
+         WHERE gloriafood_order_id = ? AND dispatch_claimed_by = ?`,
+        [gloriafoodOrderId, owner]
+      );
+      connection.release();
+    } catch (error) {
+      console.error('Error releasing dispatch claim in MySQL:', error);
+    }
+  }
+
+  async insertWebhookJournalEntry(entry: NewWebhookJournalEntry): Promise<number> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [result] = await connection.query(
+        `INSERT INTO webhook_journal (received_at, method, path, headers, query_params, raw_body, content_type, source_ip, status)
+         VALUES (NOW(), ?, ?, ?, ?, ?, ?, ?, 'received')`,
+        [
+          entry.method,
+          entry.path,
+          entry.headers,
+          entry.query_params || null,
+          entry.raw_body ?? null,
+          entry.content_type || null,
+          entry.source_ip || null,
+        ]
+      ) as [mysql.ResultSetHeader, any];
+      return result.insertId;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async updateWebhookJournalEntry(id: number, update: WebhookJournalUpdate): Promise<void> {
+    try {
+      const replayed = update.replayed ? 1 : 0;
+      const connection = await this.pool.getConnection();
+      await connection.query(
+        `UPDATE webhook_journal
+         SET status = ?,
+             error = ?,
+             order_ids = COALESCE(?, order_ids),
+             processed_at = NOW(),
+             replay_count = replay_count + ?,
+             last_replayed_at = CASE WHEN ? = 1 THEN NOW() ELSE last_replayed_at END
+         WHERE id = ?`,
+        [update.status, update.error || null, update.order_ids || null, replayed, replayed, id]
+      );
+      connection.release();
+    } catch (error) {
+      console.error('Error updating webhook journal entry in MySQL:', error);
+    }
+  }
+
+  async getWebhookJournalEntry(id: number): Promise<WebhookJournalEntry | null> {
+    try {
+      const connection = await this.pool.getConnection();
+      const [rows] = await connection.query(
+        'SELECT * FROM webhook_journal WHERE id = ?',
+        [id]
+      ) as [WebhookJournalEntry[], any];
+      connection.release();
+      return rows.length > 0 ? rows[0] : null;
+    } catch (error) {
+      console.error('Error getting webhook journal entry:', error);
+      return null;
+    }
+  }
+
+  async getWebhookJournalEntries(limit: number = 50, status?: string): Promise<WebhookJournalEntry[]> {
+    try {
+      const connection = await this.pool.getConnection();
+      const [rows] = status
+        ? await connection.query(
+            'SELECT * FROM webhook_journal WHERE status = ? ORDER BY id DESC LIMIT ?',
+            [status, limit]
+          ) as [WebhookJournalEntry[], any]
+        : await connection.query(
+            'SELECT * FROM webhook_journal ORDER BY id DESC LIMIT ?',
+            [limit]
+          ) as [WebhookJournalEntry[], any];
+      connection.release();
+      return rows;
+    } catch (error) {
+      console.error('Error getting webhook journal entries:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add a dispatch job for an order, or return the order's job that is already waiting or running
+   */
+  async enqueueDispatchJob(gloriafoodOrderId: string, priority: number, availableAt: number): Promise<number> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      // Lock the order row so concurrent enqueues of one order (webhook, admin or dead-letter retry) take turns
+      await connection.query('SELECT id FROM orders WHERE gloriafood_order_id = ? FOR UPDATE', [gloriafoodOrderId]);
+      const [existing] = await connection.query(
+        `SELECT queue_id FROM order_queue
+         WHERE gloriafood_order_id = ? AND status IN ('pending', 'processing')
+         ORDER BY queue_id DESC LIMIT 1
+         FOR UPDATE`,
+        [gloriafoodOrderId]
+      ) as [any[], any];
+      if (existing.length > 0) {
+        await connection.commit();
+        return existing[0].queue_id;
+      }
+
+      const [result] = await connection.query(
+        `INSERT INTO order_queue (gloriafood_order_id, priority, retry_count, status, available_at)
+         VALUES (?, ?, 0, 'pending', ?)`,
+        [gloriafoodOrderId, priority, availableAt]
+      ) as [mysql.ResultSetHeader, any];
+      await connection.commit();
+      return result.insertId;
+    } catch (e) {
+      await connection.rollback();
+      throw e;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Claim the next due job. Jobs left in 'processing' past their lock (e.g. after a crash) are claimable again.
+   */
+  async claimDispatchJob(owner: string, lockMs: number): Promise<DispatchJob | null> {
+    const connection = await this.pool.getConnection();
+    try {
+      const now = Date.now();
+      const [candidates] = await connection.query(
+        `SELECT * FROM order_queue
+         WHERE (status = 'pending' AND available_at <= ?)
+            OR (status = 'processing' AND locked_until < ?)
+         ORDER BY priority DESC, available_at ASC, queue_id ASC
+         LIMIT 5`,
+        [now, now]
+      ) as [DispatchJob[], any];
+
+      // Another worker may take a candidate first; the conditional update only succeeds for one of them
+      for (const job of candidates) {
+        const [result] = await connection.query(
+          `UPDATE order_queue
+           SET status = 'processing', locked_by = ?, locked_until = ?
+           WHERE queue_id = ?
+             AND ((status = 'pending' AND available_at <= ?) OR (status = 'processing' AND locked_until < ?))`,
+          [owner, now + lockMs, job.queue_id, now, now]
+        ) as [mysql.ResultSetHeader, any];
+        if (result.affectedRows === 1) {
+          return { ...job, status: 'processing', locked_by: owner, locked_until: now + lockMs };
+        }
+      }
+      return null;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async completeDispatchJob(queueId: number): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      await connection.query(
+        `UPDATE orders o JOIN order_queue q ON q.gloriafood_order_id = o.gloriafood_order_id
+         SET o.dispatch_attempts = COALESCE(o.dispatch_attempts, 0) + 1, o.dispatch_last_error = NULL, o.dispatch_next_retry_at = NULL
+         WHERE q.queue_id = ?`,
+        [queueId]
+      );
+      await connection.query(
+        `UPDATE dispatch_dead_letters d JOIN order_queue q ON q.gloriafood_order_id = d.gloriafood_order_id
+         SET d.status = 'resolved', d.resolved_at = NOW()
+         WHERE q.queue_id = ? AND d.status IN ('open', 'retried')`,
+        [queueId]
+      );
+      await connection.query(
+        `UPDATE order_queue
+         SET status = 'done', locked_by = NULL, locked_until = NULL, last_error = NULL
+         WHERE queue_id = ?`,
+        [queueId]
+      );
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Record a failed attempt: reschedule the job at retryAt, or mark it failed when retryAt is null.
+   * The attempt, error and next retry are also recorded on the order.
+   */
+  async failDispatchJob(queueId: number, error: string, retryAt: number | null): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      await connection.query(
+        `UPDATE orders o JOIN order_queue q ON q.gloriafood_order_id = o.gloriafood_order_id
+         SET o.dispatch_attempts = COALESCE(o.dispatch_attempts, 0) + 1, o.dispatch_last_error = ?, o.dispatch_next_retry_at = ?
+         WHERE q.queue_id = ?`,
+        [error, retryAt, queueId]
+      );
+      await connection.query(
+        `UPDATE order_queue
+         SET status = ?, retry_count = retry_count + 1, available_at = COALESCE(?, available_at),
+             locked_by = NULL, locked_until = NULL, last_error = ?
+         WHERE queue_id = ?`,
+        [retryAt === null ? 'failed' : 'pending', retryAt, error, queueId]
+      );
+      await connection.commit();
+    } catch (e) {
+      await connection.rollback();
+      throw e;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Put a claimed job back untouched until availableAt (e.g. a scheduled order that is not due yet)
+   */
+  async deferDispatchJob(queueId: number, availableAt: number): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        `UPDATE order_queue
+         SET status = 'pending', available_at = ?, locked_by = NULL, locked_until = NULL
+         WHERE queue_id = ?`,
+        [availableAt, queueId]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async getDispatchJobs(limit: number = 50, status?: string): Promise<DispatchJob[]> {
+    try {
+      const connection = await this.pool.getConnection();
+      const [rows] = status
+        ? await connection.query(
+            'SELECT * FROM order_queue WHERE status = ? ORDER BY queue_id DESC LIMIT ?',
+            [status, limit]
+          ) as [DispatchJob[], any]
+        : await connection.query(
+            'SELECT * FROM order_queue ORDER BY queue_id DESC LIMIT ?',
+            [limit]
+          ) as [DispatchJob[], any];
+      connection.release();
+      return rows;
+    } catch (error) {
+      console.error('Error getting dispatch jobs:', error);
+      return [];
+    }
+  }
+
+  async getDispatchQueueStats(): Promise<{ [status: string]: number }> {
+    const stats: { [status: string]: number } = { pending: 0, processing: 0, done: 0, failed: 0 };
+    try {
+      const connection = await this.pool.getConnection();
+      const [rows] = await connection.query(
+        'SELECT status, COUNT(*) as count FROM order_queue GROUP BY status'
+      ) as [any[], any];
+      connection.release();
+      rows.forEach((row: any) => { stats[row.status] = Number(row.count); });
+    } catch (error) {
+      console.error('Error getting dispatch queue stats:', error);
+    }
+    return stats;
+  }
+
+  /**
+   * Add an order to the dead-letter store, or reopen its entry if it failed before
+   */
+  async addDeadLetter(entry: DispatchDeadLetter): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        `INSERT INTO dispatch_dead_letters (
+           gloriafood_order_id, store_id, queue_id, reason, error_status, error_body, attempts, status, failed_at
+         ) VALUES (?, (SELECT store_id FROM orders WHERE gloriafood_order_id = ?), ?, ?, ?, ?, ?, 'open', NOW())
+         ON DUPLICATE KEY UPDATE
+           store_id = VALUES(store_id),
+           queue_id = VALUES(queue_id),
+           reason = VALUES(reason),
+           error_status = VALUES(error_status),
+           error_body = VALUES(error_body),
+           attempts = VALUES(attempts),
+           status = 'open',
+           failed_at = VALUES(failed_at),
+           resolved_at = NULL`,
+        [
+          entry.gloriafood_order_id,
+          entry.gloriafood_order_id,
+          entry.queue_id ?? null,
+          entry.reason,
+          entry.error_status ?? null,
+          entry.error_body ?? null,
+          entry.attempts,
+        ]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async getDeadLetters(limit: number = 50, status?: string, storeId?: string): Promise<DispatchDeadLetter[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (status) {
+      conditions.push('d.status = ?');
+      params.push(status);
+    }
+    if (storeId) {
+      conditions.push('d.store_id = ?');
+      params.push(storeId);
+    }
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query(
+        `SELECT d.*, o.customer_name, o.customer_phone, o.delivery_address
+         FROM dispatch_dead_letters d LEFT JOIN orders o ON o.gloriafood_order_id = d.gloriafood_order_id
+         ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY d.failed_at DESC LIMIT ?`,
+        [...params, limit]
+      ) as [DispatchDeadLetter[], any];
+      return rows;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async getDeadLetter(gloriafoodOrderId: string): Promise<DispatchDeadLetter | null> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query(
+        `SELECT d.*, o.customer_name, o.customer_phone, o.delivery_address
+         FROM dispatch_dead_letters d LEFT JOIN orders o ON o.gloriafood_order_id = d.gloriafood_order_id
+         WHERE d.gloriafood_order_id = ?`,
+        [gloriafoodOrderId]
+      ) as [DispatchDeadLetter[], any];
+      return rows[0] || null;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async getOpenDeadLetterCount(storeId?: string): Promise<number> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = storeId
+        ? await connection.query(
+            "SELECT COUNT(*) as count FROM dispatch_dead_letters WHERE status = 'open' AND store_id = ?",
+            [storeId]
+          ) as [any[], any]
+        : await connection.query(
+            "SELECT COUNT(*) as count FROM dispatch_dead_letters WHERE status = 'open'"
+          ) as [any[], any];
+      return Number(rows[0]?.count || 0);
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Mark a dead-letter entry retried or discarded
+   */
+  async resolveDeadLetter(gloriafoodOrderId: string, status: 'retried' | 'discarded'): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        'UPDATE dispatch_dead_letters SET status = ?, resolved_at = NOW() WHERE gloriafood_order_id = ?',
+        [status, gloriafoodOrderId]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Save an admin's corrections of a dead-lettered order. They are kept apart from the order's raw_data, which
+   * the next GloriaFood update of the order overwrites, and applied when the order is dispatched.
+   */
+  async saveDeadLetterEdits(gloriafoodOrderId: string, orderEdits: string): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        'UPDATE dispatch_dead_letters SET order_edits = ?, edited_at = NOW() WHERE gloriafood_order_id = ?',
+        [orderEdits, gloriafoodOrderId]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async getStoreDispatchRules(storeId: string): Promise<StoreDispatchRules | null> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query('SELECT * FROM dispatch_rules WHERE store_id = ?', [storeId]) as [StoreDispatchRules[], any];
+      return rows[0] || null;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async saveStoreDispatchRules(storeId: string, rules: string): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        `INSERT INTO dispatch_rules (store_id, rules) VALUES (?, ?)
+         ON DUPLICATE KEY UPDATE rules = VALUES(rules)`,
+        [storeId, rules]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async deleteStoreDispatchRules(storeId: string): Promise<boolean> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [result] = await connection.query('DELETE FROM dispatch_rules WHERE store_id = ?', [storeId]) as [mysql.ResultSetHeader, any];
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async recordDispatchDecision(record: DispatchDecisionRecord): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        `INSERT INTO dispatch_decisions (gloriafood_order_id, store_id, action, rule_name, reason, source, decided_at)
+         VALUES (?, ?, ?, ?, ?, ?, NOW())`,
+        [record.gloriafood_order_id, record.store_id || null, record.action, record.rule_name || null, record.reason, record.source]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async getDispatchDecisions(limit: number = 50, gloriafoodOrderId?: string, storeId?: string): Promise<DispatchDecisionRecord[]> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query(
+        `SELECT * FROM dispatch_decisions
+         WHERE (? IS NULL OR gloriafood_order_id = ?) AND (? IS NULL OR store_id = ?)
+         ORDER BY id DESC LIMIT ?`,
+        [gloriafoodOrderId || null, gloriafoodOrderId || null, storeId || null, storeId || null, limit]
+      ) as [DispatchDecisionRecord[], any];
+      return rows;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Replace a store's menu catalog with a freshly synced one
+   */
+  async replaceMenuCatalog(catalog: MenuCatalog): Promise<void> {
+    const storeId = catalog.store_id;
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      for (const table of ['menu_categories', 'menu_items', 'menu_item_sizes', 'menu_option_groups', 'menu_options']) {
+        await connection.query(`DELETE FROM ${table} WHERE store_id = ?`, [storeId]);
+      }
+
+      if (catalog.categories.length > 0) {
+        await connection.query(
+          'INSERT INTO menu_categories (store_id, category_id, name, description, active, sort_order) VALUES ?',
+          [catalog.categories.map(c => [storeId, c.category_id, c.name, c.description || null, c.active, c.sort_order])]
+        );
+      }
+      if (catalog.items.length > 0) {
+        await connection.query(
+          'INSERT INTO menu_items (store_id, item_id, category_id, name, description, price, active) VALUES ?',
+          [catalog.items.map(i => [storeId, i.item_id, i.category_id, i.name, i.description || null, i.price, i.active])]
+        );
       }
+      if (catalog.sizes.length > 0) {
+        await connection.query(
+          'INSERT INTO menu_item_sizes (store_id, size_id, item_id, name, price, is_default) VALUES ?',
+          [catalog.sizes.map(z => [storeId, z.size_id, z.item_id, z.name, z.price, z.is_default])]
+        );
+      }
+      if (catalog.groups.length > 0) {
+        await connection.query(
+          'REPLACE INTO menu_option_groups (store_id, group_id, parent_type, parent_id, name, required, force_min, force_max) VALUES ?',
+          [catalog.groups.map(g => [storeId, g.group_id, g.parent_type, g.parent_id, g.name, g.required, g.force_min, g.force_max])]
+        );
+      }
+      if (catalog.options.length > 0) {
+        await connection.query(
+          'REPLACE INTO menu_options (store_id, option_id, group_id, name, price, is_default) VALUES ?',
+          [catalog.options.map(o => [storeId, o.option_id, o.group_id, o.name, o.price, o.is_default])]
+        );
+      }
+
+      await connection.query(
+        `INSERT INTO menu_sync (store_id, currency, synced_at) VALUES (?, ?, NOW())
+         ON DUPLICATE KEY UPDATE currency = VALUES(currency), synced_at = VALUES(synced_at)`,
+        [storeId, catalog.currency || null]
+      );
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
       throw error;
+    } finally {
+      connection.release();
     }
   }
 
-  async insertOrUpdateOrder(orderData: any): Promise<Order | null> {
+  /**
+   * Load a store's menu catalog (empty lists if it was never synced)
+   */
+  async getMenuCatalog(storeId: string): Promise<MenuCatalog> {
+    const connection = await this.pool.getConnection();
     try {
-      const customerName = this.extractCustomerName(orderData);
-      const customerPhone = this.extractCustomerPhone(orderData);
-      const customerEmail = this.extractCustomerEmail(orderData);
-      const deliveryAddress = this.extractDeliveryAddress(orderData);
-      
-      const order: Order = {
-        id: '',
-        gloriafood_order_id: orderData.id?.toString() || orderData.order_id?.toString() || '',
-        store_id: orderData.store_id?.toString() || orderData.restaurant_id?.toString() || '',
-        customer_name: customerName,
-        customer_phone: customerPhone,
-        customer_email: customerEmail,
-        delivery_address: deliveryAddress,
-        total_price: parseFloat(orderData.total_price || orderData.total || '0'),
-        currency: orderData.currency || 'USD',
-        status: orderData.status || orderData.order_status || 'unknown',
-        order_type: orderData.order_type || orderData.type || 'unknown',
-        items: JSON.stringify(orderData.items || orderData.order_items || []),
-        raw_data: JSON.stringify(orderData),
-        created_at: orderData.created_at || orderData.order_date || new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        fetched_at: new Date().toISOString()
+      const select = async (sql: string): Promise<any[]> => {
+        const [rows] = await connection.query(sql, [storeId]) as [any[], any];
+        return rows;
       };
+      // DECIMAL columns come back as strings
+      const withPrice = (rows: any[]) => rows.map(row => ({ ...row, price: Number(row.price) }));
 
-      const connection = await this.pool.getConnection();
-      
-      const [result] = await connection.query(`
-        INSERT INTO orders (
-          gloriafood_order_id, store_id, customer_name, customer_phone,
-          customer_email, delivery_address, total_price, currency,
-          status, order_type, items, raw_data, created_at, updated_at, fetched_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        ON DUPLICATE KEY UPDATE
-          customer_name = VALUES(customer_name),
-          customer_phone = VALUES(customer_phone),
-          customer_email = VALUES(customer_email),
-          delivery_address = VALUES(delivery_address),
-          status = VALUES(status),
-          total_price = VALUES(total_price),
-          order_type = VALUES(order_type),
-          items = VALUES(items),
-          updated_at = VALUES(updated_at),
-          fetched_at = VALUES(fetched_at),
-          raw_data = VALUES(raw_data)
-      `, [
-        order.gloriafood_order_id,
-        order.store_id,
-        order.customer_name,
-        order.customer_phone || null,
-        order.customer_email || null,
-        order.delivery_address || null,
-        order.total_price,
-        order.currency,
-        order.status,
-        order.order_type,
-        order.items,
-        order.raw_data,
-        order.created_at,
-        order.updated_at,
-        order.fetched_at
-      ]);
-
+      const sync = await select('SELECT * FROM menu_sync WHERE store_id = ?');
+      return {
+        store_id: storeId,
+        currency: sync[0]?.currency,
+        synced_at: sync[0]?.synced_at,
+        categories: await select('SELECT * FROM menu_categories WHERE store_id = ? ORDER BY sort_order'),
+        items: withPrice(await select('SELECT * FROM menu_items WHERE store_id = ? ORDER BY name')),
+        sizes: withPrice(await select('SELECT * FROM menu_item_sizes WHERE store_id = ?')),
+        groups: await select('SELECT * FROM menu_option_groups WHERE store_id = ?'),
+        options: withPrice(await select('SELECT * FROM menu_options WHERE store_id = ?')),
+      };
+    } finally {
       connection.release();
-      
-      const savedOrder = await this.getOrderByGloriaFoodId(order.gloriafood_order_id);
-      return savedOrder;
-    } catch (error: any) {
-      console.error('❌ Error inserting order to MySQL:', error.message);
-      console.error('   Full error:', error);
-      if (error.code === 'ER_NO_SUCH_TABLE') {
-        console.error('   ⚠️  Orders table does not exist. Check database setup.');
+    }
+  }
+
+  async saveOrderItemLinks(gloriafoodOrderId: string, links: OrderItemLink[]): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      await connection.query('DELETE FROM order_item_links WHERE gloriafood_order_id = ?', [gloriafoodOrderId]);
+      if (links.length > 0) {
+        await connection.query(
+          `INSERT INTO order_item_links (
+             gloriafood_order_id, line_index, order_item_name, quantity, order_price,
+             menu_item_id, menu_size_id, menu_name, menu_price, price_mismatch
+           ) VALUES ?`,
+          [links.map(link => [
+            gloriafoodOrderId, link.line_index, link.order_item_name, link.quantity, link.order_price,
+            link.menu_item_id || null, link.menu_size_id || null, link.menu_name || null,
+            link.menu_price ?? null, link.price_mismatch
+          ])]
+        );
       }
-      return null;
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async getOrderItemLinks(gloriafoodOrderId: string): Promise<OrderItemLink[]> {
+    try {
+      const connection = await this.pool.getConnection();
+      const [rows] = await connection.query(
+        'SELECT * FROM order_item_links WHERE gloriafood_order_id = ? ORDER BY line_index',
+        [gloriafoodOrderId]
+      ) as [OrderItemLink[], any];
+      connection.release();
+      return rows;
+    } catch (error) {
+      console.error('Error getting order item links:', error);
+      return [];
     }
   }
 
-  async markOrderSentToDoorDash(gloriafoodOrderId: string, doordashOrderId?: string, trackingUrl?: string): Promise<void> {
+  async getPriceMismatches(limit: number = 50): Promise<OrderItemLink[]> {
     try {
       const connection = await this.pool.getConnection();
+      const [rows] = await connection.query(
+        'SELECT * FROM order_item_links WHERE price_mismatch = 1 ORDER BY linked_at DESC LIMIT ?',
+        [limit]
+      ) as [OrderItemLink[], any];
+      connection.release();
+      return rows;
+    } catch (error) {
+      console.error('Error getting price mismatches:', error);
+      return [];
+    }
+  }
+
+  async getStores(): Promise<Store[]> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query('SELECT * FROM stores ORDER BY name') as [Store[], any];
+      return rows;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async getStore(storeId: string): Promise<Store | null> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query('SELECT * FROM stores WHERE store_id = ?', [storeId]) as [Store[], any];
+      return rows.length > 0 ? rows[0] : null;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Create or replace a store's configuration
+   */
+  async saveStore(store: Store): Promise<Store> {
+    const connection = await this.pool.getConnection();
+    try {
       await connection.query(
-        `UPDATE orders
-         SET sent_to_doordash = 1,
-             doordash_order_id = COALESCE(?, doordash_order_id),
-             doordash_tracking_url = COALESCE(?, doordash_tracking_url),
-             doordash_sent_at = NOW(),
-             updated_at = NOW()
-         WHERE gloriafood_order_id = ?`,
-        [doordashOrderId || null, trackingUrl || null, gloriafoodOrderId]
+        `INSERT INTO stores (
+           store_id, name, gloriafood_api_key, gloriafood_master_key, webhook_path, pickup_address, pickup_phone,
+           doordash_developer_id, doordash_key_id, doordash_signing_secret, doordash_merchant_id,
+           dispatch_enabled, timezone, country, delivery_providers, doordash_business_id, doordash_store_id
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE
+           name = VALUES(name),
+           gloriafood_api_key = VALUES(gloriafood_api_key),
+           gloriafood_master_key = VALUES(gloriafood_master_key),
+           webhook_path = VALUES(webhook_path),
+           pickup_address = VALUES(pickup_address),
+           pickup_phone = VALUES(pickup_phone),
+           doordash_developer_id = VALUES(doordash_developer_id),
+           doordash_key_id = VALUES(doordash_key_id),
+           doordash_signing_secret = VALUES(doordash_signing_secret),
+           doordash_merchant_id = VALUES(doordash_merchant_id),
+           dispatch_enabled = VALUES(dispatch_enabled),
+           timezone = VALUES(timezone),
+           country = VALUES(country),
+           delivery_providers = VALUES(delivery_providers),
+           doordash_business_id = VALUES(doordash_business_id),
+           doordash_store_id = VALUES(doordash_store_id)`,
+        [
+          store.store_id, store.name, store.gloriafood_api_key || null, store.gloriafood_master_key || null,
+          store.webhook_path || null, store.pickup_address || null, store.pickup_phone || null,
+          store.doordash_developer_id || null, store.doordash_key_id || null, store.doordash_signing_secret || null,
+          store.doordash_merchant_id || null, store.dispatch_enabled, store.timezone || null,
+          store.country || null, store.delivery_providers || null, store.doordash_business_id || null,
+          store.doordash_store_id || null,
+        ]
       );
+    } finally {
+      connection.release();
+    }
+    return (await this.getStore(store.store_id)) as Store;
+  }
+
+  async deleteStore(storeId: string): Promise<boolean> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [result] = await connection.query('DELETE FROM stores WHERE store_id = ?', [storeId]) as [mysql.ResultSetHeader, any];
+      return result.affectedRows > 0;
+    } finally {
       connection.release();
+    }
+  }
+
+  /**
+   * Store a delivery event and apply it to its order, unless the order already has a newer one.
+   * Returns false if the event was already recorded.
+   */
+  async recordDeliveryEvent(event: DeliveryEvent): Promise<boolean> {
+    const occurredAt = new Date(event.occurred_at);
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      const [result] = await connection.query(
+        `INSERT IGNORE INTO delivery_events (
+           gloriafood_order_id, external_delivery_id, delivery_id, event_name, delivery_status,
+           dasher_name, dasher_phone, pickup_eta, dropoff_eta, tracking_url, occurred_at, received_at, raw_data
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), ?)`,
+        [
+          event.gloriafood_order_id || null, event.external_delivery_id, event.delivery_id || null, event.event_name,
+          event.delivery_status || null, event.dasher_name || null, event.dasher_phone || null,
+          event.pickup_eta || null, event.dropoff_eta || null, event.tracking_url || null,
+          occurredAt, event.raw_data || null,
+        ]
+      ) as [mysql.ResultSetHeader, any];
+      const inserted = result.affectedRows > 0;
+
+      if (inserted && event.gloriafood_order_id) {
+        await connection.query(
+          `UPDATE orders
+           SET doordash_status = COALESCE(?, doordash_status),
+               doordash_dasher_name = COALESCE(?, doordash_dasher_name),
+               doordash_dasher_phone = COALESCE(?, doordash_dasher_phone),
+               doordash_pickup_eta = COALESCE(?, doordash_pickup_eta),
+               doordash_dropoff_eta = COALESCE(?, doordash_dropoff_eta),
+               doordash_tracking_url = COALESCE(doordash_tracking_url, ?),
+               doordash_status_at = ?,
+               updated_at = NOW()
+           WHERE gloriafood_order_id = ? AND (doordash_status_at IS NULL OR doordash_status_at <= ?)`,
+          [
+            event.delivery_status || null, event.dasher_name || null, event.dasher_phone || null,
+            event.pickup_eta || null, event.dropoff_eta || null, event.tracking_url || null,
+            occurredAt, event.gloriafood_order_id, occurredAt,
+          ]
+        );
+      }
+      await connection.commit();
+      return inserted;
     } catch (error) {
-      console.error('Error updating sent_to_doordash in MySQL:', error);
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Orders sent to DoorDash since sentSince whose delivery is not finished and whose next status poll is due.
+   * Deliveries of other providers are not polled.
+   */
+  async getDeliveriesToPoll(now: number, sentSince: Date, terminalStatuses: string[], limit: number): Promise<Order[]> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query(
+        `SELECT * FROM orders
+         WHERE sent_to_doordash = 1
+           AND COALESCE(delivery_provider, 'doordash') = 'doordash'
+           AND doordash_sent_at >= ?
+           AND (doordash_status IS NULL OR doordash_status NOT IN (?))
+           AND (doordash_next_poll_at IS NULL OR doordash_next_poll_at <= ?)
+         ORDER BY COALESCE(doordash_next_poll_at, 0)
+         LIMIT ?`,
+        [sentSince, terminalStatuses, now, limit]
+      ) as [Order[], any];
+      return rows;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Delivery orders sent to DoorDash (or, when not sent, created) between from (inclusive) and to, except those
+   * delivered in-house, oldest first. Not by fetched_at: every resend of an order moves that forward.
+   * after: continue past that order (the previous page's last).
+   */
+  async getDeliveryOrdersBetween(from: Date, to: Date, limit: number, storeId?: string, after?: DeliveryOrderCursor): Promise<Order[]> {
+    const connection = await this.pool.getConnection();
+    try {
+      const at = after ? after.at : null;
+      const [rows] = await connection.query(
+        `SELECT * FROM orders
+         WHERE LOWER(order_type) = 'delivery'
+           AND COALESCE(delivery_provider, 'doordash') = 'doordash'
+           AND COALESCE(doordash_sent_at, created_at) >= ?
+           AND COALESCE(doordash_sent_at, created_at) < ?
+           AND (? IS NULL OR store_id = ?)
+           AND (? IS NULL
+             OR COALESCE(doordash_sent_at, created_at) > ?
+             OR (COALESCE(doordash_sent_at, created_at) = ? AND id > ?))
+         ORDER BY COALESCE(doordash_sent_at, created_at), id
+         LIMIT ?`,
+        [from, to, storeId || null, storeId || null, at, at, at, after ? after.id : null, limit]
+      ) as [Order[], any];
+      return rows;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Cost columns of the orders sent to DoorDash between from (inclusive) and to, oldest first
+   */
+  async getDeliveryCostOrders(from: Date, to: Date, limit: number, storeId?: string): Promise<DeliveryCostOrder[]> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query(
+        `SELECT gloriafood_order_id, store_id, status, created_at, sent_to_doordash, doordash_sent_at, doordash_status,
+                doordash_environment, doordash_quote_fee, doordash_quote_currency, doordash_fee, doordash_tip,
+                doordash_cancellation_fee, doordash_fee_currency, customer_delivery_fee
+         FROM orders
+         WHERE sent_to_doordash = 1
+           AND COALESCE(delivery_provider, 'doordash') = 'doordash'
+           AND doordash_sent_at >= ?
+           AND doordash_sent_at < ?
+           AND (? IS NULL OR store_id = ?)
+         ORDER BY doordash_sent_at
+         LIMIT ?`,
+        [from, to, storeId || null, storeId || null, limit]
+      ) as [DeliveryCostOrder[], any];
+      return rows;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async scheduleDeliveryPoll(gloriafoodOrderId: string, nextPollAt: number, attempts: number): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query(
+        'UPDATE orders SET doordash_next_poll_at = ?, doordash_poll_attempts = ? WHERE gloriafood_order_id = ?',
+        [nextPollAt, attempts, gloriafoodOrderId]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  async getDeliveryEvents(gloriafoodOrderId: string): Promise<DeliveryEvent[]> {
+    const connection = await this.pool.getConnection();
+    try {
+      const [rows] = await connection.query(
+        'SELECT * FROM delivery_events WHERE gloriafood_order_id = ? ORDER BY occurred_at, id',
+        [gloriafoodOrderId]
+      ) as [DeliveryEvent[], any];
+      return rows;
+    } finally {
+      connection.release();
     }
   }
 
@@ -444,12 +1946,12 @@ export class OrderDatabaseMySQL {
     }
   }
 
-  async getAllOrders(limit: number = 50): Promise<Order[]> {
+  async getAllOrders(limit: number = 50, storeId?: string): Promise<Order[]> {
     try {
       const connection = await this.pool.getConnection();
       const [rows] = await connection.query(
-        'SELECT * FROM orders ORDER BY fetched_at DESC LIMIT ?',
-        [limit]
+        'SELECT * FROM orders WHERE (? IS NULL OR store_id = ?) ORDER BY fetched_at DESC LIMIT ?',
+        [storeId || null, storeId || null, limit]
       ) as [Order[], any];
       
       connection.release();
@@ -460,14 +1962,15 @@ export class OrderDatabaseMySQL {
     }
   }
 
-  async getRecentOrders(minutes: number = 60): Promise<Order[]> {
+  async getRecentOrders(minutes: number = 60, storeId?: string): Promise<Order[]> {
     try {
       const connection = await this.pool.getConnection();
       const [rows] = await connection.query(
         `SELECT * FROM orders 
          WHERE fetched_at > DATE_SUB(NOW(), INTERVAL ? MINUTE)
+           AND (? IS NULL OR store_id = ?)
          ORDER BY fetched_at DESC`,
-        [minutes]
+        [minutes, storeId || null, storeId || null]
       ) as [Order[], any];
       
       connection.release();
@@ -478,12 +1981,12 @@ export class OrderDatabaseMySQL {
     }
   }
 
-  async getOrdersByStatus(status: string): Promise<Order[]> {
+  async getOrdersByStatus(status: string, storeId?: string): Promise<Order[]> {
     try {
       const connection = await this.pool.getConnection();
       const [rows] = await connection.query(
-        'SELECT * FROM orders WHERE status = ? ORDER BY fetched_at DESC',
-        [status]
+        'SELECT * FROM orders WHERE status = ? AND (? IS NULL OR store_id = ?) ORDER BY fetched_at DESC',
+        [status, storeId || null, storeId || null]
       ) as [Order[], any];
       
       connection.release();
@@ -494,11 +1997,12 @@ export class OrderDatabaseMySQL {
     }
   }
 
-  async getOrderCount(): Promise<number> {
+  async getOrderCount(storeId?: string): Promise<number> {
     try {
       const connection = await this.pool.getConnection();
       const [rows] = await connection.query(
-        'SELECT COUNT(*) as count FROM orders'
+        'SELECT COUNT(*) as count FROM orders WHERE (? IS NULL OR store_id = ?)',
+        [storeId || null, storeId || null]
       ) as [{ count: number }[], any];
       
       connection.release();
@@ -21,6 +21,282 @@ export interface Order {
   doordash_order_id?: string;
   doordash_sent_at?: string;
   doordash_tracking_url?: string;
+  dispatch_claimed_by?: string;
+  dispatch_claimed_until?: number; // epoch ms
+  doordash_quote_fee?: number; // cents
+  doordash_quote_currency?: string;
+  doordash_quote_pickup_eta?: string;
+  doordash_quote_dropoff_eta?: string;
+  doordash_quote_status?: string; // quoted | accepted | rejected
+  doordash_quote_reason?: string;
+  doordash_quoted_at?: string;
+  doordash_status?: string; // latest status from DoorDash delivery events
+  doordash_dasher_name?: string;
+  doordash_dasher_phone?: string;
+  doordash_pickup_eta?: string;
+  doordash_dropoff_eta?: string;
+  doordash_status_at?: string; // when the latest applied event happened
+  doordash_poll_attempts?: number; // status polls since the last change
+  doordash_next_poll_at?: number; // epoch ms
+  doordash_cancel_status?: string; // cancelled | failed
+  doordash_cancel_error?: string;
+  doordash_cancelled_at?: string; // when the cancellation was attempted
+  dispatch_attempts?: number; // dispatch job runs for this order
+  dispatch_last_error?: string;
+  dispatch_next_retry_at?: number; // epoch ms; null when no retry is scheduled
+  doordash_payload?: string; // JSON: the updatable Drive fields DoorDash last accepted
+  doordash_update_status?: string; // updated | failed | review
+  doordash_update_error?: string;
+  doordash_updated_at?: string;
+  needs_review?: number; // 0 or 1: something needs a person to look at it
+  review_reason?: string;
+  scheduled_for?: string; // ISO: when a scheduled ("for later") order is due
+  scheduled_dispatch_at?: number; // epoch ms: when a scheduled order is sent to DoorDash
+  delivery_provider?: string; // doordash | inhouse: who the order was dispatched to (doordash_* columns hold its delivery)
+  doordash_environment?: string; // sandbox | production: DoorDash environment that has the delivery
+  doordash_fee?: number; // cents: what DoorDash charges for the delivery
+  doordash_tip?: number; // cents: tip passed on to the Dasher
+  doordash_cancellation_fee?: number; // cents: charged when a delivery is cancelled after a Dasher was assigned
+  doordash_fee_currency?: string;
+  customer_delivery_fee?: number; // cents: delivery fee the customer paid in GloriaFood
+}
+
+// What a delivery cost and what the customer paid for it; fields left out keep their recorded value
+export interface DeliveryCostRecord {
+  fee?: number; // cents
+  tip?: number; // cents
+  cancellation_fee?: number; // cents
+  currency?: string;
+  customer_delivery_fee?: number; // cents
+}
+
+// Columns of a sent order the delivery cost report reads (not raw_data and the like: a report covers many orders)
+export type DeliveryCostOrder = Pick<Order,
+  'gloriafood_order_id' | 'store_id' | 'status' | 'created_at' | 'sent_to_doordash' | 'doordash_sent_at' | 'doordash_status' |
+  'doordash_environment' | 'doordash_quote_fee' | 'doordash_quote_currency' | 'doordash_fee' | 'doordash_tip' |
+  'doordash_cancellation_fee' | 'doordash_fee_currency' | 'customer_delivery_fee'>;
+
+// Position in the delivery orders of a range: the last order read, by the time it was sent (or created) and its row ID
+export interface DeliveryOrderCursor {
+  at: string; // doordash_sent_at, or created_at when not sent, as read
+  id: string;
+}
+
+// Latest DoorDash quote for an order and what was decided about it
+export interface DoorDashQuoteRecord {
+  fee: number; // cents
+  currency?: string;
+  pickup_eta?: string;
+  dropoff_eta?: string;
+  status: 'quoted' | 'accepted' | 'rejected';
+  reason?: string;
+}
+
+export interface WebhookAuditEntry {
+  id?: number;
+  path: string;
+  source_ip?: string;
+  store_id?: string;
+  auth_mode: string;
+  reason: string;
+  rejected: number; // 0 or 1
+  user_agent?: string;
+  created_at?: string;
+}
+
+export interface WebhookJournalEntry {
+  id: number;
+  received_at: string;
+  method: string;
+  path: string;
+  headers: string; // JSON string, secrets redacted
+  query_params?: string; // JSON string, secrets redacted
+  raw_body?: string;
+  content_type?: string;
+  source_ip?: string;
+  status: string; // received | unauthorized | invalid | processed | failed
+  error?: string;
+  order_ids?: string; // comma-separated GloriaFood order IDs
+  processed_at?: string;
+  replay_count: number;
+  last_replayed_at?: string;
+}
+
+export type NewWebhookJournalEntry = Pick<WebhookJournalEntry, 'method' | 'path' | 'headers' | 'query_params' | 'raw_body' | 'content_type' | 'source_ip'>;
+
+export interface WebhookJournalUpdate {
+  status: string;
+  error?: string;
+  order_ids?: string;
+  replayed?: boolean;
+}
+
+export interface DispatchJob {
+  queue_id: number;
+  gloriafood_order_id: string;
+  priority: number; // higher runs first
+  retry_count: number;
+  status: string; // pending | processing | done | failed
+  available_at: number; // epoch ms
+  locked_by?: string;
+  locked_until?: number; // epoch ms
+  last_error?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MenuCategory {
+  store_id: string;
+  category_id: string;
+  name: string;
+  description?: string;
+  active: number; // 0 or 1
+  sort_order: number;
+}
+
+export interface MenuItem {
+  store_id: string;
+  item_id: string;
+  category_id: string;
+  name: string;
+  description?: string;
+  price: number;
+  active: number; // 0 or 1
+}
+
+export interface MenuItemSize {
+  store_id: string;
+  size_id: string;
+  item_id: string;
+  name: string;
+  price: number;
+  is_default: number; // 0 or 1
+}
+
+export interface MenuOptionGroup {
+  store_id: string;
+  group_id: string;
+  parent_type: string; // category | item | size
+  parent_id: string;
+  name: string;
+  required: number; // 0 or 1
+  force_min: number;
+  force_max: number;
+}
+
+export interface MenuOption {
+  store_id: string;
+  option_id: string;
+  group_id: string;
+  name: string;
+  price: number;
+  is_default: number; // 0 or 1
+}
+
+export interface MenuCatalog {
+  store_id: string;
+  currency?: string;
+  synced_at?: string;
+  categories: MenuCategory[];
+  items: MenuItem[];
+  sizes: MenuItemSize[];
+  groups: MenuOptionGroup[];
+  options: MenuOption[];
+}
+
+// One line of an order's items, linked to the menu item it was ordered from (if found)
+export interface OrderItemLink {
+  gloriafood_order_id: string;
+  line_index: number;
+  order_item_name: string;
+  quantity: number;
+  order_price: number; // unit price incl. size and options, as charged
+  menu_item_id?: string;
+  menu_size_id?: string;
+  menu_name?: string;
+  menu_price?: number; // unit price from the current menu
+  price_mismatch: number; // 0 or 1
+  linked_at?: string;
+}
+
+// A DoorDash Drive delivery event (status webhook), linked to its order when known
+export interface DeliveryEvent {
+  id?: number;
+  gloriafood_order_id?: string;
+  external_delivery_id: string;
+  delivery_id?: string;
+  event_name: string; // e.g. DASHER_CONFIRMED, DASHER_PICKED_UP, DASHER_DROPPED_OFF, DELIVERY_CANCELLED
+  delivery_status?: string;
+  dasher_name?: string;
+  dasher_phone?: string;
+  pickup_eta?: string;
+  dropoff_eta?: string;
+  tracking_url?: string;
+  occurred_at: string; // ISO8601
+  received_at?: string;
+  raw_data?: string;
+}
+
+// Order whose DoorDash dispatch gave up, kept until an admin retries or discards it
+export interface DispatchDeadLetter {
+  id?: number;
+  gloriafood_order_id: string;
+  store_id?: string;
+  queue_id?: number;
+  reason: string;
+  error_status?: number; // HTTP status of the DoorDash error, if there was a response
+  error_body?: string; // DoorDash error response body (JSON)
+  attempts: number;
+  status?: string; // open | retried | resolved | discarded
+  failed_at?: string;
+  edited_at?: string; // when the order was last edited from the admin API
+  order_edits?: string; // JSON: the admin's corrections, applied over the order's data when it is dispatched
+  resolved_at?: string;
+  // From the order, for listing
+  customer_name?: string;
+  customer_phone?: string;
+  delivery_address?: string;
+}
+
+// A store's dispatch rules kept in the database (JSON array; see dispatch-rules.ts)
+export interface StoreDispatchRules {
+  store_id: string;
+  rules: string;
+  updated_at?: string;
+}
+
+// Decision log entry: whether an order was dispatched and which rule decided it
+export interface DispatchDecisionRecord {
+  id?: number;
+  gloriafood_order_id: string;
+  store_id?: string;
+  action: string; // dispatch | skip
+  rule_name?: string; // empty when no rule matched
+  reason: string;
+  source: string; // where the rules came from: store | file:store | file:default | none
+  decided_at?: string;
+}
+
+export interface Store {
+  store_id: string; // GloriaFood restaurant_id
+  name: string;
+  gloriafood_api_key?: string; // restaurant key: accepted on the webhook, used for polling and menu sync
+  gloriafood_master_key?: string;
+  webhook_path?: string; // optional slug for a per-store webhook URL (WEBHOOK_PATH/<slug>)
+  pickup_address?: string;
+  pickup_phone?: string;
+  doordash_developer_id?: string;
+  doordash_key_id?: string;
+  doordash_signing_secret?: string;
+  doordash_merchant_id?: string;
+  dispatch_enabled: number; // 0 or 1
+  timezone?: string; // IANA name, e.g. America/New_York
+  delivery_providers?: string; // comma-separated priority order, e.g. "doordash,inhouse" (default DELIVERY_PROVIDERS)
+  country?: string; // ISO 3166 code for customer addresses and phone numbers without one (default DEFAULT_COUNTRY)
+  doordash_business_id?: string; // external_business_id / external_store_id of the store provisioned on DoorDash;
+  doordash_store_id?: string; // when set, deliveries use them instead of the pickup address
+  created_at?: string;
+  updated_at?: string;
 }
 
 export class OrderDatabase {
@@ -54,7 +330,45 @@ export class OrderDatabase {
         sent_to_doordash INTEGER DEFAULT 0,
         doordash_order_id TEXT,
         doordash_sent_at TEXT,
-        doordash_tracking_url TEXT
+        doordash_tracking_url TEXT,
+        dispatch_claimed_by TEXT,
+        dispatch_claimed_until INTEGER,
+        doordash_quote_fee INTEGER,
+        doordash_quote_currency TEXT,
+        doordash_quote_pickup_eta TEXT,
+        doordash_quote_dropoff_eta TEXT,
+        doordash_quote_status TEXT,
+        doordash_quote_reason TEXT,
+        doordash_quoted_at TEXT,
+        doordash_status TEXT,
+        doordash_dasher_name TEXT,
+        doordash_dasher_phone TEXT,
+        doordash_pickup_eta TEXT,
+        doordash_dropoff_eta TEXT,
+        doordash_status_at TEXT,
+        doordash_poll_attempts INTEGER DEFAULT 0,
+        doordash_next_poll_at INTEGER,
+        doordash_cancel_status TEXT,
+        doordash_cancel_error TEXT,
+        doordash_cancelled_at TEXT,
+        dispatch_attempts INTEGER DEFAULT 0,
+        dispatch_last_error TEXT,
+        dispatch_next_retry_at INTEGER,
+        doordash_payload TEXT,
+        doordash_update_status TEXT,
+        doordash_update_error TEXT,
+        doordash_updated_at TEXT,
+        needs_review INTEGER DEFAULT 0,
+        review_reason TEXT,
+        scheduled_for TEXT,
+        scheduled_dispatch_at INTEGER,
+        delivery_provider TEXT,
+        doordash_environment TEXT,
+        doordash_fee INTEGER,
+        doordash_tip INTEGER,
+        doordash_cancellation_fee INTEGER,
+        doordash_fee_currency TEXT,
+        customer_delivery_fee INTEGER
       );
 
       CREATE INDEX IF NOT EXISTS idx_gloriafood_order_id ON orders(gloriafood_order_id);
@@ -68,6 +382,303 @@ export class OrderDatabase {
     try { this.db.exec(`ALTER TABLE orders ADD COLUMN doordash_order_id TEXT`); } catch (e) {}
     try { this.db.exec(`ALTER TABLE orders ADD COLUMN doordash_sent_at TEXT`); } catch (e) {}
     try { this.db.exec(`ALTER TABLE orders ADD COLUMN doordash_tracking_url TEXT`); } catch (e) {}
+    try { this.db.exec(`ALTER TABLE orders ADD COLUMN dispatch_claimed_by TEXT`); } catch (e) {}
+    try { this.db.exec(`ALTER TABLE orders ADD COLUMN dispatch_claimed_until INTEGER`); } catch (e) {}
+    for (const column of [
+      'doordash_quote_fee INTEGER',
+      'doordash_quote_currency TEXT',
+      'doordash_quote_pickup_eta TEXT',
+      'doordash_quote_dropoff_eta TEXT',
+      'doordash_quote_status TEXT',
+      'doordash_quote_reason TEXT',
+      'doordash_quoted_at TEXT',
+      'doordash_status TEXT',
+      'doordash_dasher_name TEXT',
+      'doordash_dasher_phone TEXT',
+      'doordash_pickup_eta TEXT',
+      'doordash_dropoff_eta TEXT',
+      'doordash_status_at TEXT',
+      'doordash_poll_attempts INTEGER DEFAULT 0',
+      'doordash_next_poll_at INTEGER',
+      'doordash_cancel_status TEXT',
+      'doordash_cancel_error TEXT',
+      'doordash_cancelled_at TEXT',
+      'dispatch_attempts INTEGER DEFAULT 0',
+      'dispatch_last_error TEXT',
+      'dispatch_next_retry_at INTEGER',
+      'doordash_payload TEXT',
+      'doordash_update_status TEXT',
+      'doordash_update_error TEXT',
+      'doordash_updated_at TEXT',
+      'needs_review INTEGER DEFAULT 0',
+      'review_reason TEXT',
+      'scheduled_for TEXT',
+      'scheduled_dispatch_at INTEGER',
+      'delivery_provider TEXT',
+      'doordash_environment TEXT',
+      'doordash_fee INTEGER',
+      'doordash_tip INTEGER',
+      'doordash_cancellation_fee INTEGER',
+      'doordash_fee_currency TEXT',
+      'customer_delivery_fee INTEGER',
+    ]) {
+      try { this.db.exec(`ALTER TABLE orders ADD COLUMN ${column}`); } catch (e) {}
+    }
+
+    // Audit trail for webhook requests that failed authentication
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        path TEXT,
+        source_ip TEXT,
+        store_id TEXT,
+        auth_mode TEXT,
+        reason TEXT,
+        rejected INTEGER DEFAULT 0,
+        user_agent TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_audit_created_at ON webhook_audit_log(created_at);
+    `);
+
+    // Journal of every inbound webhook request, stored before processing so it can be replayed
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_journal (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        received_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        method TEXT,
+        path TEXT,
+        headers TEXT,
+        query_params TEXT,
+        raw_body TEXT,
+        content_type TEXT,
+        source_ip TEXT,
+        status TEXT DEFAULT 'received',
+        error TEXT,
+        order_ids TEXT,
+        processed_at TEXT,
+        replay_count INTEGER DEFAULT 0,
+        last_replayed_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_journal_status ON webhook_journal(status);
+      CREATE INDEX IF NOT EXISTS idx_webhook_journal_received_at ON webhook_journal(received_at);
+    `);
+
+    // Idempotency: fingerprints of processed webhook events and short-lived per-order processing locks
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_events (
+        fingerprint TEXT PRIMARY KEY,
+        gloriafood_order_id TEXT,
+        content_hash TEXT,
+        processed_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_events_order_id ON webhook_events(gloriafood_order_id);
+
+      CREATE TABLE IF NOT EXISTS order_locks (
+        gloriafood_order_id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        locked_until INTEGER NOT NULL
+      );
+    `);
+
+    // Dispatch queue (Order_Queue): DoorDash dispatch jobs processed by background workers
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS order_queue (
+        queue_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        gloriafood_order_id TEXT NOT NULL,
+        priority INTEGER DEFAULT 0,
+        retry_count INTEGER DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'pending',
+        available_at INTEGER NOT NULL,
+        locked_by TEXT,
+        locked_until INTEGER,
+        last_error TEXT,
+        created_at TEXT,
+        updated_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_order_queue_status ON order_queue(status, available_at);
+      CREATE INDEX IF NOT EXISTS idx_order_queue_order_id ON order_queue(gloriafood_order_id);
+    `);
+
+    // Stores registry (multi-store configuration)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS stores (
+        store_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        gloriafood_api_key TEXT,
+        gloriafood_master_key TEXT,
+        webhook_path TEXT UNIQUE,
+        pickup_address TEXT,
+        pickup_phone TEXT,
+        doordash_developer_id TEXT,
+        doordash_key_id TEXT,
+        doordash_signing_secret TEXT,
+        doordash_merchant_id TEXT,
+        dispatch_enabled INTEGER DEFAULT 1,
+        timezone TEXT,
+        country TEXT,
+        delivery_providers TEXT,
+        doordash_business_id TEXT,
+        doordash_store_id TEXT,
+        created_at TEXT,
+        updated_at TEXT
+      );
+    `);
+    try { this.db.exec(`ALTER TABLE stores ADD COLUMN country TEXT`); } catch (e) {}
+    try { this.db.exec(`ALTER TABLE stores ADD COLUMN delivery_providers TEXT`); } catch (e) {}
+    try { this.db.exec(`ALTER TABLE stores ADD COLUMN doordash_business_id TEXT`); } catch (e) {}
+    try { this.db.exec(`ALTER TABLE stores ADD COLUMN doordash_store_id TEXT`); } catch (e) {}
+
+    // Menu catalog synced from GloriaFood, and order items linked to it
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS menu_sync (
+        store_id TEXT PRIMARY KEY,
+        currency TEXT,
+        synced_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS menu_categories (
+        store_id TEXT NOT NULL,
+        category_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        active INTEGER DEFAULT 1,
+        sort_order INTEGER DEFAULT 0,
+        PRIMARY KEY (store_id, category_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS menu_items (
+        store_id TEXT NOT NULL,
+        item_id TEXT NOT NULL,
+        category_id TEXT,
+        name TEXT NOT NULL,
+        description TEXT,
+        price REAL DEFAULT 0,
+        active INTEGER DEFAULT 1,
+        PRIMARY KEY (store_id, item_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS menu_item_sizes (
+        store_id TEXT NOT NULL,
+        size_id TEXT NOT NULL,
+        item_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        price REAL DEFAULT 0,
+        is_default INTEGER DEFAULT 0,
+        PRIMARY KEY (store_id, size_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS menu_option_groups (
+        store_id TEXT NOT NULL,
+        group_id TEXT NOT NULL,
+        parent_type TEXT NOT NULL,
+        parent_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        required INTEGER DEFAULT 0,
+        force_min INTEGER DEFAULT 0,
+        force_max INTEGER DEFAULT 0,
+        PRIMARY KEY (store_id, group_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS menu_options (
+        store_id TEXT NOT NULL,
+        option_id TEXT NOT NULL,
+        group_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        price REAL DEFAULT 0,
+        is_default INTEGER DEFAULT 0,
+        PRIMARY KEY (store_id, option_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS order_item_links (
+        gloriafood_order_id TEXT NOT NULL,
+        line_index INTEGER NOT NULL,
+        order_item_name TEXT,
+        quantity REAL DEFAULT 1,
+        order_price REAL DEFAULT 0,
+        menu_item_id TEXT,
+        menu_size_id TEXT,
+        menu_name TEXT,
+        menu_price REAL,
+        price_mismatch INTEGER DEFAULT 0,
+        linked_at TEXT,
+        PRIMARY KEY (gloriafood_order_id, line_index)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_order_item_links_menu_item ON order_item_links(menu_item_id);
+      CREATE INDEX IF NOT EXISTS idx_order_item_links_mismatch ON order_item_links(price_mismatch);
+    `);
+
+    // DoorDash delivery events (status webhooks); the unique key drops DoorDash's redeliveries
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS delivery_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        gloriafood_order_id TEXT,
+        external_delivery_id TEXT NOT NULL,
+        delivery_id TEXT,
+        event_name TEXT NOT NULL,
+        delivery_status TEXT,
+        dasher_name TEXT,
+        dasher_phone TEXT,
+        pickup_eta TEXT,
+        dropoff_eta TEXT,
+        tracking_url TEXT,
+        occurred_at TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        raw_data TEXT,
+        UNIQUE (external_delivery_id, event_name, occurred_at)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_delivery_events_order ON delivery_events(gloriafood_order_id, occurred_at);
+    `);
+
+    // Dead-letter store: dispatches that gave up, one row per order
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS dispatch_dead_letters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        gloriafood_order_id TEXT UNIQUE NOT NULL,
+        store_id TEXT,
+        queue_id INTEGER,
+        reason TEXT NOT NULL,
+        error_status INTEGER,
+        error_body TEXT,
+        attempts INTEGER DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'open',
+        failed_at TEXT NOT NULL,
+        edited_at TEXT,
+        order_edits TEXT,
+        resolved_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_dispatch_dead_letters_status ON dispatch_dead_letters(status, failed_at);
+    `);
+
+    // Per-store dispatch rules, and the log of dispatch decisions
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS dispatch_rules (
+        store_id TEXT PRIMARY KEY,
+        rules TEXT NOT NULL,
+        updated_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS dispatch_decisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        gloriafood_order_id TEXT NOT NULL,
+        store_id TEXT,
+        action TEXT NOT NULL,
+        rule_name TEXT,
+        reason TEXT,
+        source TEXT,
+        decided_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_dispatch_decisions_order ON dispatch_decisions(gloriafood_order_id);
+      CREATE INDEX IF NOT EXISTS idx_dispatch_decisions_decided_at ON dispatch_decisions(decided_at);
+    `);
   }
 
   insertOrUpdateOrder(orderData: any): Order | null {
@@ -130,22 +741,801 @@ export class OrderDatabase {
     }
   }
 
-  markOrderSentToDoorDash(gloriafoodOrderId: string, doordashOrderId?: string, trackingUrl?: string): void {
+  markOrderSentToDoorDash(gloriafoodOrderId: string, doordashOrderId?: string, trackingUrl?: string, provider: string = 'doordash', environment?: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE orders
+      SET sent_to_doordash = 1,
+          doordash_order_id = COALESCE(?, doordash_order_id),
+          doordash_tracking_url = COALESCE(?, doordash_tracking_url),
+          doordash_sent_at = ?,
+          delivery_provider = ?,
+          doordash_environment = ?,
+          dispatch_claimed_by = NULL,
+          dispatch_claimed_until = NULL,
+          updated_at = ?
+      WHERE gloriafood_order_id = ?
+    `);
+    const now = new Date().toISOString();
+    stmt.run(doordashOrderId || null, trackingUrl || null, now, provider, environment || null, now, gloriafoodOrderId);
+  }
+
+  recordDeliveryCosts(gloriafoodOrderId: string, costs: DeliveryCostRecord): void {
+    const stmt = this.db.prepare(`
+      UPDATE orders
+      SET doordash_fee = COALESCE(?, doordash_fee),
+          doordash_tip = COALESCE(?, doordash_tip),
+          doordash_cancellation_fee = COALESCE(?, doordash_cancellation_fee),
+          doordash_fee_currency = COALESCE(?, doordash_fee_currency),
+          customer_delivery_fee = COALESCE(?, customer_delivery_fee)
+      WHERE gloriafood_order_id = ?
+    `);
+    stmt.run(
+      costs.fee ?? null,
+      costs.tip ?? null,
+      costs.cancellation_fee ?? null,
+      costs.currency || null,
+      costs.customer_delivery_fee ?? null,
+      gloriafoodOrderId
+    );
+  }
+
+  recordDoorDashQuote(gloriafoodOrderId: string, quote: DoorDashQuoteRecord): void {
+    const stmt = this.db.prepare(`
+      UPDATE orders
+      SET doordash_quote_fee = ?,
+          doordash_quote_currency = ?,
+          doordash_quote_pickup_eta = ?,
+          doordash_quote_dropoff_eta = ?,
+          doordash_quote_status = ?,
+          doordash_quote_reason = ?,
+          doordash_quoted_at = ?
+      WHERE gloriafood_order_id = ?
+    `);
+    stmt.run(
+      quote.fee,
+      quote.currency || null,
+      quote.pickup_eta || null,
+      quote.dropoff_eta || null,
+      quote.status,
+      quote.reason || null,
+      new Date().toISOString(),
+      gloriafoodOrderId
+    );
+  }
+
+  recordDoorDashCancellation(gloriafoodOrderId: string, status: 'cancelled' | 'failed', error?: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE orders
+      SET doordash_cancel_status = ?, doordash_cancel_error = ?, doordash_cancelled_at = ?
+      WHERE gloriafood_order_id = ?
+    `);
+    stmt.run(status, error || null, new Date().toISOString(), gloriafoodOrderId);
+  }
+
+  /**
+   * Remember the updatable Drive fields DoorDash has for this order (set at dispatch and after each update)
+   */
+  saveDoorDashPayload(gloriafoodOrderId: string, payload: string): void {
+    const stmt = this.db.prepare('UPDATE orders SET doordash_payload = ? WHERE gloriafood_order_id = ?');
+    stmt.run(payload, gloriafoodOrderId);
+  }
+
+  /**
+   * Record the outcome of pushing order changes to DoorDash; 'review' also flags the order for manual review
+   */
+  recordDoorDashUpdate(gloriafoodOrderId: string, status: 'updated' | 'failed' | 'review', error?: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE orders
+      SET doordash_update_status = ?, doordash_update_error = ?, doordash_updated_at = ?,
+          needs_review = CASE WHEN ? = 'review' THEN 1 ELSE needs_review END,
+          review_reason = CASE WHEN ? = 'review' THEN ? ELSE review_reason END
+      WHERE gloriafood_order_id = ?
+    `);
+    stmt.run(status, error || null, new Date().toISOString(), status, status, error || null, gloriafoodOrderId);
+  }
+
+  getOrdersForReview(limit: number = 50, storeId?: string): Order[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM orders WHERE needs_review = 1 AND (? IS NULL OR store_id = ?)
+      ORDER BY updated_at DESC LIMIT ?
+    `);
+    return stmt.all(storeId || null, storeId || null, limit) as Order[];
+  }
+
+  flagOrderForReview(gloriafoodOrderId: string, reason: string): void {
+    const stmt = this.db.prepare('UPDATE orders SET needs_review = 1, review_reason = ?, updated_at = ? WHERE gloriafood_order_id = ?');
+    stmt.run(reason, new Date().toISOString(), gloriafoodOrderId);
+  }
+
+  clearOrderReview(gloriafoodOrderId: string): boolean {
+    const stmt = this.db.prepare('UPDATE orders SET needs_review = 0, review_reason = NULL WHERE gloriafood_order_id = ? AND needs_review = 1');
+    return stmt.run(gloriafoodOrderId).changes > 0;
+  }
+
+  /**
+   * Record when a scheduled order is due and when it goes to DoorDash (nulls for an ASAP order).
+   * A pending dispatch job for the order is moved to the new dispatch time.
+   */
+  setOrderSchedule(gloriafoodOrderId: string, scheduledFor: string | null, dispatchAt: number | null): void {
+    this.db.transaction(() => {
+      this.db.prepare('UPDATE orders SET scheduled_for = ?, scheduled_dispatch_at = ? WHERE gloriafood_order_id = ?')
+        .run(scheduledFor, dispatchAt, gloriafoodOrderId);
+      this.db.prepare(`
+        UPDATE order_queue SET available_at = ?, updated_at = ?
+        WHERE gloriafood_order_id = ? AND status = 'pending'
+      `).run(dispatchAt ?? Date.now(), new Date().toISOString(), gloriafoodOrderId);
+    })();
+  }
+
+  /**
+   * Scheduled orders held back until their dispatch time, soonest first
+   */
+  getScheduledOrders(now: number, limit: number = 100, storeId?: string): Order[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM orders
+      WHERE scheduled_dispatch_at > ? AND COALESCE(sent_to_doordash, 0) = 0 AND (? IS NULL OR store_id = ?)
+      ORDER BY scheduled_dispatch_at ASC LIMIT ?
+    `);
+    return stmt.all(now, storeId || null, storeId || null, limit) as Order[];
+  }
+
+  recordWebhookAudit(entry: WebhookAuditEntry): void {
+    try {
+      const stmt = this.db.prepare(`
+        INSERT INTO webhook_audit_log (path, source_ip, store_id, auth_mode, reason, rejected, user_agent, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      stmt.run(
+        entry.path,
+        entry.source_ip || null,
+        entry.store_id || null,
+        entry.auth_mode,
+        entry.reason,
+        entry.rejected,
+        entry.user_agent || null,
+        new Date().toISOString()
+      );
+    } catch (error) {
+      console.error('Error recording webhook audit entry:', error);
+    }
+  }
+
+  getWebhookAuditLog(limit: number = 100): WebhookAuditEntry[] {
+    const stmt = this.db.prepare('SELECT * FROM webhook_audit_log ORDER BY id DESC LIMIT ?');
+    return stmt.all(limit) as WebhookAuditEntry[];
+  }
+
+  /**
+   * Take the processing lock for an order. Returns false if another request holds an unexpired lock.
+   */
+  acquireOrderLock(gloriafoodOrderId: string, owner: string, ttlMs: number): boolean {
+    const now = Date.now();
+    const stmt = this.db.prepare(`
+      INSERT INTO order_locks (gloriafood_order_id, owner, locked_until) VALUES (?, ?, ?)
+      ON CONFLICT(gloriafood_order_id) DO UPDATE SET
+        owner = excluded.owner,
+        locked_until = excluded.locked_until
+      WHERE order_locks.locked_until < ?
+    `);
+    return stmt.run(gloriafoodOrderId, owner, now + ttlMs, now).changes > 0;
+  }
+
+  releaseOrderLock(gloriafoodOrderId: string, owner: string): void {
+    try {
+      this.db.prepare('DELETE FROM order_locks WHERE gloriafood_order_id = ? AND owner = ?').run(gloriafoodOrderId, owner);
+    } catch (error) {
+      console.error('Error releasing order lock:', error);
+    }
+  }
+
+  /**
+   * Content hash of the last event processed for an order, or null if none was recorded
+   */
+  getLatestWebhookEventHash(gloriafoodOrderId: string): string | null {
+    const stmt = this.db.prepare('SELECT content_hash FROM webhook_events WHERE gloriafood_order_id = ? ORDER BY processed_at DESC LIMIT 1');
+    const row = stmt.get(gloriafoodOrderId) as { content_hash: string } | undefined;
+    return row?.content_hash ?? null;
+  }
+
+  /**
+   * Record the event just processed for an order, replacing the order's previous one.
+   * Only the latest event is kept, so content that changes back (A -> B -> A) is processed again.
+   */
+  recordWebhookEvent(fingerprint: string, gloriafoodOrderId: string, contentHash: string): void {
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM webhook_events WHERE gloriafood_order_id = ?').run(gloriafoodOrderId);
+        this.db.prepare(`
+          INSERT OR REPLACE INTO webhook_events (fingerprint, gloriafood_order_id, content_hash, processed_at)
+          VALUES (?, ?, ?, ?)
+        `).run(fingerprint, gloriafoodOrderId, contentHash, new Date().toISOString());
+      })();
+    } catch (error) {
+      console.error('Error recording webhook event:', error);
+    }
+  }
+
+  /**
+   * Atomically claim an order for DoorDash dispatch. Only one caller can hold the claim,
+   * and an order that was already sent can never be claimed again.
+   */
+  claimOrderForDispatch(gloriafoodOrderId: string, owner: string, ttlMs: number): boolean {
+    const now = Date.now();
+    const stmt = this.db.prepare(`
+      UPDATE orders
+      SET dispatch_claimed_by = ?, dispatch_claimed_until = ?
+      WHERE gloriafood_order_id = ?
+        AND COALESCE(sent_to_doordash, 0) = 0
+        AND (dispatch_claimed_until IS NULL OR dispatch_claimed_until < ?)
+    `);
+    return stmt.run(owner, now + ttlMs, gloriafoodOrderId, now).changes === 1;
+  }
+
+  releaseDispatchClaim(gloriafoodOrderId: string, owner: string): void {
     try {
       const stmt = this.db.prepare(`
         UPDATE orders
-        SET sent_to_doordash = 1,
-            doordash_order_id = COALESCE(?, doordash_order_id),
-            doordash_tracking_url = COALESCE(?, doordash_tracking_url),
-            doordash_sent_at = ?,
-            updated_at = ?
-        WHERE gloriafood_order_id = ?
+        SET dispatch_claimed_by = NULL, dispatch_claimed_until = NULL
+        WHERE gloriafood_order_id = ? AND dispatch_claimed_by = ?
       `);
+      stmt.run(gloriafoodOrderId, owner);
+    } catch (error) {
+      console.error('Error releasing dispatch claim:', error);
+    }
+  }
+
+  insertWebhookJournalEntry(entry: NewWebhookJournalEntry): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO webhook_journal (received_at, method, path, headers, query_params, raw_body, content_type, source_ip, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'received')
+    `);
+    const result = stmt.run(
+      new Date().toISOString(),
+      entry.method,
+      entry.path,
+      entry.headers,
+      entry.query_params || null,
+      entry.raw_body ?? null,
+      entry.content_type || null,
+      entry.source_ip || null
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  updateWebhookJournalEntry(id: number, update: WebhookJournalUpdate): void {
+    try {
       const now = new Date().toISOString();
-      stmt.run(doordashOrderId || null, trackingUrl || null, now, now, gloriafoodOrderId);
+      const stmt = this.db.prepare(`
+        UPDATE webhook_journal
+        SET status = ?,
+            error = ?,
+            order_ids = COALESCE(?, order_ids),
+            processed_at = ?,
+            replay_count = replay_count + ?,
+            last_replayed_at = CASE WHEN ? = 1 THEN ? ELSE last_replayed_at END
+        WHERE id = ?
+      `);
+      const replayed = update.replayed ? 1 : 0;
+      stmt.run(update.status, update.error || null, update.order_ids || null, now, replayed, replayed, now, id);
     } catch (error) {
-      console.error('Error updating sent_to_doordash:', error);
+      console.error('Error updating webhook journal entry:', error);
+    }
+  }
+
+  getWebhookJournalEntry(id: number): WebhookJournalEntry | null {
+    const stmt = this.db.prepare('SELECT * FROM webhook_journal WHERE id = ?');
+    return (stmt.get(id) as WebhookJournalEntry | undefined) || null;
+  }
+
+  getWebhookJournalEntries(limit: number = 50, status?: string): WebhookJournalEntry[] {
+    if (status) {
+      const stmt = this.db.prepare('SELECT * FROM webhook_journal WHERE status = ? ORDER BY id DESC LIMIT ?');
+      return stmt.all(status, limit) as WebhookJournalEntry[];
+    }
+    const stmt = this.db.prepare('SELECT * FROM webhook_journal ORDER BY id DESC LIMIT ?');
+    return stmt.all(limit) as WebhookJournalEntry[];
+  }
+
+  /**
+   * Add a dispatch job for an order, or return the order's job that is already waiting or running
+   */
+  enqueueDispatchJob(gloriafoodOrderId: string, priority: number, availableAt: number): number {
+    const enqueue = this.db.transaction(() => {
+      const existing = this.db.prepare(`
+        SELECT queue_id FROM order_queue
+        WHERE gloriafood_order_id = ? AND status IN ('pending', 'processing')
+        ORDER BY queue_id DESC LIMIT 1
+      `).get(gloriafoodOrderId) as { queue_id: number } | undefined;
+      if (existing) {
+        return existing.queue_id;
+      }
+
+      const now = new Date().toISOString();
+      const result = this.db.prepare(`
+        INSERT INTO order_queue (gloriafood_order_id, priority, retry_count, status, available_at, created_at, updated_at)
+        VALUES (?, ?, 0, 'pending', ?, ?, ?)
+      `).run(gloriafoodOrderId, priority, availableAt, now, now);
+      return Number(result.lastInsertRowid);
+    });
+    return enqueue();
+  }
+
+  /**
+   * Claim the next due job. Jobs left in 'processing' past their lock (e.g. after a crash) are claimable again.
+   */
+  claimDispatchJob(owner: string, lockMs: number): DispatchJob | null {
+    const claim = this.db.transaction(() => {
+      const now = Date.now();
+      const job = this.db.prepare(`
+        SELECT * FROM order_queue
+        WHERE (status = 'pending' AND available_at <= ?)
+           OR (status = 'processing' AND locked_until < ?)
+        ORDER BY priority DESC, available_at ASC, queue_id ASC
+        LIMIT 1
+      `).get(now, now) as DispatchJob | undefined;
+      if (!job) {
+        return null;
+      }
+
+      this.db.prepare(`
+        UPDATE order_queue
+        SET status = 'processing', locked_by = ?, locked_until = ?, updated_at = ?
+        WHERE queue_id = ?
+      `).run(owner, now + lockMs, new Date().toISOString(), job.queue_id);
+      return { ...job, status: 'processing', locked_by: owner, locked_until: now + lockMs };
+    });
+    return claim();
+  }
+
+  completeDispatchJob(queueId: number): void {
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      this.db.prepare(`
+        UPDATE orders
+        SET dispatch_attempts = COALESCE(dispatch_attempts, 0) + 1, dispatch_last_error = NULL, dispatch_next_retry_at = NULL
+        WHERE gloriafood_order_id = (SELECT gloriafood_order_id FROM order_queue WHERE queue_id = ?)
+      `).run(queueId);
+      this.db.prepare(`
+        UPDATE dispatch_dead_letters
+        SET status = 'resolved', resolved_at = ?
+        WHERE status IN ('open', 'retried')
+          AND gloriafood_order_id = (SELECT gloriafood_order_id FROM order_queue WHERE queue_id = ?)
+      `).run(now, queueId);
+      this.db.prepare(`
+        UPDATE order_queue
+        SET status = 'done', locked_by = NULL, locked_until = NULL, last_error = NULL, updated_at = ?
+        WHERE queue_id = ?
+      `).run(now, queueId);
+    })();
+  }
+
+  /**
+   * Record a failed attempt: reschedule the job at retryAt, or mark it failed when retryAt is null.
+   * The attempt, error and next retry are also recorded on the order.
+   */
+  failDispatchJob(queueId: number, error: string, retryAt: number | null): void {
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      this.db.prepare(`
+        UPDATE orders
+        SET dispatch_attempts = COALESCE(dispatch_attempts, 0) + 1, dispatch_last_error = ?, dispatch_next_retry_at = ?
+        WHERE gloriafood_order_id = (SELECT gloriafood_order_id FROM order_queue WHERE queue_id = ?)
+      `).run(error, retryAt, queueId);
+      this.db.prepare(`
+        UPDATE order_queue
+        SET status = ?, retry_count = retry_count + 1, available_at = COALESCE(?, available_at),
+            locked_by = NULL, locked_until = NULL, last_error = ?, updated_at = ?
+        WHERE queue_id = ?
+      `).run(retryAt === null ? 'failed' : 'pending', retryAt, error, now, queueId);
+    })();
+  }
+
+  /**
+   * Put a claimed job back untouched until availableAt (e.g. a scheduled order that is not due yet)
+   */
+  deferDispatchJob(queueId: number, availableAt: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE order_queue
+      SET status = 'pending', available_at = ?, locked_by = NULL, locked_until = NULL, updated_at = ?
+      WHERE queue_id = ?
+    `);
+    stmt.run(availableAt, new Date().toISOString(), queueId);
+  }
+
+  getDispatchJobs(limit: number = 50, status?: string): DispatchJob[] {
+    if (status) {
+      const stmt = this.db.prepare('SELECT * FROM order_queue WHERE status = ? ORDER BY queue_id DESC LIMIT ?');
+      return stmt.all(status, limit) as DispatchJob[];
     }
+    const stmt = this.db.prepare('SELECT * FROM order_queue ORDER BY queue_id DESC LIMIT ?');
+    return stmt.all(limit) as DispatchJob[];
+  }
+
+  getDispatchQueueStats(): { [status: string]: number } {
+    const rows = this.db.prepare('SELECT status, COUNT(*) as count FROM order_queue GROUP BY status').all() as { status: string; count: number }[];
+    const stats: { [status: string]: number } = { pending: 0, processing: 0, done: 0, failed: 0 };
+    rows.forEach(row => { stats[row.status] = row.count; });
+    return stats;
+  }
+
+  /**
+   * Add an order to the dead-letter store, or reopen its entry if it failed before
+   */
+  addDeadLetter(entry: DispatchDeadLetter): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO dispatch_dead_letters (
+        gloriafood_order_id, store_id, queue_id, reason, error_status, error_body, attempts, status, failed_at
+      ) VALUES (?, (SELECT store_id FROM orders WHERE gloriafood_order_id = ?), ?, ?, ?, ?, ?, 'open', ?)
+      ON CONFLICT(gloriafood_order_id) DO UPDATE SET
+        store_id = excluded.store_id,
+        queue_id = excluded.queue_id,
+        reason = excluded.reason,
+        error_status = excluded.error_status,
+        error_body = excluded.error_body,
+        attempts = excluded.attempts,
+        status = 'open',
+        failed_at = excluded.failed_at,
+        resolved_at = NULL
+    `);
+    stmt.run(
+      entry.gloriafood_order_id,
+      entry.gloriafood_order_id,
+      entry.queue_id ?? null,
+      entry.reason,
+      entry.error_status ?? null,
+      entry.error_body ?? null,
+      entry.attempts,
+      new Date().toISOString()
+    );
+  }
+
+  getDeadLetters(limit: number = 50, status?: string, storeId?: string): DispatchDeadLetter[] {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (status) {
+      conditions.push('d.status = ?');
+      params.push(status);
+    }
+    if (storeId) {
+      conditions.push('d.store_id = ?');
+      params.push(storeId);
+    }
+    const stmt = this.db.prepare(`
+      SELECT d.*, o.customer_name, o.customer_phone, o.delivery_address
+      FROM dispatch_dead_letters d LEFT JOIN orders o ON o.gloriafood_order_id = d.gloriafood_order_id
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY d.failed_at DESC LIMIT ?
+    `);
+    return stmt.all(...params, limit) as DispatchDeadLetter[];
+  }
+
+  getDeadLetter(gloriafoodOrderId: string): DispatchDeadLetter | null {
+    const stmt = this.db.prepare(`
+      SELECT d.*, o.customer_name, o.customer_phone, o.delivery_address
+      FROM dispatch_dead_letters d LEFT JOIN orders o ON o.gloriafood_order_id = d.gloriafood_order_id
+      WHERE d.gloriafood_order_id = ?
+    `);
+    return (stmt.get(gloriafoodOrderId) as DispatchDeadLetter) || null;
+  }
+
+  getOpenDeadLetterCount(storeId?: string): number {
+    const row = storeId
+      ? this.db.prepare("SELECT COUNT(*) as count FROM dispatch_dead_letters WHERE status = 'open' AND store_id = ?").get(storeId)
+      : this.db.prepare("SELECT COUNT(*) as count FROM dispatch_dead_letters WHERE status = 'open'").get();
+    return (row as { count: number }).count;
+  }
+
+  /**
+   * Mark a dead-letter entry retried or discarded
+   */
+  resolveDeadLetter(gloriafoodOrderId: string, status: 'retried' | 'discarded'): void {
+    const stmt = this.db.prepare('UPDATE dispatch_dead_letters SET status = ?, resolved_at = ? WHERE gloriafood_order_id = ?');
+    stmt.run(status, new Date().toISOString(), gloriafoodOrderId);
+  }
+
+  /**
+   * Save an admin's corrections of a dead-lettered order. They are kept apart from the order's raw_data, which
+   * the next GloriaFood update of the order overwrites, and applied when the order is dispatched.
+   */
+  saveDeadLetterEdits(gloriafoodOrderId: string, orderEdits: string): void {
+    const stmt = this.db.prepare('UPDATE dispatch_dead_letters SET order_edits = ?, edited_at = ? WHERE gloriafood_order_id = ?');
+    stmt.run(orderEdits, new Date().toISOString(), gloriafoodOrderId);
+  }
+
+  getStoreDispatchRules(storeId: string): StoreDispatchRules | null {
+    const stmt = this.db.prepare('SELECT * FROM dispatch_rules WHERE store_id = ?');
+    return (stmt.get(storeId) as StoreDispatchRules | undefined) || null;
+  }
+
+  saveStoreDispatchRules(storeId: string, rules: string): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO dispatch_rules (store_id, rules, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(store_id) DO UPDATE SET rules = excluded.rules, updated_at = excluded.updated_at
+    `);
+    stmt.run(storeId, rules, new Date().toISOString());
+  }
+
+  deleteStoreDispatchRules(storeId: string): boolean {
+    return this.db.prepare('DELETE FROM dispatch_rules WHERE store_id = ?').run(storeId).changes > 0;
+  }
+
+  recordDispatchDecision(record: DispatchDecisionRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO dispatch_decisions (gloriafood_order_id, store_id, action, rule_name, reason, source, decided_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      record.gloriafood_order_id, record.store_id || null, record.action, record.rule_name || null,
+      record.reason, record.source, new Date().toISOString()
+    );
+  }
+
+  getDispatchDecisions(limit: number = 50, gloriafoodOrderId?: string, storeId?: string): DispatchDecisionRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM dispatch_decisions
+      WHERE (? IS NULL OR gloriafood_order_id = ?) AND (? IS NULL OR store_id = ?)
+      ORDER BY id DESC LIMIT ?
+    `);
+    return stmt.all(
+      gloriafoodOrderId || null, gloriafoodOrderId || null, storeId || null, storeId || null, limit
+    ) as DispatchDecisionRecord[];
+  }
+
+  /**
+   * Replace a store's menu catalog with a freshly synced one
+   */
+  replaceMenuCatalog(catalog: MenuCatalog): void {
+    const storeId = catalog.store_id;
+    const replace = this.db.transaction(() => {
+      for (const table of ['menu_categories', 'menu_items', 'menu_item_sizes', 'menu_option_groups', 'menu_options']) {
+        this.db.prepare(`DELETE FROM ${table} WHERE store_id = ?`).run(storeId);
+      }
+
+      const insertCategory = this.db.prepare(`
+        INSERT INTO menu_categories (store_id, category_id, name, description, active, sort_order) VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      catalog.categories.forEach(c => insertCategory.run(storeId, c.category_id, c.name, c.description || null, c.active, c.sort_order));
+
+      const insertItem = this.db.prepare(`
+        INSERT INTO menu_items (store_id, item_id, category_id, name, description, price, active) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `);
+      catalog.items.forEach(i => insertItem.run(storeId, i.item_id, i.category_id, i.name, i.description || null, i.price, i.active));
+
+      const insertSize = this.db.prepare(`
+        INSERT INTO menu_item_sizes (store_id, size_id, item_id, name, price, is_default) VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      catalog.sizes.forEach(z => insertSize.run(storeId, z.size_id, z.item_id, z.name, z.price, z.is_default));
+
+      const insertGroup = this.db.prepare(`
+        INSERT OR REPLACE INTO menu_option_groups (store_id, group_id, parent_type, parent_id, name, required, force_min, force_max)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      catalog.groups.forEach(g => insertGroup.run(storeId, g.group_id, g.parent_type, g.parent_id, g.name, g.required, g.force_min, g.force_max));
+
+      const insertOption = this.db.prepare(`
+        INSERT OR REPLACE INTO menu_options (store_id, option_id, group_id, name, price, is_default) VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      catalog.options.forEach(o => insertOption.run(storeId, o.option_id, o.group_id, o.name, o.price, o.is_default));
+
+      this.db.prepare(`
+        INSERT INTO menu_sync (store_id, currency, synced_at) VALUES (?, ?, ?)
+        ON CONFLICT(store_id) DO UPDATE SET currency = excluded.currency, synced_at = excluded.synced_at
+      `).run(storeId, catalog.currency || null, new Date().toISOString());
+    });
+    replace();
+  }
+
+  /**
+   * Load a store's menu catalog (empty lists if it was never synced)
+   */
+  getMenuCatalog(storeId: string): MenuCatalog {
+    const sync = this.db.prepare('SELECT * FROM menu_sync WHERE store_id = ?').get(storeId) as { currency?: string; synced_at?: string } | undefined;
+    return {
+      store_id: storeId,
+      currency: sync?.currency,
+      synced_at: sync?.synced_at,
+      categories: this.db.prepare('SELECT * FROM menu_categories WHERE store_id = ? ORDER BY sort_order').all(storeId) as MenuCategory[],
+      items: this.db.prepare('SELECT * FROM menu_items WHERE store_id = ? ORDER BY name').all(storeId) as MenuItem[],
+      sizes: this.db.prepare('SELECT * FROM menu_item_sizes WHERE store_id = ?').all(storeId) as MenuItemSize[],
+      groups: this.db.prepare('SELECT * FROM menu_option_groups WHERE store_id = ?').all(storeId) as MenuOptionGroup[],
+      options: this.db.prepare('SELECT * FROM menu_options WHERE store_id = ?').all(storeId) as MenuOption[],
+    };
+  }
+
+  saveOrderItemLinks(gloriafoodOrderId: string, links: OrderItemLink[]): void {
+    const save = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM order_item_links WHERE gloriafood_order_id = ?').run(gloriafoodOrderId);
+      const insert = this.db.prepare(`
+        INSERT INTO order_item_links (
+          gloriafood_order_id, line_index, order_item_name, quantity, order_price,
+          menu_item_id, menu_size_id, menu_name, menu_price, price_mismatch, linked_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const now = new Date().toISOString();
+      links.forEach(link => insert.run(
+        gloriafoodOrderId, link.line_index, link.order_item_name, link.quantity, link.order_price,
+        link.menu_item_id || null, link.menu_size_id || null, link.menu_name || null,
+        link.menu_price ?? null, link.price_mismatch, now
+      ));
+    });
+    save();
+  }
+
+  getOrderItemLinks(gloriafoodOrderId: string): OrderItemLink[] {
+    const stmt = this.db.prepare('SELECT * FROM order_item_links WHERE gloriafood_order_id = ? ORDER BY line_index');
+    return stmt.all(gloriafoodOrderId) as OrderItemLink[];
+  }
+
+  getPriceMismatches(limit: number = 50): OrderItemLink[] {
+    const stmt = this.db.prepare('SELECT * FROM order_item_links WHERE price_mismatch = 1 ORDER BY linked_at DESC LIMIT ?');
+    return stmt.all(limit) as OrderItemLink[];
+  }
+
+  getStores(): Store[] {
+    return this.db.prepare('SELECT * FROM stores ORDER BY name').all() as Store[];
+  }
+
+  getStore(storeId: string): Store | null {
+    const stmt = this.db.prepare('SELECT * FROM stores WHERE store_id = ?');
+    return (stmt.get(storeId) as Store | undefined) || null;
+  }
+
+  /**
+   * Create or replace a store's configuration
+   */
+  saveStore(store: Store): Store {
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(`
+      INSERT INTO stores (
+        store_id, name, gloriafood_api_key, gloriafood_master_key, webhook_path, pickup_address, pickup_phone,
+        doordash_developer_id, doordash_key_id, doordash_signing_secret, doordash_merchant_id,
+        dispatch_enabled, timezone, country, delivery_providers, doordash_business_id, doordash_store_id,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(store_id) DO UPDATE SET
+        name = excluded.name,
+        gloriafood_api_key = excluded.gloriafood_api_key,
+        gloriafood_master_key = excluded.gloriafood_master_key,
+        webhook_path = excluded.webhook_path,
+        pickup_address = excluded.pickup_address,
+        pickup_phone = excluded.pickup_phone,
+        doordash_developer_id = excluded.doordash_developer_id,
+        doordash_key_id = excluded.doordash_key_id,
+        doordash_signing_secret = excluded.doordash_signing_secret,
+        doordash_merchant_id = excluded.doordash_merchant_id,
+        dispatch_enabled = excluded.dispatch_enabled,
+        timezone = excluded.timezone,
+        country = excluded.country,
+        delivery_providers = excluded.delivery_providers,
+        doordash_business_id = excluded.doordash_business_id,
+        doordash_store_id = excluded.doordash_store_id,
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(
+      store.store_id, store.name, store.gloriafood_api_key || null, store.gloriafood_master_key || null,
+      store.webhook_path || null, store.pickup_address || null, store.pickup_phone || null,
+      store.doordash_developer_id || null, store.doordash_key_id || null, store.doordash_signing_secret || null,
+      store.doordash_merchant_id || null, store.dispatch_enabled, store.timezone || null,
+      store.country || null, store.delivery_providers || null, store.doordash_business_id || null,
+      store.doordash_store_id || null, now, now
+    );
+    return this.getStore(store.store_id) as Store;
+  }
+
+  deleteStore(storeId: string): boolean {
+    return this.db.prepare('DELETE FROM stores WHERE store_id = ?').run(storeId).changes > 0;
+  }
+
+  /**
+   * Store a delivery event and apply it to its order, unless the order already has a newer one.
+   * Returns false if the event was already recorded.
+   */
+  recordDeliveryEvent(event: DeliveryEvent): boolean {
+    const record = this.db.transaction((): boolean => {
+      const inserted = this.db.prepare(`
+        INSERT OR IGNORE INTO delivery_events (
+          gloriafood_order_id, external_delivery_id, delivery_id, event_name, delivery_status,
+          dasher_name, dasher_phone, pickup_eta, dropoff_eta, tracking_url, occurred_at, received_at, raw_data
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        event.gloriafood_order_id || null, event.external_delivery_id, event.delivery_id || null, event.event_name,
+        event.delivery_status || null, event.dasher_name || null, event.dasher_phone || null,
+        event.pickup_eta || null, event.dropoff_eta || null, event.tracking_url || null,
+        event.occurred_at, new Date().toISOString(), event.raw_data || null
+      ).changes > 0;
+
+      if (inserted && event.gloriafood_order_id) {
+        this.db.prepare(`
+          UPDATE orders
+          SET doordash_status = COALESCE(?, doordash_status),
+              doordash_dasher_name = COALESCE(?, doordash_dasher_name),
+              doordash_dasher_phone = COALESCE(?, doordash_dasher_phone),
+              doordash_pickup_eta = COALESCE(?, doordash_pickup_eta),
+              doordash_dropoff_eta = COALESCE(?, doordash_dropoff_eta),
+              doordash_tracking_url = COALESCE(doordash_tracking_url, ?),
+              doordash_status_at = ?,
+              updated_at = ?
+          WHERE gloriafood_order_id = ? AND (doordash_status_at IS NULL OR doordash_status_at <= ?)
+        `).run(
+          event.delivery_status || null, event.dasher_name || null, event.dasher_phone || null,
+          event.pickup_eta || null, event.dropoff_eta || null, event.tracking_url || null,
+          event.occurred_at, new Date().toISOString(), event.gloriafood_order_id, event.occurred_at
+        );
+      }
+      return inserted;
+    });
+    return record();
+  }
+
+  /**
+   * Orders sent to DoorDash since sentSince whose delivery is not finished and whose next status poll is due.
+   * Deliveries of other providers are not polled.
+   */
+  getDeliveriesToPoll(now: number, sentSince: Date, terminalStatuses: string[], limit: number): Order[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM orders
+      WHERE sent_to_doordash = 1
+        AND COALESCE(delivery_provider, 'doordash') = 'doordash'
+        AND doordash_sent_at >= ?
+        AND (doordash_status IS NULL OR doordash_status NOT IN (${terminalStatuses.map(() => '?').join(', ')}))
+        AND (doordash_next_poll_at IS NULL OR doordash_next_poll_at <= ?)
+      ORDER BY COALESCE(doordash_next_poll_at, 0)
+      LIMIT ?
+    `);
+    return stmt.all(sentSince.toISOString(), ...terminalStatuses, now, limit) as Order[];
+  }
+
+  /**
+   * Delivery orders sent to DoorDash (or, when not sent, created) between from (inclusive) and to, except those
+   * delivered in-house, oldest first. Not by fetched_at: every resend of an order moves that forward.
+   * after: continue past that order (the previous page's last).
+   */
+  getDeliveryOrdersBetween(from: Date, to: Date, limit: number, storeId?: string, after?: DeliveryOrderCursor): Order[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM orders
+      WHERE LOWER(order_type) = 'delivery'
+        AND COALESCE(delivery_provider, 'doordash') = 'doordash'
+        AND datetime(COALESCE(doordash_sent_at, created_at)) >= datetime(?)
+        AND datetime(COALESCE(doordash_sent_at, created_at)) < datetime(?)
+        AND (? IS NULL OR store_id = ?)
+        AND (? IS NULL
+          OR datetime(COALESCE(doordash_sent_at, created_at)) > datetime(?)
+          OR (datetime(COALESCE(doordash_sent_at, created_at)) = datetime(?) AND id > ?))
+      ORDER BY datetime(COALESCE(doordash_sent_at, created_at)), id
+      LIMIT ?
+    `);
+    const at = after ? after.at : null;
+    return stmt.all(from.toISOString(), to.toISOString(), storeId || null, storeId || null, at, at, at, after ? after.id : null, limit) as Order[];
+  }
+
+  /**
+   * Cost columns of the orders sent to DoorDash between from (inclusive) and to, oldest first
+   */
+  getDeliveryCostOrders(from: Date, to: Date, limit: number, storeId?: string): DeliveryCostOrder[] {
+    const stmt = this.db.prepare(`
+      SELECT gloriafood_order_id, store_id, status, created_at, sent_to_doordash, doordash_sent_at, doordash_status,
+             doordash_environment, doordash_quote_fee, doordash_quote_currency, doordash_fee, doordash_tip,
+             doordash_cancellation_fee, doordash_fee_currency, customer_delivery_fee
+      FROM orders
+      WHERE sent_to_doordash = 1
+        AND COALESCE(delivery_provider, 'doordash') = 'doordash'
+        AND datetime(doordash_sent_at) >= datetime(?)
+        AND datetime(doordash_sent_at) < datetime(?)
+        AND (? IS NULL OR store_id = ?)
+      ORDER BY datetime(doordash_sent_at)
+      LIMIT ?
+    `);
+    return stmt.all(from.toISOString(), to.toISOString(), storeId || null, storeId || null, limit) as DeliveryCostOrder[];
+  }
+
+  scheduleDeliveryPoll(gloriafoodOrderId: string, nextPollAt: number, attempts: number): void {
+    const stmt = this.db.prepare('UPDATE orders SET doordash_next_poll_at = ?, doordash_poll_attempts = ? WHERE gloriafood_order_id = ?');
+    stmt.run(nextPollAt, attempts, gloriafoodOrderId);
+  }
+
+  getDeliveryEvents(gloriafoodOrderId: string): DeliveryEvent[] {
+    const stmt = this.db.prepare('SELECT * FROM delivery_events WHERE gloriafood_order_id = ? ORDER BY occurred_at, id');
+    return stmt.all(gloriafoodOrderId) as DeliveryEvent[];
   }
 
   private extractCustomerName(orderData: any): string {
@@ -193,28 +1583,33 @@ export class OrderDatabase {
     return stmt.get(orderId) as Order | null;
   }
 
-  getAllOrders(limit: number = 50): Order[] {
+  getAllOrders(limit: number = 50, storeId?: string): Order[] {
+    if (storeId) {
+      const stmt = this.db.prepare('SELECT * FROM orders WHERE store_id = ? ORDER BY fetched_at DESC LIMIT ?');
+      return stmt.all(storeId, limit) as Order[];
+    }
     const stmt = this.db.prepare('SELECT * FROM orders ORDER BY fetched_at DESC LIMIT ?');
     return stmt.all(limit) as Order[];
   }
 
-  getRecentOrders(minutes: number = 60): Order[] {
+  getRecentOrders(minutes: number = 60, storeId?: string): Order[] {
     const stmt = this.db.prepare(`
       SELECT * FROM orders 
       WHERE datetime(fetched_at) > datetime('now', '-' || ? || ' minutes')
+        AND (? IS NULL OR store_id = ?)
       ORDER BY fetched_at DESC
     `);
-    return stmt.all(minutes) as Order[];
+    return stmt.all(minutes, storeId || null, storeId || null) as Order[];
   }
 
-  getOrdersByStatus(status: string): Order[] {
-    const stmt = this.db.prepare('SELECT * FROM orders WHERE status = ? ORDER BY fetched_at DESC');
-    return stmt.all(status) as Order[];
+  getOrdersByStatus(status: string, storeId?: string): Order[] {
+    const stmt = this.db.prepare('SELECT * FROM orders WHERE status = ? AND (? IS NULL OR store_id = ?) ORDER BY fetched_at DESC');
+    return stmt.all(status, storeId || null, storeId || null) as Order[];
   }
 
-  getOrderCount(): number {
-    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM orders');
-    const result = stmt.get() as { count: number };
+  getOrderCount(storeId?: string): number {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM orders WHERE (? IS NULL OR store_id = ?)');
+    const result = stmt.get(storeId || null, storeId || null) as { count: number };
     return result.count;
   }
 
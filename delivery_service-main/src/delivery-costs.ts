@@ -0,0 +1,176 @@
+import { DeliveryCostOrder, DeliveryCostRecord } from './database-factory';
+import { isCancelledStatus } from './order-status';
+
+// Most orders one report covers; callers fetch one more to tell when a range holds more than that
+export const DELIVERY_COST_REPORT_LIMIT = 50000;
+
+function cents(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.round(number) : undefined;
+}
+
+/**
+ * Fee, tip and cancellation fee from a DoorDash quote, delivery or webhook body (DoorDash sends cents)
+ */
+export function doorDashCosts(raw: any): DeliveryCostRecord {
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+  return {
+    fee: cents(raw.fee),
+    tip: cents(raw.tip),
+    cancellation_fee: cents(raw.cancellation_fee),
+    currency: typeof raw.currency === 'string' && raw.currency ? raw.currency.toUpperCase() : undefined,
+  };
+}
+
+/**
+ * Delivery fee the customer paid, in cents: the order's items of type "delivery_fee"
+ */
+export function customerDeliveryFee(orderData: any): number | undefined {
+  const items: any[] = Array.isArray(orderData?.items) ? orderData.items : [];
+  const fees = items.filter(item => item?.type === 'delivery_fee');
+  if (fees.length === 0) {
+    return undefined;
+  }
+  const total = fees.reduce((sum, item) => sum + (parseFloat(item.total_item_price ?? item.price ?? 0) || 0), 0);
+  return Math.round(total * 100);
+}
+
+export interface DeliveryCostLine {
+  order_id: string;
+  store_id?: string;
+  day: string; // YYYY-MM-DD the order was sent (the time its range is selected on), in the store's timezone
+  delivery_status?: string;
+  environment?: string;
+  currency?: string;
+  fee: number; // what DoorDash charged: the delivery fee, or the cancellation fee of a cancelled delivery
+  fee_source: 'delivery' | 'quote' | 'cancellation' | 'none';
+  tip: number; // passed on to the Dasher; collected from the customer, so not part of the margin
+  charge: number; // delivery fee the customer paid (0 when the order was cancelled)
+  margin: number; // charge - fee
+}
+
+export interface DeliveryCostTotals {
+  orders: number;
+  fee: number;
+  tip: number;
+  charge: number;
+  margin: number;
+  average_fee: number;
+  average_margin: number;
+}
+
+export interface DeliveryCostReport {
+  from: string;
+  to: string;
+  store_id?: string;
+  truncated: boolean; // the range held more than DELIVERY_COST_REPORT_LIMIT orders: the totals miss the newest ones
+  currencies: string[];
+  orders: DeliveryCostLine[];
+  stores: ({ store_id: string } & DeliveryCostTotals)[];
+  days: ({ day: string } & DeliveryCostTotals)[];
+  totals: DeliveryCostTotals;
+}
+
+// YYYY-MM-DD of a timestamp in a timezone (UTC when it has none or an unknown one)
+function dayOf(timestamp: string | undefined, timezone?: string): string {
+  const date = new Date(timestamp || Date.now());
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone || 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+/**
+ * What a sent order's delivery cost against what the customer paid for it
+ */
+export function deliveryCostLine(order: DeliveryCostOrder, timezone?: string): DeliveryCostLine {
+  const cancelled = order.doordash_status === 'cancelled';
+  let fee = 0;
+  let feeSource: DeliveryCostLine['fee_source'] = 'none';
+  if (cancelled) {
+    fee = order.doordash_cancellation_fee || 0;
+    feeSource = 'cancellation';
+  } else if (order.doordash_fee !== undefined && order.doordash_fee !== null) {
+    fee = order.doordash_fee;
+    feeSource = 'delivery';
+  } else if (order.doordash_quote_fee !== undefined && order.doordash_quote_fee !== null) {
+    fee = order.doordash_quote_fee;
+    feeSource = 'quote';
+  }
+  // Cancelled in GloriaFood: the customer is refunded
+  const charge = isCancelledStatus(order.status) ? 0 : (order.customer_delivery_fee || 0);
+  return {
+    order_id: order.gloriafood_order_id,
+    store_id: order.store_id || undefined,
+    day: dayOf(order.doordash_sent_at || order.created_at, timezone),
+    delivery_status: order.doordash_status || undefined,
+    environment: order.doordash_environment || undefined,
+    currency: order.doordash_fee_currency || order.doordash_quote_currency || undefined,
+    fee,
+    fee_source: feeSource,
+    tip: cancelled ? 0 : (order.doordash_tip || 0),
+    charge,
+    margin: charge - fee,
+  };
+}
+
+function totalsOf(lines: DeliveryCostLine[]): DeliveryCostTotals {
+  const sum = (field: 'fee' | 'tip' | 'charge' | 'margin') => lines.reduce((total, line) => total + line[field], 0);
+  const orders = lines.length;
+  return {
+    orders,
+    fee: sum('fee'),
+    tip: sum('tip'),
+    charge: sum('charge'),
+    margin: sum('margin'),
+    average_fee: orders > 0 ? Math.round(sum('fee') / orders) : 0,
+    average_margin: orders > 0 ? Math.round(sum('margin') / orders) : 0,
+  };
+}
+
+function groupTotals(lines: DeliveryCostLine[], keyOf: (line: DeliveryCostLine) => string): { key: string; totals: DeliveryCostTotals }[] {
+  const groups = new Map<string, DeliveryCostLine[]>();
+  for (const line of lines) {
+    const key = keyOf(line);
+    const group = groups.get(key);
+    if (group) {
+      group.push(line);
+    } else {
+      groups.set(key, [line]);
+    }
+  }
+  return Array.from(groups.keys()).sort().map(key => ({ key, totals: totalsOf(groups.get(key)!) }));
+}
+
+/**
+ * Delivery cost report of the DoorDash deliveries among orders (as getDeliveryCostOrders selects them, by the
+ * time they were sent, up to DELIVERY_COST_REPORT_LIMIT + 1 so a cut-off range is reported as truncated).
+ * Orders never sent are left out, and so are sandbox deliveries unless includeSandbox. Amounts are in cents;
+ * totals add up every currency in currencies.
+ */
+export function buildDeliveryCostReport(
+  orders: DeliveryCostOrder[],
+  range: { from: Date; to: Date; storeId?: string; includeSandbox?: boolean },
+  timezoneOf: (storeId?: string) => string | undefined
+): DeliveryCostReport {
+  const truncated = orders.length > DELIVERY_COST_REPORT_LIMIT;
+  const lines = orders
+    .slice(0, DELIVERY_COST_REPORT_LIMIT)
+    .filter(order => order.sent_to_doordash && (range.includeSandbox || order.doordash_environment !== 'sandbox'))
+    .map(order => deliveryCostLine(order, timezoneOf(order.store_id)));
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    store_id: range.storeId,
+    truncated,
+    currencies: Array.from(new Set(lines.map(line => line.currency).filter((currency): currency is string => !!currency))).sort(),
+    orders: lines,
+    stores: groupTotals(lines, line => line.store_id || '').map(group => ({ store_id: group.key, ...group.totals })),
+    days: groupTotals(lines, line => line.day).map(group => ({ day: group.key, ...group.totals })),
+    totals: totalsOf(lines),
+  };
+}
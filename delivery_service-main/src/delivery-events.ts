@@ -0,0 +1,68 @@
+import { DeliveryEvent } from './database-factory';
+import { safeCompare } from './webhook-auth';
+
+// Delivery status for each DoorDash Drive webhook event, used when the event carries no delivery_status
+const EVENT_STATUS: { [eventName: string]: string } = {
+  DELIVERY_CREATED: 'created',
+  DASHER_CONFIRMED: 'confirmed',
+  DASHER_ENROUTE_TO_PICKUP: 'enroute_to_pickup',
+  DASHER_CONFIRMED_PICKUP_ARRIVAL: 'arrived_at_pickup',
+  DASHER_PICKED_UP: 'picked_up',
+  DASHER_ENROUTE_TO_DROPOFF: 'enroute_to_dropoff',
+  DASHER_CONFIRMED_DROPOFF_ARRIVAL: 'arrived_at_dropoff',
+  DASHER_DROPPED_OFF: 'delivered',
+  DELIVERY_CANCELLED: 'cancelled',
+  DELIVERY_RETURN_INITIALIZED: 'returning',
+  DASHER_CONFIRMED_RETURN_ARRIVAL: 'arrived_at_return',
+  DELIVERY_RETURNED: 'returned',
+};
+
+// Delivery statuses after which nothing changes any more
+export const TERMINAL_DELIVERY_STATUSES = ['delivered', 'cancelled', 'returned'];
+
+function optionalString(value: any): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+/**
+ * Check the Authorization header DoorDash sends with webhooks against the value configured in the
+ * Developer Portal (DOORDASH_WEBHOOK_AUTH). Accepts the full header value or just the token after "Bearer"/"Basic".
+ */
+export function verifyDoorDashWebhookAuth(header: string | string[] | undefined, expected: string): boolean {
+  const provided = (Array.isArray(header) ? header[0] : header || '').trim();
+  if (!provided || !expected) {
+    return false;
+  }
+  const token = provided.replace(/^(Bearer|Basic)\s+/i, '');
+  const expectedToken = expected.trim().replace(/^(Bearer|Basic)\s+/i, '');
+  return safeCompare(provided, expected.trim()) || safeCompare(token, expectedToken);
+}
+
+/**
+ * Turn a DoorDash Drive webhook body into a delivery event. Returns null when the body is not a delivery event.
+ */
+export function parseDoorDashEvent(body: any): DeliveryEvent | null {
+  if (!body || typeof body !== 'object') {
+    return null;
+  }
+  const eventName = optionalString(body.event_name || body.event_type || body.event);
+  const externalDeliveryId = optionalString(body.external_delivery_id);
+  if (!eventName || !externalDeliveryId) {
+    return null;
+  }
+
+  const occurredAt = new Date(body.created_at || body.event_time || Date.now());
+  return {
+    external_delivery_id: externalDeliveryId,
+    delivery_id: optionalString(body.delivery_id || body.support_reference),
+    event_name: eventName.toUpperCase(),
+    delivery_status: optionalString(body.delivery_status) || EVENT_STATUS[eventName.toUpperCase()] || eventName.toLowerCase(),
+    dasher_name: optionalString(body.dasher_name),
+    dasher_phone: optionalString(body.dasher_dropoff_phone_number || body.dasher_phone_number || body.dasher_pickup_phone_number),
+    pickup_eta: optionalString(body.pickup_time_estimated),
+    dropoff_eta: optionalString(body.dropoff_time_estimated),
+    tracking_url: optionalString(body.tracking_url),
+    occurred_at: (isNaN(occurredAt.getTime()) ? new Date() : occurredAt).toISOString(),
+    raw_data: JSON.stringify(body),
+  };
+}
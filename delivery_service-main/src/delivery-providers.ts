@@ -0,0 +1,160 @@
+import { IDatabase } from './database-factory';
+import { DoorDashClient, DoorDashDriveDelivery, DoorDashQuote, DoorDashResponse } from './doordash-client';
+import { DeliveryChanges } from './delivery-updates';
+import { DoorDashEnvironment } from './doordash-environments';
+
+// Drive's payload, quote and response shapes are the common format of every provider
+export type DeliveryRequest = DoorDashDriveDelivery;
+export type DeliveryQuote = DoorDashQuote;
+export type DeliveryResult = DoorDashResponse;
+
+export const DELIVERY_PROVIDER_NAMES = ['doordash', 'inhouse'];
+
+// Orders dispatched before providers were recorded went to DoorDash
+export const DEFAULT_DELIVERY_PROVIDER = 'doordash';
+
+// Statuses staff can report for an in-house delivery (the same names DoorDash uses)
+export const IN_HOUSE_DELIVERY_STATUSES = ['created', 'confirmed', 'picked_up', 'enroute_to_dropoff', 'delivered', 'cancelled', 'returned'];
+
+/**
+ * A way of getting an order to the customer. Errors are thrown; a DoorDashApiError that is not transient
+ * means the provider refused the order, so the next provider of the store may take it.
+ */
+export interface DeliveryProvider {
+  readonly name: string;
+  readonly label: string; // for logs and alerts
+  readonly environment?: DoorDashEnvironment; // for providers with a sandbox, where the order went
+  quote(request: DeliveryRequest): Promise<DeliveryQuote>;
+  // With a quote, book the quoted delivery; otherwise create one directly
+  create(request: DeliveryRequest, quote?: DeliveryQuote): Promise<DeliveryResult>;
+  getStatus(idOrExternalId: string): Promise<DeliveryResult>;
+  cancel(externalDeliveryId: string): Promise<DeliveryResult>;
+  update(externalDeliveryId: string, changes: DeliveryChanges): Promise<DeliveryResult>;
+}
+
+export interface InHouseDeliveryConfig {
+  feeCents: number; // what a delivery by the store's own driver costs, for quotes
+  deliveryMinutes: number; // estimated minutes until dropoff
+}
+
+/**
+ * Provider names in priority order from a comma-separated list ("doordash,inhouse").
+ * Throws on unknown names.
+ */
+export function parseProviderList(value: any): string[] {
+  const names = (value ?? '').toString().split(',').map((name: string) => name.trim().toLowerCase()).filter(Boolean);
+  const unknown = names.filter((name: string) => !DELIVERY_PROVIDER_NAMES.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown delivery provider(s): ${unknown.join(', ')} (one of ${DELIVERY_PROVIDER_NAMES.join(', ')})`);
+  }
+  return Array.from(new Set<string>(names));
+}
+
+/**
+ * Build the in-house driver settings from environment variables
+ */
+export function loadInHouseDeliveryConfig(): InHouseDeliveryConfig {
+  return {
+    feeCents: parseInt(process.env.INHOUSE_DELIVERY_FEE_CENTS || '0', 10) || 0,
+    deliveryMinutes: parseInt(process.env.INHOUSE_DELIVERY_MINUTES || '45', 10) || 45,
+  };
+}
+
+/**
+ * DoorDash Drive
+ */
+export class DoorDashDeliveryProvider implements DeliveryProvider {
+  readonly name = 'doordash';
+  readonly label: string;
+  readonly environment: DoorDashEnvironment;
+  readonly client: DoorDashClient;
+
+  constructor(client: DoorDashClient) {
+    this.client = client;
+    this.environment = client.environment;
+    this.label = client.environment === 'sandbox' ? 'DoorDash (sandbox)' : 'DoorDash';
+  }
+
+  quote(request: DeliveryRequest): Promise<DeliveryQuote> {
+    return this.client.createQuote(request);
+  }
+
+  create(request: DeliveryRequest, quote?: DeliveryQuote): Promise<DeliveryResult> {
+    return quote
+      ? this.client.acceptQuote(quote.external_delivery_id, { tip: request.tip })
+      : this.client.createDriveDelivery(request);
+  }
+
+  getStatus(idOrExternalId: string): Promise<DeliveryResult> {
+    return this.client.getOrderStatus(idOrExternalId);
+  }
+
+  cancel(externalDeliveryId: string): Promise<DeliveryResult> {
+    return this.client.cancelOrder(externalDeliveryId);
+  }
+
+  update(externalDeliveryId: string, changes: DeliveryChanges): Promise<DeliveryResult> {
+    return this.client.updateDelivery(externalDeliveryId, changes);
+  }
+}
+
+/**
+ * The store's own drivers. Nothing is sent anywhere: the delivery is recorded on the order, staff see it on
+ * the dashboard and report its progress through the admin API, and cancellations and changes show up in
+ * the order's delivery timeline.
+ */
+export class InHouseDeliveryProvider implements DeliveryProvider {
+  readonly name = 'inhouse';
+  readonly label = 'in-house driver';
+  private database: IDatabase;
+  private config: InHouseDeliveryConfig;
+
+  constructor(database: IDatabase, config: InHouseDeliveryConfig) {
+    this.database = database;
+    this.config = config;
+  }
+
+  private async handleAsync<T>(result: T | Promise<T>): Promise<T> {
+    return result instanceof Promise ? await result : result;
+  }
+
+  async quote(request: DeliveryRequest): Promise<DeliveryQuote> {
+    return {
+      external_delivery_id: request.external_delivery_id,
+      fee: this.config.feeCents,
+      dropoff_time_estimated: new Date(Date.now() + this.config.deliveryMinutes * 60000).toISOString(),
+    };
+  }
+
+  async create(request: DeliveryRequest): Promise<DeliveryResult> {
+    const quote = await this.quote(request);
+    return {
+      id: `inhouse-${request.external_delivery_id}`,
+      external_delivery_id: request.external_delivery_id,
+      status: 'created',
+      raw: { fee: quote.fee, dropoff_time_estimated: quote.dropoff_time_estimated },
+    };
+  }
+
+  async getStatus(idOrExternalId: string): Promise<DeliveryResult> {
+    const orderId = idOrExternalId.replace(/^inhouse-/, '');
+    const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId));
+    if (!order?.sent_to_doordash) {
+      throw new Error(`No in-house delivery for order #${orderId}`);
+    }
+    return {
+      id: order.doordash_order_id,
+      external_delivery_id: orderId,
+      status: order.doordash_status || 'created',
+      raw: { dasher_name: order.doordash_dasher_name, dasher_phone_number: order.doordash_dasher_phone },
+    };
+  }
+
+  async cancel(externalDeliveryId: string): Promise<DeliveryResult> {
+    return { id: `inhouse-${externalDeliveryId}`, external_delivery_id: externalDeliveryId, status: 'cancelled' };
+  }
+
+  async update(externalDeliveryId: string, changes: DeliveryChanges): Promise<DeliveryResult> {
+    return { id: `inhouse-${externalDeliveryId}`, external_delivery_id: externalDeliveryId, raw: { changes } };
+  }
+}
@@ -0,0 +1,329 @@
+import chalk from 'chalk';
+import { IDatabase, Order, DeliveryOrderCursor } from './database-factory';
+import { DoorDashClient, DoorDashResponse } from './doordash-client';
+import { DoorDashApiError } from './doordash-retry';
+import { TERMINAL_DELIVERY_STATUSES } from './delivery-events';
+import { isCancelledStatus } from './order-status';
+import { sendAlert } from './alerts';
+import { doorDashCosts, customerDeliveryFee } from './delivery-costs';
+
+export type ReconciliationIssueKind = 'orphaned' | 'missing' | 'status_mismatch' | 'missed_cancellation';
+
+export interface ReconciliationIssue {
+  order_id: string;
+  store_id?: string;
+  kind: ReconciliationIssueKind;
+  detail: string;
+  local_status?: string; // delivery status we have recorded
+  doordash_status?: string; // delivery status DoorDash reports
+  delivery_id?: string;
+  repaired: boolean;
+  repair?: string; // what was done, or why it was left alone
+}
+
+export interface ReconciliationReport {
+  from: string;
+  to: string;
+  store_id?: string;
+  repair: boolean;
+  checked: number;
+  skipped: number; // being dispatched right now, or no DoorDash client for the order
+  issues: ReconciliationIssue[];
+  errors: { order_id: string; error: string }[]; // DoorDash lookups that failed
+  started_at: string;
+  finished_at: string;
+}
+
+export interface ReconciliationOptions {
+  from: Date;
+  to: Date;
+  storeId?: string;
+  repair: boolean;
+}
+
+export interface DeliveryReconcilerConfig {
+  intervalMs: number; // how often the scheduled run goes (0 disables it)
+  lookbackHours: number; // the scheduled run checks orders sent (or created) this long ago until now
+  repair: boolean; // whether the scheduled run repairs what is safe to repair
+  pageSize: number; // orders read from the database at a time; a run pages through its whole range
+}
+
+// Delivery statuses after which DoorDash no longer accepts a cancellation
+const PICKED_UP_STATUSES = ['picked_up', 'enroute_to_dropoff', 'arrived_at_dropoff', 'delivered', 'returned'];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Date range from "from"/"to" inputs (ISO timestamps or YYYY-MM-DD; a date-only "to" includes that whole day).
+ * Defaults: to = now, from = lookbackHours before to.
+ */
+export function parseReconciliationRange(fromInput: any, toInput: any, lookbackHours: number, now: Date = new Date()): { from: Date; to: Date; errors: string[] } {
+  const errors: string[] = [];
+  const parse = (name: string, value: any, endOfDay: boolean): Date | undefined => {
+    if (value === undefined || value === null || value === '') return undefined;
+    const text = String(value).trim();
+    const date = new Date(DATE_ONLY.test(text) ? `${text}T00:00:00.000Z` : text);
+    if (isNaN(date.getTime())) {
+      errors.push(`${name} must be an ISO date or YYYY-MM-DD (got "${text}")`);
+      return undefined;
+    }
+    return endOfDay && DATE_ONLY.test(text) ? new Date(date.getTime() + 86400000) : date;
+  };
+  const to = parse('to', toInput, true) || now;
+  const from = parse('from', fromInput, false) || new Date(to.getTime() - lookbackHours * 3600000);
+  if (errors.length === 0 && from >= to) {
+    errors.push('from must be before to');
+  }
+  return { from, to, errors };
+}
+
+function parseRawData(order: Order): any {
+  try {
+    return JSON.parse(order.raw_data || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function isNotFound(error: any): boolean {
+  return error instanceof DoorDashApiError && error.status === 404;
+}
+
+/**
+ * Compares our orders with DoorDash's view of each delivery (looked up by external_delivery_id, the order ID) and
+ * reports what is out of sync:
+ * - orphaned: DoorDash has a delivery for an order we never recorded as sent (repair: record it)
+ * - missing: we recorded a delivery that DoorDash does not have (never repaired: re-dispatching could send two Dashers)
+ * - status_mismatch: the delivery status differs (repair: record DoorDash's status)
+ * - missed_cancellation: the order was cancelled but its delivery is still active (repair: cancel it, as a
+ *   GloriaFood cancellation would have; only before pickup)
+ */
+export class DeliveryReconciler {
+  private database: IDatabase;
+  private config: DeliveryReconcilerConfig;
+  private clientFor: (order: Order) => DoorDashClient | undefined;
+  private timer?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+  private lastReport?: ReconciliationReport;
+
+  constructor(
+    database: IDatabase,
+    config: DeliveryReconcilerConfig,
+    clientFor: (order: Order) => DoorDashClient | undefined
+  ) {
+    this.database = database;
+    this.config = config;
+    this.clientFor = clientFor;
+  }
+
+  private async handleAsync<T>(result: T | Promise<T>): Promise<T> {
+    return result instanceof Promise ? await result : result;
+  }
+
+  start(): void {
+    if (this.config.intervalMs <= 0 || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.runScheduled(), this.config.intervalMs);
+    console.log(chalk.green(`✅ DoorDash reconciliation scheduled (every ${Math.round(this.config.intervalMs / 60000)} min, last ${this.config.lookbackHours}h, repair ${this.config.repair ? 'on' : 'off'})`));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Report of the last scheduled run
+   */
+  lastScheduledReport(): ReconciliationReport | undefined {
+    return this.lastReport;
+  }
+
+  /**
+   * Reconcile the orders of the lookback window. Issues left unrepaired raise an alert.
+   * Skipped while the previous run is still going.
+   */
+  async runScheduled(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    try {
+      const to = new Date();
+      const from = new Date(to.getTime() - this.config.lookbackHours * 3600000);
+      const report = await this.reconcile({ from, to, repair: this.config.repair });
+      this.lastReport = report;
+      const open = report.issues.filter(issue => !issue.repaired);
+      if (open.length > 0) {
+        await sendAlert({
+          title: 'DoorDash deliveries out of sync',
+          message: open.slice(0, 10).map(issue => `#${issue.order_id} ${issue.kind}: ${issue.detail}`).join('; ')
+            + (open.length > 10 ? ` (and ${open.length - 10} more)` : ''),
+        });
+      }
+    } catch (error: any) {
+      console.error(chalk.red(`❌ DoorDash reconciliation failed: ${error.message}`));
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async reconcile(options: ReconciliationOptions): Promise<ReconciliationReport> {
+    const report: ReconciliationReport = {
+      from: options.from.toISOString(),
+      to: options.to.toISOString(),
+      store_id: options.storeId,
+      repair: options.repair,
+      checked: 0,
+      skipped: 0,
+      issues: [],
+      errors: [],
+      started_at: new Date().toISOString(),
+      finished_at: '',
+    };
+    // Page by the last order read, as read: recording an orphaned delivery moves the order's send time, so it can
+    // come up again on a later page
+    const seen = new Set<string>();
+    let after: DeliveryOrderCursor | undefined;
+    for (;;) {
+      const orders = await this.handleAsync(this.database.getDeliveryOrdersBetween(
+        options.from, options.to, this.config.pageSize, options.storeId, after
+      ));
+      for (const order of orders) {
+        if (seen.has(order.gloriafood_order_id)) continue;
+        seen.add(order.gloriafood_order_id);
+        // A worker that holds the dispatch claim may have created the delivery and not recorded it yet
+        const client = this.clientFor(order);
+        if (!client || (order.dispatch_claimed_until && order.dispatch_claimed_until > Date.now())) {
+          report.skipped++;
+          continue;
+        }
+        report.checked++;
+        try {
+          const issues = await this.reconcileOrder(order, client, options.repair);
+          report.issues.push(...issues);
+        } catch (error: any) {
+          report.errors.push({ order_id: order.gloriafood_order_id, error: error.message || 'Unknown error' });
+        }
+      }
+      if (orders.length < this.config.pageSize) break;
+      const last = orders[orders.length - 1];
+      after = { at: last.doordash_sent_at || last.created_at, id: last.id };
+    }
+
+    report.finished_at = new Date().toISOString();
+    const repaired = report.issues.filter(issue => issue.repaired).length;
+    console.log(chalk.cyan(`🔎 DoorDash reconciliation ${report.from} - ${report.to}: ${report.checked} checked, ${report.issues.length} issue(s), ${repaired} repaired, ${report.errors.length} lookup error(s)`));
+    return report;
+  }
+
+  private async reconcileOrder(order: Order, client: DoorDashClient, repair: boolean): Promise<ReconciliationIssue[]> {
+    const orderId = order.gloriafood_order_id;
+    const base = { order_id: orderId, store_id: order.store_id, local_status: order.doordash_status || undefined };
+
+    let delivery: DoorDashResponse | null;
+    try {
+      delivery = await client.getOrderStatus(orderId);
+    } catch (error: any) {
+      if (!isNotFound(error)) throw error;
+      delivery = null;
+    }
+
+    if (!delivery) {
+      if (!order.sent_to_doordash) {
+        return [];
+      }
+      return [{
+        ...base,
+        kind: 'missing',
+        detail: `Recorded as sent${order.doordash_order_id ? ` (delivery ${order.doordash_order_id})` : ''} but DoorDash has no delivery for it`,
+        delivery_id: order.doordash_order_id || undefined,
+        repaired: false,
+        repair: 'Not repaired: check the DoorDash portal, then retry or cancel the order by hand',
+      }];
+    }
+
+    const issues: ReconciliationIssue[] = [];
+    const remoteStatus = delivery.status ? String(delivery.status).toLowerCase() : undefined;
+    const issue = { ...base, doordash_status: remoteStatus, delivery_id: delivery.id };
+
+    if (!order.sent_to_doordash) {
+      const orphan: ReconciliationIssue = { ...issue, kind: 'orphaned', detail: `DoorDash has delivery ${delivery.id || orderId} (${remoteStatus || 'unknown'}) that was never recorded`, repaired: false };
+      if (repair) {
+        await this.handleAsync(this.database.markOrderSentToDoorDash(orderId, delivery.id, delivery.tracking_url, 'doordash', client.environment));
+        await this.recordStatus(order, delivery, remoteStatus);
+        await this.handleAsync(this.database.recordDeliveryCosts(orderId, { customer_delivery_fee: customerDeliveryFee(parseRawData(order)) }));
+        orphan.repaired = true;
+        orphan.repair = 'Recorded the delivery on the order';
+      }
+      issues.push(orphan);
+    } else if (remoteStatus && remoteStatus !== (order.doordash_status || '').toLowerCase()) {
+      const mismatch: ReconciliationIssue = { ...issue, kind: 'status_mismatch', detail: `Recorded status ${order.doordash_status || 'none'}, DoorDash reports ${remoteStatus}`, repaired: false };
+      if (repair) {
+        await this.recordStatus(order, delivery, remoteStatus);
+        mismatch.repaired = true;
+        mismatch.repair = `Recorded status ${remoteStatus}`;
+      }
+      issues.push(mismatch);
+    }
+
+    const active = !remoteStatus || !TERMINAL_DELIVERY_STATUSES.includes(remoteStatus);
+    if (active && isCancelledStatus(order.status)) {
+      issues.push(await this.missedCancellation(order, client, issue, remoteStatus, repair));
+    }
+    return issues;
+  }
+
+  private async missedCancellation(order: Order, client: DoorDashClient, issue: Omit<ReconciliationIssue, 'kind' | 'detail' | 'repaired'>, remoteStatus: string | undefined, repair: boolean): Promise<ReconciliationIssue> {
+    const orderId = order.gloriafood_order_id;
+    const result: ReconciliationIssue = { ...issue, kind: 'missed_cancellation', detail: `Order was ${order.status} but its delivery is ${remoteStatus || 'active'}`, repaired: false };
+    if (!repair) {
+      return result;
+    }
+    if (remoteStatus && PICKED_UP_STATUSES.includes(remoteStatus)) {
+      result.repair = 'Not repaired: the Dasher already has the order';
+      return result;
+    }
+    try {
+      const response = await client.cancelOrder(orderId);
+      await this.handleAsync(this.database.recordDoorDashCancellation(orderId, 'cancelled'));
+      await this.handleAsync(this.database.recordDeliveryCosts(orderId, doorDashCosts(response.raw)));
+      await this.handleAsync(this.database.recordDeliveryEvent({
+        gloriafood_order_id: orderId,
+        external_delivery_id: orderId,
+        delivery_id: response.id,
+        event_name: 'CANCEL_REQUESTED',
+        delivery_status: response.status || 'cancelled',
+        occurred_at: new Date().toISOString(),
+        raw_data: JSON.stringify(response.raw || {}),
+      }));
+      result.repaired = true;
+      result.repair = 'Cancelled the delivery';
+    } catch (error: any) {
+      await this.handleAsync(this.database.recordDoorDashCancellation(orderId, 'failed', error.message));
+      result.repair = `Cancellation failed: ${error.message}`;
+    }
+    return result;
+  }
+
+  // Record DoorDash's view as a delivery event, so it shows up in the timeline like a webhook would
+  private async recordStatus(order: Order, delivery: DoorDashResponse, status?: string): Promise<void> {
+    const raw = delivery.raw || {};
+    await this.handleAsync(this.database.recordDeliveryEvent({
+      gloriafood_order_id: order.gloriafood_order_id,
+      external_delivery_id: delivery.external_delivery_id || order.gloriafood_order_id,
+      delivery_id: delivery.id,
+      event_name: 'RECONCILED',
+      delivery_status: status,
+      dasher_name: raw.dasher_name,
+      dasher_phone: raw.dasher_dropoff_phone_number || raw.dasher_phone_number,
+      pickup_eta: raw.pickup_time_estimated,
+      dropoff_eta: raw.dropoff_time_estimated,
+      tracking_url: delivery.tracking_url,
+      occurred_at: new Date().toISOString(),
+      raw_data: JSON.stringify(raw),
+    }));
+    await this.handleAsync(this.database.recordDeliveryCosts(order.gloriafood_order_id, doorDashCosts(raw)));
+  }
+}
@@ -0,0 +1,123 @@
+import chalk from 'chalk';
+import { IDatabase, Order } from './database-factory';
+import { DoorDashClient } from './doordash-client';
+import { TERMINAL_DELIVERY_STATUSES } from './delivery-events';
+import { doorDashCosts } from './delivery-costs';
+
+export interface DeliveryStatusPollerConfig {
+  intervalMs: number; // how often to look for due deliveries (0 disables the poller)
+  baseDelayMs: number; // delay after a change; doubles with every poll that finds none
+  maxDelayMs: number;
+  maxAgeHours: number; // stop polling deliveries sent longer ago than this
+  batchSize: number;
+}
+
+/**
+ * Polls DoorDash for deliveries that are not finished yet, for setups that cannot receive DoorDash webhooks.
+ * Status changes and late tracking URLs are recorded as delivery events, so they show up in the timeline.
+ */
+export class DeliveryStatusPoller {
+  private database: IDatabase;
+  private config: DeliveryStatusPollerConfig;
+  private clientFor: (order: Order) => DoorDashClient | undefined;
+  private timer?: NodeJS.Timeout;
+  private isPolling: boolean = false;
+
+  constructor(
+    database: IDatabase,
+    config: DeliveryStatusPollerConfig,
+    clientFor: (order: Order) => DoorDashClient | undefined
+  ) {
+    this.database = database;
+    this.config = config;
+    this.clientFor = clientFor;
+  }
+
+  private async handleAsync<T>(result: T | Promise<T>): Promise<T> {
+    return result instanceof Promise ? await result : result;
+  }
+
+  start(): void {
+    if (this.config.intervalMs <= 0 || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.pollDue(), this.config.intervalMs);
+    console.log(chalk.green(`✅ DoorDash status poller started (every ${Math.round(this.config.intervalMs / 1000)}s)`));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private nextDelay(attempts: number): number {
+    return Math.min(this.config.baseDelayMs * Math.pow(2, attempts), this.config.maxDelayMs);
+  }
+
+  /**
+   * Poll every delivery whose next poll is due. Skipped while the previous run is still going.
+   */
+  async pollDue(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+    try {
+      const sentSince = new Date(Date.now() - this.config.maxAgeHours * 3600000);
+      const orders = await this.handleAsync(this.database.getDeliveriesToPoll(
+        Date.now(), sentSince, TERMINAL_DELIVERY_STATUSES, this.config.batchSize
+      ));
+      for (const order of orders) {
+        await this.pollOrder(order);
+      }
+    } catch (error: any) {
+      console.error(chalk.red(`❌ DoorDash status poll failed: ${error.message}`));
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async pollOrder(order: Order): Promise<void> {
+    const orderId = order.gloriafood_order_id;
+    const attempts = order.doordash_poll_attempts || 0;
+    const client = this.clientFor(order);
+    if (!client) {
+      await this.handleAsync(this.database.scheduleDeliveryPoll(orderId, Date.now() + this.config.maxDelayMs, attempts + 1));
+      return;
+    }
+
+    try {
+      const status = await client.getOrderStatus(order.doordash_order_id || orderId);
+      const newStatus = status.status ? String(status.status).toLowerCase() : undefined;
+      const statusChanged = !!newStatus && newStatus !== order.doordash_status;
+      const trackingArrived = !!status.tracking_url && !order.doordash_tracking_url;
+
+      if (statusChanged || trackingArrived) {
+        const raw = status.raw || {};
+        await this.handleAsync(this.database.recordDeliveryEvent({
+          gloriafood_order_id: orderId,
+          external_delivery_id: status.external_delivery_id || orderId,
+          delivery_id: status.id,
+          event_name: 'STATUS_POLLED',
+          delivery_status: newStatus,
+          dasher_name: raw.dasher_name,
+          dasher_phone: raw.dasher_dropoff_phone_number || raw.dasher_phone_number,
+          pickup_eta: raw.pickup_time_estimated,
+          dropoff_eta: raw.dropoff_time_estimated,
+          tracking_url: status.tracking_url,
+          occurred_at: new Date().toISOString(),
+          raw_data: JSON.stringify(raw),
+        }));
+        await this.handleAsync(this.database.recordDeliveryCosts(orderId, doorDashCosts(raw)));
+        console.log(chalk.cyan(`🚚 DoorDash status for order #${orderId}: ${newStatus || order.doordash_status || 'unknown'}${trackingArrived ? ` (tracking URL: ${status.tracking_url})` : ''}`));
+      }
+
+      // Back off while nothing changes; start over after a change
+      const nextAttempts = statusChanged || trackingArrived ? 0 : attempts + 1;
+      await this.handleAsync(this.database.scheduleDeliveryPoll(orderId, Date.now() + this.nextDelay(nextAttempts), nextAttempts));
+    } catch (error: any) {
+      console.warn(chalk.yellow(`⚠️  DoorDash status poll for order #${orderId} failed: ${error.message}`));
+      await this.handleAsync(this.database.scheduleDeliveryPoll(orderId, Date.now() + this.nextDelay(attempts + 1), attempts + 1));
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { DoorDashDriveDelivery } from './doordash-client';
+
+// Drive delivery fields that may change after dispatch and are pushed to DoorDash
+const UPDATABLE_FIELDS: (keyof DoorDashDriveDelivery)[] = [
+  'dropoff_address',
+  'dropoff_phone_number',
+  'dropoff_contact_given_name',
+  'dropoff_contact_family_name',
+  'dropoff_instructions',
+  'tip',
+];
+
+// DoorDash needs these on every delivery, so a change that clears them is not pushed
+const REQUIRED_FIELDS: (keyof DoorDashDriveDelivery)[] = ['dropoff_address', 'dropoff_phone_number'];
+
+export type DeliveryChanges = Partial<Pick<DoorDashDriveDelivery, 'dropoff_address' | 'dropoff_phone_number' | 'dropoff_contact_given_name' | 'dropoff_contact_family_name' | 'dropoff_instructions' | 'tip'>>;
+
+/**
+ * The updatable fields of a Drive payload, as stored on the order after dispatch and after each update
+ */
+export function updatableDeliveryFields(payload: DoorDashDriveDelivery): DeliveryChanges {
+  const fields: any = {};
+  for (const field of UPDATABLE_FIELDS) {
+    if (payload[field] !== undefined && payload[field] !== '') {
+      fields[field] = payload[field];
+    }
+  }
+  return fields;
+}
+
+/**
+ * Fields that differ between what DoorDash has and the updated order. A cleared optional field is sent
+ * empty (tip as 0) so DoorDash drops it too.
+ */
+export function diffDeliveryFields(current: DeliveryChanges, updated: DeliveryChanges): DeliveryChanges {
+  const changes: any = {};
+  for (const field of UPDATABLE_FIELDS) {
+    const before = (current as any)[field];
+    const after = (updated as any)[field];
+    if (String(before ?? '') === String(after ?? '')) continue;
+    if (after === undefined) {
+      if (REQUIRED_FIELDS.includes(field)) continue;
+      changes[field] = field === 'tip' ? 0 : '';
+    } else {
+      changes[field] = after;
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,119 @@
+// GloriaFood order fields an admin may correct before retrying a failed dispatch
+const EDITABLE_ORDER_FIELDS = [
+  'client_first_name',
+  'client_last_name',
+  'client_phone',
+  'client_email',
+  'client_address',
+  'instructions',
+];
+
+const ADDRESS_PART_FIELDS = ['street', 'city', 'state', 'zip', 'country'];
+
+// Fields that cannot be cleared, since DoorDash rejects a delivery without them
+const REQUIRED_FIELDS = ['client_phone'];
+
+/**
+ * Current values of the editable fields of an order
+ */
+export function editableOrderFields(orderData: any): { [field: string]: any } {
+  const fields: { [field: string]: any } = {};
+  for (const field of EDITABLE_ORDER_FIELDS) {
+    fields[field] = orderData?.[field] ?? null;
+  }
+  const parts = orderData?.client_address_parts || {};
+  fields.client_address_parts = Object.fromEntries(ADDRESS_PART_FIELDS.map(part => [part, parts[part] ?? null]));
+  return fields;
+}
+
+function editValue(field: string, value: any, errors: string[]): string | undefined | null {
+  if (value === null || value === '') {
+    if (REQUIRED_FIELDS.includes(field)) {
+      errors.push(`${field} cannot be empty`);
+      return null;
+    }
+    return undefined;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    errors.push(`${field} must be a string`);
+    return null;
+  }
+  return String(value).trim();
+}
+
+/**
+ * Apply an admin's corrections to a dead-lettered order's data. Only the editable fields may be changed;
+ * null or '' clears a field. Returns the corrected order data, or the validation errors.
+ */
+export function applyOrderEdits(orderData: any, edits: any): { orderData?: any; errors: string[] } {
+  if (!edits || typeof edits !== 'object' || Array.isArray(edits)) {
+    return { errors: ['Request body must be a JSON object'] };
+  }
+  const errors: string[] = [];
+  const unknown = Object.keys(edits).filter(field => field !== 'client_address_parts' && !EDITABLE_ORDER_FIELDS.includes(field));
+  if (unknown.length > 0) {
+    errors.push(`Fields cannot be edited: ${unknown.join(', ')} (editable: ${[...EDITABLE_ORDER_FIELDS, 'client_address_parts'].join(', ')})`);
+  }
+
+  const updated = { ...orderData };
+  for (const field of EDITABLE_ORDER_FIELDS) {
+    if (!(field in edits)) continue;
+    const value = editValue(field, edits[field], errors);
+    if (value === null) continue;
+    if (value === undefined) {
+      delete updated[field];
+    } else {
+      updated[field] = value;
+    }
+  }
+
+  if ('client_address_parts' in edits) {
+    const partEdits = edits.client_address_parts;
+    if (!partEdits || typeof partEdits !== 'object' || Array.isArray(partEdits)) {
+      errors.push('client_address_parts must be an object');
+    } else {
+      const parts = { ...(orderData.client_address_parts || {}) };
+      for (const [part, raw] of Object.entries(partEdits)) {
+        if (!ADDRESS_PART_FIELDS.includes(part)) {
+          errors.push(`client_address_parts.${part} cannot be edited (editable: ${ADDRESS_PART_FIELDS.join(', ')})`);
+          continue;
+        }
+        const value = editValue(`client_address_parts.${part}`, raw, errors);
+        if (value === null) continue;
+        if (value === undefined) {
+          delete parts[part];
+        } else {
+          parts[part] = value;
+        }
+      }
+      updated.client_address_parts = parts;
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { orderData: updated, errors };
+}
+
+/**
+ * Edits saved so far combined with new ones: later values win, address parts are merged
+ */
+export function mergeOrderEdits(saved: any, edits: any): any {
+  const merged = { ...(saved || {}), ...edits };
+  if (saved?.client_address_parts && edits.client_address_parts) {
+    merged.client_address_parts = { ...saved.client_address_parts, ...edits.client_address_parts };
+  }
+  return merged;
+}
+
+/**
+ * Order data with the corrections saved on its dead-letter entry (order_edits JSON) applied
+ */
+export function withOrderEdits(orderData: any, orderEdits?: string | null): any {
+  if (!orderEdits) {
+    return orderData;
+  }
+  try {
+    return applyOrderEdits(orderData, JSON.parse(orderEdits)).orderData || orderData;
+  } catch {
+    return orderData;
+  }
+}
@@ -0,0 +1,218 @@
+import chalk from 'chalk';
+import { IDatabase, DispatchJob } from './database-factory';
+import { createLockOwner } from './idempotency';
+import { backoffWithJitter } from './doordash-retry';
+
+export interface EnqueueOptions {
+  priority?: number; // higher runs first
+  delayMs?: number;
+}
+
+/**
+ * Queue of DoorDash dispatch jobs.
+ * Receive/ack/nack semantics with a visibility timeout, so an SQS-style backend can implement it too.
+ */
+export interface DispatchQueue {
+  enqueue(gloriafoodOrderId: string, options?: EnqueueOptions): Promise<number>;
+  // Take the next available job; it stays invisible to other workers for visibilityTimeoutMs
+  receive(workerId: string, visibilityTimeoutMs: number): Promise<DispatchJob | null>;
+  // Job finished - remove it from the active queue
+  ack(job: DispatchJob): Promise<void>;
+  // Job failed - retry at retryAt (epoch ms), or give up when retryAt is null
+  nack(job: DispatchJob, error: string, retryAt: number | null): Promise<void>;
+  // Job is not due yet - put it back untouched until availableAt (epoch ms)
+  defer(job: DispatchJob, availableAt: number): Promise<void>;
+  // Job gave up - keep it in the dead-letter store until an admin retries or discards it
+  deadLetter(job: DispatchJob, failure: DispatchJobResult): Promise<void>;
+  stats(): Promise<{ [status: string]: number }>;
+}
+
+/**
+ * Dispatch queue stored in the orders database (order_queue table), so jobs survive restarts
+ */
+export class DatabaseDispatchQueue implements DispatchQueue {
+  private database: IDatabase;
+
+  constructor(database: IDatabase) {
+    this.database = database;
+  }
+
+  private async handleAsync<T>(result: T | Promise<T>): Promise<T> {
+    return result instanceof Promise ? await result : result;
+  }
+
+  async enqueue(gloriafoodOrderId: string, options: EnqueueOptions = {}): Promise<number> {
+    return this.handleAsync(this.database.enqueueDispatchJob(
+      gloriafoodOrderId,
+      options.priority ?? 0,
+      Date.now() + (options.delayMs || 0)
+    ));
+  }
+
+  async receive(workerId: string, visibilityTimeoutMs: number): Promise<DispatchJob | null> {
+    return this.handleAsync(this.database.claimDispatchJob(workerId, visibilityTimeoutMs));
+  }
+
+  async ack(job: DispatchJob): Promise<void> {
+    await this.handleAsync(this.database.completeDispatchJob(job.queue_id));
+  }
+
+  async nack(job: DispatchJob, error: string, retryAt: number | null): Promise<void> {
+    await this.handleAsync(this.database.failDispatchJob(job.queue_id, error, retryAt));
+  }
+
+  async defer(job: DispatchJob, availableAt: number): Promise<void> {
+    await this.handleAsync(this.database.deferDispatchJob(job.queue_id, availableAt));
+  }
+
+  async deadLetter(job: DispatchJob, failure: DispatchJobResult): Promise<void> {
+    await this.handleAsync(this.database.addDeadLetter({
+      gloriafood_order_id: job.gloriafood_order_id,
+      queue_id: job.queue_id,
+      reason: failure.error || 'Unknown error',
+      error_status: failure.errorStatus,
+      error_body: failure.errorBody,
+      attempts: job.retry_count + 1,
+    }));
+  }
+
+  async stats(): Promise<{ [status: string]: number }> {
+    return this.handleAsync(this.database.getDispatchQueueStats());
+  }
+}
+
+export interface DispatchJobResult {
+  done: boolean;
+  error?: string;
+  // False for permanent failures that should not be retried
+  retryable?: boolean;
+  // Earliest retry the remote side asked for (Retry-After, open circuit breaker)
+  retryAfterMs?: number;
+  // DoorDash error response, kept in the dead-letter store
+  errorStatus?: number;
+  errorBody?: string;
+  // False when giving up needs no follow-up (e.g. the order was cancelled)
+  deadLetter?: boolean;
+  // Not due yet (epoch ms): run the job again then, without counting an attempt
+  deferUntil?: number;
+}
+
+export interface DispatchWorkerPoolConfig {
+  concurrency: number;
+  pollIntervalMs: number;
+  visibilityTimeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+}
+
+/**
+ * Pool of workers that pull jobs from a DispatchQueue and run them with a concurrency limit
+ */
+export class DispatchWorkerPool {
+  private queue: DispatchQueue;
+  private config: DispatchWorkerPoolConfig;
+  private handler: (job: DispatchJob) => Promise<DispatchJobResult>;
+  private running: boolean = false;
+  private workers: Promise<void>[] = [];
+  private wakeUp: Array<() => void> = [];
+
+  constructor(
+    queue: DispatchQueue,
+    config: DispatchWorkerPoolConfig,
+    handler: (job: DispatchJob) => Promise<DispatchJobResult>
+  ) {
+    this.queue = queue;
+    this.config = config;
+    this.handler = handler;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    for (let i = 0; i < this.config.concurrency; i++) {
+      this.workers.push(this.runWorker(`${createLockOwner()}-w${i + 1}`));
+    }
+    console.log(chalk.green(`✅ Dispatch workers started (concurrency: ${this.config.concurrency})`));
+  }
+
+  /**
+   * Stop taking new jobs and wait for running jobs to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    this.notify();
+    await Promise.all(this.workers);
+    this.workers = [];
+  }
+
+  /**
+   * Wake idle workers (e.g. right after a job was enqueued)
+   */
+  notify(): void {
+    const waiting = this.wakeUp;
+    this.wakeUp = [];
+    waiting.forEach(resolve => resolve());
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      this.wakeUp.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  private retryDelay(retryCount: number, retryAfterMs?: number): number {
+    return Math.max(backoffWithJitter(retryCount, this.config.retryBaseDelayMs), retryAfterMs || 0);
+  }
+
+  private async runWorker(workerId: string): Promise<void> {
+    while (this.running) {
+      let job: DispatchJob | null = null;
+      try {
+        job = await this.queue.receive(workerId, this.config.visibilityTimeoutMs);
+      } catch (error: any) {
+        console.error(chalk.red(`❌ Dispatch worker failed to read queue: ${error.message}`));
+      }
+
+      if (!job) {
+        await this.sleep(this.config.pollIntervalMs);
+        continue;
+      }
+
+      let result: DispatchJobResult;
+      try {
+        result = await this.handler(job);
+      } catch (error: any) {
+        result = { done: false, error: error.message || 'Unknown error', retryable: true };
+      }
+
+      try {
+        if (result.done) {
+          await this.queue.ack(job);
+        } else if (result.deferUntil) {
+          await this.queue.defer(job, result.deferUntil);
+          console.log(chalk.gray(`   ⏰ Dispatch job #${job.queue_id} (order #${job.gloriafood_order_id}) deferred until ${new Date(result.deferUntil).toISOString()}`));
+        } else {
+          const canRetry = result.retryable !== false && job.retry_count < this.config.maxRetries;
+          const retryAt = canRetry ? Date.now() + this.retryDelay(job.retry_count, result.retryAfterMs) : null;
+          await this.queue.nack(job, result.error || 'Unknown error', retryAt);
+          if (retryAt) {
+            console.log(chalk.yellow(`   ⏳ Dispatch job #${job.queue_id} (order #${job.gloriafood_order_id}) will retry at ${new Date(retryAt).toISOString()}`));
+          } else {
+            console.error(chalk.red(`   ❌ Dispatch job #${job.queue_id} (order #${job.gloriafood_order_id}) gave up after ${job.retry_count + 1} attempt(s)`));
+            if (result.deadLetter !== false) {
+              await this.queue.deadLetter(job, result);
+              console.error(chalk.red(`   📥 Order #${job.gloriafood_order_id} moved to the dead-letter store (GET /admin/dispatch/failed)`));
+            }
+          }
+        }
+      } catch (error: any) {
+        console.error(chalk.red(`❌ Dispatch worker failed to update job #${job.queue_id}: ${error.message}`));
+      }
+    }
+  }
+}
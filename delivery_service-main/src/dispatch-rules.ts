@@ -0,0 +1,370 @@
+import * as fs from 'fs';
+import { IDatabase, DispatchDecisionRecord } from './database-factory';
+
+export type DispatchAction = 'dispatch' | 'skip';
+
+/**
+ * Condition on the order facts. Field conditions are a value (equals) or an operator object;
+ * all, any and not combine conditions. Every key of one condition must hold.
+ */
+export interface RuleCondition {
+  all?: RuleCondition[];
+  any?: RuleCondition[];
+  not?: RuleCondition;
+  [fact: string]: any;
+}
+
+export interface DispatchRule {
+  name: string;
+  when?: RuleCondition; // no condition: always matches
+  action: DispatchAction;
+  reason?: string; // recorded in the decision log (default: the rule name)
+}
+
+// DISPATCH_RULES_PATH file: rules for every store, and rules that replace them for one store
+export interface DispatchRulesFile {
+  default?: DispatchRule[];
+  stores?: { [storeId: string]: DispatchRule[] };
+}
+
+export type DispatchRulesSource = 'store' | 'file:store' | 'file:default' | 'none' | 'draft';
+
+// Synthetic rule recorded when a store has dispatch_enabled off: no rules are evaluated for it
+export const STORE_DISPATCH_DISABLED_RULE = 'store_dispatch_disabled';
+
+/**
+ * Decision for an order of a store whose dispatch is switched off
+ */
+export function storeDispatchDisabledDecision(storeId: string): DispatchDecision {
+  return {
+    action: 'skip',
+    rule: STORE_DISPATCH_DISABLED_RULE,
+    reason: `DoorDash dispatch is disabled for store ${storeId}`,
+    source: 'store',
+    trace: [{ rule: STORE_DISPATCH_DISABLED_RULE, matched: true }],
+  };
+}
+
+export interface DispatchDecision {
+  action: DispatchAction;
+  rule?: string; // name of the rule that matched; none means no rule matched
+  reason: string;
+  source: DispatchRulesSource;
+  trace: { rule: string; matched: boolean }[];
+}
+
+// Facts about an order that rules can test
+export interface OrderFacts {
+  status: string;
+  type: string;
+  total: number;
+  subtotal: number;
+  zip: string;
+  city: string;
+  delivery_zone: string;
+  payment: string;
+  test: boolean;
+  for_later: boolean;
+  local_day: string; // mon..sun, in the store's timezone
+  local_time: string; // HH:MM, in the store's timezone
+}
+
+const FACTS = ['status', 'type', 'total', 'subtotal', 'zip', 'city', 'delivery_zone', 'payment', 'test', 'for_later', 'local_day', 'local_time'];
+const OPERATORS = ['eq', 'ne', 'in', 'not_in', 'gt', 'gte', 'lt', 'lte', 'between', 'exists'];
+const ACTIONS: DispatchAction[] = ['dispatch', 'skip'];
+
+/**
+ * GloriaFood test order (is_test, test or test_order set on the order)
+ */
+export function isTestOrder(orderData: any): boolean {
+  return truthy(orderData?.is_test) || truthy(orderData?.test) || truthy(orderData?.test_order);
+}
+
+function truthy(value: any): boolean {
+  return value === true || value === 1 || value === '1' || value === 'true';
+}
+
+function toNumber(value: any): number {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function localClock(now: Date, timezone?: string): { day: string; time: string } {
+  const format = (tz?: string) => new Intl.DateTimeFormat('en-US', {
+    timeZone: tz, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).formatToParts(now);
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = format(timezone);
+  } catch {
+    parts = format(undefined); // unknown timezone: server time
+  }
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return { day: part('weekday').toLowerCase(), time: `${part('hour')}:${part('minute')}` };
+}
+
+/**
+ * Facts the rules are evaluated against. status: the saved order status, which may differ in case from the payload.
+ */
+export function orderFacts(orderData: any, status: string | undefined, timezone?: string, now: Date = new Date()): OrderFacts {
+  const clock = localClock(now, timezone || orderData.restaurant_timezone);
+  const parts = orderData.client_address_parts || {};
+  return {
+    status: (status || orderData.status || orderData.order_status || '').toString().toLowerCase(),
+    type: (orderData.type || orderData.order_type || '').toString().toLowerCase(),
+    total: toNumber(orderData.total_price ?? orderData.total),
+    subtotal: toNumber(orderData.sub_total_price ?? orderData.subtotal),
+    zip: (parts.zip || parts.postal_code || '').toString(),
+    city: (parts.city || '').toString(),
+    delivery_zone: (orderData.delivery_zone_name ?? orderData.delivery_zone ?? orderData.delivery_zone_id ?? '').toString(),
+    payment: (orderData.payment || orderData.payment_method || '').toString().toLowerCase(),
+    test: isTestOrder(orderData),
+    for_later: truthy(orderData.for_later),
+    local_day: clock.day,
+    local_time: clock.time,
+  };
+}
+
+function normalize(value: any): any {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+function equals(fact: any, expected: any): boolean {
+  if (typeof fact === 'number') return fact === toNumber(expected);
+  if (typeof fact === 'boolean') return fact === truthy(expected);
+  return normalize(String(fact)) === normalize(String(expected));
+}
+
+function compare(fact: any, expected: any): number {
+  if (typeof fact === 'number') return fact - toNumber(expected);
+  return String(fact).localeCompare(String(expected));
+}
+
+function applyOperator(operator: string, fact: any, expected: any): boolean {
+  switch (operator) {
+    case 'eq': return equals(fact, expected);
+    case 'ne': return !equals(fact, expected);
+    case 'in': return expected.some((value: any) => equals(fact, value));
+    case 'not_in': return !expected.some((value: any) => equals(fact, value));
+    case 'gt': return compare(fact, expected) > 0;
+    case 'gte': return compare(fact, expected) >= 0;
+    case 'lt': return compare(fact, expected) < 0;
+    case 'lte': return compare(fact, expected) <= 0;
+    case 'between': {
+      // Inclusive; a range whose end is before its start wraps (e.g. 22:00-02:00)
+      const [from, to] = expected;
+      return compare(from, to) <= 0
+        ? compare(fact, from) >= 0 && compare(fact, to) <= 0
+        : compare(fact, from) >= 0 || compare(fact, to) <= 0;
+    }
+    case 'exists': return truthy(expected) === (fact !== '' && fact !== 0 && fact !== false);
+    default: return false;
+  }
+}
+
+/**
+ * Whether the order facts satisfy a condition
+ */
+export function matchesCondition(condition: RuleCondition, facts: OrderFacts): boolean {
+  return Object.entries(condition).every(([key, expected]) => {
+    if (key === 'all') return (expected as RuleCondition[]).every(inner => matchesCondition(inner, facts));
+    if (key === 'any') return (expected as RuleCondition[]).some(inner => matchesCondition(inner, facts));
+    if (key === 'not') return !matchesCondition(expected, facts);
+    const fact = (facts as any)[key];
+    if (expected === null || typeof expected !== 'object' || Array.isArray(expected)) {
+      return equals(fact, expected);
+    }
+    return Object.entries(expected).every(([operator, value]) => applyOperator(operator, fact, value));
+  });
+}
+
+function validateCondition(condition: any, path: string, errors: string[]): void {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  for (const [key, expected] of Object.entries(condition)) {
+    if (key === 'all' || key === 'any') {
+      if (!Array.isArray(expected) || expected.length === 0) {
+        errors.push(`${path}.${key} must be a non-empty array of conditions`);
+      } else {
+        expected.forEach((inner, i) => validateCondition(inner, `${path}.${key}[${i}]`, errors));
+      }
+    } else if (key === 'not') {
+      validateCondition(expected, `${path}.not`, errors);
+    } else if (!FACTS.includes(key)) {
+      errors.push(`${path}: unknown field "${key}" (fields: ${FACTS.join(', ')})`);
+    } else if (expected !== null && typeof expected === 'object' && !Array.isArray(expected)) {
+      for (const [operator, value] of Object.entries(expected)) {
+        if (!OPERATORS.includes(operator)) {
+          errors.push(`${path}.${key}: unknown operator "${operator}" (operators: ${OPERATORS.join(', ')})`);
+        } else if ((operator === 'in' || operator === 'not_in') && !Array.isArray(value)) {
+          errors.push(`${path}.${key}.${operator} must be an array`);
+        } else if (operator === 'between' && (!Array.isArray(value) || value.length !== 2)) {
+          errors.push(`${path}.${key}.between must be [from, to]`);
+        } else if (key === 'local_time' && operator !== 'exists' && [value].flat().some(time => !/^([01]\d|2[0-3]):[0-5]\d$/.test(String(time)))) {
+          errors.push(`${path}.local_time.${operator}: times must be HH:MM (24-hour)`);
+        }
+      }
+    } else if (Array.isArray(expected)) {
+      errors.push(`${path}.${key}: use {"in": [...]} to match a list`);
+    }
+  }
+}
+
+/**
+ * Validation errors of a list of rules (empty when valid)
+ */
+export function validateRules(rules: any, path: string = 'rules'): string[] {
+  if (!Array.isArray(rules)) {
+    return [`${path} must be an array of rules`];
+  }
+  const errors: string[] = [];
+  rules.forEach((rule, i) => {
+    const rulePath = `${path}[${i}]`;
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      errors.push(`${rulePath} must be an object`);
+      return;
+    }
+    if (typeof rule.name !== 'string' || !rule.name.trim()) {
+      errors.push(`${rulePath}.name is required`);
+    }
+    if (!ACTIONS.includes(rule.action)) {
+      errors.push(`${rulePath}.action must be one of: ${ACTIONS.join(', ')}`);
+    }
+    if (rule.when !== undefined) {
+      validateCondition(rule.when, `${rulePath}.when`, errors);
+    }
+    const unknown = Object.keys(rule).filter(key => !['name', 'when', 'action', 'reason'].includes(key));
+    if (unknown.length > 0) {
+      errors.push(`${rulePath}: unknown keys ${unknown.join(', ')}`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Evaluate rules in order: the first rule that matches decides. When none matches, the order is dispatched.
+ */
+export function evaluateRules(rules: DispatchRule[], facts: OrderFacts, source: DispatchRulesSource): DispatchDecision {
+  const trace: { rule: string; matched: boolean }[] = [];
+  for (const rule of rules) {
+    const matched = !rule.when || matchesCondition(rule.when, facts);
+    trace.push({ rule: rule.name, matched });
+    if (matched) {
+      return { action: rule.action, rule: rule.name, reason: rule.reason || rule.name, source, trace };
+    }
+  }
+  return { action: 'dispatch', reason: rules.length > 0 ? 'No rule matched' : 'No dispatch rules configured', source, trace };
+}
+
+/**
+ * Read and validate the DISPATCH_RULES_PATH file; throws when it is unreadable or invalid
+ */
+export function loadDispatchRulesFile(filePath?: string): DispatchRulesFile {
+  if (!filePath) {
+    return {};
+  }
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read dispatch rules from ${filePath}: ${error.message}`);
+  }
+  const errors: string[] = [];
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    errors.push('file must contain an object with "default" and/or "stores"');
+  } else {
+    if (parsed.default !== undefined) {
+      errors.push(...validateRules(parsed.default, 'default'));
+    }
+    if (parsed.stores !== undefined) {
+      if (!parsed.stores || typeof parsed.stores !== 'object' || Array.isArray(parsed.stores)) {
+        errors.push('stores must be an object of store ID to rules');
+      } else {
+        for (const [storeId, rules] of Object.entries(parsed.stores)) {
+          errors.push(...validateRules(rules, `stores.${storeId}`));
+        }
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid dispatch rules in ${filePath}: ${errors.join('; ')}`);
+  }
+  return parsed;
+}
+
+/**
+ * Per-store dispatch rules: a store's rules in the database replace the file's rules for that store,
+ * which replace the file's default rules. Every decision is written to the decision log.
+ */
+export class DispatchRulesEngine {
+  private database: IDatabase;
+  private file: DispatchRulesFile;
+
+  constructor(database: IDatabase, file: DispatchRulesFile) {
+    this.database = database;
+    this.file = file;
+  }
+
+  private async handleAsync<T>(result: T | Promise<T>): Promise<T> {
+    return result instanceof Promise ? await result : result;
+  }
+
+  /**
+   * Rules that apply to a store, and where they come from
+   */
+  async rulesFor(storeId?: string): Promise<{ rules: DispatchRule[]; source: DispatchRulesSource }> {
+    if (storeId) {
+      const stored = await this.handleAsync(this.database.getStoreDispatchRules(storeId));
+      if (stored) {
+        return { rules: JSON.parse(stored.rules), source: 'store' };
+      }
+      if (this.file.stores?.[storeId]) {
+        return { rules: this.file.stores[storeId], source: 'file:store' };
+      }
+    }
+    if (this.file.default) {
+      return { rules: this.file.default, source: 'file:default' };
+    }
+    return { rules: [], source: 'none' };
+  }
+
+  /**
+   * Decide whether to dispatch an order. timezone: the store's, for opening-hour rules.
+   * draftRules are evaluated instead of the configured ones (dry run).
+   */
+  async evaluate(orderData: any, status: string | undefined, storeId?: string, timezone?: string, draftRules?: DispatchRule[]): Promise<{ decision: DispatchDecision; facts: OrderFacts }> {
+    const facts = orderFacts(orderData, status, timezone);
+    const { rules, source } = draftRules ? { rules: draftRules, source: 'draft' as DispatchRulesSource } : await this.rulesFor(storeId);
+    return { decision: evaluateRules(rules, facts, source), facts };
+  }
+
+  /**
+   * Decide and record the decision in the decision log
+   */
+  async decide(orderId: string, orderData: any, status: string | undefined, storeId?: string, timezone?: string): Promise<DispatchDecision> {
+    const { decision } = await this.evaluate(orderData, status, storeId, timezone);
+    return this.record(orderId, storeId, decision);
+  }
+
+  /**
+   * Skip an order of a store whose dispatch is switched off, and record that in the decision log
+   */
+  async decideStoreDisabled(orderId: string, storeId: string): Promise<DispatchDecision> {
+    return this.record(orderId, storeId, storeDispatchDisabledDecision(storeId));
+  }
+
+  private async record(orderId: string, storeId: string | undefined, decision: DispatchDecision): Promise<DispatchDecision> {
+    const record: DispatchDecisionRecord = {
+      gloriafood_order_id: orderId,
+      store_id: storeId,
+      action: decision.action,
+      rule_name: decision.rule,
+      reason: decision.reason,
+      source: decision.source,
+    };
+    await this.handleAsync(this.database.recordDispatchDecision(record));
+    return decision;
+  }
+}
@@ -1,5 +1,14 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, Method } from 'axios';
 import crypto from 'crypto';
+import {
+  DoorDashRetryConfig, DoorDashApiError, CircuitBreaker, CircuitSnapshot,
+  loadDoorDashRetryConfig, toDoorDashApiError, backoffWithJitter,
+} from './doordash-retry';
+import { scheduledFulfillTime } from './order-schedule';
+import { resolveDropoff } from './address';
+import { toE164 } from './phone';
+import { NON_MENU_ITEM_TYPES } from './menu-catalog';
+import { DoorDashEnvironment } from './doordash-environments';
 
 export interface DoorDashConfig {
   developerId: string;
@@ -7,7 +16,9 @@ export interface DoorDashConfig {
   signingSecret: string;
   merchantId?: string;
   apiUrl?: string;
-  isSandbox?: boolean;
+  businessApiUrl?: string; // Business/Store API; defaults to /developer/v1 next to the Drive API
+  environment?: DoorDashEnvironment; // which DoorDash environment the credentials belong to (default production)
+  retry?: DoorDashRetryConfig; // defaults to the DOORDASH_RETRY_* / DOORDASH_CIRCUIT_* environment variables
 }
 
 export interface DoorDashOrder {
@@ -53,10 +64,28 @@ export interface DoorDashResponse {
   };
 }
 
+// A line of a Drive delivery (shown to the Dasher to check the order at pickup)
+export interface DoorDashDriveItem {
+  name: string;
+  quantity: number;
+  description?: string; // size, options and the customer's notes for the kitchen
+  external_id?: string; // GloriaFood menu item ID
+  price?: number; // cents per unit, options included
+}
+
+// What the order contains, for Dashers who must check ID or handle restricted items
+export interface DoorDashOrderContains {
+  alcohol?: boolean;
+  pharmacy_items?: boolean;
+  age_restricted_pharmacy_items?: boolean;
+}
+
 // DoorDash Drive delivery payload
 export interface DoorDashDriveDelivery {
   external_delivery_id: string; // your order id
-  pickup_address: string;
+  pickup_address?: string; // not needed with a provisioned store
+  pickup_external_business_id?: string; // a store provisioned through the Business API (see DoorDashStore)
+  pickup_external_store_id?: string;
   pickup_phone_number?: string;
   pickup_business_name?: string;
   pickup_instructions?: string;
@@ -66,24 +95,213 @@ export interface DoorDashDriveDelivery {
   dropoff_contact_given_name?: string;
   dropoff_contact_family_name?: string;
   dropoff_instructions?: string;
+  contactless_dropoff?: boolean; // leave at the door
   order_value?: number; // cents
   tip?: number; // cents
+  items?: DoorDashDriveItem[];
+  order_contains?: DoorDashOrderContains;
   pickup_time?: string; // ISO8601
   dropoff_time?: string; // ISO8601
 }
 
+export interface DriveDeliveryOptions {
+  timezone?: string; // the store's IANA timezone, for scheduled times that carry no offset
+  country?: string; // the store's default country, for dropoff addresses and phone numbers without one
+  itemNames?: { [lineIndex: number]: string }; // menu names of the order's lines (order_item_links), by line index
+}
+
+// Customer asked for the order to be left at the door
+const CONTACTLESS_PATTERN = /\b(?:contact[- ]?less|no[- ]contact|leave (?:it |them |the order |food )?(?:at|by|outside|in front of) (?:the |my )?(?:door|porch|front)|do not knock|don'?t knock)\b/i;
+
+// Menu item flags and tags that mark alcohol
+const ALCOHOL_TAGS = ['alcohol', 'alcoholic', 'beer', 'wine', 'spirits', 'liquor'];
+
+function isTrue(value: any): boolean {
+  return value === true || value === 1 || value === '1' || value === 'true' || value === 'yes';
+}
+
+function containsAlcohol(line: any): boolean {
+  const tags: any[] = Array.isArray(line?.tags) ? line.tags : [];
+  return isTrue(line?.alcohol) || isTrue(line?.contains_alcohol) || isTrue(line?.is_alcohol)
+    || tags.some(tag => ALCOHOL_TAGS.includes((tag?.name ?? tag ?? '').toString().trim().toLowerCase()));
+}
+
+/**
+ * Drive items of a GloriaFood order: menu lines with their quantity, size, options and notes, without fees,
+ * tips and promotions. Names come from itemNames (the menu) where given, otherwise from the order.
+ */
+export function buildDriveItems(orderItems: any[], itemNames: { [lineIndex: number]: string } = {}): DoorDashDriveItem[] {
+  const toCents = (value: any): number => Math.round((parseFloat(value ?? 0) || 0) * 100);
+  const items: DoorDashDriveItem[] = [];
+  (orderItems || []).forEach((line: any, index: number) => {
+    if (!line || (line.type && NON_MENU_ITEM_TYPES.includes(line.type))) {
+      return;
+    }
+    const options: any[] = Array.isArray(line.options) ? line.options : [];
+    const size = options.find(option => option.type === 'size');
+    const extras = options.filter(option => option.type !== 'size');
+    const baseName = line.name || line.product_name || line.title || 'Unknown Item';
+    const name = itemNames[index] || (size?.name ? `${baseName} (${size.name})` : baseName);
+    const quantity = Math.max(1, parseInt(line.quantity ?? 1, 10) || 1);
+    const unitPrice = toCents(line.price ?? line.unit_price)
+      + extras.reduce((sum, option) => sum + toCents(option.price) * (parseInt(option.quantity ?? 1, 10) || 1), 0);
+    const notes = (line.instructions || line.notes || '').toString().trim();
+    const description = [
+      ...extras.map(option => {
+        const optionQuantity = parseInt(option.quantity ?? 1, 10) || 1;
+        return `${optionQuantity > 1 ? `${optionQuantity}x ` : ''}${option.name}`;
+      }),
+      notes && `Note: ${notes}`,
+    ].filter(Boolean).join(', ');
+
+    items.push({
+      name,
+      quantity,
+      description: description || undefined,
+      external_id: (line.type_id ?? line.item_id ?? line.menu_item_id)?.toString(),
+      price: unitPrice || undefined,
+    });
+  });
+  return items;
+}
+
+// DoorDash Drive quote (valid for a few minutes; accepting it creates the delivery)
+export interface DoorDashQuote {
+  external_delivery_id: string;
+  fee: number; // cents
+  currency?: string;
+  pickup_time_estimated?: string; // ISO8601
+  dropoff_time_estimated?: string; // ISO8601
+  expires_at?: string;
+  raw?: any;
+}
+
+// DoorDash business (Business API); a business has one or more stores
+export interface DoorDashBusiness {
+  external_business_id: string;
+  name: string;
+  description?: string;
+  activation_status?: string; // active | inactive
+  is_test?: boolean;
+  created_at?: string;
+  last_updated_at?: string;
+}
+
+// DoorDash store of a business: the pickup location Drive deliveries can refer to
+export interface DoorDashStore {
+  external_store_id: string;
+  external_business_id?: string;
+  name: string;
+  phone_number?: string;
+  address?: string;
+  status?: string;
+  is_test?: boolean;
+  created_at?: string;
+  last_updated_at?: string;
+}
+
+/**
+ * Convert a GloriaFood order to a Drive delivery payload, the request format every delivery provider takes
+ * (see DriveDeliveryOptions)
+ */
+export function buildDriveDelivery(orderData: any, options: DriveDeliveryOptions = {}): DoorDashDriveDelivery {
+  const { timezone, country = 'US', itemNames } = options;
+  const externalId = orderData.id?.toString() || orderData.order_id?.toString() || crypto.randomUUID?.() || `${Date.now()}`;
+
+  // Pickup: restaurant details
+  const pickupAddressParts = [
+    orderData.restaurant_street,
+    orderData.restaurant_city,
+    orderData.restaurant_state,
+    orderData.restaurant_zipcode,
+    orderData.restaurant_country
+  ].filter(Boolean).join(', ');
+
+  // Dropoff: customer details only. Missing parts are reported by resolveDropoff, never filled in from
+  // the restaurant's address.
+  const dropoff = resolveDropoff(orderData, country);
+
+  const given = orderData.client_first_name || orderData.client?.first_name || '';
+  const family = orderData.client_last_name || orderData.client?.last_name || '';
+  const phone = orderData.client_phone || orderData.client?.phone || '';
+
+  // E.164 where the number can be read, otherwise the digits as given
+  const normalizePhone = (raw: string): string => toE164(raw, country) || (raw || '').replace(/[^\d+]/g, '');
+
+  // Convert totals to cents if present
+  const toCents = (v: any) => {
+    const n = parseFloat(v || 0);
+    return Number.isFinite(n) ? Math.round(n * 100) : undefined;
+  };
+
+  // Tips arrive as order items of type "tip"
+  const orderItems: any[] = orderData.items || orderData.order_items || [];
+  const tipItems = orderItems.filter((item: any) => item?.type === 'tip');
+  const tipTotal = tipItems.reduce((sum: number, item: any) => sum + (parseFloat(item.total_item_price ?? item.price ?? 0) || 0), 0);
+
+  const items = buildDriveItems(orderItems, itemNames);
+  const alcohol = isTrue(orderData.contains_alcohol) || orderItems.some(item => item?.type !== 'tip' && containsAlcohol(item));
+  const instructions = (orderData.instructions || '').toString().trim();
+  // Alcohol has to be handed to the customer after an ID check, so it is never left at the door
+  const contactless = !alcohol && (isTrue(orderData.contactless_delivery) || isTrue(orderData.contactless)
+    || isTrue(orderData.leave_at_door) || CONTACTLESS_PATTERN.test(instructions));
+  const orderNumber = (orderData.order_number ?? externalId).toString();
+
+  const payload: DoorDashDriveDelivery = {
+    external_delivery_id: externalId,
+    pickup_address: pickupAddressParts,
+    pickup_phone_number: orderData.restaurant_phone ? normalizePhone(orderData.restaurant_phone) : undefined,
+    pickup_business_name: orderData.restaurant_name || undefined,
+    pickup_reference_tag: `Order #${orderNumber}`,
+    pickup_instructions: `Ask for order #${orderNumber}${given ? ` for ${given}${family ? ` ${family.charAt(0)}.` : ''}` : ''}`
+      + (items.length > 0 ? ` (${items.reduce((sum, item) => sum + item.quantity, 0)} items)` : ''),
+    dropoff_address: dropoff.addressText,
+    dropoff_phone_number: normalizePhone(phone),
+    dropoff_contact_given_name: given || undefined,
+    dropoff_contact_family_name: family || undefined,
+    dropoff_instructions: [instructions, dropoff.accessNotes].filter(Boolean).join('; ') || undefined,
+    contactless_dropoff: contactless || undefined,
+    order_value: toCents(orderData.total_price),
+    tip: tipItems.length > 0 ? toCents(tipTotal) : undefined,
+    items: items.length > 0 ? items : undefined,
+    order_contains: alcohol ? { alcohol: true } : undefined,
+  };
+
+  // Scheduled order: Drive takes either a pickup or a dropoff time, so the customer's requested time
+  // becomes the dropoff time of a delivery (the pickup time of a pickup). Past times are left out.
+  const fulfillAt = scheduledFulfillTime(orderData, timezone);
+  if (fulfillAt && fulfillAt.getTime() > Date.now()) {
+    const orderType = (orderData.type || orderData.order_type || '').toString().toLowerCase();
+    if (orderType === 'pickup') {
+      payload.pickup_time = fulfillAt.toISOString();
+    } else {
+      payload.dropoff_time = fulfillAt.toISOString();
+    }
+  }
+
+  return payload;
+}
+
 export class DoorDashClient {
   private axiosInstance: AxiosInstance;
   private config: DoorDashConfig;
   private cachedJwt?: string;
   private jwtExpiry?: number;
+  private retry: DoorDashRetryConfig;
+  private circuit: CircuitBreaker;
+  private businessApiUrl: string;
 
   constructor(config: DoorDashConfig) {
     this.config = config;
+    this.retry = config.retry || loadDoorDashRetryConfig();
+    this.circuit = new CircuitBreaker(this.retry.circuitThreshold, this.retry.circuitCooldownMs);
     
     // Use sandbox or production URL
     // DoorDash Drive base URL
     const baseURL = config.apiUrl || 'https://openapi.doordash.com/drive/v2';
+    this.businessApiUrl = (config.businessApiUrl || (/\/drive\/v2\/?$/.test(baseURL)
+      ? baseURL.replace(/\/drive\/v2\/?$/, '/developer/v1')
+      : new URL('/developer/v1', baseURL).toString())).replace(/\/$/, '');
 
     this.axiosInstance = axios.create({
       baseURL,
@@ -157,6 +375,49 @@ export class DoorDashClient {
     return jwt;
   }
 
+  /**
+   * Call the DoorDash API through the circuit breaker, retrying transient failures with backoff and jitter.
+   * A Retry-After longer than maxDelayMs is not waited out here; the error carries it for the caller.
+   * Throws DoorDashApiError.
+   */
+  private async send(method: Method, path: string, data?: any): Promise<any> {
+    for (let attempt = 1; ; attempt++) {
+      this.circuit.beforeCall();
+      try {
+        const response = await this.axiosInstance.request({ method, url: path, data });
+        this.circuit.onSuccess();
+        return response.data || {};
+      } catch (error: any) {
+        const apiError = toDoorDashApiError(error);
+        if (!apiError.transient) {
+          // DoorDash answered, so the API itself is up
+          this.circuit.onSuccess();
+          throw apiError;
+        }
+        this.circuit.onFailure();
+        const delay = apiError.retryAfterMs ?? backoffWithJitter(attempt - 1, this.retry.baseDelayMs, this.retry.maxDelayMs);
+        if (attempt >= this.retry.maxAttempts || delay > this.retry.maxDelayMs || this.circuit.state !== 'closed') {
+          throw apiError;
+        }
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * DoorDash environment of this client's credentials
+   */
+  get environment(): DoorDashEnvironment {
+    return this.config.environment || 'production';
+  }
+
+  /**
+   * Circuit breaker state for this client's credentials
+   */
+  getCircuitState(): CircuitSnapshot {
+    return this.circuit.snapshot();
+  }
+
   /**
    * Convert GloriaFood order format to DoorDash format
    */
@@ -234,90 +495,73 @@ export class DoorDashClient {
   }
 
   /**
-   * Convert GloriaFood order to DoorDash Drive delivery payload
+   * Convert GloriaFood order to DoorDash Drive delivery payload (see buildDriveDelivery)
    */
-  convertGloriaFoodToDrive(orderData: any): DoorDashDriveDelivery {
-    const externalId = orderData.id?.toString() || orderData.order_id?.toString() || crypto.randomUUID?.() || `${Date.now()}`;
-
-    // Pickup: restaurant details
-    const pickupAddressParts = [
-      orderData.restaurant_street,
-      orderData.restaurant_city,
-      orderData.restaurant_state,
-      orderData.restaurant_zipcode,
-      orderData.restaurant_country
-    ].filter(Boolean).join(', ');
-
-    // Dropoff: customer details
-    const country = (orderData.client_address_parts?.country || orderData.restaurant_country || '').toString();
-    const city = (orderData.client_address_parts?.city || orderData.restaurant_city || '').toString();
-    const state = (orderData.client_address_parts?.state || orderData.restaurant_state || '').toString();
-    const zip = (orderData.client_address_parts?.zip || orderData.client_address_parts?.postal_code || orderData.restaurant_zipcode || '').toString();
-    const street = (orderData.client_address_parts?.street || orderData.client_address || '').toString();
-
-    const parts = [street, city, [state, zip].filter(Boolean).join(' '), country].filter(Boolean);
-    const dropoffAddress = parts.join(', ');
-
-    const given = orderData.client_first_name || orderData.client?.first_name || '';
-    const family = orderData.client_last_name || orderData.client?.last_name || '';
-    const phone = orderData.client_phone || orderData.client?.phone || '';
+  convertGloriaFoodToDrive(orderData: any, options: DriveDeliveryOptions = {}): DoorDashDriveDelivery {
+    return buildDriveDelivery(orderData, options);
+  }
 
-    const normalizePhone = (raw: string): string => {
-      const trimmed = (raw || '').replace(/[^\d+]/g, '');
-      // If already E.164, keep it
-      if (trimmed.startsWith('+')) return trimmed;
-      // Otherwise, return digits only (no country assumption)
-      return trimmed;
+  /**
+   * Create a DoorDash Drive delivery
+   */
+  async createDriveDelivery(payload: DoorDashDriveDelivery): Promise<DoorDashResponse> {
+    const data = await this.send('post', '/deliveries', payload);
+    const id = data.delivery_id || data.id || data.support_reference || data.data?.delivery_id;
+    const status = data.status || data.delivery_status || data.state || data.data?.status;
+    const externalId = data.external_delivery_id || payload.external_delivery_id;
+    const tracking = data.tracking_url || data.data?.tracking_url;
+    return {
+      id,
+      external_delivery_id: externalId,
+      status,
+      tracking_url: tracking,
+      raw: data,
     };
+  }
 
-    // Convert totals to cents if present
-    const toCents = (v: any) => {
-      const n = parseFloat(v || 0);
-      return Number.isFinite(n) ? Math.round(n * 100) : undefined;
+  /**
+   * Request a Drive quote for a delivery without booking it
+   */
+  async createQuote(payload: DoorDashDriveDelivery): Promise<DoorDashQuote> {
+    const data = await this.send('post', '/quotes', payload);
+    return {
+      external_delivery_id: data.external_delivery_id || payload.external_delivery_id,
+      fee: typeof data.fee === 'number' ? data.fee : parseInt(data.fee || '0', 10),
+      currency: data.currency,
+      pickup_time_estimated: data.pickup_time_estimated,
+      dropoff_time_estimated: data.dropoff_time_estimated,
+      expires_at: data.expires_at,
+      raw: data,
     };
+  }
 
-    const payload: DoorDashDriveDelivery = {
-      external_delivery_id: externalId,
-      pickup_address: pickupAddressParts,
-      pickup_phone_number: orderData.restaurant_phone ? normalizePhone(orderData.restaurant_phone) : undefined,
-      pickup_business_name: orderData.restaurant_name || undefined,
-      dropoff_address: dropoffAddress,
-      dropoff_phone_number: normalizePhone(phone),
-      dropoff_contact_given_name: given || undefined,
-      dropoff_contact_family_name: family || undefined,
-      dropoff_instructions: orderData.instructions || undefined,
-      order_value: toCents(orderData.total_price),
+  /**
+   * Accept a quote, which creates the delivery
+   */
+  async acceptQuote(externalDeliveryId: string, options: { tip?: number; dropoff_phone_number?: string } = {}): Promise<DoorDashResponse> {
+    const data = await this.send('post', `/quotes/${encodeURIComponent(externalDeliveryId)}/accept`, options);
+    return {
+      id: data.delivery_id || data.id || data.support_reference,
+      external_delivery_id: data.external_delivery_id || externalDeliveryId,
+      status: data.status || data.delivery_status,
+      tracking_url: data.tracking_url,
+      raw: data,
     };
-
-    return payload;
   }
 
   /**
-   * Create a DoorDash Drive delivery
+   * Change an active Drive delivery (e.g. dropoff address, phone, instructions or tip).
+   * DoorDash rejects updates once the delivery has progressed too far.
    */
-  async createDriveDelivery(payload: DoorDashDriveDelivery): Promise<DoorDashResponse> {
-    try {
-      const response = await this.axiosInstance.post('/deliveries', payload);
-      const data = response.data || {};
-      const id = data.delivery_id || data.id || data.support_reference || data.data?.delivery_id;
-      const status = data.status || data.delivery_status || data.state || data.data?.status;
-      const externalId = data.external_delivery_id || payload.external_delivery_id;
-      const tracking = data.tracking_url || data.data?.tracking_url;
-      return {
-        id,
-        external_delivery_id: externalId,
-        status,
-        tracking_url: tracking,
-        raw: data,
-      };
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `DoorDash API Error: ${error.response.status} - ${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw new Error(`DoorDash API Error: ${error.message}`);
-    }
+  async updateDelivery(externalDeliveryId: string, changes: Partial<DoorDashDriveDelivery>): Promise<DoorDashResponse> {
+    const data = await this.send('patch', `/deliveries/${encodeURIComponent(externalDeliveryId)}`, changes);
+    return {
+      id: data.delivery_id || data.id || data.support_reference,
+      external_delivery_id: data.external_delivery_id || externalDeliveryId,
+      status: data.delivery_status || data.status,
+      tracking_url: data.tracking_url,
+      raw: data,
+    };
   }
 
   /**
@@ -336,11 +580,10 @@ export class DoorDashClient {
       // Legacy/alternate path (kept for compatibility)
       `/deliveries/by_external_id/${encodeURIComponent(key)}`,
     ];
-    let lastError: any = null;
+    let lastError: DoorDashApiError | null = null;
     for (const path of tryEndpoints) {
       try {
-        const response = await this.axiosInstance.get(path);
-        const data = response.data || {};
+        const data = await this.send('get', path);
         return {
           id: data.delivery_id || data.id || data.support_reference,
           external_delivery_id: data.external_delivery_id || idOrExternalId,
@@ -349,44 +592,98 @@ export class DoorDashClient {
           raw: data,
         };
       } catch (error: any) {
-        lastError = error;
+        lastError = toDoorDashApiError(error);
+        // Only a rejected identifier is worth trying on the next route; an outage would fail there too
+        if (lastError.transient) {
+          throw lastError;
+        }
       }
     }
-    if (lastError?.response) {
-      // Provide a friendlier message for 404 (commonly means delivery not created yet)
-      if (lastError.response.status === 404) {
-        throw new Error(
-          `DoorDash not found (404) for identifier "${key}" — delivery may not exist yet. Raw: ${JSON.stringify(lastError.response.data)}`
-        );
-      }
-      throw new Error(
-        `DoorDash API Error: ${lastError.response.status} - ${JSON.stringify(lastError.response.data)}`
+    // Provide a friendlier message for 404 (commonly means delivery not created yet)
+    if (lastError?.status === 404) {
+      throw new DoorDashApiError(
+        `DoorDash not found (404) for identifier "${key}" — delivery may not exist yet. Raw: ${JSON.stringify(lastError.data)}`,
+        { status: 404, data: lastError.data, transient: false }
       );
     }
-    throw new Error(`DoorDash API Error: ${lastError?.message || 'Unknown error'}`);
+    throw lastError || new DoorDashApiError('DoorDash API Error: Unknown error', { transient: true });
   }
 
   /**
-   * Cancel an order in DoorDash
+   * Cancel a Drive delivery by its external delivery ID (the GloriaFood order ID).
+   * Only possible before the Dasher picks the order up.
    */
-  async cancelOrder(merchantOrderId: string, reason?: string): Promise<DoorDashResponse> {
-    try {
-      const response = await this.axiosInstance.post(`/deliveries/${merchantOrderId}/cancel`, {
-        cancellation_reason: reason || 'Restaurant cancellation',
-      });
+  async cancelOrder(externalDeliveryId: string): Promise<DoorDashResponse> {
+    const data = await this.send('put', `/deliveries/${encodeURIComponent(externalDeliveryId)}/cancel`);
+    return {
+      id: data.delivery_id || data.id || data.support_reference,
+      external_delivery_id: data.external_delivery_id || externalDeliveryId,
+      status: data.delivery_status || data.status || 'cancelled',
+      tracking_url: data.tracking_url,
+      raw: data,
+    };
+  }
 
-      return {
-        id: response.data.id,
-        status: response.data.status || 'cancelled',
-      };
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `DoorDash API Error: ${error.response.status} - ${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw new Error(`DoorDash API Error: ${error.message}`);
-    }
+  /**
+   * Create a business in the Business API
+   */
+  async createBusiness(business: DoorDashBusiness): Promise<DoorDashBusiness> {
+    return this.send('post', `${this.businessApiUrl}/businesses`, business);
+  }
+
+  /**
+   * Change a business's name, description or activation status
+   */
+  async updateBusiness(externalBusinessId: string, changes: Partial<DoorDashBusiness>): Promise<DoorDashBusiness> {
+    return this.send('patch', `${this.businessApiUrl}/businesses/${encodeURIComponent(externalBusinessId)}`, changes);
+  }
+
+  async getBusiness(externalBusinessId: string): Promise<DoorDashBusiness> {
+    return this.send('get', `${this.businessApiUrl}/businesses/${encodeURIComponent(externalBusinessId)}`);
+  }
+
+  /**
+   * All businesses of the developer account (follows continuation tokens)
+   */
+  async listBusinesses(): Promise<DoorDashBusiness[]> {
+    return this.listPages(`${this.businessApiUrl}/businesses`);
+  }
+
+  /**
+   * Create a store under a business
+   */
+  async createStore(externalBusinessId: string, store: DoorDashStore): Promise<DoorDashStore> {
+    return this.send('post', `${this.businessApiUrl}/businesses/${encodeURIComponent(externalBusinessId)}/stores`, store);
+  }
+
+  /**
+   * Change a store's name, phone number or address
+   */
+  async updateStore(externalBusinessId: string, externalStoreId: string, changes: Partial<DoorDashStore>): Promise<DoorDashStore> {
+    return this.send('patch', `${this.businessApiUrl}/businesses/${encodeURIComponent(externalBusinessId)}/stores/${encodeURIComponent(externalStoreId)}`, changes);
+  }
+
+  async getStore(externalBusinessId: string, externalStoreId: string): Promise<DoorDashStore> {
+    return this.send('get', `${this.businessApiUrl}/businesses/${encodeURIComponent(externalBusinessId)}/stores/${encodeURIComponent(externalStoreId)}`);
+  }
+
+  /**
+   * All stores of a business (follows continuation tokens)
+   */
+  async listStores(externalBusinessId: string): Promise<DoorDashStore[]> {
+    return this.listPages(`${this.businessApiUrl}/businesses/${encodeURIComponent(externalBusinessId)}/stores`);
+  }
+
+  // Business API list endpoints return { result, continuation_token } pages
+  private async listPages(url: string): Promise<any[]> {
+    const results: any[] = [];
+    let token: string | undefined;
+    do {
+      const data = await this.send('get', token ? `${url}?continuationToken=${encodeURIComponent(token)}` : url);
+      results.push(...(data.result || []));
+      token = data.continuation_token || undefined;
+    } while (token);
+    return results;
   }
 
   /**
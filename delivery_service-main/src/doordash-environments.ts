@@ -0,0 +1,106 @@
+import { isTestOrder } from './dispatch-rules';
+
+export type DoorDashEnvironment = 'sandbox' | 'production';
+
+export const DOORDASH_ENVIRONMENTS: DoorDashEnvironment[] = ['sandbox', 'production'];
+
+export interface DoorDashCredentials {
+  developerId: string;
+  keyId: string;
+  signingSecret: string;
+  merchantId?: string;
+  apiUrl?: string;
+}
+
+export interface DoorDashEnvironmentConfig {
+  deployment: string; // APP_ENV, else NODE_ENV, else "development"
+  productionDeployment: boolean; // deployment is "production"
+  defaultEnvironment: DoorDashEnvironment; // for orders that are not test orders
+  allowProductionDispatch: boolean; // DOORDASH_ALLOW_PRODUCTION_DISPATCH: production dispatch outside a production deployment
+  sandbox?: DoorDashCredentials;
+  production?: DoorDashCredentials;
+  // Environment of the unprefixed DOORDASH_* credentials; orders dispatched before environments were recorded used them
+  legacyEnvironment: DoorDashEnvironment;
+}
+
+function credentials(prefix: string): DoorDashCredentials | undefined {
+  const developerId = process.env[`${prefix}DEVELOPER_ID`];
+  const keyId = process.env[`${prefix}KEY_ID`];
+  const signingSecret = process.env[`${prefix}SIGNING_SECRET`];
+  if (!developerId || !keyId || !signingSecret) {
+    return undefined;
+  }
+  return {
+    developerId,
+    keyId,
+    signingSecret,
+    merchantId: process.env[`${prefix}MERCHANT_ID`],
+    apiUrl: process.env[`${prefix}API_URL`],
+  };
+}
+
+/**
+ * Build the DoorDash environment settings from environment variables.
+ * Sandbox credentials are DOORDASH_SANDBOX_*; DOORDASH_* are the production credentials, or the sandbox ones
+ * when DOORDASH_SANDBOX=true and no DOORDASH_SANDBOX_* credentials are set.
+ */
+export function loadDoorDashEnvironmentConfig(): DoorDashEnvironmentConfig {
+  const deployment = (process.env.APP_ENV || process.env.NODE_ENV || 'development').trim().toLowerCase();
+  const productionDeployment = deployment === 'production';
+  const legacySandbox = (process.env.DOORDASH_SANDBOX || '').toLowerCase() === 'true';
+  const unprefixed = credentials('DOORDASH_');
+  const sandbox = credentials('DOORDASH_SANDBOX_') || (legacySandbox ? unprefixed : undefined);
+  const production = legacySandbox ? undefined : unprefixed;
+
+  const configured = (process.env.DOORDASH_ENVIRONMENT || '').trim().toLowerCase();
+  if (configured && !DOORDASH_ENVIRONMENTS.includes(configured as DoorDashEnvironment)) {
+    throw new Error(`DOORDASH_ENVIRONMENT must be one of ${DOORDASH_ENVIRONMENTS.join(', ')} (got "${configured}")`);
+  }
+  const defaultEnvironment: DoorDashEnvironment = (configured as DoorDashEnvironment)
+    || (legacySandbox || !productionDeployment ? 'sandbox' : 'production');
+
+  return {
+    deployment,
+    productionDeployment,
+    defaultEnvironment,
+    allowProductionDispatch: (process.env.DOORDASH_ALLOW_PRODUCTION_DISPATCH || '').toLowerCase() === 'true',
+    sandbox,
+    production,
+    legacyEnvironment: legacySandbox ? 'sandbox' : 'production',
+  };
+}
+
+/**
+ * Why an order cannot be sent to DoorDash in an environment, or undefined when it can.
+ * hasCredentials: whether there are credentials for that environment (a store's own count as production).
+ */
+export function doorDashEnvironmentError(environment: DoorDashEnvironment, config: DoorDashEnvironmentConfig, hasCredentials: boolean): string | undefined {
+  if (environment === 'production' && !config.productionDeployment && !config.allowProductionDispatch) {
+    return `Production DoorDash dispatch is not allowed in a "${config.deployment}" deployment `
+      + '(set NODE_ENV=production, or DOORDASH_ALLOW_PRODUCTION_DISPATCH=true)';
+  }
+  if (!hasCredentials) {
+    return environment === 'sandbox'
+      ? 'No DoorDash sandbox credentials (DOORDASH_SANDBOX_DEVELOPER_ID, DOORDASH_SANDBOX_KEY_ID, DOORDASH_SANDBOX_SIGNING_SECRET)'
+      : 'No DoorDash production credentials';
+  }
+  return undefined;
+}
+
+/**
+ * Environment a new order goes to: GloriaFood test orders always go to the sandbox
+ */
+export function environmentForOrder(orderData: any, config: DoorDashEnvironmentConfig): DoorDashEnvironment {
+  return isTestOrder(orderData) ? 'sandbox' : config.defaultEnvironment;
+}
+
+/**
+ * Environment an order was sent to. Orders sent before it was recorded used the store's own credentials
+ * (production) or the unprefixed DOORDASH_* ones.
+ */
+export function recordedEnvironment(recorded: string | undefined, config: DoorDashEnvironmentConfig, storeCredentials: boolean): DoorDashEnvironment {
+  if (recorded === 'sandbox' || recorded === 'production') {
+    return recorded;
+  }
+  return storeCredentials ? 'production' : config.legacyEnvironment;
+}
@@ -0,0 +1,93 @@
+import { Store } from './database-factory';
+import { DoorDashClient, DoorDashBusiness, DoorDashStore } from './doordash-client';
+import { DoorDashApiError } from './doordash-retry';
+import { toE164 } from './phone';
+
+export interface ProvisionOptions {
+  external_business_id?: string; // default: the store's current link, then its store_id
+  business_name?: string; // default: the store's name
+  external_store_id?: string; // default: the store's current link, then its store_id
+  country?: string; // for a pickup phone without a country code (default: the store's country, then US)
+}
+
+export interface ProvisionResult {
+  business: DoorDashBusiness;
+  store: DoorDashStore;
+  business_created: boolean;
+  store_created: boolean;
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+function isNotFound(error: any): boolean {
+  return error instanceof DoorDashApiError && error.status === 404;
+}
+
+/**
+ * The business and store a store would be provisioned as on DoorDash, and what stops it
+ */
+export function provisioningPlan(store: Store, options: ProvisionOptions = {}): { business: DoorDashBusiness; store: DoorDashStore; errors: string[] } {
+  const businessId = (options.external_business_id || store.doordash_business_id || store.store_id).trim();
+  const storeId = (options.external_store_id || store.doordash_store_id || store.store_id).trim();
+  const phone = toE164(store.pickup_phone, options.country || store.country || 'US');
+
+  const errors: string[] = [];
+  if (!ID_PATTERN.test(businessId)) {
+    errors.push(`external_business_id "${businessId}" may only contain letters, digits, ".", "-" and "_"`);
+  }
+  if (!ID_PATTERN.test(storeId)) {
+    errors.push(`external_store_id "${storeId}" may only contain letters, digits, ".", "-" and "_"`);
+  }
+  if (!store.pickup_address) {
+    errors.push('Store has no pickup_address');
+  }
+  if (!store.pickup_phone) {
+    errors.push('Store has no pickup_phone');
+  } else if (!phone) {
+    errors.push(`Store pickup_phone "${store.pickup_phone}" is not a valid phone number`);
+  }
+
+  return {
+    business: { external_business_id: businessId, name: options.business_name || store.name, activation_status: 'active' },
+    store: { external_store_id: storeId, name: store.name, phone_number: phone, address: store.pickup_address },
+    errors,
+  };
+}
+
+/**
+ * Create the store's business and store on DoorDash, or bring existing ones up to date with the store's name,
+ * pickup address and phone. Safe to run again. Throws DoorDashApiError, or Error when the store is not ready.
+ */
+export async function provisionStore(client: DoorDashClient, store: Store, options: ProvisionOptions = {}): Promise<ProvisionResult> {
+  const plan = provisioningPlan(store, options);
+  if (plan.errors.length > 0) {
+    throw new Error(`Cannot provision store ${store.store_id} on DoorDash: ${plan.errors.join('; ')}`);
+  }
+  const businessId = plan.business.external_business_id;
+  const storeId = plan.store.external_store_id;
+
+  let business: DoorDashBusiness;
+  let businessCreated = false;
+  try {
+    await client.getBusiness(businessId);
+    business = { ...plan.business, ...await client.updateBusiness(businessId, { name: plan.business.name }) };
+  } catch (error: any) {
+    if (!isNotFound(error)) throw error;
+    business = { ...plan.business, ...await client.createBusiness(plan.business) };
+    businessCreated = true;
+  }
+
+  let doorDashStore: DoorDashStore;
+  let storeCreated = false;
+  try {
+    await client.getStore(businessId, storeId);
+    const { external_store_id, ...changes } = plan.store;
+    doorDashStore = { ...plan.store, ...await client.updateStore(businessId, storeId, changes) };
+  } catch (error: any) {
+    if (!isNotFound(error)) throw error;
+    doorDashStore = { ...plan.store, ...await client.createStore(businessId, plan.store) };
+    storeCreated = true;
+  }
+
+  return { business, store: doorDashStore, business_created: businessCreated, store_created: storeCreated };
+}
@@ -0,0 +1,164 @@
+export interface DoorDashRetryConfig {
+  maxAttempts: number; // attempts per API call, including the first
+  baseDelayMs: number; // delay before the first retry; doubles with every retry (plus jitter)
+  maxDelayMs: number; // longer waits (e.g. a long Retry-After) are left to the dispatch queue
+  circuitThreshold: number; // consecutive transient failures that open the circuit (0 disables it)
+  circuitCooldownMs: number; // how long the circuit stays open before a trial call is let through
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at?: string;
+  retry_at?: string; // when a trial call will be let through
+}
+
+/**
+ * Build the DoorDash retry and circuit breaker settings from environment variables
+ */
+export function loadDoorDashRetryConfig(): DoorDashRetryConfig {
+  const int = (raw: string | undefined, fallback: number) => {
+    const value = parseInt((raw || '').trim(), 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    maxAttempts: Math.max(1, int(process.env.DOORDASH_RETRY_ATTEMPTS, 3)),
+    baseDelayMs: int(process.env.DOORDASH_RETRY_BASE_MS, 500),
+    maxDelayMs: int(process.env.DOORDASH_RETRY_MAX_MS, 8000),
+    circuitThreshold: int(process.env.DOORDASH_CIRCUIT_THRESHOLD, 5),
+    circuitCooldownMs: int(process.env.DOORDASH_CIRCUIT_COOLDOWN_MS, 60000),
+  };
+}
+
+/**
+ * Error from a DoorDash API call. The message keeps the "DoorDash API Error: <status> - <body>" format.
+ * transient: worth retrying (network error, timeout, 408/425/429, 5xx); anything else is permanent.
+ */
+export class DoorDashApiError extends Error {
+  status?: number;
+  data?: any;
+  transient: boolean;
+  retryAfterMs?: number; // from Retry-After, or the remaining cooldown when the circuit is open
+
+  constructor(message: string, options: { status?: number; data?: any; transient: boolean; retryAfterMs?: number }) {
+    super(message);
+    this.name = 'DoorDashApiError';
+    this.status = options.status;
+    this.data = options.data;
+    this.transient = options.transient;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds from now
+ */
+export function parseRetryAfter(header: any, now: number = Date.now()): number | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const at = Date.parse(String(value));
+  return Number.isFinite(at) ? Math.max(0, at - now) : undefined;
+}
+
+/**
+ * Turn an axios error into a DoorDashApiError
+ */
+export function toDoorDashApiError(error: any): DoorDashApiError {
+  if (error instanceof DoorDashApiError) {
+    return error;
+  }
+  if (error?.response) {
+    const status = error.response.status;
+    return new DoorDashApiError(`DoorDash API Error: ${status} - ${JSON.stringify(error.response.data)}`, {
+      status,
+      data: error.response.data,
+      transient: isTransientStatus(status),
+      retryAfterMs: parseRetryAfter(error.response.headers?.['retry-after']),
+    });
+  }
+  // No response: network error or timeout
+  return new DoorDashApiError(`DoorDash API Error: ${error?.message || 'Unknown error'}`, { transient: true });
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, the other half random
+ */
+export function backoffWithJitter(retry: number, baseDelayMs: number, maxDelayMs: number = Infinity): number {
+  const delay = Math.min(baseDelayMs * Math.pow(2, retry), maxDelayMs);
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Circuit breaker for one set of DoorDash credentials. Opens after circuitThreshold consecutive transient
+ * failures and fails calls fast until the cooldown has passed; then one trial call decides whether it closes again.
+ */
+export class CircuitBreaker {
+  private threshold: number;
+  private cooldownMs: number;
+  private failures: number = 0;
+  private openedAt?: number;
+  private trialInFlight: boolean = false;
+
+  constructor(threshold: number, cooldownMs: number) {
+    this.threshold = threshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half_open' : 'open';
+  }
+
+  /**
+   * Throw if the circuit does not let a call through right now
+   */
+  beforeCall(): void {
+    const state = this.state;
+    if (state === 'closed') return;
+    if (state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    const retryAfterMs = Math.max(1000, (this.openedAt || 0) + this.cooldownMs - Date.now());
+    throw new DoorDashApiError(`DoorDash API Error: circuit open after ${this.failures} consecutive failures`, {
+      transient: true,
+      retryAfterMs,
+    });
+  }
+
+  onSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  onFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.threshold > 0 && (this.openedAt !== undefined || this.failures >= this.threshold)) {
+      // (Re)open: the threshold was reached, or the half-open trial call failed
+      this.openedAt = Date.now();
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutive_failures: this.failures,
+      opened_at: this.openedAt !== undefined ? new Date(this.openedAt).toISOString() : undefined,
+      retry_at: this.openedAt !== undefined ? new Date(this.openedAt + this.cooldownMs).toISOString() : undefined,
+    };
+  }
+}
@@ -0,0 +1,597 @@
+import express, { Request, Response, NextFunction } from 'express';
+import axios from 'axios';
+import chalk from 'chalk';
+import crypto from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+// Base path of the Drive v2 API; DOORDASH_API_URL points at <simulator>/drive/v2
+export const DRIVE_API_PATH = '/drive/v2';
+export const BUSINESS_API_PATH = '/developer/v1';
+
+export interface DoorDashSimulatorConfig {
+  port: number; // 0 picks a free port (for embedding)
+  signingSecret: string; // DOORDASH_SIGNING_SECRET: tokens must be signed with it
+  developerId?: string; // when set, the token's iss must match
+  keyId?: string; // when set, the token's kid must match
+  webhookUrl?: string; // where DoorDash-style webhooks are sent (none when empty)
+  webhookAuth?: string; // Authorization header sent with webhooks (DOORDASH_WEBHOOK_AUTH)
+  stepMs: number; // time between Dasher lifecycle steps
+  feeCents: number; // fee of every quote and delivery
+  quiet?: boolean; // no logging
+}
+
+export interface SimulatedDelivery {
+  external_delivery_id: string;
+  support_reference: string;
+  delivery_status: string;
+  fee: number;
+  currency: string;
+  pickup_address: string;
+  pickup_phone_number?: string;
+  pickup_business_name?: string;
+  pickup_external_business_id?: string;
+  pickup_external_store_id?: string;
+  pickup_reference_tag?: string;
+  pickup_instructions?: string;
+  dropoff_address: string;
+  dropoff_phone_number: string;
+  dropoff_contact_given_name?: string;
+  dropoff_contact_family_name?: string;
+  dropoff_instructions?: string;
+  contactless_dropoff?: boolean;
+  order_value?: number;
+  tip?: number;
+  items?: any[];
+  order_contains?: any;
+  pickup_time?: string;
+  dropoff_time?: string;
+  pickup_time_estimated: string;
+  dropoff_time_estimated: string;
+  dasher_name?: string;
+  dasher_dropoff_phone_number?: string;
+  tracking_url: string;
+  cancellation_reason?: string;
+  cancellation_fee?: number; // charged once a Dasher is on the way to pickup
+  created_at: string;
+  updated_at: string;
+}
+
+// Dasher lifecycle after DELIVERY_CREATED: [status, webhook event], one step every stepMs
+const LIFECYCLE: [string, string][] = [
+  ['confirmed', 'DASHER_CONFIRMED'],
+  ['enroute_to_pickup', 'DASHER_ENROUTE_TO_PICKUP'],
+  ['arrived_at_pickup', 'DASHER_CONFIRMED_PICKUP_ARRIVAL'],
+  ['picked_up', 'DASHER_PICKED_UP'],
+  ['enroute_to_dropoff', 'DASHER_ENROUTE_TO_DROPOFF'],
+  ['arrived_at_dropoff', 'DASHER_CONFIRMED_DROPOFF_ARRIVAL'],
+  ['delivered', 'DASHER_DROPPED_OFF'],
+];
+
+// Statuses in which cancelling costs the delivery fee: a Dasher is already on the way
+const CANCELLATION_FEE_STATUSES = ['enroute_to_pickup', 'arrived_at_pickup'];
+
+// Statuses after which a delivery can no longer be changed or cancelled
+const LOCKED_STATUSES = ['picked_up', 'enroute_to_dropoff', 'arrived_at_dropoff', 'delivered', 'cancelled'];
+
+// pickup_address may instead come from a provisioned store (pickup_external_business_id/pickup_external_store_id)
+const REQUIRED_FIELDS = ['external_delivery_id', 'pickup_address', 'dropoff_address', 'dropoff_phone_number'];
+
+const UPDATABLE_FIELDS = [
+  'dropoff_address',
+  'dropoff_phone_number',
+  'dropoff_contact_given_name',
+  'dropoff_contact_family_name',
+  'dropoff_instructions',
+  'tip',
+];
+
+function decodeBase64Url(value: string): Buffer {
+  const normalized = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Buffer.from(normalized + '='.repeat((4 - normalized.length % 4) % 4), 'base64');
+}
+
+/**
+ * Check a DoorDash JWT (Authorization: Bearer ...) the way Drive does: HS256 signature with the
+ * base64url-decoded signing secret, aud "doordash", not expired, and the configured developer and key IDs.
+ * Returns why the token is refused, or null when it is valid.
+ */
+export function verifyDoorDashJwt(header: string | undefined, config: Pick<DoorDashSimulatorConfig, 'signingSecret' | 'developerId' | 'keyId'>, now: number = Date.now()): string | null {
+  const token = (header || '').replace(/^Bearer\s+/i, '').trim();
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return 'Missing or malformed bearer token';
+  }
+  const [encodedHeader, encodedPayload, signature] = parts;
+  const expected = crypto.createHmac('sha256', decodeBase64Url(config.signingSecret))
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest();
+  const provided = decodeBase64Url(signature);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return 'Invalid token signature';
+  }
+
+  let jwtHeader: any;
+  let payload: any;
+  try {
+    jwtHeader = JSON.parse(decodeBase64Url(encodedHeader).toString('utf8'));
+    payload = JSON.parse(decodeBase64Url(encodedPayload).toString('utf8'));
+  } catch {
+    return 'Token is not valid JSON';
+  }
+  if (jwtHeader.alg !== 'HS256' || jwtHeader['dd-ver'] !== 'DD-JWT-V1') {
+    return 'Token must use HS256 and dd-ver DD-JWT-V1';
+  }
+  if (payload.aud !== 'doordash') {
+    return 'Token audience must be "doordash"';
+  }
+  if (typeof payload.exp !== 'number' || payload.exp * 1000 < now) {
+    return 'Token expired';
+  }
+  if (config.developerId && payload.iss !== config.developerId) {
+    return 'Unknown developer ID';
+  }
+  if (config.keyId && payload.kid !== config.keyId) {
+    return 'Unknown key ID';
+  }
+  return null;
+}
+
+/**
+ * Build the simulator settings from environment variables (the same DOORDASH_* values the server uses)
+ */
+export function loadDoorDashSimulatorConfig(): DoorDashSimulatorConfig {
+  const serverPort = process.env.PORT || '3000';
+  const webhookPath = process.env.DOORDASH_WEBHOOK_PATH || '/doordash/webhook';
+  return {
+    port: parseInt(process.env.FAKE_DOORDASH_PORT || '3200', 10),
+    // The simulator stands in for the sandbox: its credentials win over the unprefixed ones
+    signingSecret: process.env.DOORDASH_SANDBOX_SIGNING_SECRET || process.env.DOORDASH_SIGNING_SECRET || '',
+    developerId: process.env.DOORDASH_SANDBOX_DEVELOPER_ID || process.env.DOORDASH_DEVELOPER_ID,
+    keyId: process.env.DOORDASH_SANDBOX_KEY_ID || process.env.DOORDASH_KEY_ID,
+    webhookUrl: process.env.FAKE_DOORDASH_WEBHOOK_URL ?? `http://localhost:${serverPort}${webhookPath}`,
+    webhookAuth: process.env.DOORDASH_WEBHOOK_AUTH,
+    stepMs: parseInt(process.env.FAKE_DOORDASH_STEP_MS || '10000', 10),
+    feeCents: parseInt(process.env.FAKE_DOORDASH_FEE_CENTS || '975', 10),
+  };
+}
+
+/**
+ * Local stand-in for the DoorDash Drive v2 API: quotes, deliveries, status, updates and cancellation, with
+ * JWT checks, a timed Dasher lifecycle and webhooks back to the server, plus the Business API's businesses
+ * and stores. Everything is kept in memory.
+ * Run it with `npm run fake-doordash`, or embed it (port 0) and use the URL start() resolves to.
+ */
+export class DoorDashSimulator {
+  private config: DoorDashSimulatorConfig;
+  private server?: Server;
+  private baseUrl: string = '';
+  private deliveriesById = new Map<string, SimulatedDelivery>();
+  private quotes = new Map<string, { request: any; fee: number; expiresAt: number }>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private businesses = new Map<string, any>();
+  private stores = new Map<string, any>(); // by "<business id>/<store id>"
+  private nextReference = 100000;
+  private dispatchRequests = new Map<string, number>(); // quote and create calls by external delivery ID, duplicates included
+
+  constructor(config: DoorDashSimulatorConfig) {
+    if (!config.signingSecret) {
+      throw new Error('DoorDash simulator needs a signing secret (DOORDASH_SIGNING_SECRET)');
+    }
+    this.config = config;
+  }
+
+  private log(message: string): void {
+    if (!this.config.quiet) {
+      console.log(message);
+    }
+  }
+
+  /**
+   * Start listening. Resolves to the API base URL to use as DOORDASH_API_URL.
+   */
+  start(): Promise<string> {
+    const app = this.createApp();
+    return new Promise((resolve, reject) => {
+      const server = app.listen(this.config.port, () => {
+        const port = (server.address() as AddressInfo).port;
+        this.baseUrl = `http://localhost:${port}`;
+        resolve(`${this.baseUrl}${DRIVE_API_PATH}`);
+      });
+      server.on('error', reject);
+      this.server = server;
+    });
+  }
+
+  /**
+   * Stop the lifecycle timers and the HTTP server
+   */
+  async stop(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  deliveries(): SimulatedDelivery[] {
+    return Array.from(this.deliveriesById.values());
+  }
+
+  /**
+   * A delivery by external delivery ID or support reference
+   */
+  getDelivery(id: string): SimulatedDelivery | undefined {
+    return this.deliveriesById.get(id) || this.deliveries().find(delivery => delivery.support_reference === id);
+  }
+
+  /**
+   * How many times a delivery was requested (a quote, or a create without one), including refused duplicates
+   */
+  dispatchRequestCount(id: string): number {
+    return this.dispatchRequests.get(id) || 0;
+  }
+
+  private countDispatchRequest(id: string): void {
+    this.dispatchRequests.set(id, this.dispatchRequestCount(id) + 1);
+  }
+
+  /**
+   * Move a delivery to its next lifecycle step now. Returns false when it has no further step.
+   */
+  async advance(id: string): Promise<boolean> {
+    const delivery = this.getDelivery(id);
+    const index = delivery ? LIFECYCLE.findIndex(([status]) => status === delivery.delivery_status) + 1 : -1;
+    if (!delivery || delivery.delivery_status === 'cancelled' || index >= LIFECYCLE.length) {
+      return false;
+    }
+    const [status, eventName] = LIFECYCLE[index];
+    delivery.delivery_status = status;
+    delivery.updated_at = new Date().toISOString();
+    if (status === 'confirmed') {
+      delivery.dasher_name = 'Alex D.';
+      delivery.dasher_dropoff_phone_number = '+15555550199';
+    }
+    this.log(chalk.cyan(`🚗 ${delivery.external_delivery_id}: ${status}`));
+    this.scheduleNextStep(delivery, this.config.stepMs);
+    await this.sendWebhook(delivery, eventName);
+    return true;
+  }
+
+  private scheduleNextStep(delivery: SimulatedDelivery, delayMs: number): void {
+    const id = delivery.external_delivery_id;
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    if (delivery.delivery_status === 'delivered' || delivery.delivery_status === 'cancelled' || !this.server) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.timers.delete(id);
+      this.advance(id);
+    }, delayMs);
+    this.timers.set(id, timer);
+  }
+
+  private async sendWebhook(delivery: SimulatedDelivery, eventName: string): Promise<void> {
+    if (!this.config.webhookUrl) {
+      return;
+    }
+    const body = {
+      event_name: eventName,
+      created_at: new Date().toISOString(),
+      ...this.toResponse(delivery),
+    };
+    try {
+      await axios.post(this.config.webhookUrl, body, {
+        headers: this.config.webhookAuth ? { Authorization: this.config.webhookAuth } : {},
+        timeout: 10000,
+      });
+      this.log(chalk.gray(`   📨 ${eventName} webhook delivered`));
+    } catch (error: any) {
+      this.log(chalk.yellow(`   ⚠️  ${eventName} webhook to ${this.config.webhookUrl} failed: ${error.response?.status || error.message}`));
+    }
+  }
+
+  private toResponse(delivery: SimulatedDelivery): any {
+    return { ...delivery };
+  }
+
+  private estimates(request: any): { pickup: string; dropoff: string; startDelayMs: number } {
+    const now = Date.now();
+    const steps = LIFECYCLE.length;
+    // A scheduled delivery starts moving so that it arrives at the requested time
+    const requested = Date.parse(request.dropoff_time || request.pickup_time || '');
+    const target = Number.isFinite(requested) ? requested : NaN;
+    const startDelayMs = Number.isFinite(target)
+      ? Math.max(0, target - now - (request.dropoff_time ? steps : 4) * this.config.stepMs)
+      : 0;
+    return {
+      pickup: new Date(now + startDelayMs + 4 * this.config.stepMs).toISOString(),
+      dropoff: new Date(now + startDelayMs + (steps + 1) * this.config.stepMs).toISOString(),
+      startDelayMs,
+    };
+  }
+
+  // The provisioned store a request refers to, if any
+  private pickupStore(request: any): any {
+    if (!request?.pickup_external_business_id || !request?.pickup_external_store_id) {
+      return undefined;
+    }
+    return this.stores.get(`${request.pickup_external_business_id}/${request.pickup_external_store_id}`);
+  }
+
+  private createDelivery(request: any, fee: number): SimulatedDelivery {
+    const now = new Date().toISOString();
+    const store = this.pickupStore(request);
+    const estimates = this.estimates(request);
+    const delivery: SimulatedDelivery = {
+      external_delivery_id: String(request.external_delivery_id),
+      support_reference: String(this.nextReference++),
+      delivery_status: 'created',
+      fee,
+      currency: 'USD',
+      pickup_address: request.pickup_address || store?.address,
+      pickup_phone_number: request.pickup_phone_number || store?.phone_number,
+      pickup_business_name: request.pickup_business_name || store?.name,
+      pickup_external_business_id: request.pickup_external_business_id,
+      pickup_external_store_id: request.pickup_external_store_id,
+      pickup_reference_tag: request.pickup_reference_tag,
+      pickup_instructions: request.pickup_instructions,
+      dropoff_address: request.dropoff_address,
+      dropoff_phone_number: request.dropoff_phone_number,
+      dropoff_contact_given_name: request.dropoff_contact_given_name,
+      dropoff_contact_family_name: request.dropoff_contact_family_name,
+      dropoff_instructions: request.dropoff_instructions,
+      contactless_dropoff: request.contactless_dropoff,
+      order_value: request.order_value,
+      tip: request.tip,
+      items: request.items,
+      order_contains: request.order_contains,
+      pickup_time: request.pickup_time,
+      dropoff_time: request.dropoff_time,
+      pickup_time_estimated: estimates.pickup,
+      dropoff_time_estimated: estimates.dropoff,
+      tracking_url: `${this.baseUrl}/track/${encodeURIComponent(request.external_delivery_id)}`,
+      created_at: now,
+      updated_at: now,
+    };
+    this.deliveriesById.set(delivery.external_delivery_id, delivery);
+    this.log(chalk.green(`🆕 Delivery ${delivery.external_delivery_id} created (fee ${fee}, to ${delivery.dropoff_address})`));
+    this.scheduleNextStep(delivery, estimates.startDelayMs + this.config.stepMs);
+    this.sendWebhook(delivery, 'DELIVERY_CREATED');
+    return delivery;
+  }
+
+  // Drive-style 400 for a request missing required fields, or null
+  private validationError(request: any): any {
+    const fieldErrors = REQUIRED_FIELDS
+      .filter(field => request?.[field] === undefined || request?.[field] === null || request?.[field] === '')
+      .filter(field => field !== 'pickup_address' || !this.pickupStore(request))
+      .map(field => ({ field, error: `${field} is required` }));
+    if (request?.contactless_dropoff && request?.order_contains?.alcohol) {
+      fieldErrors.push({ field: 'contactless_dropoff', error: 'Deliveries with alcohol cannot be contactless' });
+    }
+    if (request?.pickup_external_store_id && !this.pickupStore(request)) {
+      fieldErrors.push({ field: 'pickup_external_store_id', error: 'Store not found for this business' });
+    }
+    if (fieldErrors.length === 0) {
+      return null;
+    }
+    return { code: 'validation_error', message: 'Validation Failed', field_errors: fieldErrors };
+  }
+
+  // Business API: businesses and their stores, which deliveries can use as pickup location
+  private businessApi(): express.Router {
+    const api = express.Router();
+    const notFound = (res: Response, what: string) => res.status(404).json({ code: 'not_found', message: `${what} not found` });
+    const now = () => new Date().toISOString();
+
+    api.get('/businesses', (req: Request, res: Response) => {
+      const result = Array.from(this.businesses.values());
+      res.json({ result, result_count: result.length, continuation_token: null });
+    });
+    api.post('/businesses', (req: Request, res: Response) => {
+      const id = req.body?.external_business_id;
+      if (!id || !req.body?.name) {
+        return res.status(400).json({ code: 'validation_error', message: 'external_business_id and name are required' });
+      }
+      if (this.businesses.has(id)) {
+        return res.status(409).json({ code: 'duplicate_business', message: `Business ${id} already exists` });
+      }
+      const business = { activation_status: 'active', ...req.body, is_test: true, created_at: now(), last_updated_at: now() };
+      this.businesses.set(id, business);
+      this.log(chalk.green(`🏢 Business ${id} created`));
+      res.json(business);
+    });
+    api.get('/businesses/:businessId', (req: Request, res: Response) => {
+      const business = this.businesses.get(req.params.businessId);
+      return business ? res.json(business) : notFound(res, 'Business');
+    });
+    api.patch('/businesses/:businessId', (req: Request, res: Response) => {
+      const business = this.businesses.get(req.params.businessId);
+      if (!business) return notFound(res, 'Business');
+      Object.assign(business, req.body, { external_business_id: business.external_business_id, last_updated_at: now() });
+      res.json(business);
+    });
+
+    api.get('/businesses/:businessId/stores', (req: Request, res: Response) => {
+      if (!this.businesses.has(req.params.businessId)) return notFound(res, 'Business');
+      const result = Array.from(this.stores.values()).filter(store => store.external_business_id === req.params.businessId);
+      res.json({ result, result_count: result.length, continuation_token: null });
+    });
+    api.post('/businesses/:businessId/stores', (req: Request, res: Response) => {
+      const businessId = req.params.businessId;
+      if (!this.businesses.has(businessId)) return notFound(res, 'Business');
+      const id = req.body?.external_store_id;
+      if (!id || !req.body?.name || !req.body?.address || !req.body?.phone_number) {
+        return res.status(400).json({ code: 'validation_error', message: 'external_store_id, name, address and phone_number are required' });
+      }
+      if (this.stores.has(`${businessId}/${id}`)) {
+        return res.status(409).json({ code: 'duplicate_store', message: `Store ${id} already exists` });
+      }
+      const store = { ...req.body, external_business_id: businessId, status: 'active', is_test: true, created_at: now(), last_updated_at: now() };
+      this.stores.set(`${businessId}/${id}`, store);
+      this.log(chalk.green(`🏪 Store ${businessId}/${id} created (${store.address})`));
+      res.json(store);
+    });
+    api.get('/businesses/:businessId/stores/:storeId', (req: Request, res: Response) => {
+      const store = this.stores.get(`${req.params.businessId}/${req.params.storeId}`);
+      return store ? res.json(store) : notFound(res, 'Store');
+    });
+    api.patch('/businesses/:businessId/stores/:storeId', (req: Request, res: Response) => {
+      const store = this.stores.get(`${req.params.businessId}/${req.params.storeId}`);
+      if (!store) return notFound(res, 'Store');
+      Object.assign(store, req.body, { external_store_id: store.external_store_id, external_business_id: store.external_business_id, last_updated_at: now() });
+      res.json(store);
+    });
+    return api;
+  }
+
+  private createApp(): express.Application {
+    const app = express();
+    app.use(express.json());
+
+    // Every Drive call needs a valid JWT
+    const authenticate = (req: Request, res: Response, next: NextFunction) => {
+      const reason = verifyDoorDashJwt(req.headers['authorization'], this.config);
+      if (reason) {
+        this.log(chalk.red(`❌ ${req.method} ${req.path} rejected: ${reason}`));
+        return res.status(401).json({ code: 'authentication_error', message: reason });
+      }
+      next();
+    };
+    const api = express.Router();
+    api.use(authenticate);
+
+    api.post('/quotes', (req: Request, res: Response) => {
+      const error = this.validationError(req.body);
+      if (error) {
+        return res.status(400).json(error);
+      }
+      const id = String(req.body.external_delivery_id);
+      this.countDispatchRequest(id);
+      if (this.deliveriesById.has(id)) {
+        return res.status(409).json({ code: 'duplicate_delivery_id', message: `Delivery ${id} already exists` });
+      }
+      const expiresAt = Date.now() + 5 * 60000;
+      this.quotes.set(id, { request: req.body, fee: this.config.feeCents, expiresAt });
+      const estimates = this.estimates(req.body);
+      this.log(chalk.blue(`💬 Quote for ${id}: ${this.config.feeCents} cents`));
+      res.json({
+        external_delivery_id: id,
+        delivery_status: 'quote',
+        fee: this.config.feeCents,
+        currency: 'USD',
+        pickup_time_estimated: estimates.pickup,
+        dropoff_time_estimated: estimates.dropoff,
+        expires_at: new Date(expiresAt).toISOString(),
+      });
+    });
+
+    api.post('/quotes/:id/accept', (req: Request, res: Response) => {
+      const id = req.params.id;
+      const quote = this.quotes.get(id);
+      if (this.deliveriesById.has(id)) {
+        return res.status(409).json({ code: 'duplicate_delivery_id', message: `Delivery ${id} already exists` });
+      }
+      if (!quote) {
+        return res.status(404).json({ code: 'not_found', message: `No quote for ${id}` });
+      }
+      if (quote.expiresAt < Date.now()) {
+        return res.status(400).json({ code: 'quote_expired', message: 'Quote has expired' });
+      }
+      this.quotes.delete(id);
+      const request = { ...quote.request };
+      if (req.body?.tip !== undefined) request.tip = req.body.tip;
+      if (req.body?.dropoff_phone_number) request.dropoff_phone_number = req.body.dropoff_phone_number;
+      res.json(this.toResponse(this.createDelivery(request, quote.fee)));
+    });
+
+    api.post('/deliveries', (req: Request, res: Response) => {
+      const error = this.validationError(req.body);
+      if (error) {
+        return res.status(400).json(error);
+      }
+      this.countDispatchRequest(String(req.body.external_delivery_id));
+      if (this.deliveriesById.has(String(req.body.external_delivery_id))) {
+        return res.status(409).json({ code: 'duplicate_delivery_id', message: `Delivery ${req.body.external_delivery_id} already exists` });
+      }
+      res.json(this.toResponse(this.createDelivery(req.body, this.config.feeCents)));
+    });
+
+    const getDelivery = (req: Request, res: Response) => {
+      const delivery = this.getDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ code: 'not_found', message: `Delivery ${req.params.id} not found` });
+      }
+      res.json(this.toResponse(delivery));
+    };
+    api.get('/deliveries/:id', getDelivery);
+    api.get('/deliveries/external_delivery_id/:id', getDelivery);
+
+    api.patch('/deliveries/:id', (req: Request, res: Response) => {
+      const delivery = this.getDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ code: 'not_found', message: `Delivery ${req.params.id} not found` });
+      }
+      if (LOCKED_STATUSES.includes(delivery.delivery_status)) {
+        return res.status(400).json({ code: 'delivery_update_not_allowed', message: `Delivery is ${delivery.delivery_status}` });
+      }
+      for (const field of UPDATABLE_FIELDS) {
+        if (req.body && field in req.body) {
+          (delivery as any)[field] = req.body[field] === '' ? undefined : req.body[field];
+        }
+      }
+      delivery.updated_at = new Date().toISOString();
+      this.log(chalk.blue(`✏️  Delivery ${delivery.external_delivery_id} updated (${Object.keys(req.body || {}).join(', ')})`));
+      res.json(this.toResponse(delivery));
+    });
+
+    api.put('/deliveries/:id/cancel', (req: Request, res: Response) => {
+      const delivery = this.getDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ code: 'not_found', message: `Delivery ${req.params.id} not found` });
+      }
+      if (LOCKED_STATUSES.includes(delivery.delivery_status)) {
+        return res.status(400).json({ code: 'cannot_be_cancelled', message: `Delivery is ${delivery.delivery_status}` });
+      }
+      delivery.cancellation_fee = CANCELLATION_FEE_STATUSES.includes(delivery.delivery_status) ? delivery.fee : 0;
+      delivery.delivery_status = 'cancelled';
+      delivery.cancellation_reason = 'cancelled_by_creator';
+      delivery.updated_at = new Date().toISOString();
+      this.scheduleNextStep(delivery, 0);
+      this.log(chalk.yellow(`🚫 Delivery ${delivery.external_delivery_id} cancelled`));
+      this.sendWebhook(delivery, 'DELIVERY_CANCELLED');
+      res.json(this.toResponse(delivery));
+    });
+
+    app.use(DRIVE_API_PATH, api);
+    app.use(BUSINESS_API_PATH, authenticate, this.businessApi());
+
+    // Tracking page stand-in
+    app.get('/track/:id', (req: Request, res: Response) => {
+      const delivery = this.getDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).send('Delivery not found');
+      }
+      res.type('text/plain').send(`Delivery ${delivery.external_delivery_id}: ${delivery.delivery_status}`);
+    });
+
+    // Test helpers (no JWT): inspect deliveries and skip ahead in the lifecycle
+    app.get('/fake/deliveries', (req: Request, res: Response) => {
+      res.json({ count: this.deliveriesById.size, deliveries: this.deliveries() });
+    });
+    app.post('/fake/deliveries/:id/advance', async (req: Request, res: Response) => {
+      const advanced = await this.advance(req.params.id);
+      const delivery = this.getDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: 'Delivery not found' });
+      }
+      res.json({ success: advanced, delivery: this.toResponse(delivery) });
+    });
+
+    return app;
+  }
+}
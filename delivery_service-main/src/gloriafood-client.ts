@@ -1,12 +1,17 @@
 import axios, { AxiosInstance } from 'axios';
 
 export interface GloriaFoodConfig {
-  apiKey: string;
+  apiKey: string; // restaurant key (sent as-is in the Authorization header)
   storeId: string;
   apiUrl?: string;
-  masterKey?: string;
+  protocolVersion?: string; // 'v2' or '2'
 }
 
+// GloriaFood "Accept Orders" poll API
+export const GLORIAFOOD_POLL_URL = 'https://pos.globalfoodsoft.com';
+export const GLORIAFOOD_POLL_PATH = '/pos/order/pop';
+export const GLORIAFOOD_MENU_PATH = '/pos/menu';
+
 export interface GloriaFoodOrder {
   id: string;
   store_id?: string;
@@ -47,25 +52,91 @@ export interface GloriaFoodOrder {
   [key: string]: any;
 }
 
+export interface GloriaFoodMenuOption {
+  id: number | string;
+  name: string;
+  price?: number;
+  default?: boolean;
+  [key: string]: any;
+}
+
+export interface GloriaFoodMenuGroup {
+  id: number | string;
+  name: string;
+  required?: boolean;
+  force_min?: number;
+  force_max?: number;
+  options?: GloriaFoodMenuOption[];
+  [key: string]: any;
+}
+
+export interface GloriaFoodMenuSize {
+  id: number | string;
+  name: string;
+  price?: number;
+  default?: boolean;
+  groups?: GloriaFoodMenuGroup[];
+  [key: string]: any;
+}
+
+export interface GloriaFoodMenuItem {
+  id: number | string;
+  name: string;
+  description?: string;
+  price?: number;
+  active?: boolean;
+  sizes?: GloriaFoodMenuSize[];
+  groups?: GloriaFoodMenuGroup[];
+  [key: string]: any;
+}
+
+export interface GloriaFoodMenuCategory {
+  id: number | string;
+  name: string;
+  description?: string;
+  active?: boolean;
+  items?: GloriaFoodMenuItem[];
+  groups?: GloriaFoodMenuGroup[];
+  [key: string]: any;
+}
+
+export interface GloriaFoodMenu {
+  id?: number | string;
+  restaurant_id?: number | string;
+  currency?: string;
+  categories: GloriaFoodMenuCategory[];
+  [key: string]: any;
+}
+
+export interface GloriaFoodPollResponse {
+  count: number;
+  orders: GloriaFoodOrder[];
+}
+
+/**
+ * Normalize a protocol version ('v2', 'V2', '2') to the value of the Glf-Api-Version header
+ */
+export function normalizeProtocolVersion(version?: string): string {
+  const match = (version || '').trim().match(/^v?(\d+)$/i);
+  return match ? match[1] : '2';
+}
+
 export class GloriaFoodClient {
   private axiosInstance: AxiosInstance;
   private config: GloriaFoodConfig;
 
   constructor(config: GloriaFoodConfig) {
     this.config = config;
-    // GloriaFood API is often on the restaurant's own domain or a custom webhook URL
-    // Default URL may not be correct - user should provide their actual API URL from GloriaFood dashboard
-    const baseURL = config.apiUrl || 'https://api.gloriafood.com';
+    // Point GLORIAFOOD_API_URL at a local fake server to test polling without a real restaurant
+    const baseURL = config.apiUrl || GLORIAFOOD_POLL_URL;
 
     this.axiosInstance = axios.create({
       baseURL,
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.apiKey}`,
-        ...(config.masterKey && { 'X-Master-Key': config.masterKey }),
-        ...(config.masterKey && { 'Master-Key': config.masterKey }),
-        ...(config.apiKey && { 'X-API-Key': config.apiKey }),
-        ...(config.storeId && { 'X-Restaurant-ID': config.storeId }),
+        'Accept': 'application/json',
+        'Authorization': config.apiKey,
+        'Glf-Api-Version': normalizeProtocolVersion(config.protocolVersion),
       },
       timeout: 30000,
     });
@@ -76,15 +147,14 @@ export class GloriaFoodClient {
    */
   private handleNetworkError(error: any, operation: string): never {
     if (error.code === 'ENOTFOUND' || error.code === 'EAI_AGAIN') {
-      const baseURL = this.config.apiUrl || 'https://api.gloriafood.com';
+      const baseURL = this.config.apiUrl || GLORIAFOOD_POLL_URL;
       const hostname = baseURL.split('://')[1]?.split('/')[0] || baseURL;
       throw new Error(
         `DNS Error: Cannot resolve hostname "${hostname}". ` +
         `Please check:\n` +
         `  1. Your internet connection\n` +
         `  2. The GLORIAFOOD_API_URL in your .env file (current: ${baseURL})\n` +
-        `  3. GloriaFood API often uses webhook URLs from your restaurant domain, not api.gloriafood.com\n` +
-        `  4. Check your GloriaFood dashboard (Settings → Integrations) for the correct API/webhook URL\n` +
+        `  3. Leave GLORIAFOOD_API_URL unset to use GloriaFood's poll API (${GLORIAFOOD_POLL_URL})\n` +
         `  Original error: ${error.message}`
       );
     }
@@ -92,7 +162,7 @@ export class GloriaFoodClient {
     if (error.code === 'ECONNREFUSED') {
       throw new Error(
         `Connection Refused: Cannot connect to API. Check if the API URL is correct and the service is running.\n` +
-        `  API URL: ${this.config.apiUrl || 'https://api.gloriafood.com'}\n` +
+        `  API URL: ${this.config.apiUrl || GLORIAFOOD_POLL_URL}\n` +
         `  Operation: ${operation}\n` +
         `  Original error: ${error.message}`
       );
@@ -116,149 +186,44 @@ export class GloriaFoodClient {
   }
 
   /**
-   * Fetch orders from GloriaFood API
-   * Note: The actual endpoint structure may vary based on your GloriaFood account
+   * Pop pending orders from GloriaFood's poll API.
+   * GloriaFood removes returned orders from its queue, so the caller must store them before the next poll.
    */
-  async fetchOrders(limit: number = 50, status?: string): Promise<GloriaFoodOrder[]> {
+  async pollOrders(): Promise<GloriaFoodPollResponse> {
     try {
-      // Common API endpoint patterns for GloriaFood
-      // Adjust based on your specific API documentation
-      const params: any = {
-        restaurant_id: this.config.storeId,
-        limit,
-      };
-
-      if (status) {
-        params.status = status;
-      }
-
-      // Try different endpoint variations
-      // For custom domains like tekmaxllc.com, try these paths:
-      const endpoints = [
-        `/api/v2/restaurants/${this.config.storeId}/orders`,
-        `/api/v2/orders`,
-        `/api/v1/restaurants/${this.config.storeId}/orders`,
-        `/api/v1/orders`,
-        `/api/restaurants/${this.config.storeId}/orders`,
-        `/api/orders`,
-        `/orders`,
-        `/webhook/orders`,  // Some custom setups use this
-        `/api/webhook/orders`,  // Alternative webhook polling
-        `/restaurants/${this.config.storeId}/orders`,  // Alternative format
-      ];
-
-      for (const endpoint of endpoints) {
-        try {
-          const response = await this.axiosInstance.get(endpoint, { params });
-          
-          // Handle different response structures
-          if (response.data.orders) {
-            return response.data.orders;
-          }
-          if (response.data.data) {
-            return response.data.data;
-          }
-          if (Array.isArray(response.data)) {
-            return response.data;
-          }
-          if (response.data) {
-            return [response.data];
-          }
-        } catch (error: any) {
-          // If not 404, rethrow (might be auth error, etc.)
-          if (error.response?.status !== 404 && error.code !== 'ENOTFOUND') {
-            throw error;
-          }
-        }
-      }
-
-      throw new Error('Unable to fetch orders from any endpoint. Your API may only support webhooks, not polling. Try using webhook mode instead (npm run webhook).');
+      const response = await this.axiosInstance.post(GLORIAFOOD_POLL_PATH);
+      return this.parsePollResponse(response.data);
     } catch (error: any) {
-      this.handleNetworkError(error, 'fetchOrders');
-      return []; // This won't be reached, but satisfies TypeScript
+      this.handleNetworkError(error, 'pollOrders');
+      return { count: 0, orders: [] }; // This won't be reached, but satisfies TypeScript
     }
   }
 
   /**
-   * Fetch a specific order by ID
+   * Fetch the restaurant menu (categories, items, sizes, option groups and prices)
    */
-  async fetchOrderById(orderId: string): Promise<GloriaFoodOrder | null> {
+  async fetchMenu(): Promise<GloriaFoodMenu> {
     try {
-      const endpoints = [
-        `/api/v2/restaurants/${this.config.storeId}/orders/${orderId}`,
-        `/api/v1/orders/${orderId}`,
-        `/api/orders/${orderId}`,
-      ];
-
-      for (const endpoint of endpoints) {
-        try {
-          const response = await this.axiosInstance.get(endpoint);
-          
-          if (response.data.order) {
-            return response.data.order;
-          }
-          if (response.data.data) {
-            return response.data.data;
-          }
-          if (response.data) {
-            return response.data;
-          }
-        } catch (error: any) {
-          if (error.response?.status !== 404) {
-            throw error;
-          }
-        }
+      const response = await this.axiosInstance.get(GLORIAFOOD_MENU_PATH);
+      const menu = response.data;
+      if (!menu || typeof menu !== 'object' || !Array.isArray(menu.categories)) {
+        throw new Error(`Unexpected GloriaFood menu response: ${JSON.stringify(menu).substring(0, 200)}`);
       }
-
-      return null;
+      return menu as GloriaFoodMenu;
     } catch (error: any) {
-      this.handleNetworkError(error, `fetchOrderById(${orderId})`);
-      return null; // This won't be reached, but satisfies TypeScript
+      this.handleNetworkError(error, 'fetchMenu');
+      return { categories: [] }; // This won't be reached, but satisfies TypeScript
     }
   }
 
   /**
-   * Fetch new orders since a given timestamp
+   * Validate a poll response ({ count, orders: [...] })
    */
-  async fetchOrdersSince(timestamp: string, limit: number = 100): Promise<GloriaFoodOrder[]> {
-    try {
-      const params: any = {
-        restaurant_id: this.config.storeId,
-        since: timestamp,
-        limit,
-      };
-
-      const endpoints = [
-        `/api/v2/restaurants/${this.config.storeId}/orders`,
-        `/api/v1/orders`,
-        `/api/orders`,
-      ];
-
-      for (const endpoint of endpoints) {
-        try {
-          const response = await this.axiosInstance.get(endpoint, { params });
-          
-          if (response.data.orders) {
-            return response.data.orders;
-          }
-          if (response.data.data) {
-            return response.data.data;
-          }
-          if (Array.isArray(response.data)) {
-            return response.data;
-          }
-        } catch (error: any) {
-          if (error.response?.status !== 404) {
-            throw error;
-          }
-        }
-      }
-
-      return [];
-    } catch (error: any) {
-      this.handleNetworkError(error, 'fetchOrdersSince');
-      return []; // This won't be reached, but satisfies TypeScript
+  private parsePollResponse(data: any): GloriaFoodPollResponse {
+    if (!data || typeof data !== 'object' || !Array.isArray(data.orders)) {
+      throw new Error(`Unexpected GloriaFood poll response: ${JSON.stringify(data).substring(0, 200)}`);
     }
+    const count = typeof data.count === 'number' ? data.count : data.orders.length;
+    return { count, orders: data.orders };
   }
 }
-
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import os from 'os';
+
+// Identifies this server process; combined with a random suffix for each lock owner
+const INSTANCE_ID = `${os.hostname()}-${process.pid}`;
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal content always hashes the same
+ */
+export function canonicalJson(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+}
+
+/**
+ * Fingerprint a webhook event by order ID plus a hash of its content.
+ * A GloriaFood retry of the same event produces the same fingerprint.
+ */
+export function fingerprintOrderEvent(orderId: string, orderData: any): { fingerprint: string; contentHash: string } {
+  const contentHash = crypto.createHash('sha256').update(canonicalJson(orderData)).digest('hex');
+  return { fingerprint: `${orderId}:${contentHash}`, contentHash };
+}
+
+/**
+ * Unique owner token for a lock or dispatch claim
+ */
+export function createLockOwner(): string {
+  return `${INSTANCE_ID}:${crypto.randomBytes(6).toString('hex')}`;
+}
@@ -1,6 +1,6 @@
 import * as dotenv from 'dotenv';
-import { GloriaFoodClient, GloriaFoodOrder } from './gloriafood-client';
-import { OrderDatabase, Order } from './database';
+import { GloriaFoodClient, GLORIAFOOD_POLL_URL } from './gloriafood-client';
+import { GloriaFoodWebhookServer, loadWebhookConfig } from './webhook-mode';
 import chalk from 'chalk';
 
 // Load environment variables
@@ -10,17 +10,22 @@ interface AppConfig {
   apiKey: string;
   storeId: string;
   apiUrl?: string;
-  masterKey?: string;
-  databasePath: string;
+  protocolVersion: string;
   pollIntervalMs: number;
 }
 
+/**
+ * Polling mode for restaurants without a public webhook URL.
+ * Pops orders from GloriaFood's poll API and runs them through the webhook pipeline
+ * (journal, database, DoorDash dispatch queue).
+ */
 class GloriaFoodOrderFetcher {
   private client: GloriaFoodClient;
-  private database: OrderDatabase;
+  private pipeline: GloriaFoodWebhookServer;
   private config: AppConfig;
   private pollInterval?: NodeJS.Timeout;
   private isRunning: boolean = false;
+  private isPolling: boolean = false;
 
   constructor(config: AppConfig) {
     this.config = config;
@@ -28,9 +33,10 @@ class GloriaFoodOrderFetcher {
       apiKey: config.apiKey,
       storeId: config.storeId,
       apiUrl: config.apiUrl,
-      masterKey: config.masterKey,
+      protocolVersion: config.protocolVersion,
     });
-    this.database = new OrderDatabase(config.databasePath);
+    // Same server the webhook uses, without listening for HTTP
+    this.pipeline = new GloriaFoodWebhookServer(loadWebhookConfig(config.apiKey, config.storeId));
   }
 
   async start(): Promise<void> {
@@ -39,17 +45,20 @@ class GloriaFoodOrderFetcher {
     // Display configuration (masking sensitive data)
     console.log(chalk.gray('Configuration:'));
     console.log(chalk.gray(`  Store ID: ${this.config.storeId}`));
-    console.log(chalk.gray(`  API URL: ${this.config.apiUrl || 'https://api.gloriafood.com'}`));
-    console.log(chalk.gray(`  Database: ${this.config.databasePath}`));
+    console.log(chalk.gray(`  API URL: ${this.config.apiUrl || GLORIAFOOD_POLL_URL}`));
+    console.log(chalk.gray(`  Protocol Version: ${this.config.protocolVersion}`));
     console.log(chalk.gray(`  Poll Interval: ${this.config.pollIntervalMs / 1000}s\n`));
 
+    this.pipeline.startBackgroundJobs();
+
     // Initial fetch
+    this.isRunning = true;
     await this.fetchAndStoreOrders();
 
     // Start polling
-    this.isRunning = true;
     this.pollInterval = setInterval(async () => {
-      if (this.isRunning) {
+      // Skip a tick while the previous poll is still processing its orders
+      if (this.isRunning && !this.isPolling) {
         await this.fetchAndStoreOrders();
       }
     }, this.config.pollIntervalMs);
@@ -62,153 +71,57 @@ class GloriaFoodOrderFetcher {
     if (this.pollInterval) {
       clearInterval(this.pollInterval);
     }
-    this.database.close();
+    await this.pipeline.stop();
     console.log(chalk.yellow('\n\n🛑 Stopped fetching orders. Goodbye!\n'));
   }
 
   async fetchAndStoreOrders(): Promise<void> {
+    this.isPolling = true;
     try {
       const timestamp = new Date().toISOString();
       console.log(chalk.cyan(`\n[${timestamp}] Fetching orders...`));
 
-      // Fetch orders from GloriaFood
-      const orders = await this.client.fetchOrders(50);
+      // Pop pending orders from GloriaFood
+      const payload = await this.client.pollOrders();
       
-      if (orders.length === 0) {
+      if (payload.orders.length === 0) {
         console.log(chalk.gray('  No new orders found.'));
-        this.displayStats();
         return;
       }
 
-      console.log(chalk.green(`  Found ${orders.length} order(s)`));
-
-      // Store orders in database
-      let newCount = 0;
-      let updatedCount = 0;
-
-      for (const order of orders) {
-        const existing = this.database.getOrderByGloriaFoodId(order.id?.toString() || '');
-        const saved = this.database.insertOrUpdateOrder(order);
-
-        if (saved) {
-          if (existing) {
-            updatedCount++;
-          } else {
-            newCount++;
-            this.displayOrder(saved, true);
-          }
-        }
+      console.log(chalk.green(`  Found ${payload.orders.length} order(s)`));
+      if (payload.count !== payload.orders.length) {
+        console.log(chalk.yellow(`  ⚠ GloriaFood reported count ${payload.count} but returned ${payload.orders.length} order(s)`));
       }
 
-      if (newCount > 0 || updatedCount > 0) {
-        console.log(chalk.green(`  ✓ Stored: ${newCount} new, ${updatedCount} updated`));
+      // Store orders and queue deliveries through the webhook pipeline
+      const result = await this.pipeline.processPolledOrders(payload);
+      const orders = result.body?.orders || [];
+      const count = (predicate: (order: any) => boolean) => orders.filter(predicate).length;
+
+      console.log(chalk.green(
+        `  ✓ Stored: ${count(o => o.action === 'created')} new, ${count(o => o.action === 'updated')} updated` +
+        `, ${count(o => o.doordash === 'queued')} queued for DoorDash, ${count(o => o.doordash === 'scheduled')} scheduled`
+      ));
+      if (result.error) {
+        console.error(chalk.red(`  ✗ ${result.error}`));
+        console.error(chalk.yellow('  ⚠ The poll is journaled - re-run it with: npm run journal -- list --status failed'));
       }
-
-      this.displayStats();
     } catch (error: any) {
       console.error(chalk.red(`  ✗ Error fetching orders: ${error.message}`));
       
       // Show helpful error message
       if (error.message.includes('401') || error.message.includes('403')) {
-        console.error(chalk.yellow('  ⚠ Check your API credentials in .env file'));
-        console.error(chalk.yellow('  ⚠ Your API may only support webhooks. Try: npm run webhook'));
-      } else if (error.message.includes('404') || error.message.includes('webhooks')) {
-        console.error(chalk.yellow('  ⚠ API endpoint not found. Your GloriaFood may only support webhooks.'));
-        console.error(chalk.green('  → Use webhook mode instead: npm run webhook'));
-        console.error(chalk.gray('  → Configure GloriaFood webhook to: https://tekmaxllc.com/webhook'));
+        console.error(chalk.yellow('  ⚠ Check GLORIAFOOD_API_KEY - the poll API expects the restaurant key'));
+      } else if (error.message.includes('404')) {
+        console.error(chalk.yellow('  ⚠ Poll endpoint not found. Check GLORIAFOOD_API_URL (leave it unset for GloriaFood)'));
       } else if (error.message.includes('timeout')) {
         console.error(chalk.yellow('  ⚠ Request timeout. Check your internet connection'));
-      } else {
-        console.error(chalk.yellow('  💡 Tip: Your setup uses webhooks (https://tekmaxllc.com/webhook)'));
-        console.error(chalk.green('  → Try webhook mode: npm run webhook'));
       }
+    } finally {
+      this.isPolling = false;
     }
   }
-
-  displayOrder(order: Order, isNew: boolean = false): void {
-    const prefix = isNew ? chalk.green('🆕 NEW ORDER') : chalk.blue('📦 ORDER');
-    
-    console.log(`\n${prefix} ${chalk.bold(`#${order.gloriafood_order_id}`)}`);
-    console.log(chalk.gray('  ──────────────────────────────────────────'));
-    console.log(`  ${chalk.bold('Customer:')} ${order.customer_name}`);
-    
-    if (order.customer_phone) {
-      console.log(`  ${chalk.bold('Phone:')} ${order.customer_phone}`);
-    }
-    
-    if (order.customer_email) {
-      console.log(`  ${chalk.bold('Email:')} ${order.customer_email}`);
-    }
-
-    if (order.delivery_address) {
-      console.log(`  ${chalk.bold('Delivery Address:')} ${order.delivery_address}`);
-    }
-
-    // Convert total_price to number (MySQL returns DECIMAL as string)
-    const totalPrice = typeof order.total_price === 'string' 
-      ? parseFloat(order.total_price) 
-      : (order.total_price || 0);
-    console.log(`  ${chalk.bold('Total:')} ${order.currency} ${totalPrice.toFixed(2)}`);
-    console.log(`  ${chalk.bold('Status:')} ${this.formatStatus(order.status)}`);
-    console.log(`  ${chalk.bold('Type:')} ${order.order_type}`);
-    console.log(`  ${chalk.bold('Fetched:')} ${new Date(order.fetched_at).toLocaleString()}`);
-    
-    // Display items
-    try {
-      const items = JSON.parse(order.items);
-      if (Array.isArray(items) && items.length > 0) {
-        console.log(`  ${chalk.bold('Items:')}`);
-        items.forEach((item: any, index: number) => {
-          const name = item.name || item.product_name || item.title || 'Unknown Item';
-          const quantity = item.quantity || 1;
-          const price = item.price || item.unit_price || 0;
-          console.log(`    ${index + 1}. ${name} x${quantity} - ${order.currency} ${price}`);
-        });
-      }
-    } catch (e) {
-      // Ignore parsing errors
-    }
-    
-    console.log(chalk.gray('  ──────────────────────────────────────────'));
-  }
-
-  formatStatus(status: string): string {
-    const statusColors: { [key: string]: chalk.Chalk } = {
-      'accepted': chalk.green,
-      'pending': chalk.yellow,
-      'preparing': chalk.cyan,
-      'ready': chalk.blue,
-      'completed': chalk.green,
-      'cancelled': chalk.red,
-      'rejected': chalk.red,
-    };
-
-    const lowerStatus = status.toLowerCase();
-    const colorizer = statusColors[lowerStatus] || chalk.white;
-    return colorizer(status.toUpperCase());
-  }
-
-  displayStats(): void {
-    const totalOrders = this.database.getOrderCount();
-    const recentOrders = this.database.getRecentOrders(60);
-    
-    console.log(chalk.gray(`\n  📊 Total Orders: ${totalOrders} | Recent (1h): ${recentOrders.length}`));
-  }
-
-  displayAllOrders(): void {
-    const orders = this.database.getAllOrders(20);
-    
-    console.log(chalk.blue.bold('\n\n📋 Recent Orders in Database:\n'));
-    
-    if (orders.length === 0) {
-      console.log(chalk.gray('  No orders found in database.'));
-      return;
-    }
-
-    orders.forEach(order => {
-      this.displayOrder(order, false);
-    });
-  }
 }
 
 // Main execution
@@ -222,8 +135,8 @@ async function main() {
     console.error(chalk.yellow('Please create a .env file with the following variables:'));
     console.error(chalk.gray('  GLORIAFOOD_API_KEY=your_api_key'));
     console.error(chalk.gray('  GLORIAFOOD_STORE_ID=your_store_id'));
-    console.error(chalk.gray('  GLORIAFOOD_API_URL=https://api.gloriafood.com (optional)'));
-    console.error(chalk.gray('  GLORIAFOOD_MASTER_KEY=your_master_key (optional)'));
+    console.error(chalk.gray('  GLORIAFOOD_API_URL=https://pos.globalfoodsoft.com (optional)'));
+    console.error(chalk.gray('  GLORIAFOOD_PROTOCOL_VERSION=v2 (optional)'));
     console.error(chalk.gray('  DATABASE_PATH=./orders.db (optional)'));
     console.error(chalk.gray('  POLL_INTERVAL_MS=30000 (optional)\n'));
     process.exit(1);
@@ -233,8 +146,7 @@ async function main() {
     apiKey,
     storeId,
     apiUrl: process.env.GLORIAFOOD_API_URL,
-    masterKey: process.env.GLORIAFOOD_MASTER_KEY,
-    databasePath: process.env.DATABASE_PATH || './orders.db',
+    protocolVersion: process.env.GLORIAFOOD_PROTOCOL_VERSION || 'v2',
     pollIntervalMs: parseInt(process.env.POLL_INTERVAL_MS || '30000', 10),
   };
 
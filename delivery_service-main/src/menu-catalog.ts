@@ -0,0 +1,316 @@
+import chalk from 'chalk';
+import { IDatabase, MenuCatalog, OrderItemLink, Store } from './database-factory';
+import { GloriaFoodClient, GloriaFoodConfig, GloriaFoodMenu, GloriaFoodMenuGroup } from './gloriafood-client';
+
+// Differences below half a cent are rounding, not a price change
+const PRICE_TOLERANCE = 0.005;
+
+// Order item types that are not menu items (fees, tips, promotions)
+export const NON_MENU_ITEM_TYPES = ['delivery_fee', 'tip', 'promo_cart', 'promo_item', 'promo_cart_item', 'service_fee_total'];
+
+function toId(value: any): string {
+  return value === undefined || value === null ? '' : value.toString();
+}
+
+function toPrice(value: any): number {
+  const price = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof price === 'number' && isFinite(price) ? price : 0;
+}
+
+/**
+ * Flatten a GloriaFood menu into catalog rows
+ */
+export function flattenMenu(menu: GloriaFoodMenu, storeId: string): MenuCatalog {
+  const catalog: MenuCatalog = {
+    store_id: storeId,
+    currency: menu.currency,
+    categories: [],
+    items: [],
+    sizes: [],
+    groups: [],
+    options: [],
+  };
+
+  const addGroups = (groups: GloriaFoodMenuGroup[] | undefined, parentType: string, parentId: string) => {
+    for (const group of groups || []) {
+      catalog.groups.push({
+        store_id: storeId,
+        group_id: toId(group.id),
+        parent_type: parentType,
+        parent_id: parentId,
+        name: group.name || '',
+        required: group.required ? 1 : 0,
+        force_min: group.force_min || 0,
+        force_max: group.force_max || 0,
+      });
+      for (const option of group.options || []) {
+        catalog.options.push({
+          store_id: storeId,
+          option_id: toId(option.id),
+          group_id: toId(group.id),
+          name: option.name || '',
+          price: toPrice(option.price),
+          is_default: option.default ? 1 : 0,
+        });
+      }
+    }
+  };
+
+  menu.categories.forEach((category, index) => {
+    const categoryId = toId(category.id);
+    catalog.categories.push({
+      store_id: storeId,
+      category_id: categoryId,
+      name: category.name || '',
+      description: category.description,
+      active: category.active === false ? 0 : 1,
+      sort_order: index,
+    });
+    addGroups(category.groups, 'category', categoryId);
+
+    for (const item of category.items || []) {
+      const itemId = toId(item.id);
+      catalog.items.push({
+        store_id: storeId,
+        item_id: itemId,
+        category_id: categoryId,
+        name: item.name || '',
+        description: item.description,
+        price: toPrice(item.price),
+        active: item.active === false ? 0 : 1,
+      });
+      addGroups(item.groups, 'item', itemId);
+
+      for (const size of item.sizes || []) {
+        const sizeId = toId(size.id);
+        catalog.sizes.push({
+          store_id: storeId,
+          size_id: sizeId,
+          item_id: itemId,
+          name: size.name || '',
+          price: toPrice(size.price),
+          is_default: size.default ? 1 : 0,
+        });
+        addGroups(size.groups, 'size', sizeId);
+      }
+    }
+  });
+
+  return catalog;
+}
+
+/**
+ * Link each line of an order's items to the catalog and compare its price with the current menu.
+ * GloriaFood order items carry the menu item ID in type_id; sizes and options are in item.options.
+ * Lines without an ID are matched by name.
+ */
+export function linkOrderItems(orderId: string, orderItems: any[], catalog: MenuCatalog): OrderItemLink[] {
+  const itemsById = new Map(catalog.items.map(item => [item.item_id, item]));
+  const itemsByName = new Map(catalog.items.map(item => [item.name.trim().toLowerCase(), item]));
+  const sizesById = new Map(catalog.sizes.map(size => [size.size_id, size]));
+  const optionsById = new Map(catalog.options.map(option => [option.option_id, option]));
+
+  const links: OrderItemLink[] = [];
+  (orderItems || []).forEach((line: any, index: number) => {
+    if (!line || (line.type && NON_MENU_ITEM_TYPES.includes(line.type))) {
+      return;
+    }
+
+    const name = line.name || line.product_name || line.title || 'Unknown Item';
+    const menuItem = itemsById.get(toId(line.type_id ?? line.item_id ?? line.menu_item_id))
+      || itemsByName.get(name.trim().toLowerCase());
+    const lineOptions: any[] = Array.isArray(line.options) ? line.options : [];
+
+    let orderPrice = toPrice(line.price ?? line.unit_price);
+    lineOptions
+      .filter(option => option.type !== 'size')
+      .forEach(option => { orderPrice += toPrice(option.price) * (option.quantity || 1); });
+
+    const link: OrderItemLink = {
+      gloriafood_order_id: orderId,
+      line_index: index,
+      order_item_name: name,
+      quantity: toPrice(line.quantity) || 1,
+      order_price: Math.round(orderPrice * 100) / 100,
+      price_mismatch: 0,
+    };
+
+    if (menuItem) {
+      const sizeLine = lineOptions.find(option => option.type === 'size');
+      const size = sizeLine ? sizesById.get(toId(sizeLine.type_id)) : undefined;
+
+      // The item price includes the size; options are charged on top
+      let menuPrice = size ? size.price : menuItem.price;
+      lineOptions
+        .filter(option => option.type !== 'size')
+        .forEach(option => {
+          const menuOption = optionsById.get(toId(option.type_id));
+          // Options missing from the catalog can't be checked, so take the charged price
+          menuPrice += (menuOption ? menuOption.price : toPrice(option.price)) * (option.quantity || 1);
+        });
+
+      link.menu_item_id = menuItem.item_id;
+      link.menu_size_id = size?.size_id;
+      link.menu_name = size ? `${menuItem.name} (${size.name})` : menuItem.name;
+      link.menu_price = Math.round(menuPrice * 100) / 100;
+      link.price_mismatch = Math.abs(link.menu_price - link.order_price) > PRICE_TOLERANCE ? 1 : 0;
+    }
+
+    links.push(link);
+  });
+
+  return links;
+}
+
+export interface MenuSyncResult {
+  store_id: string;
+  categories: number;
+  items: number;
+  sizes: number;
+  groups: number;
+  options: number;
+  synced_at: string;
+}
+
+// A store whose menu can be synced, with a client holding its restaurant key
+export interface MenuSource {
+  storeId: string;
+  client: GloriaFoodClient;
+}
+
+/**
+ * Menu sources for every registered store with a restaurant key, plus the env store (GLORIAFOOD_API_KEY)
+ * unless it is registered too
+ */
+export function buildMenuSources(stores: Store[], defaults: GloriaFoodConfig): MenuSource[] {
+  const sources: MenuSource[] = stores
+    .filter(store => !!store.gloriafood_api_key)
+    .map(store => ({
+      storeId: store.store_id,
+      client: new GloriaFoodClient({ ...defaults, apiKey: store.gloriafood_api_key as string, storeId: store.store_id }),
+    }));
+  if (defaults.apiKey && !sources.some(source => source.storeId === defaults.storeId)) {
+    sources.push({ storeId: defaults.storeId, client: new GloriaFoodClient(defaults) });
+  }
+  return sources;
+}
+
+/**
+ * Keeps the local menu catalog of every store in sync with GloriaFood and links order items to it
+ */
+export class MenuCatalogService {
+  private database: IDatabase;
+  private sources: () => Promise<MenuSource[]>;
+  private defaultStoreId: string;
+  private syncTimer?: NodeJS.Timeout;
+
+  constructor(database: IDatabase, sources: () => Promise<MenuSource[]>, defaultStoreId: string) {
+    this.database = database;
+    this.sources = sources;
+    this.defaultStoreId = defaultStoreId;
+  }
+
+  private async handleAsync<T>(result: T | Promise<T>): Promise<T> {
+    return result instanceof Promise ? await result : result;
+  }
+
+  /**
+   * Fetch one store's menu from GloriaFood and replace its stored catalog
+   */
+  private async syncSource(source: MenuSource): Promise<MenuSyncResult> {
+    const menu = await source.client.fetchMenu();
+    const storeId = toId(menu.restaurant_id) || source.storeId || this.defaultStoreId;
+    const catalog = flattenMenu(menu, storeId);
+    await this.handleAsync(this.database.replaceMenuCatalog(catalog));
+
+    const result: MenuSyncResult = {
+      store_id: storeId,
+      categories: catalog.categories.length,
+      items: catalog.items.length,
+      sizes: catalog.sizes.length,
+      groups: catalog.groups.length,
+      options: catalog.options.length,
+      synced_at: new Date().toISOString(),
+    };
+    console.log(chalk.green(`✅ Menu synced for store ${storeId}: ${result.categories} categories, ${result.items} items, ${result.sizes} sizes, ${result.options} options`));
+    return result;
+  }
+
+  /**
+   * Sync the menu of one store, or of every store with a restaurant key.
+   * A failing store does not stop the others; the call only fails when no store could be synced.
+   */
+  async sync(storeId?: string): Promise<MenuSyncResult[]> {
+    const sources = (await this.sources()).filter(source => !storeId || source.storeId === storeId);
+    if (sources.length === 0) {
+      throw new Error(storeId
+        ? `No GloriaFood restaurant key configured for store ${storeId}`
+        : 'GloriaFood client not configured (GLORIAFOOD_API_KEY missing)');
+    }
+
+    const results: MenuSyncResult[] = [];
+    let lastError: Error | undefined;
+    for (const source of sources) {
+      try {
+        results.push(await this.syncSource(source));
+      } catch (error: any) {
+        console.warn(chalk.yellow(`⚠️  Menu sync failed for store ${source.storeId || 'default'}: ${error.message}`));
+        lastError = error;
+      }
+    }
+    if (results.length === 0 && lastError) {
+      throw lastError;
+    }
+    return results;
+  }
+
+  /**
+   * Sync now and then every intervalMs (0 disables the schedule). Runs without stores are skipped quietly.
+   */
+  startSchedule(intervalMs: number): void {
+    if (intervalMs <= 0 || this.syncTimer) {
+      return;
+    }
+    const run = async () => {
+      try {
+        if ((await this.sources()).length > 0) {
+          await this.sync();
+        }
+      } catch (error: any) {
+        console.warn(chalk.yellow(`⚠️  Menu sync failed: ${error.message}`));
+      }
+    };
+    run();
+    this.syncTimer = setInterval(run, intervalMs);
+    console.log(chalk.green(`✅ Menu sync scheduled every ${Math.round(intervalMs / 60000)} min`));
+  }
+
+  stopSchedule(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+  }
+
+  /**
+   * Link a saved order's items to the catalog of its store. Does nothing until the menu was synced.
+   */
+  async linkOrder(orderId: string, storeId: string | undefined, orderData: any): Promise<OrderItemLink[]> {
+    const catalog = await this.handleAsync(this.database.getMenuCatalog(storeId || this.defaultStoreId));
+    if (catalog.items.length === 0) {
+      return [];
+    }
+
+    const links = linkOrderItems(orderId, orderData.items || orderData.order_items || [], catalog);
+    await this.handleAsync(this.database.saveOrderItemLinks(orderId, links));
+
+    const mismatches = links.filter(link => link.price_mismatch);
+    if (mismatches.length > 0) {
+      console.warn(chalk.yellow(`⚠️  Order #${orderId}: ${mismatches.length} item(s) priced differently from the current menu`));
+      mismatches.forEach(link => {
+        console.warn(chalk.yellow(`   • ${link.order_item_name}: charged ${link.order_price.toFixed(2)}, menu ${link.menu_price?.toFixed(2)}`));
+      });
+    }
+    return links;
+  }
+}
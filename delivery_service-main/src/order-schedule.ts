@@ -0,0 +1,85 @@
+export interface OrderSchedule {
+  fulfillAt: Date; // when the customer asked for the order
+  dispatchAt: number; // epoch ms: when it should be sent to DoorDash
+}
+
+function isForLater(orderData: any): boolean {
+  const value = orderData?.for_later;
+  return value === true || value === 1 || value === '1' || value === 'true';
+}
+
+// Offset of a timezone from UTC (ms) at the given instant
+function timezoneOffsetMs(epochMs: number, timezone: string): number {
+  const parts: { [type: string]: number } = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(new Date(epochMs)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  });
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(epochMs / 1000) * 1000;
+}
+
+/**
+ * Parse an order time. Times without an offset (e.g. "2024-05-10 18:30:00") are wall-clock times in
+ * the given IANA timezone, or in the server's own timezone when none is known.
+ */
+export function parseOrderTime(value: any, timezone?: string): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const text = String(value).trim();
+  const local = text.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?$/);
+  if (!local || !timezone) {
+    const parsed = new Date(local ? text.replace(' ', 'T') : text);
+    return Number.isFinite(parsed.getTime()) ? parsed : undefined;
+  }
+
+  const [, year, month, day, hour, minute, second] = local.map(part => parseInt(part || '0', 10));
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  try {
+    // Correct the guess once more in case it landed on the other side of a DST change
+    let epoch = wallClock - timezoneOffsetMs(wallClock, timezone);
+    epoch = wallClock - timezoneOffsetMs(epoch, timezone);
+    return new Date(epoch);
+  } catch {
+    return undefined; // unknown timezone
+  }
+}
+
+/**
+ * When a scheduled ("for later") order is due, or undefined for ASAP orders
+ */
+export function scheduledFulfillTime(orderData: any, timezone?: string): Date | undefined {
+  if (!isForLater(orderData)) {
+    return undefined;
+  }
+  return parseOrderTime(orderData.fulfill_at, timezone || orderData.restaurant_timezone);
+}
+
+/**
+ * Dispatch schedule of a scheduled order: it goes to DoorDash leadMinutes before it is due.
+ * Null for ASAP orders, which are dispatched right away.
+ */
+export function getOrderSchedule(orderData: any, leadMinutes: number, timezone?: string): OrderSchedule | null {
+  const fulfillAt = scheduledFulfillTime(orderData, timezone);
+  if (!fulfillAt) {
+    return null;
+  }
+  return { fulfillAt, dispatchAt: fulfillAt.getTime() - leadMinutes * 60 * 1000 };
+}
+
+/**
+ * Format a time for logs, in the store's timezone when known
+ */
+export function formatOrderTime(date: Date | number, timezone?: string): string {
+  const value = new Date(date);
+  try {
+    return value.toLocaleString('en-US', { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short', timeZoneName: 'short' });
+  } catch {
+    return value.toISOString();
+  }
+}
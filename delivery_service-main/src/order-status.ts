@@ -0,0 +1,6 @@
+// GloriaFood order statuses that mean the order will not be delivered
+export const CANCELLED_ORDER_STATUSES = ['cancelled', 'canceled', 'rejected'];
+
+export function isCancelledStatus(status?: string | null): boolean {
+  return !!status && CANCELLED_ORDER_STATUSES.includes(status.toLowerCase());
+}
@@ -0,0 +1,51 @@
+// Country calling codes for the countries a store can be set to
+const CALLING_CODES: { [country: string]: string } = {
+  US: '1', CA: '1', PR: '1',
+  MX: '52', GB: '44', IE: '353', AU: '61', NZ: '64', PH: '63', IN: '91',
+  DE: '49', FR: '33', ES: '34', IT: '39', NL: '31',
+};
+
+export const SUPPORTED_COUNTRIES = Object.keys(CALLING_CODES);
+
+// North American numbers: 10 digits, the area code starts with 2-9
+function isNanpNumber(digits: string): boolean {
+  return /^[2-9]\d{9}$/.test(digits);
+}
+
+function internationalNumber(digits: string): string | undefined {
+  if (digits.startsWith('1')) {
+    return isNanpNumber(digits.slice(1)) ? `+${digits}` : undefined;
+  }
+  return digits.length >= 8 && digits.length <= 15 && !digits.startsWith('0') ? `+${digits}` : undefined;
+}
+
+/**
+ * Phone number in E.164 format (+15551234567). Numbers without a country code are read as numbers of
+ * defaultCountry (ISO 3166 code). Returns undefined when the number cannot be valid.
+ */
+export function toE164(raw: any, defaultCountry: string = 'US'): string | undefined {
+  const text = (raw ?? '').toString().trim().replace(/\s*(?:ext\.?|x|#)\s*\d+$/i, '');
+  const digits = text.replace(/\D/g, '');
+  if (!digits) {
+    return undefined;
+  }
+  if (text.startsWith('+')) {
+    return internationalNumber(digits);
+  }
+  if (digits.startsWith('00')) {
+    return internationalNumber(digits.slice(2));
+  }
+
+  const code = CALLING_CODES[defaultCountry.toUpperCase()];
+  if (!code) {
+    return undefined;
+  }
+  if (code === '1') {
+    const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+    return isNanpNumber(national) ? `+1${national}` : undefined;
+  }
+  // Drop the national trunk prefix (e.g. 020 7946 0000 in the UK)
+  const national = digits.replace(/^0/, '');
+  const full = `${code}${national}`;
+  return national.length >= 6 && full.length <= 15 ? `+${full}` : undefined;
+}
@@ -0,0 +1,65 @@
+import { DoorDashQuote } from './doordash-client';
+
+export interface QuotePolicy {
+  // Quote first and accept only within the limits; when off, deliveries are created directly
+  enabled: boolean;
+  maxFeeCents?: number;
+  // Maximum minutes from now until the estimated pickup / dropoff
+  maxPickupMinutes?: number;
+  maxDropoffMinutes?: number;
+}
+
+export interface QuoteDecision {
+  accepted: boolean;
+  reason?: string;
+}
+
+function parseLimit(raw?: string): number | undefined {
+  const value = parseFloat((raw || '').trim());
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Build the quote policy from environment variables
+ */
+export function loadQuotePolicy(): QuotePolicy {
+  const raw = (process.env.DOORDASH_QUOTES || 'true').trim().toLowerCase();
+  return {
+    enabled: !['false', '0', 'off', 'no'].includes(raw),
+    maxFeeCents: parseLimit(process.env.DOORDASH_MAX_FEE_CENTS),
+    maxPickupMinutes: parseLimit(process.env.DOORDASH_MAX_PICKUP_MINUTES),
+    maxDropoffMinutes: parseLimit(process.env.DOORDASH_MAX_DROPOFF_MINUTES),
+  };
+}
+
+function minutesUntil(time: string | undefined, now: number): number | undefined {
+  const at = time ? Date.parse(time) : NaN;
+  return Number.isFinite(at) ? (at - now) / 60000 : undefined;
+}
+
+/**
+ * Decide whether a quote is within the policy limits.
+ * A limit on an ETA the quote does not include rejects it, since the limit cannot be checked.
+ */
+export function evaluateQuote(quote: DoorDashQuote, policy: QuotePolicy, now: number = Date.now()): QuoteDecision {
+  if (policy.maxFeeCents !== undefined && quote.fee > policy.maxFeeCents) {
+    return { accepted: false, reason: `Fee ${quote.fee} cents exceeds maximum ${policy.maxFeeCents} cents` };
+  }
+
+  const checks: Array<[string, number | undefined, string | undefined]> = [
+    ['Pickup', policy.maxPickupMinutes, quote.pickup_time_estimated],
+    ['Dropoff', policy.maxDropoffMinutes, quote.dropoff_time_estimated],
+  ];
+  for (const [label, maxMinutes, estimate] of checks) {
+    if (maxMinutes === undefined) continue;
+    const minutes = minutesUntil(estimate, now);
+    if (minutes === undefined) {
+      return { accepted: false, reason: `${label} ETA missing from quote (limit ${maxMinutes} min)` };
+    }
+    if (minutes > maxMinutes) {
+      return { accepted: false, reason: `${label} ETA ${Math.ceil(minutes)} min exceeds maximum ${maxMinutes} min` };
+    }
+  }
+
+  return { accepted: true };
+}
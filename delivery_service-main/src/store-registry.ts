@@ -0,0 +1,224 @@
+import { IDatabase, Store } from './database-factory';
+import { DoorDashClient, DoorDashDriveDelivery } from './doordash-client';
+import { CircuitSnapshot } from './doordash-retry';
+import { SUPPORTED_COUNTRIES } from './phone';
+import { parseProviderList } from './delivery-providers';
+
+const REDACTED = '[REDACTED]';
+
+// Store fields that hold credentials; never returned by the API
+const SECRET_FIELDS: (keyof Store)[] = ['gloriafood_api_key', 'gloriafood_master_key', 'doordash_signing_secret'];
+
+// Fields an admin may set through the API
+const EDITABLE_FIELDS: (keyof Store)[] = [
+  'name',
+  'gloriafood_api_key',
+  'gloriafood_master_key',
+  'webhook_path',
+  'pickup_address',
+  'pickup_phone',
+  'doordash_developer_id',
+  'doordash_key_id',
+  'doordash_signing_secret',
+  'doordash_merchant_id',
+  'dispatch_enabled',
+  'timezone',
+  'country',
+  'delivery_providers',
+  'doordash_business_id',
+  'doordash_store_id',
+];
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Merge an admin API request body into a store (partial update) and validate the result.
+ * Omitted fields keep their current value; null or '' clears an optional field. A credential sent back as
+ * returned by redactStore also keeps its current value, so a fetched store can be edited and sent back.
+ */
+export function buildStore(storeId: string, input: any, existing?: Store | null): { store?: Store; errors: string[] } {
+  const errors: string[] = [];
+  if (!/^[A-Za-z0-9_-]+$/.test(storeId)) {
+    errors.push('store_id may only contain letters, digits, "-" and "_"');
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: [...errors, 'Request body must be a JSON object'] };
+  }
+
+  const store: Store = existing ? { ...existing } : { store_id: storeId, name: '', dispatch_enabled: 1 };
+  for (const field of EDITABLE_FIELDS) {
+    if (!(field in input)) continue;
+    const value = input[field];
+    if (SECRET_FIELDS.includes(field) && value === REDACTED) continue;
+    if (field === 'dispatch_enabled') {
+      store.dispatch_enabled = value === true || value === 1 || value === '1' || value === 'true' ? 1 : 0;
+    } else {
+      (store as any)[field] = value === null || value === '' ? undefined : String(value).trim();
+    }
+  }
+
+  if (!store.name) {
+    errors.push('name is required');
+  }
+  if (store.webhook_path && !/^[A-Za-z0-9_-]+$/.test(store.webhook_path)) {
+    errors.push('webhook_path may only contain letters, digits, "-" and "_"');
+  }
+  if (store.timezone && !isValidTimezone(store.timezone)) {
+    errors.push(`timezone "${store.timezone}" is not a valid IANA time zone`);
+  }
+  if (store.country) {
+    store.country = store.country.toUpperCase();
+    if (!SUPPORTED_COUNTRIES.includes(store.country)) {
+      errors.push(`country "${store.country}" is not supported (one of ${SUPPORTED_COUNTRIES.join(', ')})`);
+    }
+  }
+  if (store.delivery_providers) {
+    try {
+      store.delivery_providers = parseProviderList(store.delivery_providers).join(',') || undefined;
+    } catch (error: any) {
+      errors.push(`delivery_providers: ${error.message}`);
+    }
+  }
+  const doordashFields = [store.doordash_developer_id, store.doordash_key_id, store.doordash_signing_secret];
+  if (doordashFields.some(Boolean) && !doordashFields.every(Boolean)) {
+    errors.push('doordash_developer_id, doordash_key_id and doordash_signing_secret must be set together');
+  }
+  if (!!store.doordash_business_id !== !!store.doordash_store_id) {
+    errors.push('doordash_business_id and doordash_store_id must be set together');
+  }
+
+  return errors.length > 0 ? { errors } : { store, errors };
+}
+
+/**
+ * Store as returned by the API, with credentials replaced
+ */
+export function redactStore(store: Store): Store {
+  const result: any = { ...store };
+  for (const field of SECRET_FIELDS) {
+    if (result[field]) {
+      result[field] = REDACTED;
+    }
+  }
+  result.has_doordash_credentials = !!(store.doordash_developer_id && store.doordash_key_id && store.doordash_signing_secret);
+  return result;
+}
+
+/**
+ * Cached view of the stores table.
+ * Lookups are synchronous so they can run inside request handlers; refresh() reloads when the cache is stale.
+ */
+export class StoreRegistry {
+  private database: IDatabase;
+  private cacheTtlMs: number;
+  private stores: Store[] = [];
+  private loadedAt: number = 0;
+  private doorDashClients = new Map<string, { fingerprint: string; client: DoorDashClient }>();
+  private doorDashApiUrl?: string;
+
+  constructor(database: IDatabase, cacheTtlMs: number = 30000, doorDashApiUrl?: string) {
+    this.database = database;
+    this.cacheTtlMs = cacheTtlMs;
+    this.doorDashApiUrl = doorDashApiUrl;
+  }
+
+  private async handleAsync<T>(result: T | Promise<T>): Promise<T> {
+    return result instanceof Promise ? await result : result;
+  }
+
+  /**
+   * Reload stores from the database if the cache is older than the TTL (or always with force)
+   */
+  async refresh(force: boolean = false): Promise<void> {
+    if (!force && Date.now() - this.loadedAt < this.cacheTtlMs) {
+      return;
+    }
+    this.stores = await this.handleAsync(this.database.getStores());
+    this.loadedAt = Date.now();
+  }
+
+  all(): Store[] {
+    return this.stores;
+  }
+
+  get(storeId?: string | null): Store | undefined {
+    if (!storeId) return undefined;
+    return this.stores.find(store => store.store_id === String(storeId));
+  }
+
+  findByWebhookPath(slug: string): Store | undefined {
+    return this.stores.find(store => store.webhook_path === slug) || this.get(slug);
+  }
+
+  /**
+   * Webhook keys accepted for a store (its GloriaFood restaurant and master keys)
+   */
+  webhookKeys(storeId: string): string[] {
+    const store = this.get(storeId);
+    return [store?.gloriafood_api_key, store?.gloriafood_master_key].filter((key): key is string => !!key);
+  }
+
+  /**
+   * DoorDash client for a store's own credentials, or undefined if it has none
+   */
+  doorDashClientFor(store?: Store): DoorDashClient | undefined {
+    if (!store || !store.doordash_developer_id || !store.doordash_key_id || !store.doordash_signing_secret) {
+      return undefined;
+    }
+    const fingerprint = [store.doordash_developer_id, store.doordash_key_id, store.doordash_signing_secret, store.doordash_merchant_id].join(':');
+    const cached = this.doorDashClients.get(store.store_id);
+    if (cached && cached.fingerprint === fingerprint) {
+      return cached.client;
+    }
+    const client = new DoorDashClient({
+      developerId: store.doordash_developer_id,
+      keyId: store.doordash_key_id,
+      signingSecret: store.doordash_signing_secret,
+      merchantId: store.doordash_merchant_id,
+      apiUrl: this.doorDashApiUrl,
+    });
+    this.doorDashClients.set(store.store_id, { fingerprint, client });
+    return client;
+  }
+
+  /**
+   * Circuit breaker state of the per-store DoorDash clients created so far
+   */
+  doorDashCircuits(): { [storeId: string]: CircuitSnapshot } {
+    const circuits: { [storeId: string]: CircuitSnapshot } = {};
+    this.doorDashClients.forEach(({ client }, storeId) => {
+      circuits[storeId] = client.getCircuitState();
+    });
+    return circuits;
+  }
+
+  /**
+   * Use the store's configured pickup address and phone instead of what the order carries. A store provisioned
+   * on DoorDash is referred to by its business and store IDs, and DoorDash uses the address and phone it has
+   * (not in the sandbox, where the provisioned IDs do not exist).
+   */
+  applyPickupDetails(payload: DoorDashDriveDelivery, store?: Store, useDoorDashStore: boolean = true): DoorDashDriveDelivery {
+    if (!store) return payload;
+    if (useDoorDashStore && store.doordash_business_id && store.doordash_store_id) {
+      const { pickup_address, pickup_phone_number, pickup_business_name, ...rest } = payload;
+      return {
+        ...rest,
+        pickup_external_business_id: store.doordash_business_id,
+        pickup_external_store_id: store.doordash_store_id,
+      };
+    }
+    return {
+      ...payload,
+      pickup_address: store.pickup_address || payload.pickup_address,
+      pickup_phone_number: store.pickup_phone || payload.pickup_phone_number,
+      pickup_business_name: payload.pickup_business_name || store.name,
+    };
+  }
+}
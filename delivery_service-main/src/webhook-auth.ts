@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+
+export type WebhookAuthMode = 'off' | 'log' | 'enforce';
+
+export interface WebhookAuthConfig {
+  mode: WebhookAuthMode;
+  // Keys accepted for every store (GLORIAFOOD_API_KEY, GLORIAFOOD_MASTER_KEY, WEBHOOK_API_KEYS)
+  keys: string[];
+  // Keys accepted only for webhooks belonging to a given restaurant/store ID
+  storeKeys: { [storeId: string]: string[] };
+}
+
+export interface WebhookAuthRequest {
+  headers: { [key: string]: string | string[] | undefined };
+  body?: any;
+  query?: any;
+}
+
+export interface WebhookAuthResult {
+  valid: boolean;
+  // True when the request should be rejected (only in enforce mode)
+  reject: boolean;
+  mode: WebhookAuthMode;
+  storeId?: string;
+  // True when only a store's own key matched; the request may then only carry orders for storeId
+  storeScoped?: boolean;
+  reason?: string;
+}
+
+/**
+ * Parse a list of keys separated by commas, pipes or whitespace
+ */
+function parseKeyList(raw?: string): string[] {
+  return (raw || '')
+    .split(/[,|\s]+/)
+    .map(key => key.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse per-store keys from WEBHOOK_STORE_KEYS.
+ * Accepts JSON ({"store1": ["key1", "key2"]}) or "store1=key1|key2;store2=key3".
+ */
+function parseStoreKeys(raw?: string): { [storeId: string]: string[] } {
+  const result: { [storeId: string]: string[] } = {};
+  const value = (raw || '').trim();
+  if (!value) return result;
+
+  if (value.startsWith('{')) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(value);
+    } catch (error: any) {
+      throw new Error(`WEBHOOK_STORE_KEYS is not valid JSON (${error.message}); use {"store1": ["key1"]} or store1=key1|key2;store2=key3`);
+    }
+    for (const storeId of Object.keys(parsed)) {
+      const keys = Array.isArray(parsed[storeId]) ? parsed[storeId] : [parsed[storeId]];
+      result[storeId] = keys.map((key: any) => String(key).trim()).filter(Boolean);
+    }
+    return result;
+  }
+
+  for (const entry of value.split(';')) {
+    const [storeId, keys] = entry.split('=');
+    if (storeId?.trim() && keys) {
+      result[storeId.trim()] = parseKeyList(keys);
+    }
+  }
+  return result;
+}
+
+/**
+ * Build webhook auth configuration from environment variables
+ */
+export function loadWebhookAuthConfig(apiKey?: string, masterKey?: string): WebhookAuthConfig {
+  const rawMode = (process.env.WEBHOOK_AUTH_MODE || 'enforce').trim().toLowerCase();
+  const mode: WebhookAuthMode =
+    rawMode === 'off' || rawMode === 'none' || rawMode === 'disabled' ? 'off' :
+    rawMode === 'log' || rawMode === 'log-only' || rawMode === 'log_only' ? 'log' :
+    'enforce';
+
+  const keys = [apiKey, masterKey, ...parseKeyList(process.env.WEBHOOK_API_KEYS)]
+    .filter((key): key is string => !!key && key.trim().length > 0)
+    .map(key => key.trim());
+
+  return {
+    mode,
+    keys: Array.from(new Set(keys)),
+    storeKeys: parseStoreKeys(process.env.WEBHOOK_STORE_KEYS),
+  };
+}
+
+/**
+ * Compare two secrets in constant time.
+ * Both values are hashed first so the comparison does not leak their lengths.
+ */
+export function safeCompare(provided: string, expected: string): boolean {
+  const a = crypto.createHash('sha256').update(provided).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+export class WebhookAuthenticator {
+  private config: WebhookAuthConfig;
+  // Extra per-store keys from outside the env config (e.g. the stores registry)
+  private storeKeyLookup?: (storeId: string) => string[];
+
+  constructor(config: WebhookAuthConfig, storeKeyLookup?: (storeId: string) => string[]) {
+    this.config = config;
+    this.storeKeyLookup = storeKeyLookup;
+  }
+
+  get mode(): WebhookAuthMode {
+    return this.config.mode;
+  }
+
+  /**
+   * Collect every credential the caller supplied (headers, body and ?token=)
+   */
+  private extractCredentials(req: WebhookAuthRequest): string[] {
+    const header = (name: string): string | undefined => {
+      const value = req.headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+
+    const candidates = [
+      header('authorization')?.replace(/^Bearer\s+/i, ''),
+      header('x-api-key'),
+      header('x-master-key'),
+      header('master-key'),
+      req.body?.api_key,
+      req.body?.master_key,
+      req.query?.token,
+    ];
+
+    return candidates
+      .filter(value => typeof value === 'string' && value.trim().length > 0)
+      .map(value => String(value).trim());
+  }
+
+  /**
+   * Find the restaurant/store ID a webhook payload belongs to
+   */
+  private extractStoreId(body: any): string | undefined {
+    if (!body || typeof body !== 'object') return undefined;
+    const order = body.order || body.data?.order || (Array.isArray(body) ? body[0] : undefined) || body.orders?.[0] || body;
+    const storeId = order?.restaurant_id ?? order?.store_id ?? body.restaurant_id ?? body.store_id;
+    return storeId !== undefined && storeId !== null ? String(storeId) : undefined;
+  }
+
+  /**
+   * Check the caller's credentials. routedStoreId (from a per-store webhook path) takes precedence
+   * over the restaurant ID found in the payload.
+   */
+  authenticate(req: WebhookAuthRequest, routedStoreId?: string): WebhookAuthResult {
+    const mode = this.config.mode;
+    const storeId = routedStoreId || this.extractStoreId(req.body);
+
+    if (mode === 'off') {
+      return { valid: true, reject: false, mode, storeId };
+    }
+
+    const storeKeys = [
+      ...((storeId && this.config.storeKeys[storeId]) || []),
+      ...((storeId && this.storeKeyLookup?.(storeId)) || []),
+    ];
+    const accepted = [...this.config.keys, ...storeKeys];
+    if (accepted.length === 0) {
+      // Nothing to compare against - treat as misconfiguration rather than letting everything through
+      return { valid: false, reject: mode === 'enforce', mode, storeId, reason: 'No webhook keys configured' };
+    }
+
+    const credentials = this.extractCredentials(req);
+    if (credentials.length === 0) {
+      return { valid: false, reject: mode === 'enforce', mode, storeId, reason: 'Missing credentials' };
+    }
+
+    // Check every credential against every key so timing does not depend on which one matched
+    let matchedGlobal = false;
+    let matchedStore = false;
+    for (const credential of credentials) {
+      for (const key of this.config.keys) {
+        if (safeCompare(credential, key)) {
+          matchedGlobal = true;
+        }
+      }
+      for (const key of storeKeys) {
+        if (safeCompare(credential, key)) {
+          matchedStore = true;
+        }
+      }
+    }
+
+    if (matchedGlobal || matchedStore) {
+      return { valid: true, reject: false, mode, storeId, storeScoped: !matchedGlobal };
+    }
+    return { valid: false, reject: mode === 'enforce', mode, storeId, reason: 'Invalid credentials' };
+  }
+}
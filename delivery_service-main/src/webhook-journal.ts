@@ -0,0 +1,84 @@
+import * as querystring from 'querystring';
+import { WebhookJournalEntry } from './database';
+
+const REDACTED = '[REDACTED]';
+
+// Headers that may carry credentials and must never be written to the journal
+const SECRET_HEADERS = [
+  'authorization',
+  'x-api-key',
+  'x-master-key',
+  'master-key',
+  'x-admin-key',
+  'cookie',
+  'proxy-authorization',
+];
+
+// Body/query fields that carry credentials
+const SECRET_FIELDS = ['api_key', 'master_key', 'token'];
+
+/**
+ * Copy request headers with credential values replaced
+ */
+export function redactHeaders(headers: { [key: string]: any }): { [key: string]: any } {
+  const result: { [key: string]: any } = {};
+  for (const name of Object.keys(headers || {})) {
+    result[name] = SECRET_HEADERS.includes(name.toLowerCase()) ? REDACTED : headers[name];
+  }
+  return result;
+}
+
+/**
+ * Copy query parameters with credential values replaced
+ */
+export function redactQuery(query: { [key: string]: any }): { [key: string]: any } {
+  const result: { [key: string]: any } = {};
+  for (const name of Object.keys(query || {})) {
+    result[name] = SECRET_FIELDS.includes(name.toLowerCase()) ? REDACTED : query[name];
+  }
+  return result;
+}
+
+/**
+ * Replace credential fields inside a raw JSON or form-encoded body.
+ * The rest of the body is left byte-for-byte intact so it can be replayed.
+ */
+export function redactRawBody(raw: string): string {
+  let result = raw;
+  for (const field of SECRET_FIELDS) {
+    result = result
+      .replace(new RegExp(`("${field}"\\s*:\\s*)"(?:[^"\\\\]|\\\\.)*"`, 'g'), `$1"${REDACTED}"`)
+      .replace(new RegExp(`(^|&)(${field}=)[^&]*`, 'g'), `$1$2${encodeURIComponent(REDACTED)}`);
+  }
+  return result;
+}
+
+/**
+ * Rebuild the parsed request body and query of a journal entry for replay
+ */
+export function parseJournalEntry(entry: WebhookJournalEntry): { body: any; query: any } {
+  const contentType = (entry.content_type || '').toLowerCase();
+  const raw = entry.raw_body || '';
+  let body: any = {};
+
+  if (raw) {
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      body = querystring.parse(raw);
+    } else {
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        body = raw;
+      }
+    }
+  }
+
+  let query: any = {};
+  try {
+    query = entry.query_params ? JSON.parse(entry.query_params) : {};
+  } catch {
+    query = {};
+  }
+
+  return { body, query };
+}
@@ -1,29 +1,127 @@
 import express, { Request, Response } from 'express';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
-import { IDatabase, DatabaseFactory, Order } from './database-factory';
-import { GloriaFoodOrder } from './gloriafood-client';
-import { DoorDashClient } from './doordash-client';
+import { IDatabase, DatabaseFactory, Order, DispatchJob, Store, DeliveryCostRecord } from './database-factory';
+import { GloriaFoodOrder, GloriaFoodPollResponse, GLORIAFOOD_POLL_PATH } from './gloriafood-client';
+import { DoorDashClient, DoorDashDriveDelivery, buildDriveDelivery } from './doordash-client';
+import { DoorDashApiError, CircuitSnapshot } from './doordash-retry';
+import { WebhookAuthConfig, WebhookAuthenticator, loadWebhookAuthConfig, safeCompare } from './webhook-auth';
+import { redactHeaders, redactQuery, redactRawBody, parseJournalEntry } from './webhook-journal';
+import { fingerprintOrderEvent, createLockOwner } from './idempotency';
+import { DispatchQueue, DatabaseDispatchQueue, DispatchWorkerPool, DispatchJobResult } from './dispatch-queue';
+import { editableOrderFields, applyOrderEdits, mergeOrderEdits, withOrderEdits } from './dispatch-dead-letters';
+import { MenuCatalogService, buildMenuSources } from './menu-catalog';
+import { StoreRegistry, buildStore, redactStore } from './store-registry';
+import { QuotePolicy, loadQuotePolicy, evaluateQuote } from './quote-policy';
+import { parseDoorDashEvent, verifyDoorDashWebhookAuth, TERMINAL_DELIVERY_STATUSES } from './delivery-events';
+import { sendAlert } from './alerts';
+import { DeliveryStatusPoller } from './delivery-status-poller';
+import { DeliveryReconciler, parseReconciliationRange } from './delivery-reconciliation';
+import { doorDashCosts, customerDeliveryFee, buildDeliveryCostReport, DELIVERY_COST_REPORT_LIMIT } from './delivery-costs';
+import { DeliveryChanges, updatableDeliveryFields, diffDeliveryFields } from './delivery-updates';
+import { getOrderSchedule, formatOrderTime } from './order-schedule';
+import { DispatchRulesEngine, DispatchRulesFile, loadDispatchRulesFile, storeDispatchDisabledDecision, validateRules } from './dispatch-rules';
+import { resolveDropoff } from './address';
+import { isCancelledStatus } from './order-status';
+import { provisionStore, provisioningPlan } from './doordash-provisioning';
+import {
+  DeliveryProvider, DeliveryQuote, DeliveryResult, DoorDashDeliveryProvider, InHouseDeliveryProvider, InHouseDeliveryConfig,
+  DEFAULT_DELIVERY_PROVIDER, IN_HOUSE_DELIVERY_STATUSES, parseProviderList, loadInHouseDeliveryConfig,
+} from './delivery-providers';
+import {
+  DoorDashEnvironment, DoorDashEnvironmentConfig, DoorDashCredentials, loadDoorDashEnvironmentConfig, doorDashEnvironmentError,
+  environmentForOrder, recordedEnvironment,
+} from './doordash-environments';
 import chalk from 'chalk';
 
 // Load environment variables
 dotenv.config();
 
-interface WebhookConfig {
+export interface WebhookConfig {
   port: number;
   webhookPath: string;
   apiKey: string;
   storeId: string;
+  apiUrl?: string;
   masterKey?: string;
   protocolVersion: string;
   databasePath: string;
+  auth: WebhookAuthConfig;
+  adminApiKey?: string;
+  orderLockTtlMs: number;
+  orderLockWaitMs: number;
+  dispatchClaimTtlMs: number;
+  dispatchConcurrency: number;
+  dispatchPollIntervalMs: number;
+  dispatchMaxRetries: number;
+  dispatchRetryBaseMs: number;
+  menuSyncIntervalMs: number;
+  quotePolicy: QuotePolicy;
+  doorDashWebhookPath: string;
+  doorDashWebhookAuth?: string;
+  statusPollIntervalMs: number;
+  statusPollBaseMs: number;
+  statusPollMaxMs: number;
+  statusPollMaxAgeHours: number;
+  reconcileIntervalMs: number; // scheduled DoorDash reconciliation (0 disables it)
+  reconcileLookbackHours: number;
+  reconcileRepair: boolean;
+  scheduleLeadMinutes: number; // scheduled orders go to DoorDash this long before they are due
+  dispatchRules: DispatchRulesFile;
+  defaultCountry: string; // ISO 3166 code for stores without a country
+  deliveryProviders: string[]; // priority order for stores without their own delivery_providers
+  inHouseDelivery: InHouseDeliveryConfig;
+  doorDash: DoorDashEnvironmentConfig; // sandbox and production credentials, default environment and production guard
+}
+
+// Queue priorities: first dispatch of a new order goes ahead of re-dispatching an updated one
+const DISPATCH_PRIORITY_NEW = 10;
+const DISPATCH_PRIORITY_UPDATE = 5;
+
+// Journal statuses of requests rejected when received: replaying them needs force
+const UNREPLAYABLE_JOURNAL_STATUSES = ['unauthorized', 'invalid'];
+
+function parseRawData(order?: Order | null): any {
+  try {
+    return JSON.parse(order?.raw_data || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export interface OrderProcessResult {
+  order_id: string;
+  action: 'created' | 'updated' | 'duplicate' | 'failed';
+  doordash: 'sent' | 'queued' | 'skipped' | 'duplicate' | 'failed' | 'not_configured' | 'quote_rejected' | 'cancelled' | 'updated' | 'review' | 'scheduled';
+  doordash_delivery_id?: string;
+  dispatch_job_id?: number;
+  dispatch_rule?: string; // rule that kept the order from being dispatched
+  error?: string;
+}
+
+export interface WebhookProcessResult {
+  httpStatus: number;
+  outcome: 'processed' | 'partial' | 'invalid' | 'failed';
+  error?: string;
+  orderIds: string[];
+  body: any;
 }
 
 class GloriaFoodWebhookServer {
   private app: express.Application;
   private database: IDatabase;
   private config: WebhookConfig;
-  private doorDashClient?: DoorDashClient;
+  private doorDashClient?: DoorDashClient; // production
+  private doorDashSandboxClient?: DoorDashClient;
+  private authenticator: WebhookAuthenticator;
+  private dispatchQueue: DispatchQueue;
+  private dispatchWorkers: DispatchWorkerPool;
+  private menuCatalog: MenuCatalogService;
+  private stores: StoreRegistry;
+  private statusPoller: DeliveryStatusPoller;
+  private reconciler: DeliveryReconciler;
+  private dispatchRules: DispatchRulesEngine;
+  private inHouseDelivery: InHouseDeliveryProvider;
 
   constructor(config: WebhookConfig) {
     console.log(chalk.blue.bold('\n🔵 Starting GloriaFood Webhook Server...'));
@@ -32,6 +130,10 @@ class GloriaFoodWebhookServer {
     
     this.config = config;
     this.app = express();
+    this.authenticator = new WebhookAuthenticator(config.auth, storeId => this.stores.webhookKeys(storeId));
+    console.log(chalk.gray(`   Webhook auth mode: ${config.auth.mode} (${config.auth.keys.length} key(s), ${Object.keys(config.auth.storeKeys).length} store(s) with own keys)`));
+    const quotes = config.quotePolicy;
+    console.log(chalk.gray(`   DoorDash quotes: ${quotes.enabled ? `on (max fee: ${quotes.maxFeeCents ?? 'none'} cents, max pickup: ${quotes.maxPickupMinutes ?? 'none'} min, max dropoff: ${quotes.maxDropoffMinutes ?? 'none'} min)` : 'off'}`));
     
     // Initialize DoorDash client if configured
     console.log(chalk.blue('🔵 Initializing DoorDash client...'));
@@ -54,6 +156,53 @@ class GloriaFoodWebhookServer {
       console.error(chalk.red(`❌ Failed to create database: ${error.message}`));
       throw error;
     }
+
+    // DoorDash dispatch runs on background workers fed by a persistent queue
+    this.dispatchQueue = new DatabaseDispatchQueue(this.database);
+    this.dispatchWorkers = new DispatchWorkerPool(this.dispatchQueue, {
+      concurrency: config.dispatchConcurrency,
+      pollIntervalMs: config.dispatchPollIntervalMs,
+      visibilityTimeoutMs: config.dispatchClaimTtlMs,
+      maxRetries: config.dispatchMaxRetries,
+      retryBaseDelayMs: config.dispatchRetryBaseMs,
+    }, job => this.runDispatchJob(job));
+
+    // Registered stores: per-store keys, pickup details, DoorDash credentials and dispatch toggle
+    this.stores = new StoreRegistry(this.database, 30000, config.doorDash.production?.apiUrl);
+
+    // Deliveries by the stores' own drivers, for stores that list "inhouse" in their delivery providers
+    this.inHouseDelivery = new InHouseDeliveryProvider(this.database, config.inHouseDelivery);
+
+    // Dispatch rules: per-store rules from the database, else from DISPATCH_RULES_PATH
+    this.dispatchRules = new DispatchRulesEngine(this.database, config.dispatchRules);
+
+    // Status polling for deliveries that are still in progress (webhooks may not reach us)
+    this.statusPoller = new DeliveryStatusPoller(this.database, {
+      intervalMs: config.statusPollIntervalMs,
+      baseDelayMs: config.statusPollBaseMs,
+      maxDelayMs: config.statusPollMaxMs,
+      maxAgeHours: config.statusPollMaxAgeHours,
+      batchSize: 20,
+    }, order => this.doorDashClientForOrder(order));
+
+    // Reconciliation of our orders with DoorDash's deliveries (missed webhooks, unrecorded deliveries, missed cancellations)
+    this.reconciler = new DeliveryReconciler(this.database, {
+      intervalMs: config.reconcileIntervalMs,
+      lookbackHours: config.reconcileLookbackHours,
+      repair: config.reconcileRepair,
+      pageSize: 500,
+    }, order => this.doorDashClientForOrder(order));
+
+    // Menu catalog, synced from GloriaFood with each store's restaurant key
+    this.menuCatalog = new MenuCatalogService(this.database, async () => {
+      await this.stores.refresh();
+      return buildMenuSources(this.stores.all(), {
+        apiKey: config.apiKey,
+        storeId: config.storeId,
+        apiUrl: config.apiUrl,
+        protocolVersion: config.protocolVersion,
+      });
+    }, config.storeId);
     
     // Setup middleware first (body parsing), then routes
     console.log(chalk.blue('🔵 Setting up middleware...'));
@@ -72,90 +221,250 @@ class GloriaFoodWebhookServer {
   }
 
   /**
-   * Initialize DoorDash client if credentials are provided
+   * Initialize the DoorDash sandbox and production clients for the credentials that are provided
    */
   private initializeDoorDash(): void {
-    const developerId = process.env.DOORDASH_DEVELOPER_ID;
-    const keyId = process.env.DOORDASH_KEY_ID;
-    const signingSecret = process.env.DOORDASH_SIGNING_SECRET;
-    const merchantId = process.env.DOORDASH_MERCHANT_ID;
-    const sandbox = process.env.DOORDASH_SANDBOX;
+    const environments = this.config.doorDash;
 
     // Debug: Log what we found (without showing actual secrets)
     console.log(chalk.blue('\n🔍 DoorDash Credentials Check:'));
-    console.log(chalk.gray(`   DOORDASH_DEVELOPER_ID: ${developerId ? '✅ SET (' + developerId.substring(0, 4) + '...)' : '❌ NOT SET'}`));
-    console.log(chalk.gray(`   DOORDASH_KEY_ID: ${keyId ? '✅ SET (' + keyId.substring(0, 4) + '...)' : '❌ NOT SET'}`));
-    console.log(chalk.gray(`   DOORDASH_SIGNING_SECRET: ${signingSecret ? '✅ SET (' + signingSecret.substring(0, 4) + '...)' : '❌ NOT SET'}`));
-    console.log(chalk.gray(`   DOORDASH_MERCHANT_ID: ${merchantId ? '✅ SET' : '⚠️  NOT SET (optional)'}`));
-    console.log(chalk.gray(`   DOORDASH_SANDBOX: ${sandbox || 'NOT SET'}`));
+    console.log(chalk.gray(`   Deployment: ${environments.deployment}${environments.productionDeployment ? '' : ' (not production)'}`));
+    console.log(chalk.gray(`   Default environment: ${environments.defaultEnvironment.toUpperCase()}`));
+    this.logDoorDashCredentials('Sandbox', environments.sandbox);
+    this.logDoorDashCredentials('Production', environments.production);
 
-    if (developerId && keyId && signingSecret) {
-      try {
-        this.doorDashClient = new DoorDashClient({
-          developerId,
-          keyId,
-          signingSecret,
-          merchantId: merchantId,
-          apiUrl: process.env.DOORDASH_API_URL,
-          isSandbox: sandbox === 'true',
-        });
-        console.log(chalk.green('✅ DoorDash API client initialized successfully'));
-        console.log(chalk.gray(`   Mode: ${sandbox === 'true' ? 'SANDBOX' : 'PRODUCTION'}`));
-      } catch (error: any) {
-        console.warn(chalk.yellow(`⚠️  Failed to initialize DoorDash client: ${error.message}`));
-        console.warn(chalk.yellow(`   Error stack: ${error.stack}`));
-      }
-    } else {
+    this.doorDashSandboxClient = this.createDoorDashClient('sandbox', environments.sandbox);
+    this.doorDashClient = this.createDoorDashClient('production', environments.production);
+
+    if (!this.doorDashSandboxClient && !this.doorDashClient) {
       console.log(chalk.yellow('⚠️  DoorDash integration disabled (missing required credentials)'));
-      console.log(chalk.gray('   Required: DOORDASH_DEVELOPER_ID, DOORDASH_KEY_ID, DOORDASH_SIGNING_SECRET'));
+      console.log(chalk.gray('   Required: DOORDASH_DEVELOPER_ID, DOORDASH_KEY_ID, DOORDASH_SIGNING_SECRET (production)'));
+      console.log(chalk.gray('   or DOORDASH_SANDBOX_DEVELOPER_ID, DOORDASH_SANDBOX_KEY_ID, DOORDASH_SANDBOX_SIGNING_SECRET (sandbox)'));
+    }
+    if (!environments.productionDeployment && environments.allowProductionDispatch) {
+      console.warn(chalk.yellow(`⚠️  DOORDASH_ALLOW_PRODUCTION_DISPATCH is on: real Dashers can be sent from this ${environments.deployment} deployment`));
+    } else if (!environments.productionDeployment) {
+      console.log(chalk.gray(`   Production dispatch is refused in a ${environments.deployment} deployment`));
+    }
+  }
+
+  private logDoorDashCredentials(label: string, credentials?: DoorDashCredentials): void {
+    if (!credentials) {
+      console.log(chalk.gray(`   ${label}: ❌ NOT SET`));
+      return;
+    }
+    console.log(chalk.gray(`   ${label}: ✅ SET (developer ${credentials.developerId.substring(0, 4)}..., key ${credentials.keyId.substring(0, 4)}...${credentials.merchantId ? ', merchant' : ''})`));
+  }
+
+  private createDoorDashClient(environment: DoorDashEnvironment, credentials?: DoorDashCredentials): DoorDashClient | undefined {
+    if (!credentials) {
+      return undefined;
+    }
+    try {
+      const client = new DoorDashClient({ ...credentials, environment });
+      console.log(chalk.green(`✅ DoorDash ${environment} client initialized successfully`));
+      return client;
+    } catch (error: any) {
+      console.warn(chalk.yellow(`⚠️  Failed to initialize DoorDash ${environment} client: ${error.message}`));
+      console.warn(chalk.yellow(`   Error stack: ${error.stack}`));
+      return undefined;
+    }
+  }
+
+  /**
+   * DoorDash client for a store in an environment. Production: the store's own credentials if registered with
+   * any, otherwise the env credentials. Sandbox: always the sandbox credentials.
+   */
+  private doorDashClientFor(store?: Store, environment: DoorDashEnvironment = 'production'): DoorDashClient | undefined {
+    if (environment === 'sandbox') {
+      return this.doorDashSandboxClient;
+    }
+    return this.stores.doorDashClientFor(store) || this.doorDashClient;
+  }
+
+  private environmentFor(orderData: any): DoorDashEnvironment {
+    return environmentForOrder(orderData, this.config.doorDash);
+  }
+
+  private environmentOfOrder(order: Order, store?: Store): DoorDashEnvironment {
+    return recordedEnvironment(order.doordash_environment, this.config.doorDash, !!this.stores.doorDashClientFor(store));
+  }
+
+  /**
+   * DoorDash client that has (or would get) an order's delivery: the recorded environment once it was sent
+   */
+  private doorDashClientForOrder(order: Order): DoorDashClient | undefined {
+    const store = this.stores.get(order.store_id);
+    const environment = order.sent_to_doordash ? this.environmentOfOrder(order, store) : this.environmentFor(parseRawData(order));
+    return this.doorDashClientFor(store, environment);
+  }
+
+  /**
+   * Why an order cannot go to DoorDash in an environment (production guard, missing credentials), if it cannot
+   */
+  private doorDashEnvironmentError(environment: DoorDashEnvironment, store?: Store): string | undefined {
+    return doorDashEnvironmentError(environment, this.config.doorDash, !!this.doorDashClientFor(store, environment));
+  }
+
+  /**
+   * What processOrder would decide for a saved order right now: the same checks, then the dispatch rules
+   */
+  private async dryRunDispatch(order: Order, draftRules?: any[]): Promise<{ would_dispatch: boolean; reason: string; decision?: any; facts?: any; providers?: string[]; environment?: DoorDashEnvironment }> {
+    const orderData = parseRawData(order);
+    const orderType = (orderData.type || orderData.order_type || '').toString().toLowerCase();
+    await this.stores.refresh();
+    const store = this.stores.get(order.store_id);
+    if (orderType !== 'delivery') {
+      return { would_dispatch: false, reason: 'Not a delivery order' };
+    }
+    if (order.sent_to_doordash) {
+      return { would_dispatch: false, reason: 'Already sent to DoorDash' };
     }
+    if (isCancelledStatus(order.status)) {
+      return { would_dispatch: false, reason: `Order was ${order.status}` };
+    }
+    if (store && !store.dispatch_enabled) {
+      const decision = storeDispatchDisabledDecision(store.store_id);
+      return { would_dispatch: false, reason: decision.reason, decision };
+    }
+    const { decision, facts } = await this.dispatchRules.evaluate(orderData, order.status, order.store_id, store?.timezone, draftRules);
+    const environment = this.environmentFor(orderData);
+    const environmentError = this.doorDashEnvironmentError(environment, store);
+    const providers = this.providerNamesFor(store)
+      .filter(name => name !== 'doordash' || !environmentError)
+      .filter(name => this.deliveryProvider(name, store, environment));
+    const dropoff = resolveDropoff(orderData, this.countryFor(store));
+    if (decision.action === 'dispatch' && dropoff.errors.length > 0) {
+      return { would_dispatch: false, reason: `Cannot dispatch order: ${dropoff.errors.join('; ')}`, decision, facts, providers, environment };
+    }
+    if (decision.action === 'dispatch' && providers.length === 0) {
+      const reason = environmentError && this.providerNamesFor(store).includes('doordash') ? environmentError : 'No delivery provider configured';
+      return { would_dispatch: false, reason, decision, facts, providers, environment };
+    }
+    return { would_dispatch: decision.action === 'dispatch', reason: decision.reason, decision, facts, providers, environment };
   }
 
   /**
-   * Send order to DoorDash (if enabled)
+   * A delivery provider by name, or undefined when it cannot be used (DoorDash without credentials for the environment)
    */
-  private async sendOrderToDoorDash(orderData: any): Promise<{ id?: string; external_delivery_id?: string; status?: string; tracking_url?: string } | null> {
-    if (!this.doorDashClient) {
-      console.log(chalk.yellow('⚠️  DoorDash client not initialized'));
-      return null; // DoorDash not configured
+  private deliveryProvider(name: string, store?: Store, environment: DoorDashEnvironment = this.config.doorDash.defaultEnvironment): DeliveryProvider | undefined {
+    if (name === 'inhouse') {
+      return this.inHouseDelivery;
     }
+    const client = this.doorDashClientFor(store, environment);
+    return client ? new DoorDashDeliveryProvider(client) : undefined;
+  }
+
+  /**
+   * Names of a store's delivery providers in priority order: its own delivery_providers, else DELIVERY_PROVIDERS
+   */
+  private providerNamesFor(store?: Store): string[] {
+    return store?.delivery_providers ? parseProviderList(store.delivery_providers) : this.config.deliveryProviders;
+  }
+
+  /**
+   * Delivery providers of a store in priority order: its own delivery_providers, else DELIVERY_PROVIDERS.
+   * Providers that cannot be used are left out.
+   */
+  private deliveryProvidersFor(store?: Store, environment?: DoorDashEnvironment): DeliveryProvider[] {
+    return this.providerNamesFor(store)
+      .map(name => this.deliveryProvider(name, store, environment))
+      .filter((provider): provider is DeliveryProvider => !!provider);
+  }
+
+  /**
+   * Provider an order was sent to
+   */
+  private providerForOrder(order: Order, store?: Store): DeliveryProvider | undefined {
+    return this.deliveryProvider(order.delivery_provider || DEFAULT_DELIVERY_PROVIDER, store, this.environmentOfOrder(order, store));
+  }
+
+  /**
+   * Country for customer addresses and phone numbers of a store's orders
+   */
+  private countryFor(store?: Store): string {
+    return store?.country || this.config.defaultCountry;
+  }
+
+  /**
+   * Scheduled orders still waiting for their dispatch time (cancelled ones are left out)
+   */
+  private async scheduledOrders(storeId?: string): Promise<Order[]> {
+    const orders = await this.handleAsync(this.database.getScheduledOrders(Date.now(), 500, storeId));
+    return orders.filter((order: Order) => !isCancelledStatus(order.status));
+  }
+
+  /**
+   * Circuit breaker state of the env DoorDash clients and of every per-store client in use
+   */
+  private doorDashCircuits(): { default?: CircuitSnapshot; sandbox?: CircuitSnapshot; stores: { [storeId: string]: CircuitSnapshot } } {
+    return {
+      default: this.doorDashClient?.getCircuitState(),
+      sandbox: this.doorDashSandboxClient?.getCircuitState(),
+      stores: this.stores.doorDashCircuits(),
+    };
+  }
 
-    // Check if order type is delivery (DoorDash is for delivery only)
+  /**
+   * Send an order to one delivery provider. DoorDash quotes are checked against the quote policy first and
+   * only booked within its limits. Provider errors are thrown (DoorDashApiError for DoorDash), so the caller
+   * can tell transient failures from refusals.
+   */
+  private async sendToProvider(orderData: any, provider: DeliveryProvider, store?: Store): Promise<{ id?: string; external_delivery_id?: string; status?: string; tracking_url?: string; quote_rejected?: string; payload?: DoorDashDriveDelivery; costs?: DeliveryCostRecord } | null> {
+    // Check if order type is delivery (providers are for delivery only)
     const orderType = orderData.type || orderData.order_type || '';
     if (orderType.toLowerCase() !== 'delivery') {
-      console.log(chalk.gray('ℹ️  Skipping DoorDash - order type is not delivery'));
+      console.log(chalk.gray('ℹ️  Skipping dispatch - order type is not delivery'));
       return null;
     }
 
-    try {
-      // Convert to DoorDash Drive delivery payload
-      const drivePayload = this.doorDashClient.convertGloriaFoodToDrive(orderData);
-      console.log(chalk.blue(`🔍 DoorDash payload prepared, sending to API...`));
-
-      // Send to DoorDash Drive
-      const response = await this.doorDashClient.createDriveDelivery(drivePayload);
-      console.log(chalk.blue(`🔍 DoorDash API response received`));
-      console.log(chalk.blue(`🔍 Response ID: ${response.id || 'NONE'}`));
-      console.log(chalk.blue(`🔍 Response tracking_url: ${response.tracking_url || 'NONE'}`));
-      console.log(chalk.blue(`🔍 Response raw data keys: ${response.raw ? Object.keys(response.raw).join(', ') : 'NONE'}`));
-      
-      if (response.raw) {
-        console.log(chalk.gray(`   Raw response (first 500 chars): ${JSON.stringify(response.raw).substring(0, 500)}`));
-      }
+    // Convert to a Drive delivery payload, the format every provider takes. Lines linked to the menu catalog
+    // go out under their menu name.
+    const links = await this.handleAsync(this.database.getOrderItemLinks((orderData.id ?? orderData.order_id ?? '').toString()));
+    const itemNames: { [lineIndex: number]: string } = {};
+    links.forEach(link => { if (link.menu_name) itemNames[link.line_index] = link.menu_name; });
+    const drivePayload = this.stores.applyPickupDetails(buildDriveDelivery(orderData, { timezone: store?.timezone, country: this.countryFor(store), itemNames }), store, provider.environment !== 'sandbox');
+    console.log(chalk.blue(`🔍 Delivery payload prepared, sending to ${provider.label}...`));
 
-      return { 
-        id: response.id, 
-        external_delivery_id: response.external_delivery_id,
-        status: response.status, 
-        tracking_url: response.tracking_url 
-      };
-    } catch (error: any) {
-      // Log error but don't fail the webhook
-      console.error(chalk.red(`❌ Failed to send order to DoorDash: ${error.message}`));
-      console.error(chalk.red(`   Error details: ${error.stack || 'No stack trace'}`));
-      // Continue processing - don't throw
-      return null;
+    // Quote first and only book the delivery if the fee and ETAs are within limits
+    let quote: DeliveryQuote | undefined;
+    if (provider.name === 'doordash' && this.config.quotePolicy.enabled) {
+      quote = await provider.quote(drivePayload);
+      const decision = evaluateQuote(quote, this.config.quotePolicy);
+      console.log(chalk.blue(`🔍 DoorDash quote: fee ${quote.fee} ${quote.currency || ''}, pickup ${quote.pickup_time_estimated || 'N/A'}, dropoff ${quote.dropoff_time_estimated || 'N/A'}`));
+      await this.handleAsync(this.database.recordDoorDashQuote(drivePayload.external_delivery_id, {
+        fee: quote.fee,
+        currency: quote.currency,
+        pickup_eta: quote.pickup_time_estimated,
+        dropoff_eta: quote.dropoff_time_estimated,
+        status: decision.accepted ? 'accepted' : 'rejected',
+        reason: decision.reason,
+      }));
+      if (!decision.accepted) {
+        console.warn(chalk.yellow(`⚠️  DoorDash quote rejected: ${decision.reason}`));
+        return { external_delivery_id: quote.external_delivery_id, quote_rejected: decision.reason };
+      }
+    }
+    const response = await provider.create(drivePayload, quote);
+    console.log(chalk.blue(`🔍 ${provider.label} response received`));
+    console.log(chalk.blue(`🔍 Response ID: ${response.id || 'NONE'}`));
+    console.log(chalk.blue(`🔍 Response tracking_url: ${response.tracking_url || 'NONE'}`));
+    console.log(chalk.blue(`🔍 Response raw data keys: ${response.raw ? Object.keys(response.raw).join(', ') : 'NONE'}`));
+    
+    if (response.raw) {
+      console.log(chalk.gray(`   Raw response (first 500 chars): ${JSON.stringify(response.raw).substring(0, 500)}`));
     }
+
+    // What DoorDash charges; the tip we sent when the response leaves it out
+    const costs = doorDashCosts(response.raw);
+    return { 
+      id: response.id, 
+      external_delivery_id: response.external_delivery_id,
+      status: response.status, 
+      tracking_url: response.tracking_url,
+      payload: drivePayload,
+      costs: provider.name === 'doordash' ? { ...costs, tip: costs.tip ?? drivePayload.tip } : undefined,
+    };
   }
 
   private setupMiddleware(): void {
@@ -175,14 +484,21 @@ class GloriaFoodWebhookServer {
       console.log(chalk.yellow('⚠️  Public directory not found, dashboard may not be available'));
     }
     
+    // Keep the raw request body so the webhook journal stores exactly what was received
+    const keepRawBody = (req: any, res: any, buf: Buffer) => {
+      req.rawBody = buf.toString('utf8');
+    };
+
     // Parse JSON bodies
-    this.app.use(express.json());
+    this.app.use(express.json({ verify: keepRawBody }));
     // Also parse URL-encoded bodies (some webhooks use this)
-    this.app.use(express.urlencoded({ extended: true }));
+    this.app.use(express.urlencoded({ extended: true, verify: keepRawBody }));
+    // Any other content type on the webhook route is kept as text so it can still be journaled
+    this.app.use(this.config.webhookPath, express.text({ type: () => true, verify: keepRawBody }));
     
     // Request logging - minimal
     this.app.use((req, res, next) => {
-      if (req.method === 'POST' && req.path === this.config.webhookPath) {
+      if (req.method === 'POST' && (req.path === this.config.webhookPath || req.path.startsWith(`${this.config.webhookPath}/`))) {
         const timestamp = new Date().toISOString();
         console.log(chalk.cyan(`\n📨 [${timestamp}] POST ${req.path}`));
         console.log(chalk.yellow(`   🔔 WEBHOOK REQUEST DETECTED FROM GLORIAFOOD!`));
@@ -254,7 +570,9 @@ class GloriaFoodWebhookServer {
           webhook_url: `https://tekmaxllc.com${this.config.webhookPath}`,
           method: 'POST',
           content_type: 'application/json',
-          authentication: 'API Key or Master Key required',
+          authentication: this.config.auth.mode === 'off'
+            ? 'Disabled'
+            : 'API Key or Master Key required (Authorization, X-API-Key or X-Master-Key header)',
           timestamp: new Date().toISOString()
         },
         stats: {
@@ -265,259 +583,18 @@ class GloriaFoodWebhookServer {
     });
 
     // Webhook endpoint for receiving orders
-    this.app.post(this.config.webhookPath, async (req: Request, res: Response) => {
-      console.log(chalk.cyan('\n🔵 WEBHOOK ENDPOINT CALLED'));
-      try {
-        // Validate authentication if master key is provided
-        // Note: Some webhook providers may not send authentication, so we make it optional
-        if (this.config.masterKey || this.config.apiKey) {
-          const authHeader = req.headers['authorization'] || req.headers['x-api-key'];
-          const providedKey = authHeader?.toString().replace('Bearer ', '').trim();
-          
-          // Check multiple possible auth methods
-          const isValid = 
-            providedKey === this.config.apiKey ||
-            providedKey === this.config.masterKey ||
-            req.headers['x-master-key'] === this.config.masterKey ||
-            req.headers['master-key'] === this.config.masterKey ||
-            req.body?.api_key === this.config.apiKey ||
-            req.body?.master_key === this.config.masterKey ||
-            req.query?.token === this.config.apiKey;
-
-          // If authentication is expected but not provided, log warning but don't block
-          if (!isValid && (this.config.masterKey || this.config.apiKey)) {
-            // Silent authentication check - still process the order
-          }
-        }
-
-        // Extract order data from request
-        // Try body first, then query params, then raw body
-        let orderData = this.extractOrderData(req.body);
-        
-        // If body is empty, try query params
-        if (!orderData && Object.keys(req.query).length > 0) {
-          console.log(chalk.yellow('   ⚠️  Body is empty, trying query params...'));
-          orderData = this.extractOrderData(req.query);
-        }
-        
-        if (!orderData) {
-          console.warn(chalk.yellow('⚠ Invalid webhook payload - no order data found'));
-          console.log(chalk.gray('   Request body keys:'), Object.keys(req.body || {}));
-          console.log(chalk.gray('   Request query keys:'), Object.keys(req.query || {}));
-          console.log(chalk.gray('   Content-Type:'), req.headers['content-type'] || 'N/A');
-          console.log(chalk.gray('   Raw body (first 500 chars):'), JSON.stringify(req.body || {}).substring(0, 500));
-          
-          // Still return 200 to prevent retries, but log the issue
-          return res.status(200).json({ 
-            success: false, 
-            error: 'Invalid payload - no order data found',
-            received: {
-              hasBody: !!req.body,
-              bodyKeys: Object.keys(req.body || {}),
-              hasQuery: Object.keys(req.query || {}).length > 0,
-              queryKeys: Object.keys(req.query || {}),
-              contentType: req.headers['content-type'] || 'N/A'
-            }
-          });
-        }
-
-        // Log received order
-        const orderId = orderData.id || orderData.order_id || 'unknown';
-        console.log(chalk.green(`\n✅ Order data extracted successfully from GloriaFood: #${orderId}`));
-        console.log(chalk.green(`   ✅ Connected to GloriaFood - Order received!`));
-
-        // Determine if this is a new order BEFORE saving
-        const existingBefore = await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId.toString()));
-
-        // Store order in database (handle both sync SQLite and async MySQL)
-        console.log(chalk.blue(`💾 Saving order to database...`));
-        const savedOrder = await this.handleAsync(this.database.insertOrUpdateOrder(orderData));
-        console.log(chalk.blue(`💾 Database save result: ${savedOrder ? 'SUCCESS' : 'FAILED'}`));
-
-        if (savedOrder) {
-          const isNew = !existingBefore;
-          const newStatus = (orderData.status || orderData.order_status || '').toString().toLowerCase();
-          const prevStatus = (existingBefore?.status || '').toString().toLowerCase();
-          const becameAccepted = prevStatus !== 'accepted' && newStatus === 'accepted';
-          const wasNotSent = !(existingBefore as any)?.sent_to_doordash;
-          
-          // Check if this is a delivery order
-          const orderType = (orderData.type || orderData.order_type || '').toString().toLowerCase();
-          const isDeliveryOrder = orderType === 'delivery';
-          
-          if (isNew) {
-            await this.displayOrder(savedOrder, true, orderData);
-
-            // AUTOMATICALLY send to DoorDash for ALL new delivery orders (regardless of status)
-            if (isDeliveryOrder) {
-              console.log(chalk.cyan('\n🚚 Sending order to DoorDash...'));
-              await this.sendOrderToDoorDash(orderData).then(async (resp)=>{
-                console.log(chalk.blue(`🔍 DoorDash Response received: ${resp ? 'YES' : 'NO'}`));
-                if (resp) {
-                  console.log(chalk.blue(`🔍 Response ID: ${resp.id || 'NONE'}`));
-                  console.log(chalk.blue(`🔍 Response tracking_url: ${resp.tracking_url || 'NONE'}`));
-                  console.log(chalk.blue(`🔍 Response status: ${resp.status || 'NONE'}`));
-                }
-                
-                if (resp && resp.id) {
-                  console.log(chalk.green(`✅ Order sent to DoorDash successfully`));
-                  console.log(chalk.gray(`   DoorDash Delivery ID: ${resp.id}`));
-                  if (resp.external_delivery_id) {
-                    console.log(chalk.gray(`   External Delivery ID: ${resp.external_delivery_id}`));
-                  }
-                  if (resp.status) {
-                    console.log(chalk.gray(`   Status: ${resp.status}`));
-                  }
-                  // Always try to get tracking URL - fetch from DoorDash if not in response
-                  let trackingUrl = resp.tracking_url;
-                  console.log(chalk.blue(`🔍 Initial tracking URL: ${trackingUrl || 'NOT IN RESPONSE'}`));
-                  
-                  if (!trackingUrl && resp.id && this.doorDashClient) {
-                    console.log(chalk.yellow(`   ⏳ Tracking URL not in response, fetching from DoorDash API...`));
-                    // Wait a bit for DoorDash to generate the tracking URL
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                    try {
-                      console.log(chalk.blue(`🔍 Attempting to fetch status for ID: ${resp.id}`));
-                      const statusResp = await this.doorDashClient.getOrderStatus(resp.id);
-                      trackingUrl = statusResp.tracking_url;
-                      console.log(chalk.blue(`🔍 Status API response tracking_url: ${trackingUrl || 'NONE'}`));
-                    } catch (e: any) {
-                      console.log(chalk.yellow(`   ⚠️  First fetch attempt failed: ${e.message}`));
-                      // If first attempt fails, try once more after another delay
-                      await new Promise(resolve => setTimeout(resolve, 2000));
-                      try {
-                        console.log(chalk.blue(`🔍 Retrying status fetch for ID: ${resp.id}`));
-                        const statusResp = await this.doorDashClient.getOrderStatus(resp.id);
-                        trackingUrl = statusResp.tracking_url;
-                        console.log(chalk.blue(`🔍 Retry response tracking_url: ${trackingUrl || 'NONE'}`));
-                      } catch (e2: any) {
-                        console.log(chalk.yellow(`   ⚠️  Retry also failed: ${e2.message}`));
-                      }
-                    }
-                  }
-                  if (trackingUrl) {
-                    console.log(chalk.cyan(`   Tracking URL: ${trackingUrl}`));
-                  } else {
-                    console.log(chalk.yellow(`   ⚠️  Tracking URL not available yet (may be generated later by DoorDash)`));
-                  }
-                  
-                  // Mark as sent and store tracking URL if call succeeded
-                  if ((this.database as any).markOrderSentToDoorDash) {
-                    try { 
-                      await this.handleAsync((this.database as any).markOrderSentToDoorDash(orderId.toString(), resp.id, trackingUrl)); 
-                    } catch {}
-                  }
-                } else {
-                  console.log(chalk.yellow(`   ⚠️  DoorDash response missing ID: ${JSON.stringify(resp)}`));
-                }
-              }).catch((error: any)=>{
-                console.error(chalk.red(`❌ Failed to send order to DoorDash: ${error.message || 'Unknown error'}`));
-                console.error(chalk.red(`   Error stack: ${error.stack}`));
-              });
-            }
-          } else {
-            console.log(chalk.blue(`🔄 Order updated in database: #${orderId}`));
-            // Display updated order information
-            await this.displayOrder(savedOrder, false, orderData);
-
-            // If it's a delivery order and not yet sent, send to DoorDash
-            // This handles cases where order type changes to delivery or status changes
-            if (isDeliveryOrder && wasNotSent) {
-              console.log(chalk.cyan('\n🚚 Sending order to DoorDash...'));
-              await this.sendOrderToDoorDash(orderData).then(async (resp)=>{
-                console.log(chalk.blue(`🔍 DoorDash Response received: ${resp ? 'YES' : 'NO'}`));
-                if (resp) {
-                  console.log(chalk.blue(`🔍 Response ID: ${resp.id || 'NONE'}`));
-                  console.log(chalk.blue(`🔍 Response tracking_url: ${resp.tracking_url || 'NONE'}`));
-                  console.log(chalk.blue(`🔍 Response status: ${resp.status || 'NONE'}`));
-                }
-                
-                if (resp && resp.id) {
-                  console.log(chalk.green(`✅ Order sent to DoorDash successfully`));
-                  console.log(chalk.gray(`   DoorDash Delivery ID: ${resp.id}`));
-                  if (resp.external_delivery_id) {
-                    console.log(chalk.gray(`   External Delivery ID: ${resp.external_delivery_id}`));
-                  }
-                  if (resp.status) {
-                    console.log(chalk.gray(`   Status: ${resp.status}`));
-                  }
-                  // Always try to get tracking URL - fetch from DoorDash if not in response
-                  let trackingUrl = resp.tracking_url;
-                  console.log(chalk.blue(`🔍 Initial tracking URL: ${trackingUrl || 'NOT IN RESPONSE'}`));
-                  
-                  if (!trackingUrl && resp.id && this.doorDashClient) {
-                    console.log(chalk.yellow(`   ⏳ Tracking URL not in response, fetching from DoorDash API...`));
-                    // Wait a bit for DoorDash to generate the tracking URL
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                    try {
-                      console.log(chalk.blue(`🔍 Attempting to fetch status for ID: ${resp.id}`));
-                      const statusResp = await this.doorDashClient.getOrderStatus(resp.id);
-                      trackingUrl = statusResp.tracking_url;
-                      console.log(chalk.blue(`🔍 Status API response tracking_url: ${trackingUrl || 'NONE'}`));
-                    } catch (e: any) {
-                      console.log(chalk.yellow(`   ⚠️  First fetch attempt failed: ${e.message}`));
-                      // If first attempt fails, try once more after another delay
-                      await new Promise(resolve => setTimeout(resolve, 2000));
-                      try {
-                        console.log(chalk.blue(`🔍 Retrying status fetch for ID: ${resp.id}`));
-                        const statusResp = await this.doorDashClient.getOrderStatus(resp.id);
-                        trackingUrl = statusResp.tracking_url;
-                        console.log(chalk.blue(`🔍 Retry response tracking_url: ${trackingUrl || 'NONE'}`));
-                      } catch (e2: any) {
-                        console.log(chalk.yellow(`   ⚠️  Retry also failed: ${e2.message}`));
-                      }
-                    }
-                  }
-                  if (trackingUrl) {
-                    console.log(chalk.cyan(`   Tracking URL: ${trackingUrl}`));
-                  } else {
-                    console.log(chalk.yellow(`   ⚠️  Tracking URL not available yet (may be generated later by DoorDash)`));
-                  }
-                  
-                  // Mark as sent and store tracking URL if call succeeded
-                  if ((this.database as any).markOrderSentToDoorDash) {
-                    try { 
-                      await this.handleAsync((this.database as any).markOrderSentToDoorDash(orderId.toString(), resp.id, trackingUrl)); 
-                    } catch {}
-                  }
-                } else {
-                  console.log(chalk.yellow(`   ⚠️  DoorDash response missing ID: ${JSON.stringify(resp)}`));
-                }
-              }).catch((error: any)=>{
-                console.error(chalk.red(`❌ Failed to send order to DoorDash: ${error.message || 'Unknown error'}`));
-                console.error(chalk.red(`   Error stack: ${error.stack}`));
-              });
-            }
-          }
-        } else {
-          console.error(chalk.red(`❌ Failed to store order: #${orderId}`));
-          return res.status(500).json({ error: 'Failed to store order' });
-        }
-
-        // Respond with success (GloriaFood expects 200 status)
-        res.status(200).json({ 
-          success: true, 
-          message: 'Order received and processed',
-          order_id: orderId
-        });
+    this.app.post(this.config.webhookPath, (req: Request, res: Response) => {
+      this.handleWebhook(req, res).catch(error => this.webhookError(res, error));
+    });
 
-      } catch (error: any) {
-        console.error(chalk.red.bold(`\n❌❌❌ WEBHOOK ERROR ❌❌❌`));
-        console.error(chalk.red(`Error message: ${error.message}`));
-        console.error(chalk.red(`Error stack: ${error.stack}`));
-        console.error(chalk.yellow(`Request body keys: ${Object.keys(req.body || {}).join(', ')}`));
-        console.error(chalk.yellow(`Request path: ${req.path}`));
-        console.error(chalk.yellow(`Request method: ${req.method}`));
-        
-        // Still return 200 to prevent GloriaFood from retrying
-        // (unless you want retries, then use 5xx status)
-        res.status(200).json({ 
-          success: false, 
-          error: error.message 
-        });
-      }
+    // Per-store webhook endpoint: WEBHOOK_PATH/<store webhook_path or store_id>
+    this.app.post(`${this.config.webhookPath}/:storePath`, (req: Request, res: Response) => {
+      this.handleWebhook(req, res, req.params.storePath).catch(error => this.webhookError(res, error));
     });
 
+    // DoorDash Drive status webhook (delivery events)
+    this.app.post(this.config.doorDashWebhookPath, (req: Request, res: Response) => this.handleDoorDashWebhook(req, res));
+
     // Get all orders endpoint with filters
     this.app.get('/orders', async (req: Request, res: Response) => {
       try {
@@ -527,14 +604,9 @@ class GloriaFoodWebhookServer {
         
         let orders;
         if (status) {
-          orders = await this.handleAsync(this.database.getOrdersByStatus(status));
+          orders = await this.handleAsync(this.database.getOrdersByStatus(status, storeId));
         } else {
-          orders = await this.handleAsync(this.database.getAllOrders(limit));
-        }
-        
-        // Filter by store_id if provided
-        if (storeId) {
-          orders = orders.filter(order => order.store_id === storeId);
+          orders = await this.handleAsync(this.database.getAllOrders(limit, storeId));
         }
         
         res.json({ 
@@ -546,196 +618,1818 @@ class GloriaFoodWebhookServer {
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
-    });
+    });
+
+    // Scheduled orders held back until their dispatch time (registered before /orders/:orderId)
+    this.app.get('/orders/scheduled', async (req: Request, res: Response) => {
+      try {
+        const storeId = req.query.store_id as string | undefined;
+        const orders = await this.scheduledOrders(storeId);
+        res.json({
+          success: true,
+          count: orders.length,
+          lead_minutes: this.config.scheduleLeadMinutes,
+          orders: orders.map(order => ({
+            ...order,
+            scheduled_dispatch_at: new Date(Number(order.scheduled_dispatch_at)).toISOString(),
+          })),
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Get order by ID endpoint
+    this.app.get('/orders/:orderId', async (req: Request, res: Response) => {
+      try {
+        const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(req.params.orderId));
+        if (!order) {
+          return res.status(404).json({ error: 'Order not found' });
+        }
+        res.json({ success: true, order });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+
+    // Get recent orders endpoint
+    this.app.get('/orders/recent/:minutes?', async (req: Request, res: Response) => {
+      try {
+        const minutes = parseInt(req.params.minutes || '60', 10);
+        const storeId = req.query.store_id as string | undefined;
+        const orders = await this.handleAsync(this.database.getRecentOrders(minutes, storeId));
+        res.json({ 
+          success: true, 
+          count: orders.length, 
+          minutes,
+          orders 
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Get orders by status
+    this.app.get('/orders/status/:status', async (req: Request, res: Response) => {
+      try {
+        const status = req.params.status;
+        const storeId = req.query.store_id as string | undefined;
+        const orders = await this.handleAsync(this.database.getOrdersByStatus(status, storeId));
+        res.json({ 
+          success: true, 
+          count: orders.length, 
+          status,
+          orders 
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Delivery timeline: DoorDash events for an order, oldest first
+    this.app.get('/orders/:orderId/delivery-events', async (req: Request, res: Response) => {
+      try {
+        const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(req.params.orderId));
+        if (!order) {
+          return res.status(404).json({ error: 'Order not found' });
+        }
+        const events = await this.handleAsync(this.database.getDeliveryEvents(req.params.orderId));
+        res.json({
+          success: true,
+          order_id: req.params.orderId,
+          doordash_status: order.doordash_status,
+          count: events.length,
+          events: events.map(({ raw_data, ...event }) => event)
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Order items linked to the menu catalog
+    this.app.get('/orders/:orderId/items', async (req: Request, res: Response) => {
+      try {
+        const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(req.params.orderId));
+        if (!order) {
+          return res.status(404).json({ error: 'Order not found' });
+        }
+        const items = await this.handleAsync(this.database.getOrderItemLinks(req.params.orderId));
+        res.json({
+          success: true,
+          order_id: req.params.orderId,
+          linked: items.filter(item => item.menu_item_id).length,
+          price_mismatches: items.filter(item => item.price_mismatch).length,
+          items
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Menu catalog (last synced copy of the GloriaFood menu)
+    this.app.get('/menu', async (req: Request, res: Response) => {
+      try {
+        const storeId = (req.query.store_id as string) || this.config.storeId;
+        const catalog = await this.handleAsync(this.database.getMenuCatalog(storeId));
+        res.json({ success: true, ...catalog });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Order lines charged at a different price than the current menu
+    this.app.get('/menu/price-mismatches', async (req: Request, res: Response) => {
+      try {
+        const limit = parseInt(req.query.limit as string) || 50;
+        const mismatches = await this.handleAsync(this.database.getPriceMismatches(limit));
+        res.json({ success: true, count: mismatches.length, mismatches });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Statistics endpoint
+    this.app.get('/stats', async (req: Request, res: Response) => {
+      try {
+        const storeId = req.query.store_id as string | undefined;
+        const totalOrders = await this.handleAsync(this.database.getOrderCount(storeId));
+        const recentOrders = await this.handleAsync(this.database.getRecentOrders(60, storeId));
+        const recentOrders24h = await this.handleAsync(this.database.getRecentOrders(1440, storeId));
+        
+        // Get orders by status
+        const allOrders = await this.handleAsync(this.database.getAllOrders(1000, storeId));
+        const statusCounts: { [key: string]: number } = {};
+        allOrders.forEach((order: Order) => {
+          statusCounts[order.status] = (statusCounts[order.status] || 0) + 1;
+        });
+        
+        const dispatchQueue = await this.dispatchQueue.stats();
+        const failedDispatches = await this.handleAsync(this.database.getOpenDeadLetterCount(storeId));
+        const scheduledOrders = await this.scheduledOrders(storeId);
+        
+        res.json({
+          success: true,
+          store_id: storeId,
+          total_orders: totalOrders,
+          recent_orders_1h: recentOrders.length,
+          recent_orders_24h: recentOrders24h.length,
+          status_breakdown: statusCounts,
+          dispatch_queue: dispatchQueue,
+          failed_dispatches: failedDispatches,
+          scheduled_orders: scheduledOrders.length,
+          doordash_circuit: this.doorDashCircuits(),
+          database_type: process.env.DB_TYPE || 'sqlite',
+          database_name: process.env.DB_NAME || 'SQLite',
+          server_time: new Date().toISOString()
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Get DoorDash delivery status
+    this.app.get('/doordash/status/:orderId', async (req: Request, res: Response) => {
+      try {
+        const orderId = req.params.orderId;
+        
+        // Try to get DoorDash ID (and the store and provider, for its credentials) from database
+        let doorDashId: string = orderId; // Default to order ID
+        let store: Store | undefined;
+        let order: Order | null = null;
+        try {
+          order = await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId));
+          if (order && (order as any).doordash_order_id) {
+            doorDashId = (order as any).doordash_order_id;
+          }
+          await this.stores.refresh();
+          store = this.stores.get(order?.store_id);
+        } catch (e) {
+          // Use orderId as fallback
+          doorDashId = orderId;
+        }
+
+        const provider = order ? this.providerForOrder(order, store) : this.deliveryProvider(DEFAULT_DELIVERY_PROVIDER, store);
+        if (!provider) {
+          return res.status(400).json({ 
+            error: 'DoorDash not configured',
+            message: 'DoorDash credentials not provided in .env file or for the order\'s store'
+          });
+        }
+
+        // Ensure doorDashId is not empty
+        if (!doorDashId || doorDashId.trim() === '') {
+          return res.status(400).json({ 
+            error: 'Invalid order ID',
+            message: 'Order ID cannot be empty'
+          });
+        }
+
+        // Get status from the provider the order was sent to
+        const response = await provider.getStatus(doorDashId);
+        
+        res.json({
+          success: true,
+          gloriafood_order_id: orderId,
+          provider: provider.name,
+          doordash_delivery_id: response.id,
+          external_delivery_id: response.external_delivery_id,
+          status: response.status,
+          tracking_url: response.tracking_url,
+          raw: response.raw
+        });
+      } catch (error: any) {
+        res.status(500).json({ 
+          error: error.message,
+          success: false
+        });
+      }
+    });
+
+    // Get orders summary
+    this.app.get('/summary', async (req: Request, res: Response) => {
+      try {
+        const storeId = req.query.store_id as string | undefined;
+        const totalOrders = await this.handleAsync(this.database.getOrderCount(storeId));
+        const recent1h = await this.handleAsync(this.database.getRecentOrders(60, storeId));
+        const recent24h = await this.handleAsync(this.database.getRecentOrders(1440, storeId));
+        const allOrders = await this.handleAsync(this.database.getAllOrders(1000, storeId));
+        
+        // Calculate totals by status
+        const statusCounts: { [key: string]: number } = {};
+        let totalRevenue = 0;
+        
+        allOrders.forEach(order => {
+          statusCounts[order.status] = (statusCounts[order.status] || 0) + 1;
+          // Convert total_price to number (MySQL returns DECIMAL as string)
+          const orderPrice = typeof order.total_price === 'string' 
+            ? parseFloat(order.total_price) 
+            : (order.total_price || 0);
+          totalRevenue += orderPrice;
+        });
+        
+        res.json({
+          success: true,
+          summary: {
+            store_id: storeId,
+            total_orders: totalOrders,
+            recent_1h: recent1h.length,
+            recent_24h: recent24h.length,
+            total_revenue: totalRevenue,
+            status_counts: statusCounts
+          },
+          timestamp: new Date().toISOString()
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: sync the menu catalog from GloriaFood now
+    this.app.post('/admin/menu/sync', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const results = await this.menuCatalog.sync(req.query.store_id as string | undefined);
+        res.json({ success: true, stores: results });
+      } catch (error: any) {
+        res.status(502).json({ success: false, error: error.message });
+      }
+    });
+
+    // Admin: list stores (credentials redacted)
+    this.app.get('/admin/stores', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        await this.stores.refresh(true);
+        const stores = this.stores.all().map(redactStore);
+        res.json({ success: true, count: stores.length, stores });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: get a single store
+    this.app.get('/admin/stores/:storeId', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const store = await this.handleAsync(this.database.getStore(req.params.storeId));
+        if (!store) {
+          return res.status(404).json({ error: 'Store not found' });
+        }
+        res.json({ success: true, store: redactStore(store) });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: create or update a store (partial updates keep omitted fields)
+    this.app.put('/admin/stores/:storeId', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const existing = await this.handleAsync(this.database.getStore(req.params.storeId));
+        const { store, errors } = buildStore(req.params.storeId, req.body, existing);
+        if (!store) {
+          return res.status(400).json({ success: false, errors });
+        }
+        const saved = await this.handleAsync(this.database.saveStore(store));
+        await this.stores.refresh(true);
+        console.log(chalk.green(`✅ Store ${saved.store_id} ${existing ? 'updated' : 'created'}`));
+        res.status(existing ? 200 : 201).json({ success: true, store: redactStore(saved) });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: delete a store (its orders are kept)
+    this.app.delete('/admin/stores/:storeId', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const deleted = await this.handleAsync(this.database.deleteStore(req.params.storeId));
+        if (!deleted) {
+          return res.status(404).json({ error: 'Store not found' });
+        }
+        await this.stores.refresh(true);
+        console.log(chalk.yellow(`🗑️  Store ${req.params.storeId} deleted`));
+        res.json({ success: true, store_id: req.params.storeId });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: businesses on the DoorDash account (of a store's own credentials with ?store_id=)
+    this.app.get('/admin/doordash/businesses', this.requireAdmin, async (req: Request, res: Response) => {
+      const client = this.doorDashClientFor(this.stores.get(req.query.store_id as string | undefined));
+      if (!client) {
+        return res.status(400).json({ error: 'DoorDash not configured' });
+      }
+      try {
+        const businesses = await client.listBusinesses();
+        res.json({ success: true, count: businesses.length, businesses });
+      } catch (error: any) {
+        res.status(502).json({ success: false, error: error.message });
+      }
+    });
+
+    this.app.get('/admin/doordash/businesses/:businessId/stores', this.requireAdmin, async (req: Request, res: Response) => {
+      const client = this.doorDashClientFor(this.stores.get(req.query.store_id as string | undefined));
+      if (!client) {
+        return res.status(400).json({ error: 'DoorDash not configured' });
+      }
+      try {
+        const stores = await client.listStores(req.params.businessId);
+        res.json({ success: true, count: stores.length, stores });
+      } catch (error: any) {
+        res.status(502).json({ success: false, error: error.message });
+      }
+    });
+
+    // Admin: a store's link to DoorDash and the store as DoorDash has it
+    this.app.get('/admin/stores/:storeId/doordash', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const store = await this.handleAsync(this.database.getStore(req.params.storeId));
+        if (!store) {
+          return res.status(404).json({ error: 'Store not found' });
+        }
+        const client = this.doorDashClientFor(store);
+        const link = { doordash_business_id: store.doordash_business_id, doordash_store_id: store.doordash_store_id };
+        if (!store.doordash_business_id || !store.doordash_store_id || !client) {
+          const plan = provisioningPlan(store);
+          return res.json({ success: true, provisioned: false, ...link, plan: { business: plan.business, store: plan.store }, errors: plan.errors });
+        }
+        const doorDashStore = await client.getStore(store.doordash_business_id, store.doordash_store_id);
+        res.json({ success: true, provisioned: true, ...link, store: doorDashStore });
+      } catch (error: any) {
+        res.status(502).json({ success: false, error: error.message });
+      }
+    });
+
+    // Admin: create or update the store's business and store on DoorDash and link them to the store.
+    // Body (all optional): external_business_id, business_name, external_store_id
+    this.app.post('/admin/stores/:storeId/doordash', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const store = await this.handleAsync(this.database.getStore(req.params.storeId));
+        if (!store) {
+          return res.status(404).json({ error: 'Store not found' });
+        }
+        const client = this.doorDashClientFor(store);
+        if (!client) {
+          return res.status(400).json({ error: 'DoorDash not configured' });
+        }
+        const options = {
+          external_business_id: req.body?.external_business_id,
+          business_name: req.body?.business_name,
+          external_store_id: req.body?.external_store_id,
+          country: this.countryFor(store),
+        };
+        const { errors } = provisioningPlan(store, options);
+        if (errors.length > 0) {
+          return res.status(400).json({ success: false, errors });
+        }
+        const result = await provisionStore(client, store, options);
+        const saved = await this.handleAsync(this.database.saveStore({
+          ...store,
+          doordash_business_id: result.business.external_business_id,
+          doordash_store_id: result.store.external_store_id,
+        }));
+        await this.stores.refresh(true);
+        console.log(chalk.green(`✅ Store ${store.store_id} provisioned on DoorDash as ${saved.doordash_business_id}/${saved.doordash_store_id}`));
+        res.json({ success: true, ...result, linked_store: redactStore(saved) });
+      } catch (error: any) {
+        res.status(502).json({ success: false, error: error.message });
+      }
+    });
+
+    // Admin: dispatch rules in effect for a store (or the default rules)
+    this.app.get('/admin/dispatch/rules', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const storeId = req.query.store_id as string | undefined;
+        const { rules, source } = await this.dispatchRules.rulesFor(storeId);
+        res.json({ success: true, store_id: storeId, source, rules });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: a store's own dispatch rules (stored in the database; they replace the file's rules)
+    this.app.get('/admin/stores/:storeId/dispatch-rules', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const stored = await this.handleAsync(this.database.getStoreDispatchRules(req.params.storeId));
+        if (!stored) {
+          return res.status(404).json({ error: 'Store has no dispatch rules of its own' });
+        }
+        res.json({ success: true, store_id: stored.store_id, updated_at: stored.updated_at, rules: JSON.parse(stored.rules) });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    this.app.put('/admin/stores/:storeId/dispatch-rules', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const rules = Array.isArray(req.body) ? req.body : req.body?.rules;
+        const errors = validateRules(rules);
+        if (errors.length > 0) {
+          return res.status(400).json({ success: false, errors });
+        }
+        await this.handleAsync(this.database.saveStoreDispatchRules(req.params.storeId, JSON.stringify(rules)));
+        console.log(chalk.green(`✅ Dispatch rules saved for store ${req.params.storeId} (${rules.length} rule(s))`));
+        res.json({ success: true, store_id: req.params.storeId, rules });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    this.app.delete('/admin/stores/:storeId/dispatch-rules', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const deleted = await this.handleAsync(this.database.deleteStoreDispatchRules(req.params.storeId));
+        if (!deleted) {
+          return res.status(404).json({ error: 'Store has no dispatch rules of its own' });
+        }
+        console.log(chalk.yellow(`🗑️  Dispatch rules removed for store ${req.params.storeId}`));
+        res.json({ success: true, store_id: req.params.storeId });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: dispatch decision log
+    this.app.get('/admin/dispatch/decisions', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const limit = parseInt(req.query.limit as string) || 50;
+        const orderId = req.query.order_id as string | undefined;
+        const storeId = req.query.store_id as string | undefined;
+        const decisions = await this.handleAsync(this.database.getDispatchDecisions(limit, orderId, storeId));
+        res.json({ success: true, count: decisions.length, decisions });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: what would happen to an order now, without dispatching or logging anything.
+    // POST a {"rules": [...]} body to try draft rules instead of the configured ones.
+    const dryRun = async (req: Request, res: Response) => {
+      try {
+        const draftRules = req.method === 'POST' ? (Array.isArray(req.body) ? req.body : req.body?.rules) : undefined;
+        if (draftRules !== undefined) {
+          const errors = validateRules(draftRules);
+          if (errors.length > 0) {
+            return res.status(400).json({ success: false, errors });
+          }
+        }
+        const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(req.params.orderId));
+        if (!order) {
+          return res.status(404).json({ error: 'Order not found' });
+        }
+        res.json({ success: true, order_id: order.gloriafood_order_id, store_id: order.store_id, ...(await this.dryRunDispatch(order, draftRules)) });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    };
+    this.app.get('/admin/dispatch/dry-run/:orderId', this.requireAdmin, dryRun);
+    this.app.post('/admin/dispatch/dry-run/:orderId', this.requireAdmin, dryRun);
+
+    // Admin: dispatch queue counts and recent jobs
+    this.app.get('/admin/dispatch/queue', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const limit = parseInt(req.query.limit as string) || 50;
+        const status = req.query.status as string | undefined;
+        const stats = await this.dispatchQueue.stats();
+        const jobs = await this.handleAsync(this.database.getDispatchJobs(limit, status));
+        res.json({ success: true, stats, doordash_circuit: this.doorDashCircuits(), count: jobs.length, jobs });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: compare orders in a date range with DoorDash (?from=&to=&store_id=&repair=true)
+    this.app.post('/admin/reconciliation', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const input = { ...req.query, ...(req.body || {}) };
+        const range = parseReconciliationRange(input.from, input.to, this.config.reconcileLookbackHours);
+        if (range.errors.length > 0) {
+          return res.status(400).json({ success: false, errors: range.errors });
+        }
+        const report = await this.reconciler.reconcile({
+          from: range.from,
+          to: range.to,
+          storeId: input.store_id as string | undefined,
+          repair: String(input.repair) === 'true',
+        });
+        res.json({ success: true, ...report });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Report: DoorDash fee against the customer's delivery fee per order, with store and day totals
+    // (?from=&to=&store_id=&include_sandbox=true; default: the last 30 days)
+    this.app.get('/reports/delivery-costs', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const range = parseReconciliationRange(req.query.from, req.query.to, 24 * 30);
+        if (range.errors.length > 0) {
+          return res.status(400).json({ success: false, errors: range.errors });
+        }
+        const storeId = req.query.store_id as string | undefined;
+        await this.stores.refresh();
+        const orders = await this.handleAsync(this.database.getDeliveryCostOrders(range.from, range.to, DELIVERY_COST_REPORT_LIMIT + 1, storeId));
+        const report = buildDeliveryCostReport(orders, {
+          from: range.from,
+          to: range.to,
+          storeId,
+          includeSandbox: req.query.include_sandbox === 'true',
+        }, id => this.stores.get(id)?.timezone || undefined);
+        res.json({ success: true, ...report });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: report of the last scheduled reconciliation
+    this.app.get('/admin/reconciliation/last', this.requireAdmin, (req: Request, res: Response) => {
+      const report = this.reconciler.lastScheduledReport();
+      if (!report) {
+        return res.status(404).json({ error: 'No scheduled reconciliation has run yet' });
+      }
+      res.json({ success: true, ...report });
+    });
+
+    // Admin: orders flagged for manual review (e.g. DoorDash refused an update)
+    this.app.get('/admin/orders/review', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const limit = parseInt(req.query.limit as string) || 50;
+        const storeId = req.query.store_id as string | undefined;
+        const orders = await this.handleAsync(this.database.getOrdersForReview(limit, storeId));
+        res.json({ success: true, count: orders.length, orders });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: mark a flagged order as reviewed
+    this.app.post('/admin/orders/:orderId/review/clear', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const cleared = await this.handleAsync(this.database.clearOrderReview(req.params.orderId));
+        if (!cleared) {
+          return res.status(404).json({ error: 'Order is not flagged for review' });
+        }
+        res.json({ success: true, order_id: req.params.orderId });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: dead-lettered dispatches (?status=open|retried|resolved|discarded, ?store_id)
+    this.app.get('/admin/dispatch/failed', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const limit = parseInt(req.query.limit as string) || 50;
+        const status = req.query.status as string | undefined;
+        const storeId = req.query.store_id as string | undefined;
+        const entries = await this.handleAsync(this.database.getDeadLetters(limit, status, storeId));
+        res.json({ success: true, count: entries.length, failed: entries });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: a dead-lettered dispatch with the order fields that can be edited
+    this.app.get('/admin/dispatch/failed/:orderId', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const entry = await this.handleAsync(this.database.getDeadLetter(req.params.orderId));
+        if (!entry) {
+          return res.status(404).json({ error: 'No failed dispatch for this order' });
+        }
+        const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(req.params.orderId));
+        res.json({ success: true, failed: entry, fields: editableOrderFields(withOrderEdits(parseRawData(order), entry.order_edits)) });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: correct the order fields DoorDash rejected (kept on the dead-letter entry, applied at every later dispatch)
+    this.app.patch('/admin/dispatch/failed/:orderId', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const orderId = req.params.orderId;
+        const entry = await this.handleAsync(this.database.getDeadLetter(orderId));
+        const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId));
+        if (!entry || !order) {
+          return res.status(404).json({ error: 'No failed dispatch for this order' });
+        }
+        if (entry.status !== 'open') {
+          return res.status(409).json({ error: `Failed dispatch is ${entry.status}` });
+        }
+        const { orderData, errors } = applyOrderEdits(withOrderEdits(parseRawData(order), entry.order_edits), req.body);
+        if (!orderData) {
+          return res.status(400).json({ success: false, errors });
+        }
+        const saved = entry.order_edits ? JSON.parse(entry.order_edits) : {};
+        await this.handleAsync(this.database.saveDeadLetterEdits(orderId, JSON.stringify(mergeOrderEdits(saved, req.body))));
+        console.log(chalk.green(`✅ Order #${orderId} edited for dispatch retry: ${Object.keys(req.body).join(', ')}`));
+        const updated = await this.handleAsync(this.database.getDeadLetter(orderId));
+        res.json({ success: true, failed: updated, fields: editableOrderFields(orderData) });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: queue a dead-lettered order for dispatch again
+    this.app.post('/admin/dispatch/failed/:orderId/retry', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const orderId = req.params.orderId;
+        const entry = await this.handleAsync(this.database.getDeadLetter(orderId));
+        const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId));
+        if (!entry || !order) {
+          return res.status(404).json({ error: 'No failed dispatch for this order' });
+        }
+        if (entry.status !== 'open' && entry.status !== 'discarded') {
+          return res.status(409).json({ error: `Failed dispatch is ${entry.status}` });
+        }
+        if (order.sent_to_doordash) {
+          return res.status(409).json({ error: 'Order was already sent to DoorDash' });
+        }
+        if (isCancelledStatus(order.status)) {
+          return res.status(409).json({ error: `Order was ${order.status}` });
+        }
+        const jobId = await this.dispatchQueue.enqueue(orderId, { priority: DISPATCH_PRIORITY_NEW });
+        await this.handleAsync(this.database.resolveDeadLetter(orderId, 'retried'));
+        this.dispatchWorkers.notify();
+        console.log(chalk.cyan(`🔁 Failed dispatch of order #${orderId} queued again (job #${jobId})`));
+        res.json({ success: true, order_id: orderId, dispatch_job_id: jobId });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: give up on a dead-lettered order (e.g. delivered another way)
+    this.app.post('/admin/dispatch/failed/:orderId/discard', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const orderId = req.params.orderId;
+        const entry = await this.handleAsync(this.database.getDeadLetter(orderId));
+        if (!entry) {
+          return res.status(404).json({ error: 'No failed dispatch for this order' });
+        }
+        if (entry.status !== 'open') {
+          return res.status(409).json({ error: `Failed dispatch is ${entry.status}` });
+        }
+        await this.handleAsync(this.database.resolveDeadLetter(orderId, 'discarded'));
+        console.log(chalk.yellow(`🗑️  Failed dispatch of order #${orderId} discarded`));
+        res.json({ success: true, order_id: orderId });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: progress of an in-house delivery, reported by the store's staff
+    this.app.post('/admin/deliveries/:orderId/status', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const orderId = req.params.orderId;
+        const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId));
+        if (!order) {
+          return res.status(404).json({ error: 'Order not found' });
+        }
+        if (!order.sent_to_doordash || order.delivery_provider !== 'inhouse') {
+          return res.status(409).json({ error: 'Order is not an in-house delivery' });
+        }
+        const status = (req.body?.status || '').toString().toLowerCase();
+        if (!IN_HOUSE_DELIVERY_STATUSES.includes(status)) {
+          return res.status(400).json({ success: false, errors: [`status must be one of ${IN_HOUSE_DELIVERY_STATUSES.join(', ')}`] });
+        }
+        await this.handleAsync(this.database.recordDeliveryEvent({
+          gloriafood_order_id: orderId,
+          external_delivery_id: orderId,
+          delivery_id: order.doordash_order_id,
+          event_name: 'INHOUSE_STATUS',
+          delivery_status: status,
+          dasher_name: req.body.driver_name || undefined,
+          dasher_phone: req.body.driver_phone || undefined,
+          dropoff_eta: req.body.dropoff_eta || undefined,
+          occurred_at: new Date().toISOString(),
+          raw_data: JSON.stringify(req.body),
+        }));
+        console.log(chalk.cyan(`🚚 In-house delivery for order #${orderId}: ${status}`));
+        res.json({ success: true, order: await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId)) });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: list webhook journal entries
+    this.app.get('/admin/webhooks/journal', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const limit = parseInt(req.query.limit as string) || 50;
+        const status = req.query.status as string | undefined;
+        const entries = await this.handleAsync(this.database.getWebhookJournalEntries(limit, status));
+        res.json({
+          success: true,
+          count: entries.length,
+          entries: entries.map(({ raw_body, headers, ...entry }) => ({
+            ...entry,
+            body_size: raw_body ? raw_body.length : 0
+          }))
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: list webhook requests that failed authentication
+    this.app.get('/admin/webhooks/audit', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const limit = parseInt(req.query.limit as string) || 100;
+        const entries = await this.handleAsync(this.database.getWebhookAuditLog(limit));
+        res.json({ success: true, count: entries.length, entries });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: inspect a single webhook journal entry
+    this.app.get('/admin/webhooks/journal/:id', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const entry = await this.handleAsync(this.database.getWebhookJournalEntry(parseInt(req.params.id, 10)));
+        if (!entry) {
+          return res.status(404).json({ error: 'Journal entry not found' });
+        }
+        res.json({ success: true, entry });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Admin: replay a webhook journal entry through the normal pipeline
+    this.app.post('/admin/webhooks/journal/:id/replay', this.requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        const input = { ...req.query, ...(req.body || {}) };
+        const force = String(input.force) === 'true';
+        const result = await this.replayJournalEntry(id, force);
+        if (!result) {
+          return res.status(404).json({ error: 'Journal entry not found' });
+        }
+        if ('refused' in result) {
+          return res.status(409).json({ success: false, journal_id: id, status: result.status, error: result.refused });
+        }
+        res.json({
+          success: result.outcome === 'processed',
+          journal_id: id,
+          outcome: result.outcome,
+          error: result.error,
+          order_ids: result.orderIds,
+          forced: result.forced || undefined,
+          warning: result.forced ? `Entry was ${result.forced} when received and was replayed with force` : undefined,
+          response: result.body
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+  }
+
+  /**
+   * Handle a webhook POST: journal, authenticate, then process every order in the payload.
+   * storePath is set for per-store webhook URLs. When processing throws (e.g. the database is down) the journal
+   * entry is marked failed and GloriaFood gets a 500, so it sends the order again.
+   */
+  private async handleWebhook(req: Request, res: Response, storePath?: string): Promise<any> {
+    console.log(chalk.cyan('\n🔵 WEBHOOK ENDPOINT CALLED'));
+
+    // Journal the request before anything else so no payload is ever lost
+    const journalId = await this.journalWebhookRequest(req);
+
+    try {
+      return await this.handleJournaledWebhook(req, res, journalId, storePath);
+    } catch (error: any) {
+      if (journalId) {
+        try {
+          await this.handleAsync(this.database.updateWebhookJournalEntry(journalId, {
+            status: 'failed',
+            error: error.message || 'Unknown error',
+          }));
+        } catch (journalError: any) {
+          console.error(chalk.red(`   Failed to update webhook journal entry #${journalId}: ${journalError.message}`));
+        }
+      }
+      this.webhookError(res, error);
+    }
+  }
+
+  // Last resort for a webhook request that threw: log it and answer 500 so the sender retries
+  private webhookError(res: Response, error: any): void {
+    console.error(chalk.red(`❌ Webhook processing failed: ${error?.message || error}`));
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: 'Internal error, please retry' });
+    }
+  }
+
+  private async handleJournaledWebhook(req: Request, res: Response, journalId: number | null, storePath?: string): Promise<any> {
+    // Per-store path: the store must exist, and only its orders are accepted
+    await this.stores.refresh();
+    const routedStore = storePath ? this.stores.findByWebhookPath(storePath) : undefined;
+    if (storePath && !routedStore) {
+      console.warn(chalk.yellow(`⚠️  Webhook for unknown store path: ${storePath}`));
+      if (journalId) {
+        await this.handleAsync(this.database.updateWebhookJournalEntry(journalId, {
+          status: 'invalid',
+          error: `Unknown store webhook path: ${storePath}`,
+        }));
+      }
+      return res.status(404).json({ success: false, error: 'Unknown store' });
+    }
+
+    // Authenticate the caller before touching the payload
+    const auth = this.authenticator.authenticate(req, routedStore?.store_id);
+    if (!auth.valid) {
+      console.warn(chalk.yellow(`⚠️  Webhook authentication failed: ${auth.reason} (mode: ${auth.mode}, store: ${auth.storeId || 'unknown'}, ip: ${req.ip})`));
+      try {
+        await this.handleAsync(this.database.recordWebhookAudit({
+          path: req.path,
+          source_ip: req.ip,
+          store_id: auth.storeId,
+          auth_mode: auth.mode,
+          reason: auth.reason || 'Invalid credentials',
+          rejected: auth.reject ? 1 : 0,
+          user_agent: req.headers['user-agent'],
+        }));
+      } catch (e: any) {
+        console.error(chalk.red(`   Failed to record webhook audit entry: ${e.message}`));
+      }
+
+      if (auth.reject) {
+        if (journalId) {
+          await this.handleAsync(this.database.updateWebhookJournalEntry(journalId, {
+            status: 'unauthorized',
+            error: auth.reason,
+          }));
+        }
+        return res.status(401).json({
+          success: false,
+          error: 'Unauthorized'
+        });
+      }
+    }
+
+    // A store's own key only authorizes orders for that store
+    const scopedStoreId = routedStore?.store_id || (auth.valid && auth.storeScoped ? auth.storeId : undefined);
+    if (scopedStoreId && auth.storeScoped) {
+      // Orders of other stores in the batch are rejected by processOrder; record the attempt like a failed login
+      const foreign = this.extractOrders(req.body).filter(order => {
+        const orderStoreId = order.restaurant_id ?? order.store_id;
+        return orderStoreId !== undefined && orderStoreId !== null && orderStoreId.toString() !== scopedStoreId;
+      });
+      for (const order of foreign) {
+        try {
+          await this.handleAsync(this.database.recordWebhookAudit({
+            path: req.path,
+            source_ip: req.ip,
+            store_id: (order.restaurant_id ?? order.store_id)!.toString(),
+            auth_mode: auth.mode,
+            reason: `Key of store ${scopedStoreId} used for order #${order.id || order.order_id || 'unknown'}`,
+            rejected: 1,
+            user_agent: req.headers['user-agent'],
+          }));
+        } catch (e: any) {
+          console.error(chalk.red(`   Failed to record webhook audit entry: ${e.message}`));
+        }
+      }
+    }
+    const result = await this.processWebhookPayload(req.body, req.query, req.headers['content-type'], scopedStoreId);
+    if (journalId) {
+      await this.handleAsync(this.database.updateWebhookJournalEntry(journalId, {
+        status: result.outcome,
+        error: result.error,
+        order_ids: result.orderIds.join(',') || undefined,
+      }));
+    }
+    res.status(result.httpStatus).json(result.body);
+  }
+
+  /**
+   * Handle a DoorDash Drive webhook: verify its Authorization header, store the event and update the order.
+   * Disabled (403) until DOORDASH_WEBHOOK_AUTH is set.
+   */
+  private async handleDoorDashWebhook(req: Request, res: Response): Promise<any> {
+    const expected = this.config.doorDashWebhookAuth;
+    if (!expected) {
+      return res.status(403).json({ error: 'DoorDash webhook disabled', message: 'Set DOORDASH_WEBHOOK_AUTH to enable it' });
+    }
+    if (!verifyDoorDashWebhookAuth(req.headers['authorization'], expected)) {
+      console.warn(chalk.yellow(`⚠️  DoorDash webhook authentication failed (ip: ${req.ip})`));
+      try {
+        await this.handleAsync(this.database.recordWebhookAudit({
+          path: req.path,
+          source_ip: req.ip,
+          auth_mode: 'enforce',
+          reason: req.headers['authorization'] ? 'Invalid DoorDash webhook credentials' : 'Missing DoorDash webhook credentials',
+          rejected: 1,
+          user_agent: req.headers['user-agent'],
+        }));
+      } catch (e: any) {
+        console.error(chalk.red(`   Failed to record webhook audit entry: ${e.message}`));
+      }
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const event = parseDoorDashEvent(req.body);
+    if (!event) {
+      console.warn(chalk.yellow('⚠️  DoorDash webhook without event_name or external_delivery_id - ignored'));
+      return res.status(400).json({ success: false, error: 'Not a delivery event' });
+    }
+
+    try {
+      // external_delivery_id is the GloriaFood order ID we sent
+      const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(event.external_delivery_id));
+      event.gloriafood_order_id = order?.gloriafood_order_id;
+      const recorded = await this.handleAsync(this.database.recordDeliveryEvent(event));
+      if (recorded && order) {
+        // Fee, tip and cancellation fee as DoorDash reports them
+        await this.recordCosts(order.gloriafood_order_id, doorDashCosts(req.body));
+      }
+      if (!recorded) {
+        console.log(chalk.gray(`ℹ️  DoorDash event ${event.event_name} for #${event.external_delivery_id} already recorded - skipping`));
+      } else if (!order) {
+        console.warn(chalk.yellow(`⚠️  DoorDash event ${event.event_name} for unknown order #${event.external_delivery_id} - stored unlinked`));
+      } else {
+        console.log(chalk.cyan(`🚚 DoorDash ${event.event_name} for order #${order.gloriafood_order_id}: ${event.delivery_status}${event.dasher_name ? ` (dasher: ${event.dasher_name})` : ''}`));
+      }
+      res.json({ success: true, duplicate: !recorded, order_id: order?.gloriafood_order_id });
+    } catch (error: any) {
+      console.error(chalk.red(`❌ Failed to store DoorDash event: ${error.message}`));
+      // 5xx so DoorDash redelivers the event
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  /**
+   * Guard for /admin routes. Requires ADMIN_API_KEY in the X-Admin-Key or Authorization header.
+   * Admin routes are disabled entirely when ADMIN_API_KEY is not set.
+   */
+  private requireAdmin = (req: Request, res: Response, next: express.NextFunction): void => {
+    const adminKey = this.config.adminApiKey;
+    if (!adminKey) {
+      res.status(403).json({ error: 'Admin API disabled', message: 'Set ADMIN_API_KEY to enable /admin endpoints' });
+      return;
+    }
+    const provided = (req.headers['x-admin-key'] || req.headers['authorization'] || '')
+      .toString()
+      .replace(/^Bearer\s+/i, '')
+      .trim();
+    if (!provided || !safeCompare(provided, adminKey)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+
+  /**
+   * Process a webhook payload: extract every order, save it and dispatch to DoorDash.
+   * Used both for live requests and for replaying journal entries.
+   * With storeId set (per-store path or store key), orders for other stores are rejected.
+   */
+  private async processWebhookPayload(body: any, query: any, contentType?: string, storeId?: string): Promise<WebhookProcessResult> {
+    try {
+      await this.stores.refresh();
+
+      // Extract order data from request
+      // Try body first, then query params
+      let orders = this.extractOrders(body);
+      
+      // If body is empty, try query params
+      if (orders.length === 0 && Object.keys(query || {}).length > 0) {
+        console.log(chalk.yellow('   ⚠️  Body is empty, trying query params...'));
+        orders = this.extractOrders(query);
+      }
+      
+      if (orders.length === 0) {
+        console.warn(chalk.yellow('⚠ Invalid webhook payload - no order data found'));
+        console.log(chalk.gray('   Request body keys:'), Object.keys(body || {}));
+        console.log(chalk.gray('   Request query keys:'), Object.keys(query || {}));
+        console.log(chalk.gray('   Content-Type:'), contentType || 'N/A');
+        console.log(chalk.gray('   Raw body (first 500 chars):'), JSON.stringify(body || {}).substring(0, 500));
+        
+        // Still return 200 to prevent retries, but log the issue
+        return {
+          httpStatus: 200,
+          outcome: 'invalid',
+          error: 'Invalid payload - no order data found',
+          orderIds: [],
+          body: {
+            success: false,
+            error: 'Invalid payload - no order data found',
+            received: {
+              hasBody: !!body,
+              bodyKeys: Object.keys(body || {}),
+              hasQuery: Object.keys(query || {}).length > 0,
+              queryKeys: Object.keys(query || {}),
+              contentType: contentType || 'N/A'
+            }
+          }
+        };
+      }
+
+      if (orders.length > 1) {
+        console.log(chalk.cyan(`\n📦 Batched payload with ${orders.length} orders`));
+      }
+
+      // Process each order on its own so one bad order does not block the others
+      const results: OrderProcessResult[] = [];
+      for (const orderData of orders) {
+        results.push(await this.processOrder(orderData, storeId));
+      }
+
+      const failed = results.filter(result => result.action === 'failed');
+      const orderIds = results.map(result => result.order_id);
+      const outcome = failed.length === 0 ? 'processed' : failed.length === results.length ? 'failed' : 'partial';
+      const error = failed.length > 0
+        ? failed.map(result => `#${result.order_id}: ${result.error}`).join('; ')
+        : undefined;
+
+      if (outcome === 'failed') {
+        return {
+          httpStatus: 500,
+          outcome,
+          error,
+          orderIds,
+          body: {
+            success: false,
+            error: results.length === 1 ? 'Failed to store order' : 'Failed to store orders',
+            orders: results
+          }
+        };
+      }
+
+      // Respond with success (GloriaFood expects 200 status)
+      return {
+        httpStatus: 200,
+        outcome,
+        error,
+        orderIds,
+        body: {
+          success: outcome === 'processed',
+          message: outcome === 'processed'
+            ? 'Order received and processed'
+            : `${results.length - failed.length} of ${results.length} orders processed`,
+          order_id: orders[0].id || orders[0].order_id,
+          orders: results
+        }
+      };
+
+    } catch (error: any) {
+      console.error(chalk.red.bold(`\n❌❌❌ WEBHOOK ERROR ❌❌❌`));
+      console.error(chalk.red(`Error message: ${error.message}`));
+      console.error(chalk.red(`Error stack: ${error.stack}`));
+      console.error(chalk.yellow(`Request body keys: ${Object.keys(body || {}).join(', ')}`));
+      
+      // Still return 200 to prevent GloriaFood from retrying
+      // (unless you want retries, then use 5xx status)
+      return {
+        httpStatus: 200,
+        outcome: 'failed',
+        error: error.message,
+        orderIds: [],
+        body: {
+          success: false,
+          error: error.message
+        }
+      };
+    }
+  }
+
+  /**
+   * Save a single order and decide whether to dispatch it to DoorDash.
+   * Runs under a per-order lock, and identical retries of an already processed event are skipped.
+   */
+  private async processOrder(orderData: GloriaFoodOrder, routedStoreId?: string): Promise<OrderProcessResult> {
+    const orderId = (orderData.id || orderData.order_id || 'unknown').toString();
+    const lockOwner = createLockOwner();
+    try {
+      const orderStoreId = orderData.restaurant_id ?? orderData.store_id;
+      if (routedStoreId) {
+        if (orderStoreId !== undefined && orderStoreId !== null && orderStoreId.toString() !== routedStoreId) {
+          console.warn(chalk.yellow(`⚠️  Order #${orderId} belongs to store ${orderStoreId}, not ${routedStoreId} - rejected`));
+          return { order_id: orderId, action: 'failed', doordash: 'skipped', error: `Order belongs to store ${orderStoreId}, not ${routedStoreId}` };
+        }
+        // Orders on a per-store path may omit the restaurant ID
+        if (orderStoreId === undefined || orderStoreId === null) {
+          orderData = { ...orderData, restaurant_id: routedStoreId };
+        }
+      }
+
+      // Log received order
+      console.log(chalk.green(`\n✅ Order data extracted successfully from GloriaFood: #${orderId}`));
+      console.log(chalk.green(`   ✅ Connected to GloriaFood - Order received!`));
+
+      if (!(await this.acquireOrderLock(orderId, lockOwner))) {
+        console.warn(chalk.yellow(`⚠️  Order #${orderId} is being processed by another request - giving up after ${this.config.orderLockWaitMs}ms`));
+        return { order_id: orderId, action: 'failed', doordash: 'skipped', error: 'Order is being processed by another request' };
+      }
+
+      try {
+        // Skip exact retries of the last event we processed for this order
+        const { fingerprint, contentHash } = fingerprintOrderEvent(orderId, orderData);
+        if (await this.handleAsync(this.database.getLatestWebhookEventHash(orderId)) === contentHash) {
+          console.log(chalk.gray(`ℹ️  Duplicate webhook for order #${orderId} (same content already processed) - skipping`));
+          return { order_id: orderId, action: 'duplicate', doordash: 'skipped' };
+        }
+
+        // Determine if this is a new order BEFORE saving
+        const existingBefore = await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId));
+        // A store-scoped request must not overwrite (and cancel or update the delivery of) another store's order
+        if (routedStoreId && existingBefore && existingBefore.store_id !== routedStoreId) {
+          const owner = existingBefore.store_id ? `store ${existingBefore.store_id}` : 'the default store';
+          console.warn(chalk.yellow(`⚠️  Order #${orderId} already exists for ${owner}, not ${routedStoreId} - rejected`));
+          return { order_id: orderId, action: 'failed', doordash: 'skipped', error: `Order belongs to ${owner}, not store ${routedStoreId}` };
+        }
+
+        // Store order in database (handle both sync SQLite and async MySQL)
+        console.log(chalk.blue(`💾 Saving order to database...`));
+        const savedOrder = await this.handleAsync(this.database.insertOrUpdateOrder(orderData));
+        console.log(chalk.blue(`💾 Database save result: ${savedOrder ? 'SUCCESS' : 'FAILED'}`));
+
+        if (!savedOrder) {
+          console.error(chalk.red(`❌ Failed to store order: #${orderId}`));
+          return { order_id: orderId, action: 'failed', doordash: 'skipped', error: 'Failed to store order' };
+        }
+
+        // Link order items to the menu catalog (never blocks saving or dispatch)
+        try {
+          await this.menuCatalog.linkOrder(orderId, savedOrder.store_id, orderData);
+        } catch (error: any) {
+          console.warn(chalk.yellow(`⚠️  Could not link order items to the menu: ${error.message}`));
+        }
+
+        const isNew = !existingBefore;
+        const wasNotSent = !(existingBefore as any)?.sent_to_doordash;
+
+        // Check if this is a delivery order
+        const orderType = (orderData.type || orderData.order_type || '').toString().toLowerCase();
+        const isDeliveryOrder = orderType === 'delivery';
+
+        if (isNew) {
+          await this.displayOrder(savedOrder, true, orderData);
+        } else {
+          console.log(chalk.blue(`🔄 Order updated in database: #${orderId}`));
+          // Display updated order information
+          await this.displayOrder(savedOrder, false, orderData);
+        }
+
+        // Cancelled orders call off their Dasher, dispatched ones get their changes pushed. Delivery orders not sent yet
+        // (new, or updated e.g. to type delivery) are queued for DoorDash unless the store or a dispatch rule says skip.
+        const result: OrderProcessResult = { order_id: orderId, action: isNew ? 'created' : 'updated', doordash: 'skipped' };
+        const store = this.stores.get(savedOrder.store_id);
+        if (isCancelledStatus(savedOrder.status)) {
+          // Cancelled or rejected after it was sent: call off the Dasher (again, if the last attempt failed)
+          const cancelPending = !isCancelledStatus(existingBefore?.status) || existingBefore?.doordash_cancel_status === 'failed';
+          if (existingBefore?.sent_to_doordash && cancelPending) {
+            result.doordash = await this.cancelDelivery(savedOrder, store);
+          } else if (isDeliveryOrder && wasNotSent) {
+            console.log(chalk.gray(`ℹ️  Order #${orderId} is ${savedOrder.status} - not sending it to DoorDash`));
+          }
+        } else if (isDeliveryOrder && existingBefore?.sent_to_doordash) {
+          // Already dispatched: push changed dropoff details and tip to the active delivery
+          result.doordash = await this.updateDelivery(existingBefore, orderData, store);
+        } else if (isDeliveryOrder && (isNew || wasNotSent)) {
+          const decision = store && !store.dispatch_enabled
+            ? await this.dispatchRules.decideStoreDisabled(orderId, store.store_id)
+            : await this.dispatchRules.decide(orderId, orderData, savedOrder.status, savedOrder.store_id, store?.timezone);
+          if (decision.action === 'skip') {
+            const because = decision.reason !== decision.rule ? `: ${decision.reason}` : '';
+            console.log(chalk.gray(`🚫 Order #${orderId} not sent to DoorDash by rule "${decision.rule}"${because}`));
+            result.dispatch_rule = decision.rule;
+          } else if (this.deliveryProvidersFor(store, this.environmentFor(orderData)).length === 0) {
+            console.log(chalk.yellow('⚠️  No delivery provider configured (DoorDash client not initialized)'));
+            result.doordash = 'not_configured';
+          } else {
+            // Queue the dispatch and respond right away; a worker sends it to DoorDash.
+            // Scheduled orders wait in the queue until shortly before they are due.
+            const schedule = getOrderSchedule(orderData, this.config.scheduleLeadMinutes, store?.timezone);
+            const held = !!schedule && schedule.dispatchAt > Date.now();
+            const jobId = await this.dispatchQueue.enqueue(orderId, {
+              priority: isNew ? DISPATCH_PRIORITY_NEW : DISPATCH_PRIORITY_UPDATE,
+              delayMs: held ? schedule!.dispatchAt - Date.now() : 0,
+            });
+            const previousDispatchAt = existingBefore?.scheduled_dispatch_at ? Number(existingBefore.scheduled_dispatch_at) : undefined;
+            if (schedule?.dispatchAt !== previousDispatchAt) {
+              // New schedule, or the customer changed the time: move the pending job along with it
+              await this.handleAsync(this.database.setOrderSchedule(
+                orderId,
+                schedule ? schedule.fulfillAt.toISOString() : null,
+                schedule ? schedule.dispatchAt : null
+              ));
+            }
+            result.dispatch_job_id = jobId;
+            if (held) {
+              console.log(chalk.cyan(`⏰ Order #${orderId} is scheduled for ${formatOrderTime(schedule!.fulfillAt, store?.timezone)} - DoorDash dispatch at ${formatOrderTime(schedule!.dispatchAt, store?.timezone)} (job #${jobId})`));
+              result.doordash = 'scheduled';
+            } else {
+              this.dispatchWorkers.notify();
+              console.log(chalk.cyan(`🚚 Order #${orderId} queued for DoorDash dispatch (job #${jobId})`));
+              result.doordash = 'queued';
+            }
+          }
+        }
+
+        // A failed cancellation is not recorded, so GloriaFood's identical retry tries to cancel again
+        if (!(isCancelledStatus(savedOrder.status) && result.doordash === 'failed')) {
+          await this.handleAsync(this.database.recordWebhookEvent(fingerprint, orderId, contentHash));
+        }
+        return result;
+      } finally {
+        await this.handleAsync(this.database.releaseOrderLock(orderId, lockOwner));
+      }
+    } catch (error: any) {
+      console.error(chalk.red(`❌ Error processing order #${orderId}: ${error.message}`));
+      console.error(chalk.red(`   Error stack: ${error.stack}`));
+      return { order_id: orderId, action: 'failed', doordash: 'skipped', error: error.message };
+    }
+  }
+
+  /**
+   * Take the per-order processing lock, waiting up to orderLockWaitMs for another request to finish
+   */
+  private async acquireOrderLock(orderId: string, owner: string): Promise<boolean> {
+    const deadline = Date.now() + this.config.orderLockWaitMs;
+    while (true) {
+      if (await this.handleAsync(this.database.acquireOrderLock(orderId, owner, this.config.orderLockTtlMs))) {
+        return true;
+      }
+      if (Date.now() >= deadline) {
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+
+  /**
+   * Worker handler for a dispatch job: load the saved order and send it to DoorDash
+   */
+  private async runDispatchJob(job: DispatchJob): Promise<DispatchJobResult> {
+    const orderId = job.gloriafood_order_id;
+    const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId));
+    if (!order) {
+      return { done: false, retryable: false, deadLetter: false, error: `Order #${orderId} not found` };
+    }
+    if (order.sent_to_doordash) {
+      return { done: true };
+    }
+
+    let orderData: any;
+    try {
+      orderData = JSON.parse(order.raw_data);
+    } catch {
+      return { done: false, retryable: false, error: `Order #${orderId} has invalid raw_data` };
+    }
+    // An admin's corrections of a failed dispatch outlive GloriaFood updates of the order
+    const deadLetter = await this.handleAsync(this.database.getDeadLetter(orderId));
+    orderData = withOrderEdits(orderData, deadLetter?.order_edits);
+
+    if (isCancelledStatus(order.status)) {
+      return { done: false, retryable: false, deadLetter: false, error: `Order #${orderId} was ${order.status}` };
+    }
+    // A later update of the order may have been turned down by the dispatch rules while this job waited
+    const [latestDecision] = await this.handleAsync(this.database.getDispatchDecisions(1, orderId));
+    if (latestDecision?.action === 'skip') {
+      return { done: false, retryable: false, deadLetter: false, error: `Skipped by dispatch rule "${latestDecision.rule_name}"` };
+    }
+    // Scheduled order that is not due yet (e.g. the customer moved it later, or an admin retried it early)
+    const dispatchAt = Number(order.scheduled_dispatch_at || 0);
+    if (dispatchAt > Date.now()) {
+      return { done: false, deferUntil: dispatchAt };
+    }
+
+    await this.stores.refresh();
+    const store = this.stores.get(order.store_id);
+    if (store && !store.dispatch_enabled) {
+      return { done: false, retryable: false, deadLetter: false, error: `DoorDash dispatch is disabled for store ${store.store_id}` };
+    }
+
+    console.log(chalk.cyan(`\n🚚 Dispatch job #${job.queue_id}: order #${orderId} (attempt ${job.retry_count + 1})`));
+    const dispatch = await this.dispatchDelivery(orderId, orderData, store);
+    switch (dispatch.status) {
+      case 'sent':
+        return { done: true };
+      case 'duplicate': {
+        // Claimed elsewhere: done if it was sent, otherwise wait for that claim to expire without counting an attempt
+        const latest = await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId));
+        return latest?.sent_to_doordash
+          ? { done: true }
+          : { done: false, deferUntil: Math.max(Number(latest?.dispatch_claimed_until) || 0, Date.now() + this.config.dispatchPollIntervalMs) };
+      }
+      case 'not_configured':
+        return { done: false, retryable: false, error: 'No delivery provider configured (DoorDash client not configured)' };
+      case 'quote_rejected':
+        return { done: false, retryable: false, error: dispatch.error };
+      default:
+        return {
+          done: false,
+          error: dispatch.error || 'DoorDash dispatch failed',
+          retryable: dispatch.retryable,
+          retryAfterMs: dispatch.retryAfterMs,
+          errorStatus: dispatch.errorStatus,
+          errorBody: dispatch.errorBody,
+        };
+    }
+  }
+
+  /**
+   * Send an order to the store's delivery providers in priority order, fetch its tracking URL and mark it as
+   * sent with the first provider that takes it. A provider that refuses the order (a permanent API error or a
+   * quote over the limits) hands it to the next one; a transient failure is retried later by the dispatch queue.
+   */
+  private async dispatchDelivery(orderId: string, orderData: any, store?: Store): Promise<{ status: OrderProcessResult['doordash']; deliveryId?: string; provider?: string; error?: string; retryable?: boolean; retryAfterMs?: number; errorStatus?: number; errorBody?: string }> {
+    // Test orders go to the sandbox; production dispatch is refused outside a production deployment
+    const environment = this.environmentFor(orderData);
+    const environmentError = this.providerNamesFor(store).includes('doordash') ? this.doorDashEnvironmentError(environment, store) : undefined;
+    const providers = this.deliveryProvidersFor(store, environment).filter(provider => provider.name !== 'doordash' || !environmentError);
+    if (environmentError) {
+      console.warn(chalk.yellow(`⚠️  Order #${orderId} not sent to DoorDash (${environment}): ${environmentError}`));
+      if (providers.length === 0) {
+        return { status: 'failed', error: `DoorDash: ${environmentError}`, retryable: false };
+      }
+    }
+    if (providers.length === 0) {
+      console.log(chalk.yellow('⚠️  No delivery provider configured (DoorDash client not initialized)'));
+      return { status: 'not_configured' };
+    }
 
-    // Get order by ID endpoint
-    this.app.get('/orders/:orderId', async (req: Request, res: Response) => {
+    // Never guess missing dropoff details: the driver would go to the wrong place
+    const dropoff = resolveDropoff(orderData, this.countryFor(store));
+    if (dropoff.errors.length > 0) {
+      const error = `Cannot dispatch order: ${dropoff.errors.join('; ')}`;
+      console.error(chalk.red(`❌ Order #${orderId}: ${error}`));
+      return { status: 'failed', error, retryable: false };
+    }
+
+    // Claim the order so only one request/instance can ever create its delivery
+    const claimOwner = createLockOwner();
+    const claimed = await this.handleAsync(this.database.claimOrderForDispatch(orderId, claimOwner, this.config.dispatchClaimTtlMs));
+    if (!claimed) {
+      console.log(chalk.gray(`ℹ️  Order #${orderId} already dispatched or being dispatched elsewhere - skipping`));
+      return { status: 'duplicate' };
+    }
+
+    // Why each provider refused the order, for the dead letter when all of them do
+    const refusals: string[] = environmentError ? [`DoorDash: ${environmentError}`] : [];
+    let refusal: { quoteRejected: boolean; errorStatus?: number; errorBody?: string } = { quoteRejected: false };
+    const refuse = (provider: DeliveryProvider, reason: string, index: number) => {
+      refusals.push(providers.length > 1 || environmentError ? `${provider.label}: ${reason}` : reason);
+      const next = providers[index + 1];
+      if (next) {
+        console.log(chalk.yellow(`⚠️  ${provider.label} refused order #${orderId} - falling back to ${next.label}`));
+      }
+    };
+
+    for (const [index, provider] of providers.entries()) {
+      console.log(chalk.cyan(`\n🚚 Sending order to ${provider.label}...`));
       try {
-        const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(req.params.orderId));
-        if (!order) {
-          return res.status(404).json({ error: 'Order not found' });
+        const resp = await this.sendToProvider(orderData, provider, store);
+        console.log(chalk.blue(`🔍 ${provider.label} Response received: ${resp ? 'YES' : 'NO'}`));
+        if (resp) {
+          console.log(chalk.blue(`🔍 Response ID: ${resp.id || 'NONE'}`));
+          console.log(chalk.blue(`🔍 Response tracking_url: ${resp.tracking_url || 'NONE'}`));
+          console.log(chalk.blue(`🔍 Response status: ${resp.status || 'NONE'}`));
         }
-        res.json({ success: true, order });
-      } catch (error: any) {
-        res.status(500).json({ error: error.message });
-      }
-    });
 
+        if (resp?.quote_rejected) {
+          refusal = { quoteRejected: true };
+          refuse(provider, `Quote rejected: ${resp.quote_rejected}`, index);
+          continue;
+        }
 
-    // Get recent orders endpoint
-    this.app.get('/orders/recent/:minutes?', async (req: Request, res: Response) => {
-      try {
-        const minutes = parseInt(req.params.minutes || '60', 10);
-        const orders = await this.handleAsync(this.database.getRecentOrders(minutes));
-        res.json({ 
-          success: true, 
-          count: orders.length, 
-          minutes,
-          orders 
-        });
+        if (!resp || !resp.id) {
+          console.log(chalk.yellow(`   ⚠️  ${provider.label} response missing ID: ${JSON.stringify(resp)}`));
+          await this.handleAsync(this.database.releaseDispatchClaim(orderId, claimOwner));
+          return { status: 'failed', error: `${provider.label} delivery was not created` };
+        }
+
+        console.log(chalk.green(`✅ Order sent to ${provider.label} successfully`));
+        console.log(chalk.gray(`   Delivery ID: ${resp.id}`));
+        if (resp.external_delivery_id) {
+          console.log(chalk.gray(`   External Delivery ID: ${resp.external_delivery_id}`));
+        }
+        if (resp.status) {
+          console.log(chalk.gray(`   Status: ${resp.status}`));
+        }
+        // A tracking URL DoorDash has not generated yet is picked up later by the status poller
+        const trackingUrl = resp.tracking_url;
+        if (trackingUrl) {
+          console.log(chalk.cyan(`   Tracking URL: ${trackingUrl}`));
+        } else if (provider.name === 'doordash') {
+          console.log(chalk.yellow(`   ⚠️  Tracking URL not available yet (the status poller will fetch it)`));
+        }
+
+        // Mark as sent and store tracking URL if call succeeded (also releases the dispatch claim)
+        const recordError = await this.recordSentDelivery(orderId, resp.id, trackingUrl, provider, claimOwner, store);
+        if (recordError) {
+          return { status: 'failed', error: recordError, retryable: true };
+        }
+        await this.recordCosts(orderId, { ...resp.costs, customer_delivery_fee: customerDeliveryFee(orderData) });
+        if (resp.payload) {
+          // What the provider has now, so later order changes can be pushed as a diff
+          try {
+            await this.handleAsync(this.database.saveDoorDashPayload(orderId, JSON.stringify(updatableDeliveryFields(resp.payload))));
+          } catch (error: any) {
+            console.error(chalk.red(`❌ Could not save the ${provider.label} payload of order #${orderId} (later changes cannot be pushed): ${error.message}`));
+          }
+        }
+        return { status: 'sent', deliveryId: resp.id, provider: provider.name };
       } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        // 409: DoorDash already has a delivery for this external_delivery_id (e.g. an earlier attempt timed out
+        // after DoorDash created it). Record that delivery instead of treating it as a failure.
+        if (error instanceof DoorDashApiError && error.status === 409) {
+          let existing: DeliveryResult | undefined;
+          try {
+            existing = await provider.getStatus(orderId);
+          } catch (lookupError: any) {
+            console.error(chalk.red(`❌ Could not look up existing DoorDash delivery: ${lookupError.message}`));
+          }
+          if (existing) {
+            console.log(chalk.yellow(`⚠️  DoorDash already has a delivery for order #${orderId} - recording it`));
+            const recordError = await this.recordSentDelivery(orderId, existing.id, existing.tracking_url, provider, claimOwner, store);
+            if (recordError) {
+              return { status: 'failed', error: recordError, retryable: true };
+            }
+            await this.recordCosts(orderId, { ...doorDashCosts(existing.raw), customer_delivery_fee: customerDeliveryFee(orderData) });
+            return { status: 'sent', deliveryId: existing.id, provider: provider.name };
+          }
+        }
+        const apiError = error instanceof DoorDashApiError ? error : undefined;
+        console.error(chalk.red(`❌ Failed to send order to ${provider.label}: ${error.message || 'Unknown error'}`));
+        if (apiError) {
+          console.error(chalk.red(`   ${apiError.transient ? 'Transient' : 'Permanent'} failure${apiError.retryAfterMs !== undefined ? ` (retry after ${Math.ceil(apiError.retryAfterMs / 1000)}s)` : ''}`));
+        } else {
+          console.error(chalk.red(`   Error stack: ${error.stack}`));
+        }
+        if (apiError && !apiError.transient) {
+          refusal = {
+            quoteRejected: false,
+            errorStatus: apiError.status,
+            errorBody: apiError.data !== undefined ? JSON.stringify(apiError.data) : undefined,
+          };
+          refuse(provider, error.message || 'Unknown error', index);
+          continue;
+        }
+        await this.handleAsync(this.database.releaseDispatchClaim(orderId, claimOwner));
+        return {
+          status: 'failed',
+          error: error.message || 'Unknown error',
+          retryable: true,
+          retryAfterMs: apiError?.retryAfterMs,
+          errorStatus: apiError?.status,
+          errorBody: apiError?.data !== undefined ? JSON.stringify(apiError.data) : undefined,
+        };
       }
-    });
+    }
 
-    // Get orders by status
-    this.app.get('/orders/status/:status', async (req: Request, res: Response) => {
+    // Every provider refused the order
+    await this.handleAsync(this.database.releaseDispatchClaim(orderId, claimOwner));
+    return {
+      status: refusal.quoteRejected ? 'quote_rejected' : 'failed',
+      error: refusals.join('; '),
+      retryable: false,
+      errorStatus: refusal.errorStatus,
+      errorBody: refusal.errorBody,
+    };
+  }
+
+  /**
+   * Mark an order as sent with the delivery a provider created. When that write fails the delivery exists but
+   * the order does not say so: the failure is alerted, the order flagged for review and the dispatch claim
+   * released, so a retry records the delivery (DoorDash answers it with a 409 for the same external ID).
+   * Returns the error, or undefined once the order is recorded.
+   */
+  private async recordSentDelivery(orderId: string, deliveryId: string | undefined, trackingUrl: string | undefined, provider: DeliveryProvider, claimOwner: string, store?: Store): Promise<string | undefined> {
+    try {
+      await this.handleAsync(this.database.markOrderSentToDoorDash(orderId, deliveryId, trackingUrl, provider.name, provider.environment));
+      return undefined;
+    } catch (error: any) {
+      const message = `${provider.label} delivery ${deliveryId || 'unknown'} was created but could not be recorded: ${error.message || 'Unknown error'}`;
+      console.error(chalk.red(`❌ Order #${orderId}: ${message}`));
+      await sendAlert({ title: `${provider.label} delivery not recorded`, message: `Order #${orderId}: ${message}`, order_id: orderId, store_id: store?.store_id });
       try {
-        const status = req.params.status;
-        const orders = await this.handleAsync(this.database.getOrdersByStatus(status));
-        res.json({ 
-          success: true, 
-          count: orders.length, 
-          status,
-          orders 
-        });
-      } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        await this.handleAsync(this.database.flagOrderForReview(orderId, message));
+      } catch (flagError: any) {
+        console.error(chalk.red(`❌ Could not flag order #${orderId} for review: ${flagError.message}`));
       }
-    });
-
-    // Statistics endpoint
-    this.app.get('/stats', async (req: Request, res: Response) => {
       try {
-        const totalOrders = await this.handleAsync(this.database.getOrderCount());
-        const recentOrders = await this.handleAsync(this.database.getRecentOrders(60));
-        const recentOrders24h = await this.handleAsync(this.database.getRecentOrders(1440));
-        
-        // Get orders by status
-        const allOrders = await this.handleAsync(this.database.getAllOrders(1000));
-        const statusCounts: { [key: string]: number } = {};
-        allOrders.forEach((order: Order) => {
-          statusCounts[order.status] = (statusCounts[order.status] || 0) + 1;
-        });
-        
-        res.json({
-          success: true,
-          total_orders: totalOrders,
-          recent_orders_1h: recentOrders.length,
-          recent_orders_24h: recentOrders24h.length,
-          status_breakdown: statusCounts,
-          database_type: process.env.DB_TYPE || 'sqlite',
-          database_name: process.env.DB_NAME || 'SQLite',
-          server_time: new Date().toISOString()
-        });
-      } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        await this.handleAsync(this.database.releaseDispatchClaim(orderId, claimOwner));
+      } catch (releaseError: any) {
+        console.error(chalk.red(`❌ Could not release the dispatch claim of order #${orderId}: ${releaseError.message}`));
       }
-    });
+      return message;
+    }
+  }
 
-    // Get DoorDash delivery status
-    this.app.get('/doordash/status/:orderId', async (req: Request, res: Response) => {
-      try {
-        if (!this.doorDashClient) {
-          return res.status(400).json({ 
-            error: 'DoorDash not configured',
-            message: 'DoorDash credentials not provided in .env file'
-          });
-        }
+  // Delivery costs are for reporting only: a failed write is logged and never fails the dispatch
+  private async recordCosts(orderId: string, costs: DeliveryCostRecord): Promise<void> {
+    try {
+      await this.handleAsync(this.database.recordDeliveryCosts(orderId, costs));
+    } catch (error: any) {
+      console.error(chalk.red(`❌ Could not record the delivery costs of order #${orderId}: ${error.message}`));
+    }
+  }
 
-        const orderId = req.params.orderId;
-        
-        // Try to get DoorDash ID from database
-        let doorDashId: string = orderId; // Default to order ID
-        try {
-          const order = await this.handleAsync(this.database.getOrderByGloriaFoodId(orderId));
-          if (order && (order as any).doordash_order_id) {
-            doorDashId = (order as any).doordash_order_id;
-          }
-        } catch (e) {
-          // Use orderId as fallback
-          doorDashId = orderId;
-        }
+  /**
+   * Cancel the delivery of an order that was cancelled or rejected in GloriaFood, with the provider it was
+   * sent to. The outcome is recorded on the order; a failure raises an alert, since a driver may still show up.
+   */
+  private async cancelDelivery(order: Order, store?: Store): Promise<OrderProcessResult['doordash']> {
+    const orderId = order.gloriafood_order_id;
+    if (order.doordash_status && TERMINAL_DELIVERY_STATUSES.includes(order.doordash_status)) {
+      console.log(chalk.gray(`ℹ️  Delivery for order #${orderId} is already ${order.doordash_status} - nothing to cancel`));
+      return 'skipped';
+    }
 
-        // Ensure doorDashId is not empty
-        if (!doorDashId || doorDashId.trim() === '') {
-          return res.status(400).json({ 
-            error: 'Invalid order ID',
-            message: 'Order ID cannot be empty'
-          });
+    const provider = this.providerForOrder(order, store);
+    const label = provider?.label || 'DoorDash';
+    let error: string;
+    if (!provider) {
+      error = 'DoorDash client not configured';
+    } else {
+      try {
+        console.log(chalk.cyan(`\n🚫 Order #${orderId} was ${order.status} - cancelling its ${label} delivery...`));
+        const response = await provider.cancel(orderId);
+        await this.handleAsync(this.database.recordDoorDashCancellation(orderId, 'cancelled'));
+        if (provider.name === 'doordash') {
+          await this.recordCosts(orderId, doorDashCosts(response.raw));
         }
-
-        // Get status from DoorDash
-        const response = await this.doorDashClient.getOrderStatus(doorDashId);
-        
-        res.json({
-          success: true,
+        await this.handleAsync(this.database.recordDeliveryEvent({
           gloriafood_order_id: orderId,
-          doordash_delivery_id: response.id,
-          external_delivery_id: response.external_delivery_id,
-          status: response.status,
-          tracking_url: response.tracking_url,
-          raw: response.raw
-        });
-      } catch (error: any) {
-        res.status(500).json({ 
-          error: error.message,
-          success: false
-        });
+          external_delivery_id: orderId,
+          delivery_id: response.id,
+          event_name: 'CANCEL_REQUESTED',
+          delivery_status: response.status || 'cancelled',
+          occurred_at: new Date().toISOString(),
+          raw_data: JSON.stringify(response.raw || {}),
+        }));
+        console.log(chalk.green(`✅ ${label} delivery for order #${orderId} cancelled`));
+        return 'cancelled';
+      } catch (e: any) {
+        error = e.message || 'Unknown error';
       }
+    }
+
+    console.error(chalk.red(`❌ Failed to cancel ${label} delivery for order #${orderId}: ${error}`));
+    await this.handleAsync(this.database.recordDoorDashCancellation(orderId, 'failed', error));
+    await sendAlert({
+      title: `${label} cancellation failed`,
+      message: `Order #${orderId} was ${order.status} in GloriaFood but its ${label} delivery could not be cancelled: ${error}`,
+      order_id: orderId,
+      store_id: order.store_id,
     });
+    return 'failed';
+  }
 
-    // Get orders summary
-    this.app.get('/summary', async (req: Request, res: Response) => {
-      try {
-        const totalOrders = await this.handleAsync(this.database.getOrderCount());
-        const recent1h = await this.handleAsync(this.database.getRecentOrders(60));
-        const recent24h = await this.handleAsync(this.database.getRecentOrders(1440));
-        const allOrders = await this.handleAsync(this.database.getAllOrders(1000));
-        
-        // Calculate totals by status
-        const statusCounts: { [key: string]: number } = {};
-        let totalRevenue = 0;
-        
-        allOrders.forEach(order => {
-          statusCounts[order.status] = (statusCounts[order.status] || 0) + 1;
-          // Convert total_price to number (MySQL returns DECIMAL as string)
-          const orderPrice = typeof order.total_price === 'string' 
-            ? parseFloat(order.total_price) 
-            : (order.total_price || 0);
-          totalRevenue += orderPrice;
-        });
-        
-        res.json({
-          success: true,
-          summary: {
-            total_orders: totalOrders,
-            recent_1h: recent1h.length,
-            recent_24h: recent24h.length,
-            total_revenue: totalRevenue,
-            status_counts: statusCounts
-          },
-          timestamp: new Date().toISOString()
+  /**
+   * Push changes of an already dispatched order (dropoff address, phone, contact, instructions, tip) to its
+   * delivery, with the provider it was sent to. Only changed fields are sent. When the provider refuses the
+   * update (typically because the delivery has progressed too far) the order is flagged for manual review
+   * and an alert is raised.
+   */
+  private async updateDelivery(previous: Order, orderData: any, store?: Store): Promise<OrderProcessResult['doordash']> {
+    const orderId = previous.gloriafood_order_id;
+    if (previous.doordash_status && TERMINAL_DELIVERY_STATUSES.includes(previous.doordash_status)) {
+      return 'skipped';
+    }
+    const provider = this.providerForOrder(previous, store);
+    if (!provider) {
+      return 'not_configured';
+    }
+
+    // An admin's corrections of a failed dispatch were sent to the provider and outlive GloriaFood updates of the order
+    const deadLetter = await this.handleAsync(this.database.getDeadLetter(orderId));
+    orderData = withOrderEdits(orderData, deadLetter?.order_edits);
+
+    // Compare with what DoorDash has; orders dispatched before this was tracked fall back to the previous order data
+    const country = this.countryFor(store);
+    let current: DeliveryChanges;
+    try {
+      current = previous.doordash_payload
+        ? JSON.parse(previous.doordash_payload)
+        : updatableDeliveryFields(buildDriveDelivery(withOrderEdits(parseRawData(previous), deadLetter?.order_edits), { country }));
+    } catch {
+      current = {};
+    }
+    const updated = updatableDeliveryFields(buildDriveDelivery(orderData, { country }));
+    const changes = diffDeliveryFields(current, updated);
+    const fields = Object.keys(changes);
+    if (fields.length === 0) {
+      return 'skipped';
+    }
+
+    // Incomplete new dropoff details are not pushed; the driver keeps the old ones until someone checks
+    const dropoff = resolveDropoff(orderData, country);
+    if (dropoff.errors.length > 0) {
+      const reason = `Order changed (${fields.join(', ')}) but the new dropoff details are invalid: ${dropoff.errors.join('; ')}`;
+      console.error(chalk.red(`❌ Order #${orderId}: ${reason}`));
+      await this.handleAsync(this.database.recordDoorDashUpdate(orderId, 'review', reason));
+      await sendAlert({
+        title: 'Invalid dropoff details - manual review needed',
+        message: `Order #${orderId}: ${reason}`,
+        order_id: orderId,
+        store_id: previous.store_id,
+      });
+      return 'review';
+    }
+
+    console.log(chalk.cyan(`\n🚚 Order #${orderId} changed after dispatch - updating its ${provider.label} delivery (${fields.join(', ')})...`));
+    try {
+      const response = await provider.update(orderId, changes);
+      await this.handleAsync(this.database.saveDoorDashPayload(orderId, JSON.stringify(updated)));
+      await this.handleAsync(this.database.recordDoorDashUpdate(orderId, 'updated'));
+      await this.handleAsync(this.database.recordDeliveryEvent({
+        gloriafood_order_id: orderId,
+        external_delivery_id: orderId,
+        delivery_id: response.id,
+        event_name: 'UPDATE_REQUESTED',
+        delivery_status: response.status,
+        occurred_at: new Date().toISOString(),
+        raw_data: JSON.stringify({ changes, response: response.raw || {} }),
+      }));
+      console.log(chalk.green(`✅ ${provider.label} delivery for order #${orderId} updated`));
+      return 'updated';
+    } catch (e: any) {
+      const error = e.message || 'Unknown error';
+      // Keep what the provider still has, so the next order update diffs against it
+      if (!previous.doordash_payload) {
+        await this.handleAsync(this.database.saveDoorDashPayload(orderId, JSON.stringify(current)));
+      }
+      if (e instanceof DoorDashApiError && !e.transient) {
+        console.error(chalk.red(`❌ ${provider.label} rejected the update for order #${orderId}: ${error}`));
+        await this.handleAsync(this.database.recordDoorDashUpdate(orderId, 'review', `${provider.label} rejected changes to ${fields.join(', ')}: ${error}`));
+        await sendAlert({
+          title: `${provider.label} delivery update rejected - manual review needed`,
+          message: `Order #${orderId} changed (${fields.join(', ')}) but ${provider.label} refused to update the delivery: ${error}`,
+          order_id: orderId,
+          store_id: previous.store_id,
         });
-      } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        return 'review';
       }
-    });
+      console.error(chalk.red(`❌ Failed to update ${provider.label} delivery for order #${orderId}: ${error}`));
+      await this.handleAsync(this.database.recordDoorDashUpdate(orderId, 'failed', error));
+      return 'failed';
+    }
+  }
+
+  /**
+   * Store an inbound webhook request in the journal (secrets redacted).
+   * Returns the journal ID, or null if the journal could not be written.
+   */
+  private async journalWebhookRequest(req: Request): Promise<number | null> {
+    try {
+      const rawBody = (req as any).rawBody !== undefined
+        ? String((req as any).rawBody)
+        : (typeof req.body === 'string' ? req.body : JSON.stringify(req.body ?? {}));
+      const id = await this.handleAsync(this.database.insertWebhookJournalEntry({
+        method: req.method,
+        path: req.path,
+        headers: JSON.stringify(redactHeaders(req.headers)),
+        query_params: Object.keys(req.query || {}).length > 0 ? JSON.stringify(redactQuery(req.query)) : undefined,
+        raw_body: redactRawBody(rawBody),
+        content_type: req.headers['content-type'],
+        source_ip: req.ip,
+      }));
+      console.log(chalk.gray(`   📓 Journaled webhook request #${id}`));
+      return id;
+    } catch (error: any) {
+      console.error(chalk.red(`❌ Failed to journal webhook request: ${error.message}`));
+      return null;
+    }
   }
 
-  private extractOrderData(body: any): GloriaFoodOrder | null {
-    // Handle null/undefined body
-    if (!body) {
+  /**
+   * Re-run a journal entry through the webhook processing pipeline. Replays skip webhook authentication, so
+   * entries that were rejected when received (unauthorized or invalid) are refused unless forced.
+   */
+  public async replayJournalEntry(id: number, force: boolean = false): Promise<(WebhookProcessResult & { forced?: string }) | { refused: string; status: string } | null> {
+    const entry = await this.handleAsync(this.database.getWebhookJournalEntry(id));
+    if (!entry) {
       return null;
     }
+    const rejected = UNREPLAYABLE_JOURNAL_STATUSES.includes(entry.status);
+    if (rejected && !force) {
+      console.warn(chalk.yellow(`⚠️  Journal entry #${id} was ${entry.status} when received - not replayed without force`));
+      return {
+        status: entry.status,
+        refused: `Entry #${id} was ${entry.status} when received${entry.error ? ` (${entry.error})` : ''}; replaying it would create and dispatch its orders without authentication. Pass force=true to replay it anyway.`,
+      };
+    }
+
+    console.log(chalk.cyan(`\n🔁 Replaying webhook journal entry #${id} (received ${entry.received_at}, status ${entry.status})`));
+    const { body, query } = parseJournalEntry(entry);
+    // Entries received on a per-store path stay scoped to that store
+    let storeId: string | undefined;
+    if (entry.path.startsWith(`${this.config.webhookPath}/`)) {
+      await this.stores.refresh();
+      storeId = this.stores.findByWebhookPath(entry.path.slice(this.config.webhookPath.length + 1))?.store_id;
+    }
+    if (rejected) {
+      console.warn(chalk.yellow(`⚠️  Forcing replay of journal entry #${id}, which was ${entry.status} when received`));
+    }
+    const result = await this.processWebhookPayload(body, query, entry.content_type, storeId);
+    await this.handleAsync(this.database.updateWebhookJournalEntry(id, {
+      status: result.outcome,
+      error: result.error,
+      order_ids: result.orderIds.join(',') || undefined,
+      replayed: true,
+    }));
+    return rejected ? { ...result, forced: entry.status } : result;
+  }
+
+  /**
+   * Process orders fetched from GloriaFood's poll API through the same pipeline as webhooks.
+   * Polled orders are gone from GloriaFood once returned, so the payload is journaled first and stays replayable.
+   */
+  public async processPolledOrders(payload: GloriaFoodPollResponse): Promise<WebhookProcessResult> {
+    let journalId: number | null = null;
+    try {
+      journalId = await this.handleAsync(this.database.insertWebhookJournalEntry({
+        method: 'POLL',
+        path: GLORIAFOOD_POLL_PATH,
+        headers: '{}',
+        raw_body: JSON.stringify(payload),
+        content_type: 'application/json',
+      }));
+    } catch (error: any) {
+      console.error(chalk.red(`❌ Failed to journal polled orders: ${error.message}`));
+    }
+
+    const result = await this.processWebhookPayload(payload, {}, 'application/json');
+    if (journalId !== null) {
+      await this.handleAsync(this.database.updateWebhookJournalEntry(journalId, {
+        status: result.outcome,
+        error: result.error,
+        order_ids: result.orderIds.join(',') || undefined,
+      }));
+    }
+    return result;
+  }
+
+  /**
+   * Start background work: DoorDash dispatch workers, the delivery status poller, reconciliation and the menu sync schedule.
+   * Also used by polling mode, which does not listen for HTTP.
+   */
+  public startBackgroundJobs(): void {
+    this.dispatchWorkers.start();
+    this.statusPoller.start();
+    this.reconciler.start();
+    this.menuCatalog.startSchedule(this.config.menuSyncIntervalMs);
+  }
+
+  /**
+   * Extract every order from a webhook payload.
+   * GloriaFood's push protocol sends { count, orders: [...] }, which may hold several orders.
+   */
+  private extractOrders(body: any): GloriaFoodOrder[] {
+    // Handle null/undefined/non-object body
+    if (!body || typeof body !== 'object') {
+      return [];
+    }
     
     // Handle different possible webhook payload structures
     if (body.order) {
-      return body.order;
+      return [body.order];
     }
     if (body.data && body.data.order) {
-      return body.data.order;
+      return [body.data.order];
     }
     if (body.id || body.order_id) {
-      return body;
+      return [body];
     }
-    if (Array.isArray(body) && body.length > 0) {
-      return body[0];
-    }
-    if (body.orders && Array.isArray(body.orders) && body.orders.length > 0) {
-      return body.orders[0];
-    }
-    return null;
+    const list = Array.isArray(body) ? body : Array.isArray(body.orders) ? body.orders : [];
+    return list.filter((order: any) => order && typeof order === 'object');
   }
 
   private async displayOrder(order: Order, isNew: boolean = false, originalOrderData?: any): Promise<void> {
@@ -948,10 +2642,17 @@ class GloriaFoodWebhookServer {
       if ((order as any).doordash_sent_at) {
         console.log(`    ${chalk.bold('Sent to DoorDash:')} ${new Date((order as any).doordash_sent_at).toLocaleString()}`);
       }
+      const provider = this.providerForOrder(order, this.stores.get(order.store_id));
+      if (order.delivery_provider && order.delivery_provider !== DEFAULT_DELIVERY_PROVIDER) {
+        console.log(`    ${chalk.bold('Delivered by:')} ${provider?.label || order.delivery_provider}`);
+      }
+      if (order.doordash_environment && order.delivery_provider !== 'inhouse') {
+        console.log(`    ${chalk.bold('Environment:')} ${order.doordash_environment === 'sandbox' ? chalk.magenta('SANDBOX') : 'production'}`);
+      }
       // Try to get tracking URL from database or fetch it
-      if ((order as any).doordash_order_id && this.doorDashClient) {
+      if ((order as any).doordash_order_id && provider) {
         try {
-          const ddStatus = await this.doorDashClient.getOrderStatus((order as any).doordash_order_id);
+          const ddStatus = await provider.getStatus((order as any).doordash_order_id);
           if (ddStatus.tracking_url) {
             console.log(`    ${chalk.bold('Tracking URL:')} ${chalk.blue(ddStatus.tracking_url)}`);
           }
@@ -1045,6 +2746,7 @@ class GloriaFoodWebhookServer {
   }
 
   public start(): void {
+    this.startBackgroundJobs();
     try {
       // Bind to 0.0.0.0 to allow external connections (required for Render)
       const server = this.app.listen(this.config.port, '0.0.0.0', () => {
@@ -1053,6 +2755,7 @@ class GloriaFoodWebhookServer {
         console.log(chalk.gray(`  Port: ${this.config.port}`));
         console.log(chalk.gray(`  Webhook Path: ${this.config.webhookPath}`));
         console.log(chalk.gray(`  Protocol Version: ${this.config.protocolVersion}`));
+        console.log(chalk.gray(`  Webhook Auth: ${this.config.auth.mode}`));
         console.log(chalk.gray(`  Store ID: ${this.config.storeId}`));
         console.log(chalk.gray(`  Database: ${this.config.databasePath}\n`));
         console.log(chalk.green(`✅ Server listening on 0.0.0.0:${this.config.port}`));
@@ -1117,6 +2820,10 @@ class GloriaFoodWebhookServer {
   }
 
   public async stop(): Promise<void> {
+    this.menuCatalog.stopSchedule();
+    this.statusPoller.stop();
+    this.reconciler.stop();
+    await this.dispatchWorkers.stop();
     const closeResult = this.database.close();
     if (closeResult instanceof Promise) {
       await closeResult;
@@ -1125,6 +2832,51 @@ class GloriaFoodWebhookServer {
   }
 }
 
+/**
+ * Build server configuration from environment variables
+ */
+export function loadWebhookConfig(apiKey: string, storeId: string): WebhookConfig {
+  // Support both PORT (standard for hosting services) and WEBHOOK_PORT
+  const port = parseInt(process.env.PORT || process.env.WEBHOOK_PORT || '3000', 10);
+  
+  return {
+    port,
+    webhookPath: process.env.WEBHOOK_PATH || '/webhook',
+    apiKey,
+    storeId,
+    apiUrl: process.env.GLORIAFOOD_API_URL,
+    masterKey: process.env.GLORIAFOOD_MASTER_KEY,
+    protocolVersion: process.env.GLORIAFOOD_PROTOCOL_VERSION || 'v2',
+    databasePath: process.env.DATABASE_PATH || './orders.db',
+    auth: loadWebhookAuthConfig(apiKey, process.env.GLORIAFOOD_MASTER_KEY),
+    adminApiKey: process.env.ADMIN_API_KEY,
+    orderLockTtlMs: parseInt(process.env.ORDER_LOCK_TTL_MS || '60000', 10),
+    orderLockWaitMs: parseInt(process.env.ORDER_LOCK_WAIT_MS || '5000', 10),
+    dispatchClaimTtlMs: parseInt(process.env.DISPATCH_CLAIM_TTL_MS || '120000', 10),
+    dispatchConcurrency: Math.max(1, parseInt(process.env.DISPATCH_WORKER_CONCURRENCY || '2', 10) || 1),
+    dispatchPollIntervalMs: parseInt(process.env.DISPATCH_POLL_INTERVAL_MS || '1000', 10),
+    dispatchMaxRetries: parseInt(process.env.DISPATCH_MAX_RETRIES || '5', 10),
+    dispatchRetryBaseMs: parseInt(process.env.DISPATCH_RETRY_BASE_MS || '30000', 10),
+    menuSyncIntervalMs: parseInt(process.env.MENU_SYNC_INTERVAL_MS || '3600000', 10),
+    quotePolicy: loadQuotePolicy(),
+    doorDashWebhookPath: process.env.DOORDASH_WEBHOOK_PATH || '/doordash/webhook',
+    doorDashWebhookAuth: process.env.DOORDASH_WEBHOOK_AUTH,
+    statusPollIntervalMs: parseInt(process.env.DOORDASH_STATUS_POLL_INTERVAL_MS || '15000', 10),
+    statusPollBaseMs: parseInt(process.env.DOORDASH_STATUS_POLL_BASE_MS || '30000', 10),
+    statusPollMaxMs: parseInt(process.env.DOORDASH_STATUS_POLL_MAX_MS || '600000', 10),
+    statusPollMaxAgeHours: parseInt(process.env.DOORDASH_STATUS_POLL_MAX_AGE_HOURS || '24', 10),
+    reconcileIntervalMs: parseInt(process.env.DOORDASH_RECONCILE_INTERVAL_MS || '3600000', 10),
+    reconcileLookbackHours: parseInt(process.env.DOORDASH_RECONCILE_LOOKBACK_HOURS || '24', 10),
+    reconcileRepair: (process.env.DOORDASH_RECONCILE_REPAIR || 'true').toLowerCase() !== 'false',
+    scheduleLeadMinutes: parseInt(process.env.DISPATCH_SCHEDULE_LEAD_MINUTES || '45', 10),
+    dispatchRules: loadDispatchRulesFile(process.env.DISPATCH_RULES_PATH),
+    defaultCountry: (process.env.DEFAULT_COUNTRY || 'US').toUpperCase(),
+    deliveryProviders: parseProviderList(process.env.DELIVERY_PROVIDERS || DEFAULT_DELIVERY_PROVIDER),
+    inHouseDelivery: loadInHouseDeliveryConfig(),
+    doorDash: loadDoorDashEnvironmentConfig(),
+  };
+}
+
 // Main execution
 async function main() {
   console.log(chalk.blue.bold('\n🚀 ========================================'));
@@ -1163,18 +2915,7 @@ async function main() {
   
   console.log(chalk.green('✅ Environment variables check passed\n'));
 
-  // Support both PORT (standard for hosting services) and WEBHOOK_PORT
-  const port = parseInt(process.env.PORT || process.env.WEBHOOK_PORT || '3000', 10);
-  
-  const config: WebhookConfig = {
-    port,
-    webhookPath: process.env.WEBHOOK_PATH || '/webhook',
-    apiKey,
-    storeId,
-    masterKey: process.env.GLORIAFOOD_MASTER_KEY,
-    protocolVersion: process.env.GLORIAFOOD_PROTOCOL_VERSION || 'v2',
-    databasePath: process.env.DATABASE_PATH || './orders.db',
-  };
+  const config = loadWebhookConfig(apiKey, storeId);
 
   console.log(chalk.blue('🔵 Creating server instance...'));
   const server = new GloriaFoodWebhookServer(config);
@@ -1197,12 +2938,16 @@ async function main() {
   server.start();
 }
 
-// Run the application
-console.log(chalk.blue('🔵 Main function called, starting application...'));
-main().catch(error => {
-  console.error(chalk.red.bold('\n❌❌❌ FATAL ERROR ❌❌❌'));
-  console.error(chalk.red(`Error: ${error.message}`));
-  console.error(chalk.red(`Stack: ${error.stack}`));
-  process.exit(1);
-});
+// Run the application (only when started directly, not when imported by CLI tools)
+if (require.main === module) {
+  console.log(chalk.blue('🔵 Main function called, starting application...'));
+  main().catch(error => {
+    console.error(chalk.red.bold('\n❌❌❌ FATAL ERROR ❌❌❌'));
+    console.error(chalk.red(`Error: ${error.message}`));
+    console.error(chalk.red(`Stack: ${error.stack}`));
+    process.exit(1);
+  });
+}
+
+export { GloriaFoodWebhookServer };
 
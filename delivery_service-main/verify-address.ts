@@ -0,0 +1,151 @@
+import chalk from 'chalk';
+import { ParsedAddress, parseUsAddress, resolveDropoff } from './src/address';
+import { toE164 } from './src/phone';
+
+/**
+ * Check how dropoff details are read: freeform US addresses split into street, unit, city, state and ZIP, phone
+ * numbers normalized to E.164, and orders refused with a clear error when either cannot be used.
+ *
+ *   npm run verify-address   # exits 1 and lists the addresses and numbers that come out wrong
+ */
+const failures: string[] = [];
+
+function expect(name: string, actual: any, expected: any): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+// [freeform address, expected parts]
+const ADDRESSES: [string, ParsedAddress][] = [
+  ['12 Main St, Springfield, IL 62704', { zip: '62704', state: 'IL', city: 'Springfield', street: '12 Main St' }],
+  // Units after the street, or in a segment of their own
+  ['12 Main St Apt 4, Springfield, IL 62704', { zip: '62704', state: 'IL', city: 'Springfield', street: '12 Main St', unit: 'Apt 4' }],
+  ['500 Market St Suite 200, San Francisco, CA 94105', { zip: '94105', state: 'CA', city: 'San Francisco', street: '500 Market St', unit: 'Suite 200' }],
+  ['77 Pine Rd #3B, Austin, TX 78701', { zip: '78701', state: 'TX', city: 'Austin', street: '77 Pine Rd', unit: '#3B' }],
+  ['350 5th Ave, Fl 21, New York, NY 10118', { zip: '10118', state: 'NY', city: 'New York', street: '350 5th Ave', unit: 'Fl 21' }],
+  // State names instead of codes, including names that end with another state's name
+  ['12 Main St, Springfield, Illinois 62704', { zip: '62704', state: 'IL', city: 'Springfield', street: '12 Main St' }],
+  ['1 Capitol St, Charleston, West Virginia 25301', { zip: '25301', state: 'WV', city: 'Charleston', street: '1 Capitol St' }],
+  ['9 Elm St, Portland, Or. 97205', { zip: '97205', state: 'OR', city: 'Portland', street: '9 Elm St' }],
+  // Separate state and ZIP segments, ZIP+4 and a trailing country
+  ['12 Main St, Springfield, IL, 62704', { zip: '62704', state: 'IL', city: 'Springfield', street: '12 Main St' }],
+  ['12 Main St, Springfield, IL 62704-1234, USA', { zip: '62704', state: 'IL', city: 'Springfield', street: '12 Main St' }],
+  ['12 Main St, Springfield, IL 62704, United States', { zip: '62704', state: 'IL', city: 'Springfield', street: '12 Main St' }],
+  // Without a comma the city cannot be told from the street
+  ['12 Main St Springfield IL 62704', { zip: '62704', state: 'IL', street: '12 Main St Springfield' }],
+  ['12 Main St', { street: '12 Main St' }],
+  ['', {}],
+];
+
+// [description, raw number, store country, expected E.164 or undefined when refused]
+const PHONES: [string, string, string, string | undefined][] = [
+  ['US 10 digits', '(415) 555-0123', 'US', '+14155550123'],
+  ['US 11 digits with 1', '1-415-555-0123', 'US', '+14155550123'],
+  ['US with +1', '+1 415 555 0123', 'US', '+14155550123'],
+  ['US with 00 prefix', '001 415 555 0123', 'US', '+14155550123'],
+  ['Canada 11 digits', '1 (604) 555-0199', 'CA', '+16045550199'],
+  ['US extension', '415-555-0123 ext. 12', 'US', '+14155550123'],
+  ['US extension (x)', '415.555.0123 x7', 'US', '+14155550123'],
+  ['US extension (#)', '4155550123 #99', 'US', '+14155550123'],
+  ['UK with trunk prefix', '020 7946 0000', 'GB', '+442079460000'],
+  ['UK with +44', '+44 20 7946 0000', 'GB', '+442079460000'],
+  ['UK with 0044', '0044 20 7946 0000', 'GB', '+442079460000'],
+  ['Germany with trunk prefix', '030 123456', 'DE', '+4930123456'],
+  ['foreign number in a US store', '+44 20 7946 0000', 'US', '+442079460000'],
+  ['UK number with 00 in a US store', '0044 20 7946 0000', 'US', '+442079460000'],
+  // Refused
+  ['US area code starting with 1', '115-555-0123', 'US', undefined],
+  ['US too short', '555-0123', 'US', undefined],
+  ['US 11 digits without 1', '2415550123 4', 'US', undefined],
+  ['+1 with a bad area code', '+1 015 555 0123', 'US', undefined],
+  ['international with 0 after +', '+0 20 7946 0000', 'GB', undefined],
+  ['too long', '+44 20 7946 0000 1234 5', 'GB', undefined],
+  ['UK too short', '0123', 'GB', undefined],
+  ['unsupported store country', '555 1234 567', 'ZZ', undefined],
+  ['no digits', 'call me', 'US', undefined],
+];
+
+function checkParsing(): void {
+  for (const [text, expected] of ADDRESSES) {
+    expect(`address "${text}"`, parseUsAddress(text), expected);
+  }
+}
+
+function checkPhones(): void {
+  for (const [name, raw, country, expected] of PHONES) {
+    expect(`phone ${name} ("${raw}", ${country})`, toE164(raw, country), expected);
+  }
+}
+
+function checkDropoff(): void {
+  const order = {
+    client_address: '12 Main St Apt 4, Springfield, IL 62704',
+    client_phone: '(217) 555-0100',
+    // The restaurant's address is never used for the customer
+    restaurant_city: 'Chicago',
+    restaurant_state: 'IL',
+    restaurant_zipcode: '60601',
+  };
+  const resolved = resolveDropoff(order);
+  expect('dropoff from freeform', resolved.address, {
+    street: '12 Main St', unit: 'Apt 4', city: 'Springfield', state: 'IL', zip: '62704', country: 'US',
+  });
+  expect('dropoff text', resolved.addressText, '12 Main St Apt 4, Springfield, IL 62704, US');
+  expect('dropoff phone', resolved.phone, '+12175550100');
+  expect('dropoff errors', resolved.errors, []);
+
+  // Address parts win over the freeform address; GloriaFood's unit parts get their designators
+  const parts = resolveDropoff({
+    client_address: '1 Old Rd Apt 9, Oldtown, IL 62704',
+    client_address_parts: { street: '350 5th Ave', apartment: '4B', floor: '21', city: 'New York', state: 'New York', zip: '10118', intercom: '4B', more_address: 'Use side door' },
+    client_phone: '212 555 0100',
+  });
+  expect('dropoff from parts', parts.address, {
+    street: '350 5th Ave', unit: 'Apt 4B Fl 21', city: 'New York', state: 'NY', zip: '10118', country: 'US',
+  });
+  expect('dropoff access notes', parts.accessNotes, 'Intercom: 4B; Use side door');
+  expect('dropoff from parts errors', parts.errors, []);
+
+  // Refused with a clear error
+  expect('missing city', resolveDropoff({ client_address: '12 Main St IL 62704', client_phone: '2175550100' }).errors,
+    ['Dropoff address is missing the city']);
+  expect('missing everything', resolveDropoff({}).errors,
+    ['Dropoff address is missing the street, city, state, ZIP code', 'Customer phone number is missing']);
+  expect('ZIP of another state', resolveDropoff({ client_address: '12 Main St, Springfield, MO 62704', client_phone: '2175550100' }).errors,
+    ['Dropoff ZIP code 62704 is in IL, not MO']);
+  expect('state that does not exist', resolveDropoff({
+    client_address_parts: { street: '12 Main St', city: 'Springfield', state: 'Illinoise', zip: '62704' },
+    client_phone: '2175550100',
+  }).errors, ['Dropoff state "Illinoise" is not a US state']);
+  expect('malformed ZIP', resolveDropoff({
+    client_address_parts: { street: '12 Main St', city: 'Springfield', state: 'IL', zip: '6270' },
+    client_phone: '2175550100',
+  }).errors, ['Dropoff ZIP code "6270" is not a valid US ZIP code']);
+  expect('bad phone', resolveDropoff({ client_address: '12 Main St, Springfield, IL 62704', client_phone: '555-01' }).errors,
+    ['Customer phone number "555-01" is not a valid number for US']);
+
+  // Outside the US a street and city are enough; the phone is read for the store's country
+  const uk = resolveDropoff({
+    client_address: '10 Downing St',
+    client_address_parts: { city: 'London', zip: 'SW1A 2AA', country: 'GB' },
+    client_phone: '020 7946 0000',
+  }, 'GB');
+  expect('UK dropoff', [uk.addressText, uk.phone, uk.errors], ['10 Downing St, London, SW1A 2AA, GB', '+442079460000', []]);
+}
+
+function main() {
+  checkParsing();
+  checkPhones();
+  checkDropoff();
+
+  if (failures.length > 0) {
+    console.log(chalk.red.bold('\n❌ Dropoff addresses or phone numbers are read wrong:'));
+    failures.forEach(failure => console.log(chalk.gray(`   ${failure}`)));
+    console.log('');
+    process.exit(1);
+  }
+  console.log(chalk.green(`✅ ${ADDRESSES.length} addresses, ${PHONES.length} phone numbers and the dropoff checks behave as expected\n`));
+}
+
+main();
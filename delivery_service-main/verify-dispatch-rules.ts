@@ -0,0 +1,177 @@
+import chalk from 'chalk';
+import { DispatchRule, OrderFacts, RuleCondition, evaluateRules, matchesCondition, orderFacts, validateRules } from './src/dispatch-rules';
+
+/**
+ * Check the dispatch rules: first-match order, all / any / not, the operators (including `between` wrapping past
+ * midnight and number vs string comparison), `exists`, and validation of rules with unknown fields or operators.
+ *
+ *   npm run verify-dispatch-rules   # exits 1 and lists the rules that decide differently
+ */
+const failures: string[] = [];
+
+function expect(name: string, actual: any, expected: any): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+function facts(overrides: Partial<OrderFacts> = {}): OrderFacts {
+  return {
+    status: 'accepted',
+    type: 'delivery',
+    total: 24.5,
+    subtotal: 20,
+    zip: '10001',
+    city: 'New York',
+    delivery_zone: '',
+    payment: 'card',
+    test: false,
+    for_later: false,
+    local_day: 'fri',
+    local_time: '18:30',
+    ...overrides,
+  };
+}
+
+function matches(name: string, condition: RuleCondition, orderFacts: OrderFacts, expected: boolean): void {
+  expect(name, matchesCondition(condition, orderFacts), expected);
+}
+
+function checkFirstMatch(): void {
+  const rules: DispatchRule[] = [
+    { name: 'no test orders', when: { test: true }, action: 'skip' },
+    { name: 'big orders', when: { total: { gte: 100 } }, action: 'dispatch', reason: 'Worth a Dasher' },
+    { name: 'small orders', when: { total: { lt: 15 } }, action: 'skip' },
+    { name: 'everything else', action: 'skip' },
+  ];
+
+  // An order matching several rules is decided by the first of them
+  const test = evaluateRules(rules, facts({ test: true, total: 150 }), 'file:default');
+  expect('first match: rule', test.rule, 'no test orders');
+  expect('first match: action', test.action, 'skip');
+  expect('first match: reason defaults to the name', test.reason, 'no test orders');
+  expect('first match: stops at the match', test.trace, [{ rule: 'no test orders', matched: true }]);
+
+  const big = evaluateRules(rules, facts({ total: 150 }), 'store');
+  expect('second rule: decision', [big.action, big.rule, big.reason, big.source], ['dispatch', 'big orders', 'Worth a Dasher', 'store']);
+  expect('second rule: trace', big.trace.map(entry => entry.matched), [false, true]);
+
+  const rest = evaluateRules(rules, facts(), 'file:store');
+  expect('rule without condition matches', [rest.action, rest.rule], ['skip', 'everything else']);
+
+  const unmatched = evaluateRules(rules.slice(0, 3), facts(), 'file:default');
+  expect('no rule matched', [unmatched.action, unmatched.rule, unmatched.reason], ['dispatch', undefined, 'No rule matched']);
+  const none = evaluateRules([], facts(), 'none');
+  expect('no rules', [none.action, none.reason, none.trace], ['dispatch', 'No dispatch rules configured', []]);
+}
+
+function checkCombinators(): void {
+  const weekdayLunch: RuleCondition = { local_day: { in: ['mon', 'tue', 'wed', 'thu', 'fri'] }, local_time: { between: ['11:00', '14:00'] } };
+  const weekend: RuleCondition = { local_day: { in: ['sat', 'sun'] } };
+
+  matches('keys of one condition all hold', weekdayLunch, facts({ local_time: '12:00' }), true);
+  matches('keys of one condition: one fails', weekdayLunch, facts({ local_time: '15:00' }), false);
+  matches('all: every one holds', { all: [{ type: 'delivery' }, { payment: 'card' }] }, facts(), true);
+  matches('all: one fails', { all: [{ type: 'delivery' }, { payment: 'cash' }] }, facts(), false);
+  matches('any: one holds', { any: [weekdayLunch, weekend] }, facts({ local_day: 'sat' }), true);
+  matches('any: none holds', { any: [weekdayLunch, weekend] }, facts({ local_time: '20:00' }), false);
+  matches('not', { not: { any: [weekdayLunch, weekend] } }, facts({ local_time: '20:00' }), true);
+  matches('not of a match', { not: weekend }, facts({ local_day: 'sun' }), false);
+  matches('nested', { all: [{ not: { test: true } }, { any: [{ zip: '10002' }, { city: 'new york' }] }] }, facts(), true);
+}
+
+function checkOperators(): void {
+  // between is inclusive; an end before the start wraps past midnight
+  const lateNight: RuleCondition = { local_time: { between: ['22:00', '02:00'] } };
+  for (const [time, expected] of [['21:59', false], ['22:00', true], ['23:30', true], ['00:00', true], ['01:59', true], ['02:00', true], ['02:01', false], ['12:00', false]] as [string, boolean][]) {
+    matches(`between 22:00-02:00 at ${time}`, lateNight, facts({ local_time: time }), expected);
+  }
+  matches('between 11:00-22:00 at 22:00', { local_time: { between: ['11:00', '22:00'] } }, facts({ local_time: '22:00' }), true);
+  matches('between 11:00-22:00 at 23:00', { local_time: { between: ['11:00', '22:00'] } }, facts({ local_time: '23:00' }), false);
+  matches('between on numbers', { total: { between: [10, 30] } }, facts(), true);
+
+  // Number facts compare as numbers, whatever type the rule gives; "9" < "10" would fail as strings
+  matches('number lt string', { total: { lt: '10' } }, facts({ total: 9 }), true);
+  matches('number gt number', { total: { gt: 10 } }, facts({ total: 9 }), false);
+  matches('number equals string', { total: '24.50' }, facts(), true);
+  matches('number in strings', { total: { in: ['24.5', '30'] } }, facts(), true);
+  matches('number lte', { subtotal: { lte: 20 } }, facts(), true);
+  // String facts compare as strings, case-insensitively for equality; a ZIP keeps its leading zero
+  matches('string equals number', { zip: 10001 }, facts(), true);
+  matches('ZIP with leading zero', { zip: 2139 }, facts({ zip: '02139' }), false);
+  matches('string equality ignores case', { city: 'NEW YORK' }, facts(), true);
+  matches('ne', { status: { ne: 'accepted' } }, facts({ status: 'pending' }), true);
+  matches('not_in', { zip: { not_in: ['10001', '10002'] } }, facts(), false);
+  matches('boolean equals string', { test: 'true' }, facts({ test: true }), true);
+  matches('boolean equals false', { for_later: false }, facts(), true);
+
+  // exists: empty strings, zero and false count as missing
+  matches('exists: set', { zip: { exists: true } }, facts(), true);
+  matches('exists: empty string', { delivery_zone: { exists: true } }, facts(), false);
+  matches('exists false: empty string', { delivery_zone: { exists: false } }, facts(), true);
+  matches('exists: zero', { subtotal: { exists: true } }, facts({ subtotal: 0 }), false);
+  matches('exists: false', { test: { exists: false } }, facts(), true);
+}
+
+function checkFacts(): void {
+  // Sunday 23:30 in New York is Monday 03:30 UTC
+  const order = {
+    type: 'Delivery',
+    total_price: '31.20',
+    client_address_parts: { zip: '10001', city: 'New York' },
+    payment: 'CASH',
+    test_order: 1,
+  };
+  const derived = orderFacts(order, 'Accepted', 'America/New_York', new Date('2024-03-11T03:30:00.000Z'));
+  expect('facts', derived, facts({
+    status: 'accepted', total: 31.2, subtotal: 0, payment: 'cash', test: true, local_day: 'sun', local_time: '23:30',
+  }));
+  matches('facts: late-night rule in the store\'s timezone', { local_time: { between: ['22:00', '02:00'] } }, derived, true);
+}
+
+function invalid(name: string, rules: any, expected: string): void {
+  const errors = validateRules(rules);
+  if (!errors.some(error => error.includes(expected))) {
+    failures.push(`${name}: expected an error containing ${JSON.stringify(expected)}, got ${JSON.stringify(errors)}`);
+  }
+}
+
+function checkValidation(): void {
+  const valid = [
+    { name: 'late night', when: { any: [{ local_time: { between: ['22:00', '02:00'] } }, { not: { zip: { exists: true } } }] }, action: 'skip', reason: 'Closed' },
+    { name: 'rest', action: 'dispatch' },
+  ];
+  expect('valid rules', validateRules(valid), []);
+
+  invalid('unknown field', [{ name: 'a', when: { zipcode: '10001' }, action: 'skip' }], 'rules[0].when: unknown field "zipcode"');
+  invalid('unknown field inside any', [{ name: 'a', when: { any: [{ zip: '1' }, { town: 'x' }] }, action: 'skip' }], 'rules[0].when.any[1]: unknown field "town"');
+  invalid('unknown operator', [{ name: 'a', when: { city: { contains: 'york' } }, action: 'skip' }], 'rules[0].when.city: unknown operator "contains"');
+  invalid('unknown operator inside not', [{ name: 'a', when: { not: { total: { above: 5 } } }, action: 'skip' }], 'rules[0].when.not.total: unknown operator "above"');
+  invalid('in without a list', [{ name: 'a', when: { zip: { in: '10001' } }, action: 'skip' }], 'rules[0].when.zip.in must be an array');
+  invalid('between without two values', [{ name: 'a', when: { total: { between: [10] } }, action: 'skip' }], 'rules[0].when.total.between must be [from, to]');
+  invalid('12-hour time', [{ name: 'a', when: { local_time: { gte: '9:00pm' } }, action: 'skip' }], 'times must be HH:MM');
+  invalid('list as a value', [{ name: 'a', when: { zip: ['10001'] }, action: 'skip' }], 'use {"in": [...]}');
+  invalid('empty any', [{ name: 'a', when: { any: [] }, action: 'skip' }], 'rules[0].when.any must be a non-empty array');
+  invalid('missing name', [{ action: 'skip' }], 'rules[0].name is required');
+  invalid('unknown action', [{ name: 'a', action: 'hold' }], 'rules[0].action must be one of: dispatch, skip');
+  invalid('unknown rule key', [{ name: 'a', action: 'skip', priority: 1 }], 'rules[0]: unknown keys priority');
+  invalid('not a list', { name: 'a', action: 'skip' }, 'rules must be an array of rules');
+}
+
+function main() {
+  checkFirstMatch();
+  checkCombinators();
+  checkOperators();
+  checkFacts();
+  checkValidation();
+
+  if (failures.length > 0) {
+    console.log(chalk.red.bold('\n❌ Dispatch rules decide differently than expected:'));
+    failures.forEach(failure => console.log(chalk.gray(`   ${failure}`)));
+    console.log('');
+    process.exit(1);
+  }
+  console.log(chalk.green('✅ Dispatch rules match, combine, compare and validate as expected\n'));
+}
+
+main();
@@ -0,0 +1,135 @@
+import chalk from 'chalk';
+import { CircuitBreaker, DoorDashApiError, backoffWithJitter, isTransientStatus, parseRetryAfter, toDoorDashApiError } from './src/doordash-retry';
+
+/**
+ * Check the DoorDash retry building blocks: which failures are transient, Retry-After parsing, the backoff range
+ * and the circuit breaker's closed -> open -> half-open -> open/closed cycle.
+ *
+ *   npm run verify-doordash-retry   # exits 1 and lists what does not behave as expected
+ */
+const failures: string[] = [];
+
+function expect(name: string, actual: any, expected: any): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+// A DoorDashApiError thrown by fn, or undefined when it does not throw one
+function thrown(fn: () => void): DoorDashApiError | undefined {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof DoorDashApiError) return error;
+    throw error;
+  }
+  return undefined;
+}
+
+function axiosError(status: number, headers: { [name: string]: string } = {}): any {
+  return { message: `Request failed with status code ${status}`, response: { status, data: { code: 'error' }, headers } };
+}
+
+function checkClassification(): void {
+  for (const status of [408, 425, 429, 500, 502, 503, 504]) {
+    expect(`status ${status} transient`, isTransientStatus(status), true);
+    expect(`error ${status} transient`, toDoorDashApiError(axiosError(status)).transient, true);
+  }
+  for (const status of [400, 401, 403, 404, 409, 422]) {
+    expect(`status ${status} transient`, isTransientStatus(status), false);
+    expect(`error ${status} transient`, toDoorDashApiError(axiosError(status)).transient, false);
+  }
+  const network = toDoorDashApiError({ message: 'timeout of 30000ms exceeded', code: 'ECONNABORTED' });
+  expect('network error transient', network.transient, true);
+  expect('network error status', network.status, undefined);
+  const apiError = new DoorDashApiError('DoorDash API Error: 400 - {}', { status: 400, transient: false });
+  expect('DoorDashApiError passed through', toDoorDashApiError(apiError) === apiError, true);
+}
+
+function checkRetryAfter(): void {
+  const now = Date.parse('2024-05-10T18:00:00.000Z');
+  expect('Retry-After seconds', parseRetryAfter('30', now), 30000);
+  expect('Retry-After HTTP-date', parseRetryAfter('Fri, 10 May 2024 18:02:00 GMT', now), 120000);
+  expect('Retry-After date in the past', parseRetryAfter('Fri, 10 May 2024 17:59:00 GMT', now), 0);
+  expect('Retry-After missing', parseRetryAfter(undefined, now), undefined);
+  expect('Retry-After unparseable', parseRetryAfter('soon', now), undefined);
+
+  const limited = toDoorDashApiError(axiosError(429, { 'retry-after': '7' }));
+  expect('429 with Retry-After transient', limited.transient, true);
+  expect('429 with Retry-After (seconds)', limited.retryAfterMs, 7000);
+  const dated = toDoorDashApiError(axiosError(429, { 'retry-after': new Date(Date.now() + 60000).toUTCString() }));
+  const waitMs = dated.retryAfterMs ?? -1;
+  if (waitMs < 58000 || waitMs > 60000) {
+    failures.push(`429 with Retry-After (HTTP-date): expected about 60000ms, got ${dated.retryAfterMs}`);
+  }
+}
+
+function checkBackoff(): void {
+  for (let retry = 0; retry < 5; retry++) {
+    const delay = 500 * Math.pow(2, retry);
+    for (let i = 0; i < 20; i++) {
+      const wait = backoffWithJitter(retry, 500);
+      if (wait < delay / 2 || wait > delay) {
+        failures.push(`backoff retry ${retry}: ${wait}ms is outside ${delay / 2}-${delay}ms`);
+      }
+    }
+  }
+  const capped = backoffWithJitter(10, 500, 8000);
+  if (capped < 4000 || capped > 8000) {
+    failures.push(`backoff cap: ${capped}ms is outside 4000-8000ms`);
+  }
+}
+
+async function checkCircuitBreaker(): Promise<void> {
+  const cooldownMs = 50;
+  const breaker = new CircuitBreaker(3, cooldownMs);
+  const waitForCooldown = () => new Promise(resolve => setTimeout(resolve, cooldownMs + 10));
+
+  breaker.onFailure();
+  breaker.onFailure();
+  expect('below threshold', breaker.state, 'closed');
+  expect('below threshold lets calls through', thrown(() => breaker.beforeCall()), undefined);
+
+  breaker.onFailure();
+  expect('at threshold', breaker.state, 'open');
+  const open = thrown(() => breaker.beforeCall());
+  expect('open circuit fails fast', !!open, true);
+  expect('open circuit error transient', open?.transient, true);
+  expect('open circuit error has retryAfterMs', (open?.retryAfterMs ?? 0) > 0, true);
+
+  await waitForCooldown();
+  expect('after cooldown', breaker.state, 'half_open');
+  expect('half-open lets one trial call through', thrown(() => breaker.beforeCall()), undefined);
+  expect('half-open refuses a second call during the trial', !!thrown(() => breaker.beforeCall()), true);
+
+  breaker.onFailure();
+  expect('failed trial re-opens the circuit', breaker.state, 'open');
+  expect('re-opened circuit fails fast', !!thrown(() => breaker.beforeCall()), true);
+
+  await waitForCooldown();
+  expect('trial after second cooldown', thrown(() => breaker.beforeCall()), undefined);
+  breaker.onSuccess();
+  expect('successful trial closes the circuit', breaker.state, 'closed');
+  expect('successful trial resets the failure count', breaker.snapshot().consecutive_failures, 0);
+
+  const disabled = new CircuitBreaker(0, cooldownMs);
+  for (let i = 0; i < 10; i++) disabled.onFailure();
+  expect('threshold 0 never opens', disabled.state, 'closed');
+}
+
+async function main() {
+  checkClassification();
+  checkRetryAfter();
+  checkBackoff();
+  await checkCircuitBreaker();
+
+  if (failures.length > 0) {
+    console.log(chalk.red.bold('\n❌ DoorDash retry handling is broken:'));
+    failures.forEach(failure => console.log(chalk.gray(`   ${failure}`)));
+    console.log('');
+    process.exit(1);
+  }
+  console.log(chalk.green('✅ DoorDash failure classification, Retry-After, backoff and circuit breaker behave as expected\n'));
+}
+
+main();
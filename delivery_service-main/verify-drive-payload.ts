@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { buildDriveDelivery, DriveDeliveryOptions } from './src/doordash-client';
+
+/**
+ * Golden-file check of the GloriaFood -> Drive conversion. Every recorded GloriaFood order in
+ * fixtures/drive-payload/<name>.gloriafood.json is converted and compared with <name>.drive.json
+ * (options for the conversion, such as country or itemNames, go in an optional <name>.options.json).
+ *
+ *   npm test                                  # same as npm run verify-drive-payload; exits 1 when a payload
+ *                                             # differs or has no golden file
+ *   npm run verify-drive-payload -- --update  # (re)write the golden files after an intended change or a new fixture
+ */
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'drive-payload');
+
+// JSON with sorted keys, so field order does not matter
+function canonical(value: any): any {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((result: any, key) => {
+      if (value[key] !== undefined) result[key] = canonical(value[key]);
+      return result;
+    }, {});
+  }
+  return value;
+}
+
+function readJson(file: string): any {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+// Top-level fields that differ, with both values
+function differences(expected: any, actual: any): string[] {
+  const keys = Array.from(new Set([...Object.keys(expected || {}), ...Object.keys(actual || {})])).sort();
+  return keys
+    .filter(key => JSON.stringify(expected?.[key]) !== JSON.stringify(actual?.[key]))
+    .map(key => `${key}: expected ${JSON.stringify(expected?.[key])}, got ${JSON.stringify(actual?.[key])}`);
+}
+
+function main() {
+  const update = process.argv.includes('--update');
+  const names = fs.readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith('.gloriafood.json'))
+    .map(file => file.replace(/\.gloriafood\.json$/, ''))
+    .sort();
+
+  let failed = 0;
+  for (const name of names) {
+    const base = path.join(FIXTURE_DIR, name);
+    const options: DriveDeliveryOptions = fs.existsSync(`${base}.options.json`) ? readJson(`${base}.options.json`) : {};
+    const actual = canonical(buildDriveDelivery(readJson(`${base}.gloriafood.json`), options));
+
+    if (update) {
+      fs.writeFileSync(`${base}.drive.json`, JSON.stringify(actual, null, 2) + '\n');
+      console.log(chalk.yellow(`✏️  ${name}: golden file written`));
+      continue;
+    }
+    if (!fs.existsSync(`${base}.drive.json`)) {
+      failed++;
+      console.log(chalk.red(`❌ ${name}: no golden file ${name}.drive.json (write it with --update and review it)`));
+      continue;
+    }
+
+    const expected = canonical(readJson(`${base}.drive.json`));
+    if (JSON.stringify(expected) === JSON.stringify(actual)) {
+      console.log(chalk.green(`✅ ${name}`));
+    } else {
+      failed++;
+      console.log(chalk.red(`❌ ${name}`));
+      differences(expected, actual).forEach(line => console.log(chalk.gray(`   ${line}`)));
+    }
+  }
+
+  console.log(failed > 0
+    ? chalk.red.bold(`\n${failed} of ${names.length} payload(s) differ from or lack their golden file\n`)
+    : chalk.blue.bold(`\n${names.length} payload(s) checked\n`));
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
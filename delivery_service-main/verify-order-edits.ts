@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import chalk from 'chalk';
+import { DoorDashSimulator } from './src/doordash-simulator';
+import { GloriaFoodWebhookServer, loadWebhookConfig } from './src/webhook-mode';
+
+/**
+ * Check that an admin's correction of a failed dispatch survives GloriaFood updates of the order: a delivery order
+ * with a bad phone number is dead-lettered, corrected and dispatched to the embedded DoorDash simulator, then
+ * GloriaFood re-sends the order (with the bad phone) for an unrelated change. The delivery must keep the corrected
+ * phone and the order must not be flagged for review.
+ *
+ *   npm run verify-order-edits   # exits 1 when the correction is reverted or the order is sent to review
+ */
+const SIGNING_SECRET = Buffer.from('verify-order-edits-secret').toString('base64url');
+const ORDER = {
+  ...JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'drive-payload', 'delivery-with-tip.gloriafood.json'), 'utf8')),
+  id: 910001,
+  client_phone: '555-01',
+};
+const ORDER_ID = String(ORDER.id);
+const CORRECTED_PHONE = '+1 415-555-0123';
+
+async function main() {
+  const databasePath = path.join(os.tmpdir(), `verify-order-edits-${process.pid}.db`);
+  const simulator = new DoorDashSimulator({
+    port: 0,
+    signingSecret: SIGNING_SECRET,
+    developerId: 'verify-developer',
+    keyId: 'verify-key',
+    stepMs: 600000,
+    feeCents: 975,
+    quiet: true,
+  });
+  const apiUrl = await simulator.start();
+
+  Object.assign(process.env, {
+    DB_TYPE: 'sqlite',
+    DATABASE_PATH: databasePath,
+    NODE_ENV: 'development',
+    DOORDASH_ENVIRONMENT: 'sandbox',
+    DOORDASH_SANDBOX_DEVELOPER_ID: 'verify-developer',
+    DOORDASH_SANDBOX_KEY_ID: 'verify-key',
+    DOORDASH_SANDBOX_SIGNING_SECRET: SIGNING_SECRET,
+    DOORDASH_SANDBOX_API_URL: apiUrl,
+  });
+
+  // The server logs every step; only this check's results are printed
+  const log = { log: console.log, warn: console.warn, error: console.error };
+  console.log = console.warn = console.error = () => {};
+
+  const failures: string[] = [];
+  let server: GloriaFoodWebhookServer | undefined;
+  try {
+    server = new GloriaFoodWebhookServer(loadWebhookConfig('verify-key', String(ORDER.restaurant_id)));
+    const database = server['database'];
+    const queue = server['dispatchQueue'];
+
+    // The bad phone number makes the dispatch fail for good
+    await server['processOrder'](ORDER);
+    const job = await queue.receive('verify-worker', 60000);
+    const failed = job && await server['runDispatchJob'](job);
+    if (!job || !failed || failed.done || failed.retryable !== false) {
+      throw new Error(`expected the dispatch of order #${ORDER_ID} to fail permanently, got ${JSON.stringify(failed)}`);
+    }
+    await queue.nack(job, failed.error || 'Unknown error', null);
+    await queue.deadLetter(job, failed);
+
+    // The admin corrects the phone and retries
+    await database.saveDeadLetterEdits(ORDER_ID, JSON.stringify({ client_phone: CORRECTED_PHONE }));
+    await queue.enqueue(ORDER_ID);
+    await database.resolveDeadLetter(ORDER_ID, 'retried');
+    const retry = await queue.receive('verify-worker', 60000);
+    const sent = retry && await server['runDispatchJob'](retry);
+    if (!retry || !sent?.done) {
+      throw new Error(`expected the corrected order to be dispatched, got ${JSON.stringify(sent)}`);
+    }
+    const dispatchedPhone = simulator.getDelivery(ORDER_ID)?.dropoff_phone_number;
+    if (dispatchedPhone !== '+14155550123') {
+      failures.push(`dispatch: expected the corrected phone +14155550123, got ${JSON.stringify(dispatchedPhone)}`);
+    }
+
+    // GloriaFood re-sends the order with its original phone number for an unrelated change
+    const result = await server['processOrder']({ ...ORDER, updated_at: new Date().toISOString() });
+    if (result.doordash !== 'skipped') {
+      failures.push(`resend: expected no delivery update, got "${result.doordash}"${result.error ? ` (${result.error})` : ''}`);
+    }
+    const deliveryPhone = simulator.getDelivery(ORDER_ID)?.dropoff_phone_number;
+    if (deliveryPhone !== '+14155550123') {
+      failures.push(`resend: the delivery's phone was changed back to ${JSON.stringify(deliveryPhone)}`);
+    }
+    const order: any = await database.getOrderByGloriaFoodId(ORDER_ID);
+    if (order?.needs_review) {
+      failures.push(`resend: order flagged for review: ${order.review_reason}`);
+    }
+  } finally {
+    await server?.stop();
+    await simulator.stop();
+    Object.assign(console, log);
+    for (const suffix of ['', '-wal', '-shm', '-journal']) {
+      fs.rmSync(`${databasePath}${suffix}`, { force: true });
+    }
+  }
+
+  if (failures.length > 0) {
+    console.log(chalk.red.bold('\n❌ An admin\'s correction of a failed dispatch was not kept:'));
+    failures.forEach(failure => console.log(chalk.gray(`   ${failure}`)));
+    console.log('');
+    process.exit(1);
+  }
+  console.log(chalk.green('✅ Corrections of a failed dispatch survive GloriaFood updates of the order\n'));
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(chalk.red.bold('\n❌ Fatal Error:'), error);
+  process.exit(1);
+});
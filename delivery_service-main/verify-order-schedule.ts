@@ -0,0 +1,78 @@
+import chalk from 'chalk';
+import { getOrderSchedule, parseOrderTime } from './src/order-schedule';
+
+/**
+ * Check how scheduled order times are read: wall-clock times in the store's timezone on both sides of DST changes,
+ * timestamps that carry their own offset, and unknown timezones. A wrong offset dispatches an order an hour early or late.
+ *
+ *   npm run verify-order-schedule   # exits 1 and lists the times that come out wrong
+ */
+const failures: string[] = [];
+
+// [description, order time, store timezone, expected instant (ISO, UTC) or undefined when it cannot be read]
+const CASES: [string, string, string | undefined, string | undefined][] = [
+  // New York: clocks go forward on 2024-03-10 at 02:00 and back on 2024-11-03 at 02:00
+  ['New York, day before spring forward (EST)', '2024-03-09 18:30:00', 'America/New_York', '2024-03-09T23:30:00.000Z'],
+  ['New York, night of spring forward, before it (EST)', '2024-03-10 01:30:00', 'America/New_York', '2024-03-10T06:30:00.000Z'],
+  ['New York, night of spring forward, after it (EDT)', '2024-03-10 03:30:00', 'America/New_York', '2024-03-10T07:30:00.000Z'],
+  ['New York, evening after spring forward (EDT)', '2024-03-10 18:30', 'America/New_York', '2024-03-10T22:30:00.000Z'],
+  ['New York, day before fall back (EDT)', '2024-11-02 18:30:00', 'America/New_York', '2024-11-02T22:30:00.000Z'],
+  ['New York, night of fall back, before it (EDT)', '2024-11-03 00:30:00', 'America/New_York', '2024-11-03T04:30:00.000Z'],
+  ['New York, evening after fall back (EST)', '2024-11-03T18:30:00', 'America/New_York', '2024-11-03T23:30:00.000Z'],
+  // London: clocks go forward on 2024-03-31 at 01:00
+  ['London, before summer time (GMT)', '2024-03-30 12:00:00', 'Europe/London', '2024-03-30T12:00:00.000Z'],
+  ['London, after summer time starts (BST)', '2024-03-31 12:00:00', 'Europe/London', '2024-03-31T11:00:00.000Z'],
+  // Sydney: clocks go back on 2024-04-07 at 03:00
+  ['Sydney, before DST ends (AEDT)', '2024-04-06 18:00:00', 'Australia/Sydney', '2024-04-06T07:00:00.000Z'],
+  ['Sydney, after DST ends (AEST)', '2024-04-07 18:00:00', 'Australia/Sydney', '2024-04-07T08:00:00.000Z'],
+  // A timestamp with its own offset is taken as is, whatever the store's timezone
+  ['ISO with offset, store timezone ignored', '2024-03-10T18:30:00-05:00', 'America/New_York', '2024-03-10T23:30:00.000Z'],
+  ['ISO with Z, store timezone ignored', '2024-05-10T18:30:00.000Z', 'Australia/Sydney', '2024-05-10T18:30:00.000Z'],
+  ['ISO with offset, unknown timezone', '2024-05-10T18:30:00+02:00', 'Mars/Olympus_Mons', '2024-05-10T16:30:00.000Z'],
+  // Wall-clock time in a timezone that does not exist cannot be placed
+  ['wall-clock time, unknown timezone', '2024-05-10 18:30:00', 'Mars/Olympus_Mons', undefined],
+  ['not a time', 'tomorrow evening', 'America/New_York', undefined],
+  ['empty', '', 'America/New_York', undefined],
+];
+
+function checkParsing(): void {
+  for (const [name, value, timezone, expected] of CASES) {
+    const parsed = parseOrderTime(value, timezone);
+    const actual = parsed ? parsed.toISOString() : undefined;
+    if (actual !== expected) {
+      failures.push(`${name}: "${value}" in ${timezone}: expected ${expected}, got ${actual}`);
+    }
+  }
+}
+
+function checkSchedule(): void {
+  const order = { for_later: true, fulfill_at: '2024-11-03 18:30:00', restaurant_timezone: 'America/New_York' };
+  const schedule = getOrderSchedule(order, 45);
+  const dispatchAt = schedule ? new Date(schedule.dispatchAt).toISOString() : undefined;
+  if (dispatchAt !== '2024-11-03T22:45:00.000Z') {
+    failures.push(`schedule (restaurant_timezone): expected dispatch at 2024-11-03T22:45:00.000Z, got ${dispatchAt}`);
+  }
+  const storeSchedule = getOrderSchedule(order, 30, 'Europe/London');
+  const storeFulfillAt = storeSchedule?.fulfillAt.toISOString();
+  if (storeFulfillAt !== '2024-11-03T18:30:00.000Z') {
+    failures.push(`schedule (store timezone wins): expected 2024-11-03T18:30:00.000Z, got ${storeFulfillAt}`);
+  }
+  if (getOrderSchedule({ ...order, for_later: false }, 45) !== null) {
+    failures.push('schedule: an ASAP order got a schedule');
+  }
+}
+
+function main() {
+  checkParsing();
+  checkSchedule();
+
+  if (failures.length > 0) {
+    console.log(chalk.red.bold('\n❌ Scheduled order times are read wrong:'));
+    failures.forEach(failure => console.log(chalk.gray(`   ${failure}`)));
+    console.log('');
+    process.exit(1);
+  }
+  console.log(chalk.green(`✅ ${CASES.length} order times and the dispatch schedule are read as expected\n`));
+}
+
+main();
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import chalk from 'chalk';
+import { DoorDashSimulator } from './src/doordash-simulator';
+import { GloriaFoodWebhookServer, loadWebhookConfig } from './src/webhook-mode';
+
+/**
+ * Check that an order gets at most one DoorDash delivery when several instances handle it at once: two servers
+ * share one SQLite database and an embedded DoorDash simulator, receive the same webhook concurrently and run
+ * their dispatch workers side by side, and a worker finds a dispatch claim left behind by a crashed one. The
+ * simulator counts every quote and delivery request per order.
+ *
+ *   npm run verify-single-dispatch   # exits 1 when an order is created more than once (or never)
+ */
+const SIGNING_SECRET = Buffer.from('verify-single-dispatch-secret').toString('base64url');
+const ORDER = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'drive-payload', 'delivery-with-tip.gloriafood.json'), 'utf8'));
+
+function orderWithId(id: number): any {
+  return { ...ORDER, id };
+}
+
+async function waitFor(check: () => Promise<boolean>, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await check()) return true;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  return check();
+}
+
+async function main() {
+  const databasePath = path.join(os.tmpdir(), `verify-single-dispatch-${process.pid}.db`);
+  const simulator = new DoorDashSimulator({
+    port: 0,
+    signingSecret: SIGNING_SECRET,
+    developerId: 'verify-developer',
+    keyId: 'verify-key',
+    stepMs: 600000,
+    feeCents: 975,
+    quiet: true,
+  });
+  const apiUrl = await simulator.start();
+
+  Object.assign(process.env, {
+    DB_TYPE: 'sqlite',
+    DATABASE_PATH: databasePath,
+    NODE_ENV: 'development',
+    DOORDASH_ENVIRONMENT: 'sandbox',
+    DOORDASH_SANDBOX_DEVELOPER_ID: 'verify-developer',
+    DOORDASH_SANDBOX_KEY_ID: 'verify-key',
+    DOORDASH_SANDBOX_SIGNING_SECRET: SIGNING_SECRET,
+    DOORDASH_SANDBOX_API_URL: apiUrl,
+    DISPATCH_POLL_INTERVAL_MS: '50',
+  });
+
+  // The servers log every step; only this check's results are printed
+  const log = { log: console.log, warn: console.warn, error: console.error };
+  console.log = console.warn = console.error = () => {};
+
+  const failures: string[] = [];
+  const servers: GloriaFoodWebhookServer[] = [];
+  try {
+    // Two instances sharing one database
+    servers.push(new GloriaFoodWebhookServer(loadWebhookConfig('verify-key', String(ORDER.restaurant_id))));
+    servers.push(new GloriaFoodWebhookServer(loadWebhookConfig('verify-key', String(ORDER.restaurant_id))));
+    const [a, b] = servers;
+    const database = a['database'];
+
+    // The same webhook received by both instances at once, then both instances' workers
+    const webhookOrder = orderWithId(900001);
+    const results = await Promise.all([a['processOrder'](webhookOrder), b['processOrder'](webhookOrder)]);
+    const failed = results.filter(result => result.action === 'failed');
+    if (failed.length > 0) {
+      failures.push(`concurrent webhooks: ${failed.map(result => result.error).join('; ')}`);
+    }
+    servers.forEach(server => server['dispatchWorkers'].start());
+    const sent = await waitFor(async () => !!(await database.getOrderByGloriaFoodId('900001'))?.sent_to_doordash, 15000);
+    await Promise.all(servers.map(server => server['dispatchWorkers'].stop()));
+    if (!sent) {
+      failures.push('concurrent webhooks: order was never sent to DoorDash');
+    }
+    if (simulator.dispatchRequestCount('900001') !== 1) {
+      failures.push(`concurrent webhooks: expected 1 DoorDash delivery request, got ${simulator.dispatchRequestCount('900001')}`);
+    }
+
+    // One job picked up by a worker on each instance (e.g. after its visibility timeout ran out)
+    const queuedOrder = orderWithId(900002);
+    await a['processOrder'](queuedOrder);
+    const job = await a['dispatchQueue'].receive('verify-worker', 60000);
+    if (!job || job.gloriafood_order_id !== '900002') {
+      failures.push(`concurrent workers: expected the job of order #900002, got ${JSON.stringify(job)}`);
+    } else {
+      const jobResults = await Promise.all([a['runDispatchJob'](job), b['runDispatchJob'](job)]);
+      if (simulator.dispatchRequestCount('900002') !== 1) {
+        failures.push(`concurrent workers: expected 1 DoorDash delivery request, got ${simulator.dispatchRequestCount('900002')}`);
+      }
+      if (!(await database.getOrderByGloriaFoodId('900002'))?.sent_to_doordash) {
+        failures.push(`concurrent workers: order was not marked as sent (${jobResults.map(result => result.error || 'done').join('; ')})`);
+      }
+    }
+
+    // A dispatch claim left behind by a crashed worker: the job waits for it to expire without using up an attempt
+    const strandedOrder = orderWithId(900003);
+    await a['processOrder'](strandedOrder);
+    await database.claimOrderForDispatch('900003', 'crashed-worker', 700);
+    a['dispatchWorkers'].start();
+    const recovered = await waitFor(async () => !!(await database.getOrderByGloriaFoodId('900003'))?.sent_to_doordash, 10000);
+    await a['dispatchWorkers'].stop();
+    const stranded = await database.getOrderByGloriaFoodId('900003');
+    if (!recovered) {
+      failures.push(`stranded claim: order was not sent once the claim expired (${stranded?.dispatch_last_error || 'no error'})`);
+    }
+    if (stranded?.dispatch_attempts !== 1) {
+      failures.push(`stranded claim: expected 1 dispatch attempt, got ${stranded?.dispatch_attempts}`);
+    }
+    if (simulator.dispatchRequestCount('900003') !== 1) {
+      failures.push(`stranded claim: expected 1 DoorDash delivery request, got ${simulator.dispatchRequestCount('900003')}`);
+    }
+
+    if (simulator.deliveries().length !== 3) {
+      failures.push(`expected 3 deliveries in the simulator, got ${simulator.deliveries().length}`);
+    }
+  } finally {
+    for (const server of servers) {
+      await server.stop();
+    }
+    await simulator.stop();
+    Object.assign(console, log);
+    for (const suffix of ['', '-wal', '-shm', '-journal']) {
+      fs.rmSync(`${databasePath}${suffix}`, { force: true });
+    }
+  }
+
+  if (failures.length > 0) {
+    console.log(chalk.red.bold('\n❌ An order was dispatched more than once (or not at all):'));
+    failures.forEach(failure => console.log(chalk.gray(`   ${failure}`)));
+    console.log('');
+    process.exit(1);
+  }
+  console.log(chalk.green('✅ Concurrent webhooks and dispatch workers create one DoorDash delivery per order\n'));
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(chalk.red.bold('\n❌ Fatal Error:'), error);
+  process.exit(1);
+});
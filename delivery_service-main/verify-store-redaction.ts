@@ -0,0 +1,48 @@
+import chalk from 'chalk';
+import { Store } from './src/database-factory';
+import { buildStore, redactStore } from './src/store-registry';
+
+/**
+ * Check that a store fetched from the admin API (credentials redacted) can be edited and sent back with
+ * PUT /admin/stores/:id without overwriting its credentials with the redaction placeholder.
+ *
+ *   npm run verify-store-redaction   # exits 1 when a credential is lost
+ */
+const STORE: Store = {
+  store_id: 'store1',
+  name: 'Downtown',
+  gloriafood_api_key: 'api-key',
+  gloriafood_master_key: 'master-key',
+  doordash_developer_id: 'developer',
+  doordash_key_id: 'key',
+  doordash_signing_secret: 'signing-secret',
+  dispatch_enabled: 1,
+};
+
+function main() {
+  const fetched: any = redactStore(STORE);
+  const { store, errors } = buildStore(STORE.store_id, { ...fetched, name: 'Downtown (edited)' }, STORE);
+
+  const failures = [...errors];
+  if (store?.name !== 'Downtown (edited)') {
+    failures.push(`name: expected "Downtown (edited)", got ${JSON.stringify(store?.name)}`);
+  }
+  for (const field of ['gloriafood_api_key', 'gloriafood_master_key', 'doordash_signing_secret'] as (keyof Store)[]) {
+    if (fetched[field] === STORE[field]) {
+      failures.push(`${field}: returned unredacted`);
+    }
+    if (store?.[field] !== STORE[field]) {
+      failures.push(`${field}: expected the stored value to be kept, got ${JSON.stringify(store?.[field])}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.log(chalk.red.bold('\n❌ GET -> PUT round trip of a store loses data:'));
+    failures.forEach(failure => console.log(chalk.gray(`   ${failure}`)));
+    console.log('');
+    process.exit(1);
+  }
+  console.log(chalk.green('✅ GET -> PUT round trip of a store keeps its credentials\n'));
+}
+
+main();
@@ -0,0 +1,129 @@
+import chalk from 'chalk';
+import { WebhookAuthConfig, WebhookAuthenticator, WebhookAuthRequest, WebhookAuthResult, loadWebhookAuthConfig } from './src/webhook-auth';
+
+/**
+ * Check webhook authentication: global and per-store keys, store-key scoping, key rotation and the
+ * off / log / enforce modes.
+ *
+ *   npm run verify-webhook-auth   # exits 1 and lists the cases that behave differently
+ */
+const failures: string[] = [];
+
+function config(overrides: Partial<WebhookAuthConfig> = {}): WebhookAuthConfig {
+  return {
+    mode: 'enforce',
+    keys: ['global-old', 'global-new'],
+    storeKeys: { store1: ['store1-key'], store2: ['store2-key-a', 'store2-key-b'] },
+    ...overrides,
+  };
+}
+
+function request(key: string | undefined, storeId?: string): WebhookAuthRequest {
+  return {
+    headers: key ? { 'x-api-key': key } : {},
+    body: { order: { id: 1, restaurant_id: storeId } },
+    query: {},
+  };
+}
+
+function expect(name: string, result: WebhookAuthResult, expected: Partial<WebhookAuthResult>): void {
+  for (const field of Object.keys(expected) as (keyof WebhookAuthResult)[]) {
+    if (result[field] !== expected[field]) {
+      failures.push(`${name}: expected ${field} ${JSON.stringify(expected[field])}, got ${JSON.stringify(result[field])}`);
+    }
+  }
+}
+
+function checkKeys(): void {
+  const auth = new WebhookAuthenticator(config());
+
+  // Global keys, including both keys of a rotation, work for every store and are not scoped
+  expect('old global key', auth.authenticate(request('global-old', 'store1')), { valid: true, reject: false, storeScoped: false });
+  expect('new global key', auth.authenticate(request('global-new', 'store2')), { valid: true, reject: false, storeScoped: false });
+  expect('global key without a store', auth.authenticate(request('global-new')), { valid: true, storeScoped: false });
+
+  // A store's own keys work only for that store, and scope the request to it
+  expect('store key for its store', auth.authenticate(request('store1-key', 'store1')), { valid: true, storeScoped: true, storeId: 'store1' });
+  expect('rotated store key (old)', auth.authenticate(request('store2-key-a', 'store2')), { valid: true, storeScoped: true });
+  expect('rotated store key (new)', auth.authenticate(request('store2-key-b', 'store2')), { valid: true, storeScoped: true });
+  expect('store key for another store', auth.authenticate(request('store1-key', 'store2')), { valid: false, reject: true, reason: 'Invalid credentials' });
+  expect('store key without a store', auth.authenticate(request('store1-key')), { valid: false, reject: true });
+  expect('store key on another store\'s path', auth.authenticate(request('store1-key', 'store1'), 'store2'), { valid: false, reject: true, storeId: 'store2' });
+  expect('store key on its own path', auth.authenticate(request('store1-key', 'store2'), 'store1'), { valid: true, storeScoped: true, storeId: 'store1' });
+
+  // Keys from the stores registry count as store keys
+  const registry = new WebhookAuthenticator(config({ storeKeys: {} }), storeId => storeId === 'store3' ? ['registry-key'] : []);
+  expect('registry store key', registry.authenticate(request('registry-key', 'store3')), { valid: true, storeScoped: true });
+  expect('registry store key for another store', registry.authenticate(request('registry-key', 'store1')), { valid: false, reject: true });
+
+  // Credentials in the Authorization header, the body or ?token= are accepted too
+  expect('Bearer header', auth.authenticate({ headers: { authorization: 'Bearer global-old' }, body: {} }), { valid: true });
+  expect('body api_key', auth.authenticate({ headers: {}, body: { api_key: 'global-new' } }), { valid: true });
+  expect('query token', auth.authenticate({ headers: {}, body: {}, query: { token: 'global-new' } }), { valid: true });
+  expect('one good credential among bad ones', auth.authenticate({ headers: { 'x-api-key': 'wrong' }, body: { master_key: 'global-old' } }), { valid: true });
+}
+
+function checkModes(): void {
+  const enforce = new WebhookAuthenticator(config());
+  expect('enforce: wrong key', enforce.authenticate(request('wrong', 'store1')), { valid: false, reject: true, reason: 'Invalid credentials' });
+  expect('enforce: no key', enforce.authenticate(request(undefined, 'store1')), { valid: false, reject: true, reason: 'Missing credentials' });
+
+  const log = new WebhookAuthenticator(config({ mode: 'log' }));
+  expect('log: wrong key', log.authenticate(request('wrong', 'store1')), { valid: false, reject: false, reason: 'Invalid credentials' });
+  expect('log: right key', log.authenticate(request('global-old', 'store1')), { valid: true, reject: false });
+
+  const off = new WebhookAuthenticator(config({ mode: 'off' }));
+  expect('off: no key', off.authenticate(request(undefined, 'store1')), { valid: true, reject: false });
+
+  const unconfigured = { keys: [], storeKeys: {} };
+  expect('enforce: no keys configured', new WebhookAuthenticator(config({ ...unconfigured })).authenticate(request('anything', 'store1')),
+    { valid: false, reject: true, reason: 'No webhook keys configured' });
+  expect('log: no keys configured', new WebhookAuthenticator(config({ ...unconfigured, mode: 'log' })).authenticate(request('anything', 'store1')),
+    { valid: false, reject: false, reason: 'No webhook keys configured' });
+}
+
+function checkConfig(): void {
+  process.env.WEBHOOK_API_KEYS = 'rotated-1, rotated-2';
+  process.env.WEBHOOK_STORE_KEYS = 'store1=a|b;store2=c';
+  const parsed = loadWebhookAuthConfig('api', 'master');
+  if (JSON.stringify(parsed.keys) !== JSON.stringify(['api', 'master', 'rotated-1', 'rotated-2'])) {
+    failures.push(`WEBHOOK_API_KEYS: got keys ${JSON.stringify(parsed.keys)}`);
+  }
+  if (JSON.stringify(parsed.storeKeys) !== JSON.stringify({ store1: ['a', 'b'], store2: ['c'] })) {
+    failures.push(`WEBHOOK_STORE_KEYS (list): got ${JSON.stringify(parsed.storeKeys)}`);
+  }
+
+  process.env.WEBHOOK_STORE_KEYS = '{"store1": ["a", "b"], "store2": "c"}';
+  const json = loadWebhookAuthConfig('api');
+  if (JSON.stringify(json.storeKeys) !== JSON.stringify({ store1: ['a', 'b'], store2: ['c'] })) {
+    failures.push(`WEBHOOK_STORE_KEYS (JSON): got ${JSON.stringify(json.storeKeys)}`);
+  }
+
+  process.env.WEBHOOK_STORE_KEYS = '{"store1": ["a"]';
+  try {
+    loadWebhookAuthConfig('api');
+    failures.push('malformed WEBHOOK_STORE_KEYS: expected an error');
+  } catch (error: any) {
+    if (!String(error.message).includes('WEBHOOK_STORE_KEYS')) {
+      failures.push(`malformed WEBHOOK_STORE_KEYS: error does not name the variable: ${error.message}`);
+    }
+  }
+  delete process.env.WEBHOOK_API_KEYS;
+  delete process.env.WEBHOOK_STORE_KEYS;
+}
+
+function main() {
+  checkKeys();
+  checkModes();
+  checkConfig();
+
+  if (failures.length > 0) {
+    console.log(chalk.red.bold('\n❌ Webhook authentication is broken:'));
+    failures.forEach(failure => console.log(chalk.gray(`   ${failure}`)));
+    console.log('');
+    process.exit(1);
+  }
+  console.log(chalk.green('✅ Webhook keys, store-key scoping, rotation and auth modes behave as expected\n'));
+}
+
+main();
@@ -0,0 +1,220 @@
+import * as dotenv from 'dotenv';
+import { DatabaseFactory, WebhookAuditEntry, WebhookJournalEntry } from './src/database-factory';
+import { GloriaFoodWebhookServer, loadWebhookConfig } from './src/webhook-mode';
+import chalk from 'chalk';
+
+// Load environment variables
+dotenv.config();
+
+// Helper function to handle both sync and async database results
+async function handleAsync<T>(result: T | Promise<T>): Promise<T> {
+  return result instanceof Promise ? await result : result;
+}
+
+function formatJournalStatus(status: string): string {
+  const statusColors: { [key: string]: chalk.Chalk } = {
+    'processed': chalk.green,
+    'received': chalk.yellow,
+    'invalid': chalk.yellow,
+    'partial': chalk.yellow,
+    'unauthorized': chalk.red,
+    'failed': chalk.red,
+  };
+  const colorizer = statusColors[(status || '').toLowerCase()] || chalk.white;
+  return colorizer((status || 'unknown').toUpperCase());
+}
+
+function displayEntrySummary(entry: WebhookJournalEntry): void {
+  const size = entry.raw_body ? entry.raw_body.length : 0;
+  console.log(
+    `  ${chalk.bold(`#${entry.id}`)}  ${entry.received_at}  ${formatJournalStatus(entry.status)}` +
+    `  orders: ${entry.order_ids || '-'}  ${size} bytes` +
+    (entry.replay_count ? chalk.gray(`  (replayed ${entry.replay_count}x)`) : '') +
+    (entry.error ? chalk.red(`  ${entry.error}`) : '')
+  );
+}
+
+function displayAuditEntry(entry: WebhookAuditEntry): void {
+  const outcome = entry.rejected ? chalk.red('REJECTED') : chalk.yellow(`LOGGED (${entry.auth_mode})`);
+  console.log(
+    `  ${chalk.bold(`#${entry.id}`)}  ${entry.created_at}  ${outcome}  ${entry.path}` +
+    `  store: ${entry.store_id || '-'}  ip: ${entry.source_ip || '-'}` +
+    chalk.red(`  ${entry.reason}`)
+  );
+}
+
+function displayEntry(entry: WebhookJournalEntry): void {
+  console.log(chalk.blue.bold(`\n📓 Webhook Journal Entry #${entry.id}`));
+  console.log(chalk.gray('  ════════════════════════════════════════════════════════════'));
+  console.log(`    ${chalk.bold('Received:')} ${entry.received_at}`);
+  console.log(`    ${chalk.bold('Request:')} ${entry.method} ${entry.path}`);
+  console.log(`    ${chalk.bold('Source IP:')} ${entry.source_ip || 'N/A'}`);
+  console.log(`    ${chalk.bold('Content-Type:')} ${entry.content_type || 'N/A'}`);
+  console.log(`    ${chalk.bold('Status:')} ${formatJournalStatus(entry.status)}`);
+  console.log(`    ${chalk.bold('Order IDs:')} ${entry.order_ids || 'N/A'}`);
+  if (entry.error) {
+    console.log(`    ${chalk.bold('Error:')} ${chalk.red(entry.error)}`);
+  }
+  console.log(`    ${chalk.bold('Processed:')} ${entry.processed_at || 'N/A'}`);
+  console.log(`    ${chalk.bold('Replays:')} ${entry.replay_count || 0}${entry.last_replayed_at ? ` (last ${entry.last_replayed_at})` : ''}`);
+
+  console.log(chalk.yellow.bold('\n  📨 HEADERS:'));
+  try {
+    console.log(chalk.gray(JSON.stringify(JSON.parse(entry.headers || '{}'), null, 2)));
+  } catch (e) {
+    console.log(chalk.gray(entry.headers));
+  }
+
+  if (entry.query_params) {
+    console.log(chalk.yellow.bold('\n  🔗 QUERY:'));
+    console.log(chalk.gray(entry.query_params));
+  }
+
+  console.log(chalk.yellow.bold('\n  📦 BODY:'));
+  try {
+    console.log(JSON.stringify(JSON.parse(entry.raw_body || ''), null, 2));
+  } catch (e) {
+    console.log(entry.raw_body || chalk.gray('(empty)'));
+  }
+  console.log(chalk.gray('\n  ════════════════════════════════════════════════════════════\n'));
+}
+
+function printUsage(): void {
+  console.log(chalk.yellow('\nUsage:'));
+  console.log(chalk.gray('  npm run journal -- list [--status <status>] [--limit <n>]'));
+  console.log(chalk.gray('  npm run journal -- show <id>'));
+  console.log(chalk.gray('  npm run journal -- replay <id> [<id> ...] [--force]'));
+  console.log(chalk.gray('  npm run journal -- audit [--limit <n>]\n'));
+  console.log(chalk.gray('Statuses: received, processed, partial, invalid, unauthorized, failed'));
+  console.log(chalk.gray('Invalid and unauthorized entries are only replayed with --force.\n'));
+}
+
+async function listOrShow(command: string, args: string[]): Promise<void> {
+  const database = DatabaseFactory.createDatabase();
+  try {
+    if (command === 'show') {
+      const id = parseInt(args[0], 10);
+      if (!id) {
+        printUsage();
+        process.exit(1);
+      }
+      const entry = await handleAsync(database.getWebhookJournalEntry(id));
+      if (!entry) {
+        console.error(chalk.red(`❌ Journal entry not found: #${id}\n`));
+        process.exit(1);
+      }
+      displayEntry(entry);
+      return;
+    }
+
+    const statusIndex = args.indexOf('--status');
+    const limitIndex = args.indexOf('--limit');
+    const status = statusIndex >= 0 ? args[statusIndex + 1] : undefined;
+    const limit = limitIndex >= 0 ? parseInt(args[limitIndex + 1], 10) || 50 : 50;
+
+    const entries = await handleAsync(database.getWebhookJournalEntries(limit, status));
+    console.log(chalk.blue.bold(`\n📓 Webhook Journal${status ? ` (${status})` : ''} - ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}\n`));
+    if (entries.length === 0) {
+      console.log(chalk.gray('  No journal entries found.\n'));
+      return;
+    }
+    entries.forEach(displayEntrySummary);
+    console.log('');
+  } finally {
+    const closeResult = database.close();
+    if (closeResult instanceof Promise) {
+      await closeResult;
+    }
+  }
+}
+
+async function listAudit(args: string[]): Promise<void> {
+  const limitIndex = args.indexOf('--limit');
+  const limit = limitIndex >= 0 ? parseInt(args[limitIndex + 1], 10) || 100 : 100;
+
+  const database = DatabaseFactory.createDatabase();
+  try {
+    const entries = await handleAsync(database.getWebhookAuditLog(limit));
+    console.log(chalk.blue.bold(`\n🔒 Webhook Authentication Failures - ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}\n`));
+    if (entries.length === 0) {
+      console.log(chalk.gray('  No failed authentication attempts recorded.\n'));
+      return;
+    }
+    entries.forEach(displayAuditEntry);
+    console.log('');
+  } finally {
+    const closeResult = database.close();
+    if (closeResult instanceof Promise) {
+      await closeResult;
+    }
+  }
+}
+
+async function replay(args: string[]): Promise<void> {
+  const force = args.includes('--force');
+  const ids = args.filter(arg => arg !== '--force').map(arg => parseInt(arg, 10)).filter(id => id > 0);
+  if (ids.length === 0) {
+    printUsage();
+    process.exit(1);
+  }
+
+  const apiKey = process.env.GLORIAFOOD_API_KEY || '';
+  const storeId = process.env.GLORIAFOOD_STORE_ID || '';
+
+  // Build the same server the webhook uses (without listening) so replays follow the exact same pipeline
+  const server = new GloriaFoodWebhookServer(loadWebhookConfig(apiKey, storeId));
+  let failed = 0;
+  try {
+    for (const id of ids) {
+      const result = await server.replayJournalEntry(id, force);
+      if (!result) {
+        console.error(chalk.red(`❌ Journal entry not found: #${id}`));
+        failed++;
+        continue;
+      }
+      if ('refused' in result) {
+        console.error(chalk.red(`\n❌ Entry #${id} was ${result.status} when received - not replayed (--force replays it without authentication)`));
+        failed++;
+        continue;
+      }
+      if (result.forced) {
+        console.log(chalk.yellow(`\n⚠️  Entry #${id} was ${result.forced} when received - replayed because of --force`));
+      }
+      const outcome = result.outcome === 'processed' ? chalk.green(result.outcome) : chalk.red(result.outcome);
+      console.log(`\n🔁 Entry #${id}: ${outcome}${result.orderIds.length ? ` (orders: ${result.orderIds.join(', ')})` : ''}${result.error ? chalk.red(` - ${result.error}`) : ''}`);
+      if (result.outcome !== 'processed') {
+        failed++;
+      }
+    }
+  } finally {
+    await server.stop();
+  }
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'list':
+    case 'show':
+      await listOrShow(command, args);
+      break;
+    case 'replay':
+      await replay(args);
+      break;
+    case 'audit':
+      await listAudit(args);
+      break;
+    default:
+      printUsage();
+      process.exit(command ? 1 : 0);
+  }
+}
+
+main().catch(error => {
+  console.error(chalk.red.bold('\n❌ Fatal Error:'), error);
+  process.exit(1);
+});